@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_KEY, isLocale, translate, type Locale } from '@/lib/i18n';
+
+/**
+ * 保存した表示言語を読み込み、変更したら保存する（点数計算・○×ゲームで共通）
+ */
+export const useLocale = (): [Locale, (locale: Locale) => void] => {
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(LOCALE_KEY);
+      if (isLocale(stored)) {
+        setLocale(stored);
+      }
+    } catch {
+      // 読み込めない場合は既定の言語のまま
+    }
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const updateLocale = (next: Locale) => {
+    setLocale(next);
+    try {
+      localStorage.setItem(LOCALE_KEY, next);
+    } catch {
+      // 保存できない場合もこの画面では切り替える
+    }
+  };
+
+  return [locale, updateLocale];
+};
+
+type LocaleSelectProps = {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+};
+
+const LocaleSelect = ({ locale, onChange }: LocaleSelectProps) => (
+  <select
+    value={locale}
+    onChange={(e) => onChange(e.target.value as Locale)}
+    aria-label={translate(locale, 'common.language')}
+  >
+    {LOCALES.map(item => (
+      <option key={item.id} value={item.id}>{item.label}</option>
+    ))}
+  </select>
+);
+
+export default LocaleSelect;
@@ -0,0 +1,53 @@
+'use client';
+
+import { createTranslator, type Locale } from '@/lib/i18n';
+import type { McrResult as McrCalculation } from '@/lib/mcr';
+
+type McrResultProps = {
+  result: McrCalculation;
+  locale: Locale;
+};
+
+/**
+ * 中国麻雀の計算結果（番数・支払い・成立番種）
+ */
+const McrResult = ({ result, locale }: McrResultProps) => {
+  const t = createTranslator(locale);
+  const { payment } = result;
+
+  return (
+    <div>
+      <div className="result-box">
+        <div className="result-row">
+          <span className="result-label">{t('app.mcr.fan')}</span>
+          <span className="result-value">{t('mcr.fan', { fan: result.fan })}</span>
+        </div>
+        <div className="result-row">
+          <span className="result-label">{t('app.mcr.payment')}</span>
+          <span className="result-value">
+            {payment.discarder === null
+              ? t('app.mcr.paymentTsumo', { others: payment.others })
+              : t('app.mcr.paymentRon', { discarder: payment.discarder, others: payment.others })}
+          </span>
+        </div>
+        <div className="result-row">
+          <span className="result-label">{t('app.mcr.total')}</span>
+          <span className="result-value">{t('score.points', { points: payment.total })}</span>
+        </div>
+      </div>
+      <div className="yaku-list">
+        <div style={{ fontWeight: 'bold', marginBottom: '10px', color: '#667eea', fontSize: '1.1em' }}>
+          {t('app.mcr.fans')}
+        </div>
+        {result.fans.map(fan => (
+          <div key={fan.id} className="yaku-item">
+            <span>{fan.count > 1 ? t('app.mcr.fanCount', { name: fan.name, count: fan.count }) : fan.name}</span>
+            <span>{t('mcr.fan', { fan: fan.fan })}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default McrResult;
@@ -0,0 +1,83 @@
+'use client';
+
+import { isRedFive, sortHand, type Meld, type MeldSource, type Tile } from '@/lib/mahjong';
+import TileFace from './TileFace';
+import TileBack from './TileBack';
+
+type MeldSlot = {
+  tile: Tile;
+  isCalled: boolean;
+  isHidden: boolean;
+  addedTile?: Tile;
+};
+
+// 鳴いた牌を横にする位置（上家は左端、対面は左から2枚目、下家は右端）
+const getCalledPosition = (from: MeldSource, length: number) =>
+  from === 'kamicha' ? 0 : from === 'toimen' ? 1 : length - 1;
+
+const toSlot = (tile: Tile): MeldSlot => ({ tile, isCalled: false, isHidden: false });
+
+const buildMeldSlots = (meld: Meld): MeldSlot[] => {
+  if (meld.type === 'ankan') {
+    // 両端を伏せる。赤五は見える位置に置く
+    const reds = meld.tiles.filter(isRedFive);
+    const others = meld.tiles.filter(tile => !isRedFive(tile));
+    const ordered = others.length > 0 ? [others[0], ...reds, ...others.slice(1)] : reds;
+    return ordered.map((tile, index) => ({ ...toSlot(tile), isHidden: index === 0 || index === ordered.length - 1 }));
+  }
+
+  const calledIndex = meld.calledTile ? meld.tiles.indexOf(meld.calledTile) : -1;
+  if (!meld.from || calledIndex === -1) {
+    return sortHand(meld.tiles).map(toSlot);
+  }
+
+  const rest = sortHand(meld.tiles.filter((_, index) => index !== calledIndex));
+  // 加槓は加えた牌を鳴いた牌の上に重ねる
+  const addedTile = meld.type === 'kakan' ? rest.pop() : undefined;
+  const slots = rest.map(toSlot);
+  slots.splice(getCalledPosition(meld.from, slots.length + 1), 0, {
+    tile: meld.calledTile as Tile,
+    isCalled: true,
+    isHidden: false,
+    addedTile
+  });
+  return slots;
+};
+
+const tileClassName = (tile: Tile, isCalled: boolean) =>
+  `hand-tile${isCalled ? ' hand-tile--called' : ''}${isRedFive(tile) ? ' hand-tile--red' : ''}`;
+
+/**
+ * 鳴いた面子を卓上と同じ並びで表示する（鳴いた牌は横向き）
+ */
+const MeldTiles = ({ meld }: { meld: Meld }) => (
+  <div className="meld-tiles">
+    {buildMeldSlots(meld).map((slot, index) => {
+      if (slot.isHidden) {
+        return (
+          <div key={index} className="hand-tile" style={{ fontSize: '14px' }}>
+            <TileBack />
+          </div>
+        );
+      }
+      const face = (
+        <div key={index} className={tileClassName(slot.tile, slot.isCalled)} style={{ fontSize: '14px' }}>
+          <TileFace tile={slot.tile} />
+        </div>
+      );
+      if (!slot.addedTile) {
+        return face;
+      }
+      return (
+        <div key={index} className="meld-called-stack">
+          {face}
+          <div className={tileClassName(slot.addedTile, true)} style={{ fontSize: '14px' }}>
+            <TileFace tile={slot.addedTile} />
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default MeldTiles;
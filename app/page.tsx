@@ -1,38 +1,49 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
-  TILES,
-  TILE_DISPLAY,
+  getTiles,
+  getDoraFromIndicator,
+  formatTileName,
   sortHand,
+  isRedFive,
+  normalizeTile,
   calculateScore,
+  validateAgari,
+  validateMeld,
+  getTenpaiWaits,
+  DEFAULT_RULE_SET,
+  LOCAL_YAKU_DEFINITIONS,
+  getYakuDefinitions,
+  type YakuDefinition,
+  type LocalYakuId,
+  type RuleSet,
+  type MultiRonRule,
+  type SanmaTsumoRule,
   type Tile,
   type Meld,
   type MeldType,
+  type MeldSource,
   type AgariOptions,
   type CalculationResult
 } from '@/lib/mahjong';
+import { compileCustomYaku, parseCustomYakuJson } from '@/lib/customYaku';
+import { RULE_PRESETS, applyRulePreset, findRulePresetId, getRulePreset, type RulePresetId } from '@/lib/rulePresets';
+import { parseHandNotation, type NotationError } from '@/lib/notation';
+import { calculateMcrScore, MCR_FAN_DEFINITIONS, MCR_MAX_FLOWERS, type McrResult as McrCalculation } from '@/lib/mcr';
+import { createTranslator, localizeDescription, localizeName, type MessageKey } from '@/lib/i18n';
 import Link from 'next/link';
 import TileFace from './components/TileFace';
-import TileBack from './components/TileBack';
-const HONOR_INPUT_MAP: Record<string, Tile> = {
-  ton: '東',
-  nan: '南',
-  sha: '西',
-  pei: '北',
-  haku: '白',
-  hatsu: '發',
-  chun: '中'
-};
-
+import MeldTiles from './components/MeldTiles';
+import McrResult from './components/McrResult';
+import LocaleSelect, { useLocale } from './components/LocaleSelect';
 const RED_TILES = [
-  { tile: '5m', suit: 'man', label: '赤5m' },
-  { tile: '5p', suit: 'pin', label: '赤5p' },
-  { tile: '5s', suit: 'sou', label: '赤5s' }
+  { tile: '0m', suit: 'man' },
+  { tile: '0p', suit: 'pin' },
+  { tile: '0s', suit: 'sou' }
 ] as const;
 
 type RedSuit = (typeof RED_TILES)[number]['suit'];
-type ParsedTile = { num: number; suit: string } | null;
 
 interface HistoryEntry {
   id: string;
@@ -41,56 +52,116 @@ interface HistoryEntry {
   winningTile: Tile;
   options: AgariOptions;
   result: CalculationResult;
+}
+
+// 赤五を真偽値の配列で持っていた旧形式の履歴
+interface LegacyHistoryEntry extends HistoryEntry {
   redHandFlags?: boolean[];
   redMeldFlags?: boolean[][];
   redWinningFlag?: boolean;
 }
 
+const toRedTile = (tile: Tile, isRed?: boolean): Tile => (isRed && tile[0] === '5' ? `0${tile[1]}` : tile);
+
+const migrateHistoryEntry = ({ redHandFlags, redMeldFlags, redWinningFlag, ...entry }: LegacyHistoryEntry): HistoryEntry => ({
+  ...entry,
+  hand: entry.hand.map((tile, index) => toRedTile(tile, redHandFlags?.[index])),
+  winningTile: toRedTile(entry.winningTile, redWinningFlag),
+  options: {
+    ...entry.options,
+    melds: entry.options.melds?.map((meld, meldIndex) => ({
+      ...meld,
+      tiles: meld.tiles.map((tile, index) => toRedTile(tile, redMeldFlags?.[meldIndex]?.[index]))
+    }))
+  }
+});
+
 const HISTORY_KEY = 'mahjong-history';
+const RULES_KEY = 'mahjong-rules';
 
-const getMeldTileCount = (meldList: Meld[]): number =>
-  meldList.reduce((sum, meld) => sum + (meld.tiles.length === 4 ? 3 : meld.tiles.length), 0);
+// 赤五の枚数の選択肢（キーは萬子・筒子・索子の枚数）
+const RED_FIVE_OPTIONS = [
+  { value: '000', label: 'app.rules.redFives.none', counts: { man: 0, pin: 0, sou: 0 } },
+  { value: '111', label: 'app.rules.redFives.three', counts: { man: 1, pin: 1, sou: 1 } },
+  { value: '121', label: 'app.rules.redFives.four', counts: { man: 1, pin: 2, sou: 1 } }
+] as const;
 
-const normalizeTileCode = (value: string): Tile | null => {
-  const raw = value.trim();
-  if (!raw) return null;
-  const lower = raw.toLowerCase();
+const HONBA_VALUE_OPTIONS = [300, 600, 1500];
 
-  if (HONOR_INPUT_MAP[lower]) {
-    return HONOR_INPUT_MAP[lower];
-  }
+// ウマの選択肢（2・3着と1・4着の千点数）
+const UMA_OPTIONS: [number, number][] = [[5, 10], [5, 15], [10, 20], [10, 30], [20, 30]];
 
-  const kanaMap: Record<string, Tile> = {
-    '東': '東',
-    '南': '南',
-    '西': '西',
-    '北': '北',
-    '白': '白',
-    '發': '發',
-    '中': '中'
-  };
-  if (kanaMap[raw]) {
-    return kanaMap[raw];
-  }
+const POINTS_OPTIONS = [
+  { startingPoints: 25000, returnPoints: 30000 },
+  { startingPoints: 25000, returnPoints: 25000 },
+  { startingPoints: 30000, returnPoints: 30000 }
+];
 
-  if (/^[1-9][mps]$/i.test(lower)) {
-    return `${lower[0]}${lower[1]}` as Tile;
-  }
+type Translate = ReturnType<typeof createTranslator>;
 
-  return null;
+const formatYakuDefinitionHan = (definition: YakuDefinition, t: Translate): string => {
+  if (definition.yakuman) {
+    return t(definition.han >= 2 ? 'limit.doubleYakuman' : 'limit.yakuman');
+  }
+  if (definition.menzenOnly) {
+    return t('app.yakuList.menzenOnly', { han: definition.han });
+  }
+  if (definition.openHan !== undefined && definition.openHan !== definition.han) {
+    return t('app.yakuList.openHan', { han: definition.han, openHan: definition.openHan });
+  }
+  return t('common.han', { han: definition.han });
 };
 
+const MELD_TYPES: MeldType[] = ['chii', 'pon', 'minkan', 'kakan', 'ankan'];
+
+const MELD_SOURCES: MeldSource[] = ['kamicha', 'toimen', 'shimocha'];
+
+const getRequiredMeldTiles = (type: MeldType) => (type === 'chii' || type === 'pon' ? 3 : 4);
+
+const getMeldTileCount = (meldList: Meld[]): number =>
+  meldList.reduce((sum, meld) => sum + (meld.tiles.length === 4 ? 3 : meld.tiles.length), 0);
+
 const cloneOptionsForHistory = (options: AgariOptions): AgariOptions => ({
   ...options,
-  melds: options.melds ? options.melds.map(meld => ({ type: meld.type, tiles: [...meld.tiles] })) : undefined,
+  melds: options.melds ? options.melds.map(meld => ({ ...meld, tiles: [...meld.tiles] })) : undefined,
   doraTiles: options.doraTiles ? [...options.doraTiles] : [],
   uraDoraTiles: options.uraDoraTiles ? [...options.uraDoraTiles] : [],
-  redDora: options.redDora ? { ...options.redDora } : undefined,
   kyotaku: options.kyotaku ?? 0,
   honba: options.honba ?? 0,
 });
 
-const formatBooleanOption = (value?: boolean) => (value ? 'あり' : 'なし');
+const WINDS = ['ton', 'nan', 'sha', 'pei'] as const;
+
+const SANMA_TSUMO_RULES: SanmaTsumoRule[] = ['tsumoLoss', 'northBisection'];
+
+const MULTI_RON_RULES: MultiRonRule[] = ['all', 'atamahane'];
+
+type ScoringMode = 'riichi' | 'mcr';
+
+const SCORING_MODES: ScoringMode[] = ['riichi', 'mcr'];
+
+const formatBooleanOption = (t: Translate, value?: boolean) => t(value ? 'common.yes' : 'common.no');
+
+// 和了条件の一覧表示（情報パネルと履歴で共通）
+const formatOptionRows = (t: Translate, options: Omit<AgariOptions, 'bakaze' | 'jikaze'>) => [
+  { label: t('common.winType'), value: t(options.isTsumo ? 'common.tsumo' : 'common.ron') },
+  { label: t('common.riichi'), value: formatBooleanOption(t, options.isRiichi) },
+  { label: t('app.options.doubleRiichi'), value: formatBooleanOption(t, options.isDoubleRiichi) },
+  { label: t('app.options.ippatsu'), value: formatBooleanOption(t, options.isIppatsu) },
+  { label: t('app.info.menzen'), value: formatBooleanOption(t, options.isMenzen) },
+  { label: t('common.oya'), value: formatBooleanOption(t, options.isOya) },
+  { label: t('app.info.haitei'), value: formatBooleanOption(t, options.isHaitei) },
+  { label: t('app.info.houtei'), value: formatBooleanOption(t, options.isHoutei) },
+  { label: t('app.info.rinshan'), value: formatBooleanOption(t, options.isRinshan) },
+  { label: t('app.options.chankan'), value: formatBooleanOption(t, options.isChankan) },
+  { label: t('app.options.nagashiMangan'), value: formatBooleanOption(t, options.isNagashiMangan) },
+  { label: t('app.options.kyotaku'), value: options.kyotaku ?? 0 },
+  { label: t('app.options.honba'), value: options.honba ?? 0 },
+  ...(options.nukidora ? [{ label: t('app.options.nukidora'), value: options.nukidora }] : [])
+];
+
+const formatYakuSummary = (t: Translate, yaku: CalculationResult['yaku']) =>
+  yaku.map(y => t('common.yakuWithHan', { name: y.name, han: y.han })).join(t('common.listSeparator'));
 
 const logClientError = (message: string, error: unknown) => {
   if (process.env.NODE_ENV !== 'production') {
@@ -113,6 +184,8 @@ export default function Home() {
   const [melds, setMelds] = useState<Meld[]>([]);
   const [meldInput, setMeldInput] = useState<Tile[]>([]);
   const [meldType, setMeldType] = useState<MeldType>('chii');
+  const [meldFrom, setMeldFrom] = useState<MeldSource>('kamicha');
+  const [calledTileIndex, setCalledTileIndex] = useState<number>(0);
   const [isTenhou, setIsTenhou] = useState<boolean>(false);
   const [isChiihou, setIsChiihou] = useState<boolean>(false);
   const [isHaitei, setIsHaitei] = useState<boolean>(false);
@@ -120,91 +193,58 @@ export default function Home() {
   const [isRinshan, setIsRinshan] = useState<boolean>(false);
   const [isChankan, setIsChankan] = useState<boolean>(false);
   const [isNagashiMangan, setIsNagashiMangan] = useState<boolean>(false);
+  const [isRenhou, setIsRenhou] = useState<boolean>(false);
+  const [isOpenRiichi, setIsOpenRiichi] = useState<boolean>(false);
+  const [isTsubameGaeshi, setIsTsubameGaeshi] = useState<boolean>(false);
+  const [isFirstDraw, setIsFirstDraw] = useState<boolean>(false);
+  const [dealerWinStreak, setDealerWinStreak] = useState<number>(0);
   const [doraTiles, setDoraTiles] = useState<Tile[]>([]);
   const [uraDoraTiles, setUraDoraTiles] = useState<Tile[]>([]);
   const [kyotakuCount, setKyotakuCount] = useState<number>(0);
   const [honbaCount, setHonbaCount] = useState<number>(0);
+  const [nukidoraCount, setNukidoraCount] = useState<number>(0);
+  const [scoringMode, setScoringMode] = useState<ScoringMode>('riichi');
+  const [mcrResult, setMcrResult] = useState<McrCalculation | null>(null);
+  const [flowerCount, setFlowerCount] = useState<number>(0);
+  const [isLastTile, setIsLastTile] = useState<boolean>(false);
   const [tileSelectMode, setTileSelectMode] = useState<'hand' | 'meld' | 'dora' | 'ura'>('hand');
-  const [redHandFlags, setRedHandFlags] = useState<boolean[]>([]);
-  const [redMeldInputFlags, setRedMeldInputFlags] = useState<boolean[]>([]);
-  const [redMeldFlags, setRedMeldFlags] = useState<boolean[][]>([]);
-  const [redWinningFlag, setRedWinningFlag] = useState<boolean>(false);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
   const [activeHistoryTab, setActiveHistoryTab] = useState<'hand' | 'options' | 'result'>('hand');
-  const [activeInfoTab, setActiveInfoTab] = useState<'hand' | 'options' | 'result'>('hand');
+  const [activeInfoTab, setActiveInfoTab] = useState<'hand' | 'options' | 'result' | 'yaku'>('hand');
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULE_SET);
+  const [notationText, setNotationText] = useState<string>('');
+  const [notationError, setNotationError] = useState<NotationError | null>(null);
+  const [locale, setLocale] = useLocale();
+  const t = createTranslator(locale);
+  const isMcr = scoringMode === 'mcr';
 
   const getAllSelectedTiles = (options?: { includeWinningTile?: boolean }) => {
     const tiles: Tile[] = [...hand];
     melds.forEach(meld => tiles.push(...meld.tiles));
     tiles.push(...meldInput);
+    // 抜いた北とドラ表示牌も牌の上限に含める
+    tiles.push(...Array<Tile>(isMcr ? 0 : nukidoraCount).fill('北'));
+    if (!isMcr) {
+      tiles.push(...doraTiles, ...(riichi ? uraDoraTiles : []));
+    }
     if (winningTile && options?.includeWinningTile !== false) {
       tiles.push(winningTile);
     }
     return tiles;
   };
 
+  // 赤五は通常の五と合わせて数える
   const getTileCount = (tile: Tile, options?: { includeWinningTile?: boolean }) =>
-    getAllSelectedTiles(options).filter(t => t === tile).length;
-
-  const parseTile = (tile: Tile): ParsedTile => {
-    if (tile.length !== 2) return null;
-    const num = parseInt(tile[0], 10);
-    if (Number.isNaN(num)) return null;
-    return { num, suit: tile[1] };
-  };
+    getAllSelectedTiles(options).filter(t => normalizeTile(t) === normalizeTile(tile)).length;
 
-  const isValidMeld = (type: MeldType, tiles: Tile[]) => {
-    if (type === 'pon') {
-      return tiles.length === 3 && tiles.every(tile => tile === tiles[0]);
-    }
-    if (type === 'minkan' || type === 'ankan') {
-      return tiles.length === 4 && tiles.every(tile => tile === tiles[0]);
-    }
-    if (type !== 'chii') return false;
-    if (tiles.length !== 3) return false;
-    const parsed = tiles.map(parseTile);
-    if (parsed.some(item => !item)) return false;
-    const suits = new Set(parsed.map(item => item!.suit));
-    if (suits.size !== 1) return false;
-    const numbers = parsed.map(item => item!.num).sort((a, b) => a - b);
-    return numbers[0] + 1 === numbers[1] && numbers[1] + 1 === numbers[2];
-  };
-
-  const sortHandWithFlags = (tiles: Tile[], flags: boolean[]) => {
-    const combined = tiles.map((tile, index) => ({ tile, isRed: flags[index] ?? false }));
-    const sortedTiles = sortHand(tiles);
-    const used = new Array(combined.length).fill(false);
-    const sortedFlags: boolean[] = [];
-
-    sortedTiles.forEach(tile => {
-      const matchIndex = combined.findIndex((item, index) => !used[index] && item.tile === tile);
-      if (matchIndex >= 0) {
-        used[matchIndex] = true;
-        sortedFlags.push(combined[matchIndex].isRed);
-      } else {
-        sortedFlags.push(false);
-      }
-    });
-
-    return { tiles: sortedTiles, flags: sortedFlags };
-  };
-
-  const hasRedSelection = useCallback((suit: RedSuit) => {
-    const targetTile: Tile = suit === 'man' ? '5m' : suit === 'pin' ? '5p' : '5s';
-    const inHand = redHandFlags.some((isRed, index) => isRed && hand[index] === targetTile);
-    const inWinning = redWinningFlag && winningTile === targetTile;
-    const inMeldInput = redMeldInputFlags.some((isRed, index) => isRed && meldInput[index] === targetTile);
-    const inMelds = redMeldFlags.some((flags, meldIndex) =>
-      flags?.some((isRed, tileIndex) => isRed && melds[meldIndex]?.tiles[tileIndex] === targetTile)
-    );
-    return inHand || inWinning || inMeldInput || inMelds;
-  }, [hand, melds, meldInput, winningTile, redHandFlags, redMeldInputFlags, redMeldFlags, redWinningFlag]);
+  // ルールで定められた赤五の枚数に達しているか
+  const isRedLimitReached = (tile: Tile, suit: RedSuit) =>
+    getAllSelectedTiles().filter(t => t === tile).length >= rules.redFives[suit];
 
   const exceedsTileLimit = (tile: Tile, options?: { includeWinningTile?: boolean }) => {
-    const count = getAllSelectedTiles(options).filter(t => t === tile).length;
-    if (count >= 4) {
-      setError('同じ牌は4枚まで選択できます');
+    if (getTileCount(tile, options) >= 4) {
+      setError(t('app.error.tileLimit'));
       return true;
     }
     return false;
@@ -215,16 +255,19 @@ export default function Home() {
     const setter = type === 'dora' ? setDoraTiles : setUraDoraTiles;
 
     if (type === 'ura' && !riichi) {
-      setError('裏ドラはリーチ時のみ設定できます');
+      setError(t('app.error.uraDoraWithoutRiichi'));
       return;
     }
 
     if (target.length >= 4) {
-      setError('各ドラは最大4枚まで設定できます');
+      setError(t('app.error.doraLimit'));
       return;
     }
 
-    setter([...target, tile]);
+    if (exceedsTileLimit(tile)) return;
+
+    // 表示牌は赤でも通常の五として扱う
+    setter([...target, normalizeTile(tile)]);
     setError('');
   };
 
@@ -245,10 +288,7 @@ export default function Home() {
       hand: [...hand],
       winningTile,
       options: cloneOptionsForHistory(optionsSnapshot),
-      result: calcResult,
-      redHandFlags: [...redHandFlags],
-      redMeldFlags: redMeldFlags.map(flags => [...flags]),
-      redWinningFlag
+      result: calcResult
     };
     setHistory(prev => {
       const updated = [entry, ...prev];
@@ -268,32 +308,6 @@ export default function Home() {
 
   const isMenzen = !melds.some(meld => meld.type !== 'ankan');
 
-  // 鳴きの状態に応じてリーチを制御（暗槓は門前扱い）
-  useEffect(() => {
-    const hasOpenMeld = melds.some(meld => meld.type !== 'ankan');
-    if (hasOpenMeld) {
-      if (riichi) {
-        setRiichi(false);
-      }
-      if (isDoubleRiichi) {
-        setIsDoubleRiichi(false);
-      }
-      if (ippatsu) {
-        setIppatsu(false);
-      }
-    }
-  }, [melds, riichi, isDoubleRiichi, ippatsu]);
-
-  useEffect(() => {
-    if (agariType === 'tsumo') {
-      if (isHoutei) setIsHoutei(false);
-      if (isChankan) setIsChankan(false);
-    } else {
-      if (isHaitei) setIsHaitei(false);
-      if (isRinshan) setIsRinshan(false);
-    }
-  }, [agariType, isHaitei, isHoutei, isRinshan, isChankan]);
-
   useEffect(() => {
     if (!riichi && tileSelectMode === 'ura') {
       setTileSelectMode('dora');
@@ -305,8 +319,8 @@ export default function Home() {
     try {
       const stored = localStorage.getItem(HISTORY_KEY);
       if (stored) {
-        const parsed: HistoryEntry[] = JSON.parse(stored);
-        setHistory(parsed);
+        const parsed: LegacyHistoryEntry[] = JSON.parse(stored);
+        setHistory(parsed.map(migrateHistoryEntry));
       }
     } catch (e) {
       logClientError('Failed to load history from localStorage', e);
@@ -322,82 +336,104 @@ export default function Home() {
     }
   }, [history]);
 
-  const addTileToHand = (tile: Tile): boolean => {
-    const meldTileCount = getMeldTileCount(melds);
-    const maxHandSize = 14 - meldTileCount - 1;
-
-    if (hand.length >= maxHandSize) {
-      if (exceedsTileLimit(tile, { includeWinningTile: false })) {
-        return false;
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(RULES_KEY);
+      if (stored) {
+        const parsed: Partial<RuleSet> = JSON.parse(stored);
+        setRules({ ...DEFAULT_RULE_SET, ...parsed });
       }
-      setWinningTile(tile);
-      setRedWinningFlag(false);
-      setError('');
-      return true;
+    } catch (e) {
+      logClientError('Failed to load rules from localStorage', e);
     }
-    if (exceedsTileLimit(tile)) {
-      return false;
+  }, []);
+
+  const activePresetId = findRulePresetId(rules);
+
+  const handleCustomYakuFile = async (file: File | undefined) => {
+    if (!file) return;
+    const parsed = parseCustomYakuJson(await file.text(), locale);
+    if ('error' in parsed) {
+      setError(t('app.error.customYaku', { error: parsed.error }));
+      return;
     }
-    const sorted = sortHandWithFlags([...hand, tile], [...redHandFlags, false]);
-    setHand(sorted.tiles);
-    setRedHandFlags(sorted.flags);
+    updateRules({ customYaku: parsed });
     setError('');
-    return true;
   };
 
-  const addTileToMeld = (tile: Tile): boolean => {
-    const requiredTiles = meldType === 'ankan' || meldType === 'minkan' ? 4 : 3;
-    if (meldInput.length < requiredTiles) {
-      if (exceedsTileLimit(tile)) {
-        return false;
-      }
-      setMeldInput([...meldInput, tile]);
-      setRedMeldInputFlags([...redMeldInputFlags, false]);
-      setError('');
-      return true;
+  const isLocalYakuEnabled = (id: LocalYakuId) => Boolean(rules.localYaku[id]?.enabled);
+
+  const updateLocalYaku = (id: LocalYakuId, patch: { enabled?: boolean; han?: number }) => {
+    const definition = LOCAL_YAKU_DEFINITIONS.find(item => item.id === id);
+    const current = rules.localYaku[id] ?? { enabled: false, han: definition?.defaultHan ?? 1 };
+    updateRules({ localYaku: { ...rules.localYaku, [id]: { ...current, ...patch } } });
+  };
+
+  const updateRules = (patch: Partial<RuleSet>) => {
+    const next = { ...rules, ...patch };
+    setRules(next);
+    try {
+      localStorage.setItem(RULES_KEY, JSON.stringify(next));
+    } catch (e) {
+      logClientError('Failed to save rules to localStorage', e);
     }
-    return false;
   };
 
-  const addRedTileToHand = (tile: Tile, suit: RedSuit) => {
-    if (hasRedSelection(suit)) {
-      setError(`${TILE_DISPLAY[tile]}は1枚まで選択できます`);
-      return;
+  // 三人麻雀には北家がなく、四人麻雀では北を抜かない
+  const changePlayers = (players: RuleSet['players']) => {
+    updateRules({ players });
+    if (players === 3 && jikaze === 'pei') {
+      setJikaze('ton');
+    }
+    if (players === 4) {
+      setNukidoraCount(0);
+    }
+    setResult(null);
+  };
+
+  // 計算方式を切り替えたら前の結果は消す（中国麻雀にドラはない）
+  const changeScoringMode = (mode: ScoringMode) => {
+    setScoringMode(mode);
+    setResult(null);
+    setMcrResult(null);
+    setError('');
+    if (mode === 'mcr' && (tileSelectMode === 'dora' || tileSelectMode === 'ura')) {
+      setTileSelectMode('hand');
     }
+  };
+
+  const addTileToHand = (tile: Tile): boolean => {
     const meldTileCount = getMeldTileCount(melds);
     const maxHandSize = 14 - meldTileCount - 1;
+
     if (hand.length >= maxHandSize) {
       if (exceedsTileLimit(tile, { includeWinningTile: false })) {
-        return;
+        return false;
       }
       setWinningTile(tile);
-      setRedWinningFlag(true);
       setError('');
-      return;
+      return true;
     }
     if (exceedsTileLimit(tile)) {
-      return;
+      return false;
     }
-    const sorted = sortHandWithFlags([...hand, tile], [...redHandFlags, true]);
-    setHand(sorted.tiles);
-    setRedHandFlags(sorted.flags);
+    setHand(sortHand([...hand, tile]));
     setError('');
+    return true;
   };
 
-  const addRedTileToMeld = (tile: Tile, suit: RedSuit) => {
-    if (hasRedSelection(suit)) {
-      setError(`${TILE_DISPLAY[tile]}は1枚まで選択できます`);
-      return;
-    }
-    const requiredTiles = meldType === 'ankan' || meldType === 'minkan' ? 4 : 3;
+  const addTileToMeld = (tile: Tile): boolean => {
+    const requiredTiles = getRequiredMeldTiles(meldType);
     if (meldInput.length < requiredTiles) {
       if (exceedsTileLimit(tile)) {
-        return;
+        return false;
       }
       setMeldInput([...meldInput, tile]);
-      setRedMeldInputFlags([...redMeldInputFlags, true]);
       setError('');
+      return true;
     }
+    return false;
   };
 
   const handleTileSelect = (tile: Tile) => {
@@ -417,50 +453,38 @@ export default function Home() {
   };
 
   const handleRedTileSelect = (tile: Tile, suit: RedSuit) => {
-    if (tileSelectMode === 'meld') {
-      addRedTileToMeld(tile, suit);
+    if ((tileSelectMode === 'hand' || tileSelectMode === 'meld') && isRedLimitReached(tile, suit)) {
+      setError(t('app.error.redFiveLimit', { tile: formatTileName(tile, locale), count: rules.redFives[suit] }));
       return;
     }
-    if (tileSelectMode === 'dora') {
-      addDoraTileValue('dora', tile);
-      return;
-    }
-    if (tileSelectMode === 'ura') {
-      addDoraTileValue('ura', tile);
-      return;
-    }
-    addRedTileToHand(tile, suit);
+    handleTileSelect(tile);
   };
 
   const removeTileFromMeld = (index: number) => {
     const newMeldInput = [...meldInput];
     newMeldInput.splice(index, 1);
     setMeldInput(newMeldInput);
-    const newRedFlags = [...redMeldInputFlags];
-    newRedFlags.splice(index, 1);
-    setRedMeldInputFlags(newRedFlags);
+    setCalledTileIndex(0);
   };
 
   const addMeld = () => {
-    const requiredTiles = meldType === 'ankan' || meldType === 'minkan' ? 4 : 3;
-    if (meldInput.length !== requiredTiles) {
-      setError(`${requiredTiles}枚の牌を選択してください`);
+    // チーは上家からのみ。暗槓は鳴いた牌を持たない
+    const meld: Meld = meldType === 'ankan'
+      ? { type: meldType, tiles: meldInput }
+      : {
+        type: meldType,
+        tiles: meldInput,
+        calledTile: meldInput[Math.min(calledTileIndex, meldInput.length - 1)],
+        from: meldType === 'chii' ? 'kamicha' : meldFrom
+      };
+    const issue = validateMeld(meld, locale);
+    if (issue) {
+      setError(issue.message);
       return;
     }
-    if (!isValidMeld(meldType, meldInput)) {
-      if (meldType === 'chii') {
-        setError('チーは同一種の連続した3枚で選択してください');
-      } else if (meldType === 'pon') {
-        setError('ポンは同一牌3枚で選択してください');
-      } else {
-        setError('カンは同一牌4枚で選択してください');
-      }
-      return;
-    }
-    setMelds([...melds, { type: meldType, tiles: meldInput }]);
-    setRedMeldFlags([...redMeldFlags, [...redMeldInputFlags]]);
+    setMelds([...melds, meld]);
     setMeldInput([]);
-    setRedMeldInputFlags([]);
+    setCalledTileIndex(0);
     setError('');
   };
 
@@ -468,14 +492,10 @@ export default function Home() {
     const newMelds = [...melds];
     newMelds.splice(index, 1);
     setMelds(newMelds);
-    const newRedMelds = [...redMeldFlags];
-    newRedMelds.splice(index, 1);
-    setRedMeldFlags(newRedMelds);
   };
 
   const setWinningTileHandler = (tile: Tile) => {
     setWinningTile(tile);
-    setRedWinningFlag(false);
     setError('');
   };
 
@@ -483,23 +503,21 @@ export default function Home() {
     const newHand = [...hand];
     newHand.splice(index, 1);
     setHand(newHand);
-    const newRedFlags = [...redHandFlags];
-    newRedFlags.splice(index, 1);
-    setRedHandFlags(newRedFlags);
   };
 
   const removeWinningTile = () => {
     setWinningTile(null);
-    setRedWinningFlag(false);
   };
 
   const clearAll = () => {
     setHand([]);
     setWinningTile(null);
+    setNotationError(null);
     setResult(null);
     setError('');
     setMelds([]);
     setMeldInput([]);
+    setCalledTileIndex(0);
     setAgariType('tsumo');
     setBakaze('ton');
     setJikaze('ton');
@@ -514,40 +532,75 @@ export default function Home() {
     setIsRinshan(false);
     setIsChankan(false);
     setIsNagashiMangan(false);
+    setIsRenhou(false);
+    setIsOpenRiichi(false);
+    setIsTsubameGaeshi(false);
+    setIsFirstDraw(false);
+    setDealerWinStreak(0);
+    setNukidoraCount(0);
     setDoraTiles([]);
     setUraDoraTiles([]);
-    setRedHandFlags([]);
-    setRedMeldInputFlags([]);
-    setRedMeldFlags([]);
-    setRedWinningFlag(false);
+    setMcrResult(null);
+    setFlowerCount(0);
+    setIsLastTile(false);
   };
 
-  const getDoraFromIndicator = (tile: Tile): Tile => {
-    if (tile.length === 2) {
-      const num = parseInt(tile[0], 10);
-      const suit = tile[1];
-      const next = num === 9 ? 1 : num + 1;
-      return `${next}${suit}` as Tile;
+  // 貼り付けた牌姿を手牌・鳴き・和了牌・表示ドラにまとめて反映する
+  const applyNotation = () => {
+    const parsed = parseHandNotation(notationText, locale);
+    if ('error' in parsed) {
+      setNotationError(parsed);
+      return;
     }
-    const honorOrder: Tile[] = ['東', '南', '西', '北', '白', '發', '中'];
-    const index = honorOrder.indexOf(tile);
-    if (index === -1) return tile;
-    return honorOrder[(index + 1) % honorOrder.length];
-  };
+    const wholeText = (message: string) => setNotationError({ error: message, start: 0, end: notationText.length });
 
-  const handleCalculate = () => {
-    if (!winningTile) {
-      setError('和了牌を選択してください');
+    if (parsed.melds.length > 4) {
+      wholeText(t('app.notation.tooManyMelds'));
+      return;
+    }
+    const maxHandSize = 14 - getMeldTileCount(parsed.melds) - 1;
+    const tiles = [...parsed.tiles];
+    let winning = parsed.winningTile;
+    // 和了牌の指定がなく1枚多い場合は、最後の牌を和了牌とみなす
+    if (!winning && tiles.length === maxHandSize + 1) {
+      winning = tiles.pop() ?? null;
+    }
+    if (tiles.length > maxHandSize) {
+      wholeText(t('app.notation.handTooLong', { max: maxHandSize, count: tiles.length }));
       return;
     }
 
-    const redDoraCounts = {
-      man: hasRedSelection('man') ? 1 : 0,
-      pin: hasRedSelection('pin') ? 1 : 0,
-      sou: hasRedSelection('sou') ? 1 : 0
-    };
+    const allTiles = [...tiles, ...parsed.melds.flatMap(meld => meld.tiles), ...(winning ? [winning] : [])];
+    // ドラ表示牌（裏ドラはリーチ時のみ）も同じ牌の枚数に含める
+    const countedTiles = [...allTiles, ...parsed.doraIndicators, ...(riichi ? uraDoraTiles : [])];
+    const overLimit = countedTiles.find(tile => countedTiles.filter(t => normalizeTile(t) === normalizeTile(tile)).length > 4);
+    if (overLimit) {
+      wholeText(t('app.notation.tooManyCopies', { tile: formatTileName(normalizeTile(overLimit), locale) }));
+      return;
+    }
+    for (const { tile, suit } of RED_TILES) {
+      if (allTiles.filter(t => t === tile).length > rules.redFives[suit]) {
+        wholeText(t('app.error.redFiveLimit', { tile: formatTileName(tile, locale), count: rules.redFives[suit] }));
+        return;
+      }
+    }
+    if (parsed.doraIndicators.length > 4) {
+      wholeText(t('app.notation.tooManyDora'));
+      return;
+    }
 
-    const options: AgariOptions = {
+    setHand(sortHand(tiles));
+    setMelds(parsed.melds);
+    setMeldInput([]);
+    setWinningTile(winning);
+    setDoraTiles(parsed.doraIndicators);
+    setResult(null);
+    setNotationError(null);
+    setError('');
+  };
+
+  const buildAgariOptions = (): AgariOptions => {
+    return {
       isTsumo: agariType === 'tsumo',
       bakaze,
       jikaze,
@@ -564,20 +617,69 @@ export default function Home() {
       isRinshan,
       isChankan,
       isNagashiMangan,
+      isRenhou,
+      isOpenRiichi,
+      isTsubameGaeshi,
+      isFirstDraw,
+      dealerWinStreak,
       doraTiles,
       uraDoraTiles: riichi ? uraDoraTiles : [],
-      redDora: redDoraCounts,
       kyotaku: kyotakuCount,
-      honba: honbaCount
+      honba: honbaCount,
+      nukidora: rules.players === 3 ? nukidoraCount : undefined,
+      locale
     };
+  };
 
-    const calcOptions: AgariOptions = {
-      ...options,
-      doraTiles: doraTiles.map(getDoraFromIndicator),
-      uraDoraTiles: riichi ? uraDoraTiles.map(getDoraFromIndicator) : []
-    };
+  // 表示牌からドラへ変換した計算用オプション
+  const toCalcOptions = (options: AgariOptions): AgariOptions => ({
+    ...options,
+    doraTiles: (options.doraTiles ?? []).map(tile => getDoraFromIndicator(tile, rules)),
+    uraDoraTiles: (options.uraDoraTiles ?? []).map(tile => getDoraFromIndicator(tile, rules))
+  });
 
-    const calcResult = calculateScore(hand, winningTile, calcOptions);
+  // 海底・河底・嶺上・槍槓の入力は中国麻雀の同じ条件として使う
+  const handleMcrCalculate = () => {
+    const calcResult = calculateMcrScore(hand, winningTile, {
+      isTsumo: agariType === 'tsumo',
+      prevalentWind: bakaze,
+      seatWind: jikaze,
+      melds,
+      flowers: flowerCount,
+      isLastTile,
+      isLastTileDraw: isHaitei,
+      isLastTileClaim: isHoutei,
+      isReplacementTile: isRinshan,
+      isRobbingKong: isChankan,
+      locale
+    });
+
+    if ('error' in calcResult) {
+      setError(calcResult.error);
+      setMcrResult(null);
+    } else {
+      setMcrResult(calcResult);
+      setError('');
+      setActiveInfoTab('result');
+    }
+  };
+
+  const handleCalculate = () => {
+    if (isMcr) {
+      handleMcrCalculate();
+      return;
+    }
+    const options = buildAgariOptions();
+    const calcOptions = toCalcOptions(options);
+
+    const { errors } = validateAgari(hand, winningTile, calcOptions, rules);
+    if (!winningTile || errors.length > 0) {
+      setError(errors.map(issue => issue.message).join(' / '));
+      setResult(null);
+      return;
+    }
+
+    const calcResult = calculateScore(hand, winningTile, calcOptions, rules);
 
     if ('error' in calcResult) {
       setError(calcResult.error);
@@ -590,64 +692,119 @@ export default function Home() {
     }
   };
 
+  const isTenpaiShape = !isMcr && hand.length === 14 - getMeldTileCount(melds) - 1;
+  // 待ちの計算は牌ごとに点数計算をするため、表記の入力中などに再計算しないよう条件の内容でまとめる
+  const calcOptionsKey = JSON.stringify(toCalcOptions(buildAgariOptions()));
+  const tenpaiWaits = useMemo(
+    () => (isTenpaiShape ? getTenpaiWaits(hand, JSON.parse(calcOptionsKey) as AgariOptions, doraTiles, rules) : []),
+    [isTenpaiShape, hand, calcOptionsKey, doraTiles, rules]
+  );
+
+  // 和了条件の矛盾（該当する条件は点数に反映されない）
+  const agariWarnings = isMcr ? [] : validateAgari(hand, winningTile, toCalcOptions(buildAgariOptions()), rules).warnings;
+
+  const formatWaitScore = (waitResult: CalculationResult | { error: string }) =>
+    'error' in waitResult
+      ? waitResult.error
+      : `${t('common.hanFu', { han: waitResult.han, fu: waitResult.fu })} ${waitResult.score}`;
+
+  const tileSet = getTiles(isMcr ? DEFAULT_RULE_SET : rules);
+
   const currentMeldSummary = melds.length > 0
     ? melds.map(meld => `${meld.type.toUpperCase()}(${meld.tiles.join(' ')})`).join(' / ')
-    : 'なし';
+    : t('common.none');
 
   return (
     <div className="container">
-      <h1>🀄 麻雀点数計算機</h1>
+      <h1>{t('app.title')}</h1>
       <div className="controls" style={{ justifyContent: 'center' }}>
-        <Link className="btn btn-secondary" href="/score-quiz">点数○×ゲームへ</Link>
+        <Link className="btn btn-secondary" href="/score-quiz">{t('app.toQuiz')}</Link>
+        <Link className="btn btn-secondary" href="/session">{t('app.toSession')}</Link>
+        <LocaleSelect locale={locale} onChange={setLocale} />
       </div>
 
       <div className="layout-grid">
         <div className="layout-left">
           {/* 牌選択セクション */}
           <div className="section compact">
-            <div className="section-title">牌を選択</div>
+            <div className="section-title">{t('app.tiles.title')}</div>
             <div className="tile-select-modes">
               <button
                 type="button"
                 className={`btn ${tileSelectMode === 'hand' ? 'btn-primary' : 'btn-secondary'}`}
                 onClick={() => setTileSelectMode('hand')}
               >
-                手牌に追加
+                {t('app.mode.hand')}
               </button>
               <button
                 type="button"
                 className={`btn ${tileSelectMode === 'meld' ? 'btn-primary' : 'btn-secondary'}`}
                 onClick={() => setTileSelectMode('meld')}
               >
-                鳴きに追加
-              </button>
-              <button
-                type="button"
-                className={`btn ${tileSelectMode === 'dora' ? 'btn-primary' : 'btn-secondary'}`}
-                onClick={() => setTileSelectMode('dora')}
-              >
-                表示ドラ
-              </button>
-              <button
-                type="button"
-                className={`btn ${tileSelectMode === 'ura' ? 'btn-primary' : 'btn-secondary'}`}
-                onClick={() => setTileSelectMode('ura')}
-                disabled={!riichi}
-              >
-                裏ドラ
+                {t('app.mode.meld')}
               </button>
+              {!isMcr && (
+                <>
+                  <button
+                    type="button"
+                    className={`btn ${tileSelectMode === 'dora' ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => setTileSelectMode('dora')}
+                  >
+                    {t('app.mode.dora')}
+                  </button>
+                  <button
+                    type="button"
+                    className={`btn ${tileSelectMode === 'ura' ? 'btn-primary' : 'btn-secondary'}`}
+                    onClick={() => setTileSelectMode('ura')}
+                    disabled={!riichi}
+                  >
+                    {t('app.mode.ura')}
+                  </button>
+                </>
+              )}
             </div>
             <div className="info-text">
-              {tileSelectMode === 'hand' && '※ 牌をクリックすると手牌に追加されます。'}
-              {tileSelectMode === 'meld' && '※ 牌をクリックすると鳴き入力に追加されます。'}
-              {tileSelectMode === 'dora' && '※ 牌をクリックすると表示ドラに追加されます。'}
-              {tileSelectMode === 'ura' && '※ 牌をクリックすると裏ドラに追加されます（リーチ時のみ）。'}
+              {t(`app.mode.${tileSelectMode}Hint`)}
+            </div>
+            <div className="option-group" style={{ marginBottom: '10px' }}>
+              <div className="option-title">{t('app.notation.title')}</div>
+              <div style={{ display: 'flex', gap: '10px' }}>
+                <input
+                  type="text"
+                  value={notationText}
+                  onChange={(e) => {
+                    setNotationText(e.target.value);
+                    setNotationError(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') applyNotation();
+                  }}
+                  placeholder={t('app.notation.placeholder')}
+                  aria-label={t('app.notation.label')}
+                  aria-invalid={notationError !== null}
+                  className={`notation-input${notationError ? ' notation-input--error' : ''}`}
+                />
+                <button type="button" className="btn btn-secondary" onClick={applyNotation} disabled={!notationText.trim()}>
+                  {t('app.notation.apply')}
+                </button>
+              </div>
+              {notationError && (
+                <div className="notation-error" role="alert">
+                  <div className="notation-error-source">
+                    {notationText.slice(0, notationError.start)}
+                    <mark>{notationText.slice(notationError.start, notationError.end)}</mark>
+                    {notationText.slice(notationError.end)}
+                  </div>
+                  {notationError.error}
+                </div>
+              )}
+              <div className="info-text">{t('app.notation.hint')}</div>
             </div>
             <div className="tile-selector">
               <div className="tile-group">
-                <div className="tile-group-title">萬子（マンズ）</div>
+                <div className="tile-group-title">{t('app.tiles.manzu')}</div>
                 <div className="tiles">
-                  {TILES.manzu.map(tile => {
+                  {tileSet.manzu.map(tile => {
                     const isMaxed = getTileCount(tile) >= 4;
                     return (
                       <button
@@ -655,33 +812,33 @@ export default function Home() {
                         className={`tile${isMaxed ? ' tile--maxed' : ''}`}
                         onClick={() => handleTileSelect(tile)}
                         disabled={isMaxed}
-                        aria-label={`${TILE_DISPLAY[tile]}${isMaxed ? '（選択不可）' : ''}`}
+                        aria-label={`${formatTileName(tile, locale)}${isMaxed ? t('app.tiles.unavailable') : ''}`}
                         type="button"
                       >
                         <TileFace tile={tile} />
                       </button>
                     );
                   })}
-                  {RED_TILES.filter(tile => tile.suit === 'man').map(tile => (
+                  {RED_TILES.filter(tile => tile.suit === 'man' && !isMcr && rules.redFives.man > 0 && tileSet.manzu.includes('5m')).map(tile => (
                     <button
-                      key={tile.label}
+                      key={tile.tile}
                       className={`tile tile--red${getTileCount(tile.tile) >= 4 ? ' tile--maxed' : ''}`}
                       onClick={() => handleRedTileSelect(tile.tile, tile.suit)}
-                      title={tile.label}
+                      title={formatTileName(tile.tile, locale)}
                       type="button"
                       disabled={getTileCount(tile.tile) >= 4}
-                      aria-label={`${TILE_DISPLAY[tile.tile]}（赤）${getTileCount(tile.tile) >= 4 ? '（選択不可）' : ''}`}
+                      aria-label={`${formatTileName(tile.tile, locale)}${getTileCount(tile.tile) >= 4 ? t('app.tiles.unavailable') : ''}`}
                     >
                       <TileFace tile={tile.tile} />
-                      <span className="tile-badge">赤</span>
+                      <span className="tile-badge">{t('app.tiles.redBadge')}</span>
                     </button>
                   ))}
                 </div>
               </div>
               <div className="tile-group">
-                <div className="tile-group-title">筒子（ピンズ）</div>
+                <div className="tile-group-title">{t('app.tiles.pinzu')}</div>
                 <div className="tiles">
-                  {TILES.pinzu.map(tile => {
+                  {tileSet.pinzu.map(tile => {
                     const isMaxed = getTileCount(tile) >= 4;
                     return (
                       <button
@@ -689,33 +846,33 @@ export default function Home() {
                         className={`tile${isMaxed ? ' tile--maxed' : ''}`}
                         onClick={() => handleTileSelect(tile)}
                         disabled={isMaxed}
-                        aria-label={`${TILE_DISPLAY[tile]}${isMaxed ? '（選択不可）' : ''}`}
+                        aria-label={`${formatTileName(tile, locale)}${isMaxed ? t('app.tiles.unavailable') : ''}`}
                         type="button"
                       >
                         <TileFace tile={tile} />
                       </button>
                     );
                   })}
-                  {RED_TILES.filter(tile => tile.suit === 'pin').map(tile => (
+                  {RED_TILES.filter(tile => tile.suit === 'pin' && !isMcr && rules.redFives.pin > 0).map(tile => (
                     <button
-                      key={tile.label}
+                      key={tile.tile}
                       className={`tile tile--red${getTileCount(tile.tile) >= 4 ? ' tile--maxed' : ''}`}
                       onClick={() => handleRedTileSelect(tile.tile, tile.suit)}
-                      title={tile.label}
+                      title={formatTileName(tile.tile, locale)}
                       type="button"
                       disabled={getTileCount(tile.tile) >= 4}
-                      aria-label={`${TILE_DISPLAY[tile.tile]}（赤）${getTileCount(tile.tile) >= 4 ? '（選択不可）' : ''}`}
+                      aria-label={`${formatTileName(tile.tile, locale)}${getTileCount(tile.tile) >= 4 ? t('app.tiles.unavailable') : ''}`}
                     >
                       <TileFace tile={tile.tile} />
-                      <span className="tile-badge">赤</span>
+                      <span className="tile-badge">{t('app.tiles.redBadge')}</span>
                     </button>
                   ))}
                 </div>
               </div>
               <div className="tile-group">
-                <div className="tile-group-title">索子（ソーズ）</div>
+                <div className="tile-group-title">{t('app.tiles.souzu')}</div>
                 <div className="tiles">
-                  {TILES.souzu.map(tile => {
+                  {tileSet.souzu.map(tile => {
                     const isMaxed = getTileCount(tile) >= 4;
                     return (
                       <button
@@ -723,33 +880,33 @@ export default function Home() {
                         className={`tile${isMaxed ? ' tile--maxed' : ''}`}
                         onClick={() => handleTileSelect(tile)}
                         disabled={isMaxed}
-                        aria-label={`${TILE_DISPLAY[tile]}${isMaxed ? '（選択不可）' : ''}`}
+                        aria-label={`${formatTileName(tile, locale)}${isMaxed ? t('app.tiles.unavailable') : ''}`}
                         type="button"
                       >
                         <TileFace tile={tile} />
                       </button>
                     );
                   })}
-                  {RED_TILES.filter(tile => tile.suit === 'sou').map(tile => (
+                  {RED_TILES.filter(tile => tile.suit === 'sou' && !isMcr && rules.redFives.sou > 0).map(tile => (
                     <button
-                      key={tile.label}
+                      key={tile.tile}
                       className={`tile tile--red${getTileCount(tile.tile) >= 4 ? ' tile--maxed' : ''}`}
                       onClick={() => handleRedTileSelect(tile.tile, tile.suit)}
-                      title={tile.label}
+                      title={formatTileName(tile.tile, locale)}
                       type="button"
                       disabled={getTileCount(tile.tile) >= 4}
-                      aria-label={`${TILE_DISPLAY[tile.tile]}（赤）${getTileCount(tile.tile) >= 4 ? '（選択不可）' : ''}`}
+                      aria-label={`${formatTileName(tile.tile, locale)}${getTileCount(tile.tile) >= 4 ? t('app.tiles.unavailable') : ''}`}
                     >
                       <TileFace tile={tile.tile} />
-                      <span className="tile-badge">赤</span>
+                      <span className="tile-badge">{t('app.tiles.redBadge')}</span>
                     </button>
                   ))}
                 </div>
               </div>
               <div className="tile-group">
-                <div className="tile-group-title">字牌</div>
+                <div className="tile-group-title">{t('app.tiles.jihai')}</div>
                 <div className="tiles">
-                  {TILES.jihai.map(tile => {
+                  {tileSet.jihai.map(tile => {
                     const isMaxed = getTileCount(tile) >= 4;
                     return (
                       <button
@@ -757,7 +914,7 @@ export default function Home() {
                         className={`tile${isMaxed ? ' tile--maxed' : ''}`}
                         onClick={() => handleTileSelect(tile)}
                         disabled={isMaxed}
-                        aria-label={`${TILE_DISPLAY[tile]}${isMaxed ? '（選択不可）' : ''}`}
+                        aria-label={`${formatTileName(tile, locale)}${isMaxed ? t('app.tiles.unavailable') : ''}`}
                         type="button"
                       >
                         <TileFace tile={tile} />
@@ -776,115 +933,112 @@ export default function Home() {
               className="section-title section-title-button"
               onClick={() => setActiveInfoTab('hand')}
             >
-              現在の手牌
+              {t('app.hand.title')}
             </button>
             <div className="hand-display hand-summary-grid">
               <div className="hand-summary-column">
-                <div className="hand-title">手牌 (<span>{hand.length}</span>/{14 - getMeldTileCount(melds) - 1}枚)</div>
+                <div className="hand-title">
+                  {t('common.hand')} (<span>{hand.length}</span>/{t('common.tiles', { count: 14 - getMeldTileCount(melds) - 1 })})
+                </div>
                 <div className="hand-tiles">
                 {hand.map((tile, index) => (
                   <div
                     key={index}
-                    className={`hand-tile${redHandFlags[index] ? ' hand-tile--red' : ''}`}
+                    className={`hand-tile${isRedFive(tile) ? ' hand-tile--red' : ''}`}
                     onClick={() => removeTileFromHand(index)}
                   >
                     <TileFace tile={tile} />
                   </div>
                 ))}
                 </div>
-                <div className="info-text">※ 手牌は自動的にソートされます。</div>
+                <div className="info-text">{t('app.hand.sortHint')}</div>
               </div>
               <div className="hand-summary-column hand-summary-winning">
-                <div className="hand-title">和了牌 (<span>{winningTile ? 1 : 0}</span>/1枚)</div>
+                <div className="hand-title">
+                  {t('common.winningTile')} (<span>{winningTile ? 1 : 0}</span>/{t('common.tiles', { count: 1 })})
+                </div>
                 <div className="hand-tiles">
                   {winningTile ? (
                     <div
-                      className={`hand-tile winning-tile${redWinningFlag ? ' hand-tile--red' : ''}`}
+                      className={`hand-tile winning-tile${isRedFive(winningTile) ? ' hand-tile--red' : ''}`}
                       onClick={removeWinningTile}
                     >
                       <TileFace tile={winningTile} />
                     </div>
                   ) : (
-                    <div className="info-text">未選択</div>
+                    <div className="info-text">{t('common.notSelected')}</div>
                   )}
                 </div>
-                <div className="info-text">※ 和了した牌を1枚選択してください。</div>
+                <div className="info-text">{t('app.hand.winningHint')}</div>
               </div>
               <div className="hand-summary-column">
-                <div className="hand-title">鳴き（副露） (<span>{melds.length}</span>回）</div>
+                <div className="hand-title">
+                  {t('app.hand.melds')} (<span>{melds.length}</span>{t('app.hand.meldCountUnit')})
+                </div>
                 <div className="melds-container">
                   {melds.map((meld, index) => (
                     <div key={index} className="meld-group" onClick={() => removeMeld(index)}>
                       <div className="meld-type">
-                        {meld.type === 'chii' && 'チー'}
-                        {meld.type === 'pon' && 'ポン'}
-                        {meld.type === 'minkan' && '明カン'}
-                        {meld.type === 'ankan' && '暗カン'}
-                      </div>
-                      <div className="meld-tiles">
-                        {meld.type === 'ankan' ? (
-                          <>
-                            <div key={0} className="hand-tile" style={{ fontSize: '14px' }}>
-                              <TileBack />
-                            </div>
-                            <div
-                              key={1}
-                              className={`hand-tile${redMeldFlags[index]?.[1] ? ' hand-tile--red' : ''}`}
-                              style={{ fontSize: '14px' }}
-                            >
-                              <TileFace tile={meld.tiles[1]} />
-                            </div>
-                            <div
-                              key={2}
-                              className={`hand-tile${redMeldFlags[index]?.[2] ? ' hand-tile--red' : ''}`}
-                              style={{ fontSize: '14px' }}
-                            >
-                              <TileFace tile={meld.tiles[2]} />
-                            </div>
-                            <div key={3} className="hand-tile" style={{ fontSize: '14px' }}>
-                              <TileBack />
-                            </div>
-                          </>
-                        ) : (
-                          meld.tiles.map((tile, tileIndex) => (
-                            <div
-                              key={tileIndex}
-                              className={`hand-tile${redMeldFlags[index]?.[tileIndex] ? ' hand-tile--red' : ''}`}
-                              style={{ fontSize: '14px' }}
-                            >
-                              <TileFace tile={tile} />
-                            </div>
-                          ))
-                        )}
+                        {t(`meldType.${meld.type}`)}
+                        {meld.from && t('app.meld.source', { source: t(`meldSource.${meld.from}`) })}
                       </div>
+                      <MeldTiles meld={meld} />
                     </div>
                   ))}
                 </div>
-                <div className="info-text">※ クリックして削除できます。</div>
+                <div className="info-text">{t('app.hand.removeHint')}</div>
               </div>
             </div>
 
             {/* 鳴き入力 */}
             <div className="hand-display" style={{ marginTop: '15px' }}>
-              <div className="hand-title">鳴きを追加</div>
+              <div className="hand-title">{t('app.meld.title')}</div>
               <div className="option-group" style={{ marginBottom: '10px' }}>
                 <select
                   value={meldType}
                   onChange={(e) => setMeldType(e.target.value as MeldType)}
                   style={{ padding: '5px', fontSize: '14px' }}
                 >
-                  <option value="chii">チー（順子）</option>
-                  <option value="pon">ポン（刻子）</option>
-                  <option value="minkan">明カン（槓子）</option>
-                  <option value="ankan">暗カン（槓子）</option>
+                  {MELD_TYPES.map(type => (
+                    <option key={type} value={type}>{t(`app.meld.option.${type}`)}</option>
+                  ))}
                 </select>
+                {meldType !== 'ankan' && (
+                  <div style={{ marginTop: '8px', display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+                    <select
+                      value={meldType === 'chii' ? 'kamicha' : meldFrom}
+                      onChange={(e) => setMeldFrom(e.target.value as MeldSource)}
+                      disabled={meldType === 'chii'}
+                      aria-label={t('app.meld.from')}
+                      style={{ padding: '5px', fontSize: '14px' }}
+                    >
+                      {MELD_SOURCES.map(source => (
+                        <option key={source} value={source}>{t('app.meld.fromOption', { source: t(`meldSource.${source}`) })}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={Math.min(calledTileIndex, Math.max(meldInput.length - 1, 0))}
+                      onChange={(e) => setCalledTileIndex(Number(e.target.value))}
+                      disabled={meldInput.length === 0}
+                      aria-label={t('app.meld.calledTile')}
+                      style={{ padding: '5px', fontSize: '14px' }}
+                    >
+                      {meldInput.length === 0 && <option value={0}>{t('app.meld.calledTile')}</option>}
+                      {meldInput.map((tile, index) => (
+                        <option key={index} value={index}>
+                          {t('app.meld.calledTileOption', { index: index + 1, tile: formatTileName(tile, locale) })}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
-              <div className="info-text">※ 牌選択は上部の牌テーブルから行います。</div>
+              <div className="info-text">{t('app.meld.selectHint')}</div>
               <div className="hand-tiles">
                 {meldInput.map((tile, index) => (
                   <div
                     key={index}
-                    className={`hand-tile${redMeldInputFlags[index] ? ' hand-tile--red' : ''}`}
+                    className={`hand-tile${isRedFive(tile) ? ' hand-tile--red' : ''}`}
                     onClick={() => removeTileFromMeld(index)}
                   >
                     <TileFace tile={tile} />
@@ -897,26 +1051,24 @@ export default function Home() {
                   onClick={addMeld}
                   disabled={meldInput.length === 0}
                 >
-                  鳴きを確定
+                  {t('app.meld.confirm')}
                 </button>
                 <button
                   className="btn"
                   onClick={() => {
                     setMeldInput([]);
-                    setRedMeldInputFlags([]);
+                    setCalledTileIndex(0);
                   }}
                   disabled={meldInput.length === 0}
                 >
-                  入力をクリア
+                  {t('app.meld.clear')}
                 </button>
               </div>
-              <div className="info-text" style={{ marginTop: '10px' }}>
-                ※ チー・ポンは3枚、カンは4枚選択してください。
-              </div>
+              <div className="info-text" style={{ marginTop: '10px' }}>{t('app.meld.countHint')}</div>
             </div>
 
             <div className="controls">
-              <button className="btn btn-danger" onClick={clearAll}>すべてクリア</button>
+              <button className="btn btn-danger" onClick={clearAll}>{t('app.clearAll')}</button>
             </div>
           </div>
         </div>
@@ -929,11 +1081,28 @@ export default function Home() {
               className="section-title section-title-button"
               onClick={() => setActiveInfoTab('options')}
             >
-              和了条件
+              {t('app.options.title')}
             </button>
             <div className="options">
               <div className="option-group">
-                <div className="option-title">和了方法</div>
+                <div className="option-title">{t('app.mcr.mode')}</div>
+                <div className="checkbox-group">
+                  {SCORING_MODES.map(mode => (
+                    <label key={mode} className="checkbox-label">
+                      <input
+                        type="radio"
+                        name="scoring-mode"
+                        checked={scoringMode === mode}
+                        onChange={() => changeScoringMode(mode)}
+                      />
+                      {t(`app.mcr.mode.${mode}`)}
+                    </label>
+                  ))}
+                </div>
+                {isMcr && <div className="info-text">{t('app.mcr.hint')}</div>}
+              </div>
+              <div className="option-group">
+                <div className="option-title">{t('common.winType')}</div>
                 <div className="checkbox-group">
                   <label className="checkbox-label">
                     <input
@@ -943,7 +1112,7 @@ export default function Home() {
                       checked={agariType === 'tsumo'}
                       onChange={(e) => setAgariType(e.target.value as 'tsumo' | 'ron')}
                     />
-                    ツモ
+                    {t('common.tsumo')}
                   </label>
                   <label className="checkbox-label">
                     <input
@@ -953,443 +1122,909 @@ export default function Home() {
                       checked={agariType === 'ron'}
                       onChange={(e) => setAgariType(e.target.value as 'tsumo' | 'ron')}
                     />
-                    ロン
+                    {t('common.ron')}
                   </label>
                 </div>
               </div>
               <div className="option-group">
-                <div className="option-title">場風</div>
+                <div className="option-title">{t(isMcr ? 'app.mcr.prevalentWind' : 'common.bakaze')}</div>
                 <div className="checkbox-group">
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="bakaze"
-                      value="ton"
-                      checked={bakaze === 'ton'}
-                      onChange={(e) => setBakaze(e.target.value)}
-                    />
-                    東
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="bakaze"
-                      value="nan"
-                      checked={bakaze === 'nan'}
-                      onChange={(e) => setBakaze(e.target.value)}
-                    />
-                    南
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="bakaze"
-                      value="sha"
-                      checked={bakaze === 'sha'}
-                      onChange={(e) => setBakaze(e.target.value)}
-                    />
-                    西
-                  </label>
-                </div>
-              </div>
-              <div className="option-group">
-                <div className="option-title">自風</div>
-                <div className="checkbox-group">
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="jikaze"
-                      value="ton"
-                      checked={jikaze === 'ton'}
-                      onChange={(e) => setJikaze(e.target.value)}
-                    />
-                    東
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="jikaze"
-                      value="nan"
-                      checked={jikaze === 'nan'}
-                      onChange={(e) => setJikaze(e.target.value)}
-                    />
-                    南
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="jikaze"
-                      value="sha"
-                      checked={jikaze === 'sha'}
-                      onChange={(e) => setJikaze(e.target.value)}
-                    />
-                    西
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="jikaze"
-                      value="pei"
-                      checked={jikaze === 'pei'}
-                      onChange={(e) => setJikaze(e.target.value)}
-                    />
-                    北
-                  </label>
-                </div>
-              </div>
-              <div className="option-group">
-                <div className="option-title">親番</div>
-                <div className="checkbox-group">
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="oya"
-                      value="oya"
-                      checked={isDealer}
-                      onChange={() => setIsDealer(true)}
-                    />
-                    親（東家）
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="radio"
-                      name="oya"
-                      value="ko"
-                      checked={!isDealer}
-                      onChange={() => setIsDealer(false)}
-                    />
-                    子
-                  </label>
-                </div>
-                <div className="info-text">※ 点数計算のみに利用されます。</div>
-              </div>
-              <div className="option-group">
-                <div className="option-title">その他</div>
-                <div className="checkbox-group">
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={riichi}
-                      onChange={(e) => {
-                        const checked = e.target.checked;
-                        setRiichi(checked);
-                        if (!checked) {
-                          setIppatsu(false);
-                          setIsDoubleRiichi(false);
-                        }
-                      }}
-                      disabled={!isMenzen}
-                    />
-                    リーチ
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isDoubleRiichi}
-                      onChange={(e) => {
-                        const checked = e.target.checked;
-                        setIsDoubleRiichi(checked);
-                        if (checked) {
-                          setRiichi(true);
-                        }
-                      }}
-                      disabled={!isMenzen}
-                    />
-                    ダブルリーチ
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={ippatsu}
-                      onChange={(e) => setIppatsu(e.target.checked)}
-                      disabled={!riichi}
-                    />
-                    一発
-                  </label>
-                </div>
-                <div className="info-text">門前は鳴き状態から自動判定されます。</div>
-              </div>
-              <div className="option-group">
-                <div className="option-title">特殊和了条件</div>
-                <div className="checkbox-group">
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isHaitei}
-                      onChange={(e) => setIsHaitei(e.target.checked)}
-                      disabled={agariType !== 'tsumo'}
-                    />
-                    海底摸月
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isHoutei}
-                      onChange={(e) => setIsHoutei(e.target.checked)}
-                      disabled={agariType !== 'ron'}
-                    />
-                    河底撈魚
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isRinshan}
-                      onChange={(e) => setIsRinshan(e.target.checked)}
-                      disabled={agariType !== 'tsumo'}
-                    />
-                    嶺上開花
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isChankan}
-                      onChange={(e) => setIsChankan(e.target.checked)}
-                      disabled={agariType !== 'ron'}
-                    />
-                    槍槓
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isNagashiMangan}
-                      onChange={(e) => setIsNagashiMangan(e.target.checked)}
-                    />
-                    流し満貫
-                  </label>
+                  {WINDS.slice(0, isMcr ? 4 : 3).map(wind => (
+                    <label key={wind} className="checkbox-label">
+                      <input
+                        type="radio"
+                        name="bakaze"
+                        value={wind}
+                        checked={bakaze === wind}
+                        onChange={(e) => setBakaze(e.target.value)}
+                      />
+                      {t(`wind.${wind}`)}
+                    </label>
+                  ))}
                 </div>
               </div>
               <div className="option-group">
-                <div className="option-title">役満（特殊条件）</div>
+                <div className="option-title">{t(isMcr ? 'app.mcr.seatWind' : 'common.jikaze')}</div>
                 <div className="checkbox-group">
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isTenhou}
-                      onChange={(e) => {
-                        setIsTenhou(e.target.checked);
-                        if (e.target.checked) {
-                          setIsChiihou(false);
-                          setJikaze('ton');
-                        }
-                      }}
-                      disabled={jikaze !== 'ton'}
-                    />
-                    天和（親の配牌時和了）
-                  </label>
-                  <label className="checkbox-label">
-                    <input
-                      type="checkbox"
-                      checked={isChiihou}
-                      onChange={(e) => {
-                        setIsChiihou(e.target.checked);
-                        if (e.target.checked) {
-                          setIsTenhou(false);
-                        }
-                      }}
-                      disabled={jikaze === 'ton'}
-                    />
-                    地和（子の第一ツモ和了）
-                  </label>
+                  {WINDS.slice(0, isMcr ? 4 : rules.players).map(wind => (
+                    <label key={wind} className="checkbox-label">
+                      <input
+                        type="radio"
+                        name="jikaze"
+                        value={wind}
+                        checked={jikaze === wind}
+                        onChange={(e) => setJikaze(e.target.value)}
+                      />
+                      {t(`wind.${wind}`)}
+                    </label>
+                  ))}
                 </div>
               </div>
-              <div className="option-group">
-                <div className="option-title">供託・本場</div>
-                <div className="counter-group">
-                  <div className="counter-card">
-                    <span className="counter-label">供託</span>
-                    <button
-                      type="button"
-                      className="btn btn-secondary counter-btn"
-                      onClick={() => setKyotakuCount(prev => Math.max(0, prev - 1))}
-                    >
-                      -
-                    </button>
-                    <span className="counter-value">{kyotakuCount}</span>
-                    <button
-                      type="button"
-                      className="btn btn-secondary counter-btn"
-                      onClick={() => setKyotakuCount(prev => prev + 1)}
-                    >
-                      +
-                    </button>
+              {isMcr ? (
+                <>
+                  <div className="option-group">
+                    <div className="option-title">{t('app.options.special')}</div>
+                    <div className="checkbox-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isHaitei}
+                          onChange={(e) => setIsHaitei(e.target.checked)}
+                          disabled={agariType !== 'tsumo'}
+                        />
+                        {t('app.mcr.lastTileDraw')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isHoutei}
+                          onChange={(e) => setIsHoutei(e.target.checked)}
+                          disabled={agariType !== 'ron'}
+                        />
+                        {t('app.mcr.lastTileClaim')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isRinshan}
+                          onChange={(e) => setIsRinshan(e.target.checked)}
+                          disabled={agariType !== 'tsumo'}
+                        />
+                        {t('app.mcr.replacementTile')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isChankan}
+                          onChange={(e) => setIsChankan(e.target.checked)}
+                          disabled={agariType !== 'ron'}
+                        />
+                        {t('app.mcr.robbingKong')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isLastTile}
+                          onChange={(e) => setIsLastTile(e.target.checked)}
+                        />
+                        {t('app.mcr.lastTile')}
+                      </label>
+                    </div>
                   </div>
-                  <div className="counter-card">
-                    <span className="counter-label">本場</span>
-                    <button
-                      type="button"
-                      className="btn btn-secondary counter-btn"
-                      onClick={() => setHonbaCount(prev => Math.max(0, prev - 1))}
-                    >
-                      -
-                    </button>
-                    <span className="counter-value">{honbaCount}</span>
-                    <button
-                      type="button"
-                      className="btn btn-secondary counter-btn"
-                      onClick={() => setHonbaCount(prev => prev + 1)}
-                    >
-                      +
-                    </button>
+                  <div className="option-group">
+                    <div className="counter-group">
+                      <div className="counter-card">
+                        <span className="counter-label">{t('app.mcr.flowers')}</span>
+                        <button
+                          type="button"
+                          className="btn btn-secondary counter-btn"
+                          onClick={() => setFlowerCount(prev => Math.max(0, prev - 1))}
+                        >
+                          -
+                        </button>
+                        <span className="counter-value">{flowerCount}</span>
+                        <button
+                          type="button"
+                          className="btn btn-secondary counter-btn"
+                          onClick={() => setFlowerCount(prev => Math.min(MCR_MAX_FLOWERS, prev + 1))}
+                        >
+                          +
+                        </button>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-            <div className="option-group">
-              <div className="option-title">ドラ設定</div>
-              <div className="dora-block">
-                <div className="option-subtitle">表示ドラ</div>
-                <div className="hand-tiles">
-                  {doraTiles.length === 0 && <div className="info-text">未設定</div>}
-                  {doraTiles.map((tile, index) => (
-                    <div
-                      key={`${tile}-${index}`}
-                      className="hand-tile"
-                      onClick={() => removeDoraTileValue(index, 'dora')}
-                    >
-                      <TileFace tile={tile} />
+                </>
+              ) : (
+                <>
+                  <div className="option-group">
+                    <div className="option-title">{t('common.oya')}</div>
+                    <div className="checkbox-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="radio"
+                          name="oya"
+                          value="oya"
+                          checked={isDealer}
+                          onChange={() => setIsDealer(true)}
+                        />
+                        {t('app.options.dealer')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="radio"
+                          name="oya"
+                          value="ko"
+                          checked={!isDealer}
+                          onChange={() => setIsDealer(false)}
+                        />
+                        {t('common.nonDealer')}
+                      </label>
                     </div>
-                  ))}
-                </div>
-                <div className="info-text">※ 牌選択は上部の牌テーブルから行います。</div>
-              </div>
-              <div className="dora-block" style={{ marginTop: '10px' }}>
-                <div style={{ display: 'flex', alignItems: 'flex-start', gap: '12px' }}>
-                  <div style={{ flex: 1 }}>
-                    <div className="option-subtitle">裏ドラ（リーチ時のみ）</div>
+                    <div className="info-text">{t('app.options.dealerHint')}</div>
+                  </div>
+                  <div className="option-group">
+                    <div className="option-title">{t('app.options.other')}</div>
+                    <div className="checkbox-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={riichi}
+                          onChange={(e) => {
+                            const checked = e.target.checked;
+                            setRiichi(checked);
+                            if (!checked) {
+                              setIppatsu(false);
+                              setIsDoubleRiichi(false);
+                            }
+                          }}
+                          disabled={!isMenzen}
+                        />
+                        {t('common.riichi')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isDoubleRiichi}
+                          onChange={(e) => {
+                            const checked = e.target.checked;
+                            setIsDoubleRiichi(checked);
+                            if (checked) {
+                              setRiichi(true);
+                            }
+                          }}
+                          disabled={!isMenzen}
+                        />
+                        {t('app.options.doubleRiichi')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={ippatsu}
+                          onChange={(e) => setIppatsu(e.target.checked)}
+                          disabled={!riichi}
+                        />
+                        {t('app.options.ippatsu')}
+                      </label>
+                    </div>
+                    <div className="info-text">{t('app.options.menzenHint')}</div>
+                  </div>
+                  <div className="option-group">
+                    <div className="option-title">{t('app.options.special')}</div>
+                    <div className="checkbox-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isHaitei}
+                          onChange={(e) => setIsHaitei(e.target.checked)}
+                          disabled={agariType !== 'tsumo'}
+                        />
+                        {t('app.options.haitei')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isHoutei}
+                          onChange={(e) => setIsHoutei(e.target.checked)}
+                          disabled={agariType !== 'ron'}
+                        />
+                        {t('app.options.houtei')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isRinshan}
+                          onChange={(e) => setIsRinshan(e.target.checked)}
+                          disabled={agariType !== 'tsumo'}
+                        />
+                        {t('app.options.rinshan')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isChankan}
+                          onChange={(e) => setIsChankan(e.target.checked)}
+                          disabled={agariType !== 'ron'}
+                        />
+                        {t('app.options.chankan')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isNagashiMangan}
+                          onChange={(e) => setIsNagashiMangan(e.target.checked)}
+                        />
+                        {t('app.options.nagashiMangan')}
+                      </label>
+                    </div>
+                  </div>
+                  <div className="option-group">
+                    <div className="option-title">{t('app.options.yakuman')}</div>
+                    <div className="checkbox-group">
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isTenhou}
+                          onChange={(e) => {
+                            setIsTenhou(e.target.checked);
+                            if (e.target.checked) {
+                              setIsChiihou(false);
+                              setJikaze('ton');
+                            }
+                          }}
+                          disabled={jikaze !== 'ton'}
+                        />
+                        {t('app.options.tenhou')}
+                      </label>
+                      <label className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          checked={isChiihou}
+                          onChange={(e) => {
+                            setIsChiihou(e.target.checked);
+                            if (e.target.checked) {
+                              setIsTenhou(false);
+                            }
+                          }}
+                          disabled={jikaze === 'ton'}
+                        />
+                        {t('app.options.chiihou')}
+                      </label>
+                    </div>
+                  </div>
+                  {(isLocalYakuEnabled('renhou') || isLocalYakuEnabled('openRiichi') || isLocalYakuEnabled('tsubameGaeshi')
+                    || isLocalYakuEnabled('shiisanPuutaa') || isLocalYakuEnabled('paarenchan')) && (
+                    <div className="option-group">
+                      <div className="option-title">{t('app.options.localYaku')}</div>
+                      <div className="checkbox-group">
+                        {isLocalYakuEnabled('renhou') && (
+                          <label className="checkbox-label">
+                            <input
+                              type="checkbox"
+                              checked={isRenhou}
+                              onChange={(e) => setIsRenhou(e.target.checked)}
+                              disabled={isDealer || agariType !== 'ron'}
+                            />
+                            {t('app.options.renhou')}
+                          </label>
+                        )}
+                        {isLocalYakuEnabled('openRiichi') && (
+                          <label className="checkbox-label">
+                            <input
+                              type="checkbox"
+                              checked={isOpenRiichi}
+                              onChange={(e) => setIsOpenRiichi(e.target.checked)}
+                              disabled={!riichi && !isDoubleRiichi}
+                            />
+                            {t('app.options.openRiichi')}
+                          </label>
+                        )}
+                        {isLocalYakuEnabled('tsubameGaeshi') && (
+                          <label className="checkbox-label">
+                            <input
+                              type="checkbox"
+                              checked={isTsubameGaeshi}
+                              onChange={(e) => setIsTsubameGaeshi(e.target.checked)}
+                              disabled={agariType !== 'ron'}
+                            />
+                            {t('app.options.tsubameGaeshi')}
+                          </label>
+                        )}
+                        {isLocalYakuEnabled('shiisanPuutaa') && (
+                          <label className="checkbox-label">
+                            <input
+                              type="checkbox"
+                              checked={isFirstDraw}
+                              onChange={(e) => setIsFirstDraw(e.target.checked)}
+                              disabled={agariType !== 'tsumo'}
+                            />
+                            {t('app.options.firstDraw')}
+                          </label>
+                        )}
+                      </div>
+                      {isLocalYakuEnabled('paarenchan') && (
+                        <div className="counter-group">
+                          <div className="counter-card">
+                            <span className="counter-label">{t('app.options.dealerWinStreak')}</span>
+                            <button
+                              type="button"
+                              className="btn btn-secondary counter-btn"
+                              onClick={() => setDealerWinStreak(prev => Math.max(0, prev - 1))}
+                            >
+                              -
+                            </button>
+                            <span className="counter-value">{dealerWinStreak}</span>
+                            <button
+                              type="button"
+                              className="btn btn-secondary counter-btn"
+                              onClick={() => setDealerWinStreak(prev => prev + 1)}
+                            >
+                              +
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="option-group">
+                    <div className="option-title">{t('app.options.sticks')}</div>
+                    <div className="counter-group">
+                      <div className="counter-card">
+                        <span className="counter-label">{t('app.options.kyotaku')}</span>
+                        <button
+                          type="button"
+                          className="btn btn-secondary counter-btn"
+                          onClick={() => setKyotakuCount(prev => Math.max(0, prev - 1))}
+                        >
+                          -
+                        </button>
+                        <span className="counter-value">{kyotakuCount}</span>
+                        <button
+                          type="button"
+                          className="btn btn-secondary counter-btn"
+                          onClick={() => setKyotakuCount(prev => prev + 1)}
+                        >
+                          +
+                        </button>
+                      </div>
+                      <div className="counter-card">
+                        <span className="counter-label">{t('app.options.honba')}</span>
+                        <button
+                          type="button"
+                          className="btn btn-secondary counter-btn"
+                          onClick={() => setHonbaCount(prev => Math.max(0, prev - 1))}
+                        >
+                          -
+                        </button>
+                        <span className="counter-value">{honbaCount}</span>
+                        <button
+                          type="button"
+                          className="btn btn-secondary counter-btn"
+                          onClick={() => setHonbaCount(prev => prev + 1)}
+                        >
+                          +
+                        </button>
+                      </div>
+                      {rules.players === 3 && (
+                        <div className="counter-card">
+                          <span className="counter-label">{t('app.options.nukidora')}</span>
+                          <button
+                            type="button"
+                            className="btn btn-secondary counter-btn"
+                            onClick={() => setNukidoraCount(prev => Math.max(0, prev - 1))}
+                          >
+                            -
+                          </button>
+                          <span className="counter-value">{nukidoraCount}</span>
+                          <button
+                            type="button"
+                            className="btn btn-secondary counter-btn"
+                            onClick={() => setNukidoraCount(prev => Math.min(4, prev + 1))}
+                            disabled={getTileCount('北') >= 4}
+                          >
+                            +
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.options.dora')}</div>
+                  <div className="dora-block">
+                    <div className="option-subtitle">{t('app.mode.dora')}</div>
                     <div className="hand-tiles">
-                      {uraDoraTiles.length === 0 && <div className="info-text">未設定</div>}
-                      {uraDoraTiles.map((tile, index) => (
+                      {doraTiles.length === 0 && <div className="info-text">{t('common.notSet')}</div>}
+                      {doraTiles.map((tile, index) => (
                         <div
-                          key={`${tile}-ura-${index}`}
+                          key={`${tile}-${index}`}
                           className="hand-tile"
-                          onClick={() => removeDoraTileValue(index, 'ura')}
+                          onClick={() => removeDoraTileValue(index, 'dora')}
                         >
                           <TileFace tile={tile} />
                         </div>
                       ))}
                     </div>
-                    <div className="info-text">※ 牌選択は上部の牌テーブルから行います。</div>
+                    <div className="info-text">{t('app.meld.selectHint')}</div>
+                  </div>
+                  <div className="dora-block" style={{ marginTop: '10px' }}>
+                    <div style={{ display: 'flex', alignItems: 'flex-start', gap: '12px' }}>
+                      <div style={{ flex: 1 }}>
+                        <div className="option-subtitle">{t('app.options.uraDora')}</div>
+                        <div className="hand-tiles">
+                          {uraDoraTiles.length === 0 && <div className="info-text">{t('common.notSet')}</div>}
+                          {uraDoraTiles.map((tile, index) => (
+                            <div
+                              key={`${tile}-ura-${index}`}
+                              className="hand-tile"
+                              onClick={() => removeDoraTileValue(index, 'ura')}
+                            >
+                              <TileFace tile={tile} />
+                            </div>
+                          ))}
+                        </div>
+                        <div className="info-text">{t('app.meld.selectHint')}</div>
+                      </div>
+                      {!riichi && <div className="info-text">{t('app.options.uraDoraHint')}</div>}
+                    </div>
+                  </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* ルール設定 */}
+          {!isMcr && (
+            <div className="section compact">
+              <div className="section-title">{t('app.rules.title')}</div>
+              <div className="options">
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.preset')}</div>
+                  <select
+                    value={activePresetId ?? 'custom'}
+                    onChange={(e) => {
+                      if (e.target.value === 'custom') return;
+                      // プリセットは四人麻雀・三人麻雀のどちらにも適用する（ローカル役・カスタム役も残す）
+                      updateRules(applyRulePreset(rules, e.target.value as RulePresetId));
+                    }}
+                    aria-label={t('common.rulePreset')}
+                  >
+                    {RULE_PRESETS.map(preset => (
+                      <option key={preset.id} value={preset.id}>{localizeName(preset, locale)}</option>
+                    ))}
+                    <option value="custom" disabled>{t('app.rules.custom')}</option>
+                  </select>
+                  <div className="info-text">
+                    {activePresetId ? localizeDescription(getRulePreset(activePresetId), locale) : t('app.rules.customHint')}
                   </div>
-                  {!riichi && <div className="info-text">リーチ時のみ有効です</div>}
                 </div>
-              </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.players')}</div>
+                  <div className="checkbox-group">
+                    {([4, 3] as const).map(players => (
+                      <label key={players} className="checkbox-label">
+                        <input
+                          type="radio"
+                          name="players"
+                          checked={rules.players === players}
+                          onChange={() => changePlayers(players)}
+                        />
+                        {t(`app.rules.players.${players}`)}
+                      </label>
+                    ))}
+                  </div>
+                  {rules.players === 3 && (
+                    <div className="checkbox-group">
+                      {SANMA_TSUMO_RULES.map(rule => (
+                        <label key={rule} className="checkbox-label">
+                          <input
+                            type="radio"
+                            name="sanma-tsumo"
+                            checked={rules.sanmaTsumo === rule}
+                            onChange={() => updateRules({ sanmaTsumo: rule })}
+                          />
+                          {t(`app.rules.sanmaTsumo.${rule}`)}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.multiRon')}</div>
+                  <div className="checkbox-group">
+                    {MULTI_RON_RULES.map(rule => (
+                      <label key={rule} className="checkbox-label">
+                        <input
+                          type="radio"
+                          name="multi-ron"
+                          checked={rules.multiRon === rule}
+                          onChange={() => updateRules({ multiRon: rule })}
+                        />
+                        {t(`app.rules.multiRon.${rule}`)}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.scoring')}</div>
+                  <div className="checkbox-group">
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={rules.kuitan}
+                        onChange={(e) => updateRules({ kuitan: e.target.checked })}
+                      />
+                      {t('app.rules.kuitan')}
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={rules.kiriageMangan}
+                        onChange={(e) => updateRules({ kiriageMangan: e.target.checked })}
+                      />
+                      {t('app.rules.kiriageMangan')}
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={rules.kazoeYakuman}
+                        onChange={(e) => updateRules({ kazoeYakuman: e.target.checked })}
+                      />
+                      {t('app.rules.kazoeYakuman')}
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={rules.doubleYakuman}
+                        onChange={(e) => updateRules({ doubleYakuman: e.target.checked })}
+                      />
+                      {t('app.rules.doubleYakuman')}
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={rules.multipleYakuman}
+                        onChange={(e) => updateRules({ multipleYakuman: e.target.checked })}
+                      />
+                      {t('app.rules.multipleYakuman')}
+                    </label>
+                    <label className="checkbox-label">
+                      <input
+                        type="checkbox"
+                        checked={rules.paoSuukantsu}
+                        onChange={(e) => updateRules({ paoSuukantsu: e.target.checked })}
+                      />
+                      {t('app.rules.paoSuukantsu')}
+                    </label>
+                  </div>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.renpuuFu')}</div>
+                  <div className="checkbox-group">
+                    {([2, 4] as const).map(fu => (
+                      <label key={fu} className="checkbox-label">
+                        <input
+                          type="radio"
+                          name="renpuu-fu"
+                          checked={rules.renpuuFu === fu}
+                          onChange={() => updateRules({ renpuuFu: fu })}
+                        />
+                        {t('common.fu', { fu })}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.localYaku')}</div>
+                  <div className="checkbox-group">
+                    {LOCAL_YAKU_DEFINITIONS.map(definition => {
+                      const setting = rules.localYaku[definition.id];
+                      return (
+                        <label key={definition.id} className="checkbox-label" title={localizeDescription(definition, locale)}>
+                          <input
+                            type="checkbox"
+                            checked={Boolean(setting?.enabled)}
+                            onChange={(e) => updateLocalYaku(definition.id, { enabled: e.target.checked })}
+                          />
+                          {localizeName(definition, locale)}
+                          <input
+                            type="number"
+                            min={1}
+                            max={26}
+                            value={setting?.han ?? definition.defaultHan}
+                            onChange={(e) => updateLocalYaku(definition.id, { han: Math.max(1, Number(e.target.value) || 1) })}
+                            aria-label={t('app.rules.localYakuHan', { name: localizeName(definition, locale) })}
+                            style={{ width: '3.5em' }}
+                          />
+                          {t('common.hanUnit')}
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.customYaku')}</div>
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={(e) => {
+                      void handleCustomYakuFile(e.target.files?.[0]);
+                      e.target.value = '';
+                    }}
+                    aria-label={t('app.rules.customYakuFile')}
+                  />
+                  {rules.customYaku.length > 0 ? (
+                    <div className="info-text">
+                      {rules.customYaku.map(spec => t('app.rules.customYakuItem', {
+                        name: localizeName(spec, locale),
+                        han: spec.yakuman ? t('limit.yakuman') : t('common.han', { han: spec.han })
+                      })).join(' / ')}
+                      <button
+                        type="button"
+                        className="btn btn-secondary"
+                        onClick={() => updateRules({ customYaku: [] })}
+                        style={{ marginLeft: '8px' }}
+                      >
+                        {t('app.rules.customYakuRemove')}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="info-text">{t('common.notSet')}</div>
+                  )}
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.honbaAndRed')}</div>
+                  <select
+                    value={rules.honbaValue}
+                    onChange={(e) => updateRules({ honbaValue: Number(e.target.value) })}
+                    aria-label={t('app.rules.honbaValue')}
+                  >
+                    {HONBA_VALUE_OPTIONS.map(value => (
+                      <option key={value} value={value}>{t('app.rules.honbaValueOption', { points: value })}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={`${rules.redFives.man}${rules.redFives.pin}${rules.redFives.sou}`}
+                    onChange={(e) => {
+                      const option = RED_FIVE_OPTIONS.find(item => item.value === e.target.value);
+                      if (option) updateRules({ redFives: { ...option.counts } });
+                    }}
+                    aria-label={t('app.rules.redFives')}
+                  >
+                    {RED_FIVE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{t('app.rules.redFivesOption', { label: t(option.label) })}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('app.rules.standings')}</div>
+                  <select
+                    value={`${rules.uma[1]}-${rules.uma[0]}`}
+                    onChange={(e) => {
+                      const [small, large] = e.target.value.split('-').map(Number);
+                      updateRules({ uma: [large, small, -small, -large] });
+                    }}
+                    aria-label={t('app.rules.uma')}
+                  >
+                    {UMA_OPTIONS.map(([small, large]) => (
+                      <option key={`${small}-${large}`} value={`${small}-${large}`}>{t('app.rules.umaOption', { small, large })}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={`${rules.startingPoints}-${rules.returnPoints}`}
+                    onChange={(e) => {
+                      const option = POINTS_OPTIONS.find(item => `${item.startingPoints}-${item.returnPoints}` === e.target.value);
+                      if (option) updateRules({ ...option });
+                    }}
+                    aria-label={t('app.rules.points')}
+                  >
+                    {POINTS_OPTIONS.map(option => (
+                      <option key={`${option.startingPoints}-${option.returnPoints}`} value={`${option.startingPoints}-${option.returnPoints}`}>
+                        {t('app.rules.pointsOption', { starting: option.startingPoints, returnPoints: option.returnPoints })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
             </div>
-          </div>
+          )}
 
           {/* 計算ボタン */}
           <div className="section compact sticky-actions">
+            {agariWarnings.length > 0 && (
+              <ul className="validation-warnings">
+                {agariWarnings.map(warning => (
+                  <li key={warning.code + warning.message}>{warning.message}</li>
+                ))}
+              </ul>
+            )}
             <button
               className="btn btn-primary"
               onClick={handleCalculate}
               style={{ width: '100%', fontSize: '1.05em', padding: '12px' }}
             >
-              点数を計算する
+              {t('app.calculate')}
             </button>
           </div>
         </div>
       </div>
 
       <div className="section compact info-panel">
-        <div className="section-title">情報パネル</div>
+        <div className="section-title">{t('app.info.title')}</div>
         <div className="info-tabs">
           <button
             type="button"
             className={`btn ${activeInfoTab === 'hand' ? 'btn-primary' : 'btn-secondary'}`}
             onClick={() => setActiveInfoTab('hand')}
           >
-            手牌
+            {t('common.hand')}
           </button>
           <button
             type="button"
             className={`btn ${activeInfoTab === 'options' ? 'btn-primary' : 'btn-secondary'}`}
             onClick={() => setActiveInfoTab('options')}
           >
-            条件
+            {t('common.conditions')}
           </button>
           <button
             type="button"
             className={`btn ${activeInfoTab === 'result' ? 'btn-primary' : 'btn-secondary'}`}
             onClick={() => setActiveInfoTab('result')}
           >
-            結果
+            {t('common.result')}
+          </button>
+          <button
+            type="button"
+            className={`btn ${activeInfoTab === 'yaku' ? 'btn-primary' : 'btn-secondary'}`}
+            onClick={() => setActiveInfoTab('yaku')}
+          >
+            {t('app.info.yakuList')}
           </button>
         </div>
         <div className="info-content">
           {activeInfoTab === 'hand' && (
             <div>
               <div className="history-hand">
-                <span className="history-label">手牌</span>
+                <span className="history-label">{t('common.hand')}</span>
                 <div className="history-tiles">
                   {hand.map((tile, index) => (
                     <span
                       key={`${tile}-${index}`}
-                      className={`history-tile${redHandFlags[index] ? ' history-tile--red' : ''}`}
+                      className={`history-tile${isRedFive(tile) ? ' history-tile--red' : ''}`}
                     >
                       <TileFace tile={tile} />
                     </span>
                   ))}
                 </div>
-                <span className="history-label">和了牌</span>
-                <span className={`history-tile history-tile-winning${redWinningFlag ? ' history-tile--red' : ''}`}>
-                  {winningTile ? <TileFace tile={winningTile} /> : '未選択'}
+                <span className="history-label">{t('common.winningTile')}</span>
+                <span className={`history-tile history-tile-winning${winningTile && isRedFive(winningTile) ? ' history-tile--red' : ''}`}>
+                  {winningTile ? <TileFace tile={winningTile} /> : t('common.notSelected')}
                 </span>
               </div>
-              <div style={{ marginTop: '4px' }}>鳴き: {currentMeldSummary}</div>
+              <div style={{ marginTop: '4px' }}>{t('app.info.melds', { melds: currentMeldSummary })}</div>
+              {tenpaiWaits.length > 0 && (
+                <div className="yaku-list">
+                  <div style={{ fontWeight: 'bold', marginBottom: '10px', color: '#667eea', fontSize: '1.1em' }}>
+                    {t('app.info.waits')}
+                  </div>
+                  {tenpaiWaits.map(wait => (
+                    <div key={wait.tile} className="yaku-item">
+                      <span className="history-tile">
+                        <TileFace tile={wait.tile} />
+                      </span>
+                      <span>{t('app.info.waitRemaining', { wait: t(`wait.${wait.waitPattern}`), count: wait.remaining })}</span>
+                      <span>{t('common.labelValue', { label: t('common.tsumo'), value: formatWaitScore(wait.tsumo) })}</span>
+                      <span>{t('common.labelValue', { label: t('common.ron'), value: formatWaitScore(wait.ron) })}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
           {activeInfoTab === 'options' && (
             <div className="history-option-grid" style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '6px' }}>
-              <div>和了方法: {agariType === 'tsumo' ? 'ツモ' : 'ロン'}</div>
-              <div>リーチ: {formatBooleanOption(riichi)}</div>
-              <div>ダブルリーチ: {formatBooleanOption(isDoubleRiichi)}</div>
-              <div>一発: {formatBooleanOption(ippatsu)}</div>
-              <div>門前: {formatBooleanOption(isMenzen)}</div>
-              <div>親番: {formatBooleanOption(isDealer)}</div>
-              <div>海底: {formatBooleanOption(isHaitei)}</div>
-              <div>河底: {formatBooleanOption(isHoutei)}</div>
-              <div>嶺上: {formatBooleanOption(isRinshan)}</div>
-              <div>槍槓: {formatBooleanOption(isChankan)}</div>
-              <div>流し満貫: {formatBooleanOption(isNagashiMangan)}</div>
-              <div>供託: {kyotakuCount}</div>
-              <div>本場: {honbaCount}</div>
+              {(isMcr ? [
+                { label: t('common.winType'), value: t(agariType === 'tsumo' ? 'common.tsumo' : 'common.ron') },
+                { label: t('app.mcr.lastTileDraw'), value: formatBooleanOption(t, isHaitei) },
+                { label: t('app.mcr.lastTileClaim'), value: formatBooleanOption(t, isHoutei) },
+                { label: t('app.mcr.replacementTile'), value: formatBooleanOption(t, isRinshan) },
+                { label: t('app.mcr.robbingKong'), value: formatBooleanOption(t, isChankan) },
+                { label: t('app.mcr.lastTile'), value: formatBooleanOption(t, isLastTile) },
+                { label: t('app.mcr.flowers'), value: flowerCount }
+              ] : formatOptionRows(t, {
+                isTsumo: agariType === 'tsumo',
+                isRiichi: riichi,
+                isDoubleRiichi,
+                isIppatsu: ippatsu,
+                isMenzen,
+                isOya: isDealer,
+                isHaitei,
+                isHoutei,
+                isRinshan,
+                isChankan,
+                isNagashiMangan,
+                kyotaku: kyotakuCount,
+                honba: honbaCount
+              })).map(row => (
+                <div key={row.label}>{t('common.labelValue', row)}</div>
+              ))}
             </div>
           )}
-          {activeInfoTab === 'result' && (
+          {activeInfoTab === 'result' && isMcr && (
+            mcrResult ? (
+              <McrResult result={mcrResult} locale={locale} />
+            ) : (
+              <div className="info-text">{t('app.result.empty')}</div>
+            )
+          )}
+          {activeInfoTab === 'result' && !isMcr && (
             result ? (
               <div>
                 <div className="result-box">
                   <div className="result-row">
-                    <span className="result-label">翻数（ハン）</span>
-                    <span className="result-value">{result.han}翻</span>
+                    <span className="result-label">{t('app.result.han')}</span>
+                    <span className="result-value">{t('common.han', { han: result.han })}</span>
                   </div>
                   <div className="result-row">
-                    <span className="result-label">符（フ）</span>
-                    <span className="result-value">{result.fu}符</span>
+                    <span className="result-label">{t('app.result.fu')}</span>
+                    <span className="result-value">{t('common.fu', { fu: result.fu })}</span>
                   </div>
                   <div className="result-row">
-                    <span className="result-label">点数</span>
+                    <span className="result-label">{t('app.result.score')}</span>
                     <span className="result-value">{result.score}</span>
                   </div>
+                  {result.scoreBreakdown?.limitText && (
+                    <div className="result-row">
+                      <span className="result-label">{t('app.result.limit')}</span>
+                      <span className="result-value">{result.scoreBreakdown.limitText}</span>
+                    </div>
+                  )}
+                  {result.interpretation && (
+                    <div className="result-row">
+                      <span className="result-label">{t('app.result.interpretation')}</span>
+                      <span className="result-value">
+                        {t('app.result.interpretationValue', {
+                          form: t(`handForm.${result.interpretation.form}`),
+                          wait: t(`wait.${result.interpretation.wait}`)
+                        })}
+                      </span>
+                    </div>
+                  )}
+                  {result.pao && (
+                    <div className="result-row">
+                      <span className="result-label">{t('app.result.pao')}</span>
+                      <span className="result-value">
+                        {t('app.result.paoValue', {
+                          yaku: result.pao.yaku
+                            .map(id => getYakuDefinitions().find(definition => definition.id === id))
+                            .map(definition => (definition ? localizeName(definition, locale) : ''))
+                            .join(t('common.listSeparator')),
+                          from: t(`meldSource.${result.pao.from}`),
+                          points: result.pao.points,
+                          half: result.pao.points / 2
+                        })}
+                      </span>
+                    </div>
+                  )}
                   {result.scoreBreakdown && (
                     <>
                       <div className="result-row">
-                        <span className="result-label">基本点</span>
+                        <span className="result-label">{t('app.result.base')}</span>
                         <span className="result-value">{result.scoreBreakdown.baseText}</span>
                       </div>
                       <div className="result-row">
-                        <span className="result-label">本場</span>
-                        <span className="result-value">{result.scoreBreakdown.honbaText ?? 'なし'}</span>
+                        <span className="result-label">{t('app.options.honba')}</span>
+                        <span className="result-value">{result.scoreBreakdown.honbaText ?? t('common.none')}</span>
                       </div>
                       <div className="result-row">
-                        <span className="result-label">供託</span>
-                        <span className="result-value">{result.scoreBreakdown.kyotakuText ?? 'なし'}</span>
+                        <span className="result-label">{t('app.options.kyotaku')}</span>
+                        <span className="result-value">{result.scoreBreakdown.kyotakuText ?? t('common.none')}</span>
                       </div>
                     </>
                   )}
                 </div>
                 <div className="yaku-list">
                   <div style={{ fontWeight: 'bold', marginBottom: '10px', color: '#667eea', fontSize: '1.1em' }}>
-                    成立役
+                    {t('app.result.yaku')}
                   </div>
                   {result.yaku.map((yaku, index) => (
                     <div
@@ -1406,61 +2041,102 @@ export default function Home() {
                       } : {}}
                     >
                       <span>{yaku.han >= 13 ? '🏆 ' : ''}{yaku.name}</span>
-                      <span>{yaku.han}翻</span>
+                      <span>{t('common.han', { han: yaku.han })}</span>
                     </div>
                   ))}
                 </div>
+                {result.fuBreakdown && result.fuBreakdown.length > 0 && (
+                  <div className="yaku-list">
+                    <div style={{ fontWeight: 'bold', marginBottom: '10px', color: '#667eea', fontSize: '1.1em' }}>
+                      {t('app.result.fuBreakdown')}
+                    </div>
+                    {result.fuBreakdown.map((item, index) => (
+                      <div key={`${item.label}-${index}`} className="yaku-item">
+                        <span>{item.label}</span>
+                        <span>{t('common.fu', { fu: item.fu })}</span>
+                      </div>
+                    ))}
+                    <div className="yaku-item" style={{ fontWeight: 'bold' }}>
+                      <span>{t('app.result.total')}</span>
+                      <span>{t('common.fu', { fu: result.fu })}</span>
+                    </div>
+                  </div>
+                )}
               </div>
             ) : (
-              <div className="info-text">まだ計算結果がありません。</div>
+              <div className="info-text">{t('app.result.empty')}</div>
             )
           )}
+          {activeInfoTab === 'yaku' && isMcr && (
+            <div className="yaku-list">
+              {MCR_FAN_DEFINITIONS.map(definition => (
+                <div key={definition.id} className="yaku-item">
+                  <span>{localizeName(definition, locale)}</span>
+                  <span>{t('mcr.fan', { fan: definition.fan })}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {activeInfoTab === 'yaku' && !isMcr && (
+            <div className="yaku-list">
+              {[...getYakuDefinitions(), ...rules.customYaku.map(compileCustomYaku)].map(definition => (
+                <div key={definition.id} className="yaku-item">
+                  <span>{localizeName(definition, locale)}</span>
+                  <span>{formatYakuDefinitionHan(definition, t)}</span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
       <div className="section compact">
-        <div className="section-title">計算履歴</div>
+        <div className="section-title">{t('app.history.title')}</div>
         {history.length === 0 ? (
-          <div className="info-text">まだ履歴がありません。</div>
+          <div className="info-text">{t('app.history.empty')}</div>
         ) : (
           <div className="history-list">
             {history.map(entry => {
               const isActive = activeHistoryId === entry.id;
               const detailTabs: { key: 'hand' | 'options' | 'result'; label: string }[] = [
-                { key: 'hand', label: '手牌情報' },
-                { key: 'options', label: '条件' },
-                { key: 'result', label: '結果' }
+                { key: 'hand', label: t('app.history.handTab') },
+                { key: 'options', label: t('common.conditions') },
+                { key: 'result', label: t('common.result') }
               ];
               const meldSummary = entry.options.melds && entry.options.melds.length > 0
                 ? entry.options.melds.map(meld => `${meld.type.toUpperCase()}(${meld.tiles.join(' ')})`).join(' / ')
-                : 'なし';
+                : t('common.none');
               return (
                 <div key={entry.id} className="history-item">
                   <div>
                     <div className="history-score">{entry.result.score}</div>
                     <div className="history-meta">
-                      {new Date(entry.timestamp).toLocaleString()} / {entry.result.han}翻 {entry.result.fu}符
+                      {t('app.history.meta', {
+                        time: new Date(entry.timestamp).toLocaleString(locale),
+                        han: entry.result.han,
+                        fu: entry.result.fu
+                      })}
                     </div>
                     <div className="history-hand">
-                      <span className="history-label">手牌</span>
+                      <span className="history-label">{t('common.hand')}</span>
                       <div className="history-tiles">
                         {entry.hand.map((tile, index) => (
-                          <span key={`${tile}-${index}`} className="history-tile">
+                          <span key={`${tile}-${index}`} className={`history-tile${isRedFive(tile) ? ' history-tile--red' : ''}`}>
                             <TileFace tile={tile} />
                           </span>
                         ))}
                       </div>
-                      <span className="history-label">和了牌</span>
-                      <span className="history-tile history-tile-winning">
+                      <span className="history-label">{t('common.winningTile')}</span>
+                      <span className={`history-tile history-tile-winning${isRedFive(entry.winningTile) ? ' history-tile--red' : ''}`}>
                         <TileFace tile={entry.winningTile} />
                       </span>
                     </div>
                     <div className="history-yaku">
-                      {entry.result.yaku.map(y => `${y.name}(${y.han}翻)`).join('、 ')}
+                      {formatYakuSummary(t, entry.result.yaku)}
                     </div>
                   </div>
                   <button className="btn btn-secondary" onClick={() => toggleHistoryEntry(entry)}>
-                    {isActive ? '詳細を閉じる' : '詳細を表示'}
+                    {isActive ? t('app.history.hide') : t('app.history.show')}
                   </button>
                   {isActive && (
                     <div className="history-detail" style={{ marginTop: '12px', background: '#f8f8ff', padding: '12px', borderRadius: '8px' }}>
@@ -1480,51 +2156,57 @@ export default function Home() {
                         {activeHistoryTab === 'hand' && (
                           <div>
                             <div className="history-hand">
-                              <span className="history-label">手牌</span>
+                              <span className="history-label">{t('common.hand')}</span>
                               <div className="history-tiles">
                                 {entry.hand.map((tile, index) => (
-                                  <span key={`${tile}-${index}`} className="history-tile">
+                                  <span key={`${tile}-${index}`} className={`history-tile${isRedFive(tile) ? ' history-tile--red' : ''}`}>
                                     <TileFace tile={tile} />
                                   </span>
                                 ))}
                               </div>
-                              <span className="history-label">和了牌</span>
-                              <span className="history-tile history-tile-winning">
+                              <span className="history-label">{t('common.winningTile')}</span>
+                              <span className={`history-tile history-tile-winning${isRedFive(entry.winningTile) ? ' history-tile--red' : ''}`}>
                                 <TileFace tile={entry.winningTile} />
                               </span>
                             </div>
-                            <div style={{ marginTop: '4px' }}>鳴き: {meldSummary}</div>
+                            <div style={{ marginTop: '4px' }}>{t('app.info.melds', { melds: meldSummary })}</div>
                           </div>
                         )}
                         {activeHistoryTab === 'options' && (
                           <div className="history-option-grid" style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(120px, 1fr))', gap: '6px' }}>
-                            <div>和了方法: {entry.options.isTsumo ? 'ツモ' : 'ロン'}</div>
-                            <div>リーチ: {formatBooleanOption(entry.options.isRiichi)}</div>
-                            <div>ダブルリーチ: {formatBooleanOption(entry.options.isDoubleRiichi)}</div>
-                            <div>一発: {formatBooleanOption(entry.options.isIppatsu)}</div>
-                            <div>門前: {formatBooleanOption(entry.options.isMenzen)}</div>
-                            <div>親番: {formatBooleanOption(entry.options.isOya)}</div>
-                            <div>海底: {formatBooleanOption(entry.options.isHaitei)}</div>
-                            <div>河底: {formatBooleanOption(entry.options.isHoutei)}</div>
-                            <div>嶺上: {formatBooleanOption(entry.options.isRinshan)}</div>
-                            <div>槍槓: {formatBooleanOption(entry.options.isChankan)}</div>
-                            <div>流し満貫: {formatBooleanOption(entry.options.isNagashiMangan)}</div>
-                            <div>供託: {entry.options.kyotaku ?? 0}</div>
-                            <div>本場: {entry.options.honba ?? 0}</div>
+                            {formatOptionRows(t, entry.options).map(row => (
+                              <div key={row.label}>{t('common.labelValue', row)}</div>
+                            ))}
                           </div>
                         )}
                         {activeHistoryTab === 'result' && (
                           <div>
-                            <div>翻数: {entry.result.han}翻 / 符: {entry.result.fu}符</div>
-                            <div style={{ marginTop: '4px' }}>点数: {entry.result.score}</div>
+                            <div>{t('common.hanFuDetail', { han: entry.result.han, fu: entry.result.fu })}</div>
+                            <div style={{ marginTop: '4px' }}>
+                              {t('common.labelValue', { label: t('app.result.score'), value: entry.result.score })}
+                            </div>
                             {entry.result.scoreBreakdown && (
                               <>
-                                <div style={{ marginTop: '4px' }}>基本点: {entry.result.scoreBreakdown.baseText}</div>
-                                <div style={{ marginTop: '4px' }}>本場: {entry.result.scoreBreakdown.honbaText ?? 'なし'}</div>
-                                <div style={{ marginTop: '4px' }}>供託: {entry.result.scoreBreakdown.kyotakuText ?? 'なし'}</div>
+                                <div style={{ marginTop: '4px' }}>
+                                  {t('common.labelValue', { label: t('app.result.base'), value: entry.result.scoreBreakdown.baseText })}
+                                </div>
+                                <div style={{ marginTop: '4px' }}>
+                                  {t('common.labelValue', {
+                                    label: t('app.options.honba'),
+                                    value: entry.result.scoreBreakdown.honbaText ?? t('common.none')
+                                  })}
+                                </div>
+                                <div style={{ marginTop: '4px' }}>
+                                  {t('common.labelValue', {
+                                    label: t('app.options.kyotaku'),
+                                    value: entry.result.scoreBreakdown.kyotakuText ?? t('common.none')
+                                  })}
+                                </div>
                               </>
                             )}
-                            <div style={{ marginTop: '4px' }}>成立役: {entry.result.yaku.map(y => `${y.name}(${y.han}翻)`).join('、 ')}</div>
+                            <div style={{ marginTop: '4px' }}>
+                              {t('common.labelValue', { label: t('app.result.yaku'), value: formatYakuSummary(t, entry.result.yaku) })}
+                            </div>
                           </div>
                         )}
                       </div>
@@ -2,17 +2,31 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { calculateScore, sortHand, TILES, type AgariOptions, type Tile } from '@/lib/mahjong';
+import {
+  calculateScore,
+  getDoraFromIndicator,
+  sortHand,
+  TILES,
+  type AgariOptions,
+  type BasePayment,
+  type RuleSet,
+  type Tile
+} from '@/lib/mahjong';
+import { createTranslator, localizeName } from '@/lib/i18n';
+import { RULE_PRESETS, getRulePreset, type RulePresetId } from '@/lib/rulePresets';
 import TileFace from '@/app/components/TileFace';
+import LocaleSelect, { useLocale } from '@/app/components/LocaleSelect';
+
+type QuizTheme = 'riichi' | 'pinfu' | 'tanyao' | 'yakuhai' | 'sanshoku' | 'surprise';
 
 type QuizQuestion = {
   id: string;
   hand: Tile[];
   winningTile: Tile;
   options: AgariOptions;
-  label: string;
-  presentedText: string;
-  expectedText: string;
+  theme: QuizTheme;
+  presented: ExpectedScore;
+  expected: ExpectedScore;
   isCorrect: boolean;
   doraIndicators: Tile[];
   han: number;
@@ -23,7 +37,8 @@ type CandidateQuestion = {
   tiles: Tile[];
   winningTile: Tile;
   options: AgariOptions;
-  label: string;
+  theme: QuizTheme;
+  // 出題の狙いとなる役（calculateScore の既定言語である日本語の役名）
   requiredYaku: string[];
   doraIndicators: Tile[];
 };
@@ -47,7 +62,6 @@ const buildOptions = (overrides: Partial<AgariOptions>): AgariOptions => ({
   isNagashiMangan: false,
   doraTiles: [],
   uraDoraTiles: [],
-  redDora: { man: 0, pin: 0, sou: 0 },
   ...overrides
 });
 
@@ -56,26 +70,23 @@ type ExpectedScore =
   | { type: 'tsumo-oya'; perPerson: number }
   | { type: 'tsumo-ko'; ko: number; oya: number };
 
-const parseExpectedScore = (scoreText: string): ExpectedScore | null => {
-  const tsumoKoMatch = scoreText.match(/子:\s*(\d+)点、親:\s*(\d+)点/);
-  if (tsumoKoMatch) {
-    return { type: 'tsumo-ko', ko: Number(tsumoKoMatch[1]), oya: Number(tsumoKoMatch[2]) };
-  }
-  const tsumoOyaMatch = scoreText.match(/(\d+)点オール/);
-  if (tsumoOyaMatch) {
-    return { type: 'tsumo-oya', perPerson: Number(tsumoOyaMatch[1]) };
+const toExpectedScore = (payment: BasePayment): ExpectedScore | null => {
+  if (payment.tsumo) {
+    if (payment.tsumo.oya === null) {
+      return { type: 'tsumo-oya', perPerson: payment.tsumo.ko };
+    }
+    return { type: 'tsumo-ko', ko: payment.tsumo.ko, oya: payment.tsumo.oya };
   }
-  const ronMatch = scoreText.match(/(\d+)点/);
-  if (ronMatch) {
-    return { type: 'ron', ron: Number(ronMatch[1]) };
+  if (payment.ron !== null) {
+    return { type: 'ron', ron: payment.ron };
   }
   return null;
 };
 
-const formatExpectedScore = (expected: ExpectedScore): string => {
-  if (expected.type === 'ron') return `${expected.ron}点`;
-  if (expected.type === 'tsumo-oya') return `${expected.perPerson}点オール`;
-  return `子: ${expected.ko}点 / 親: ${expected.oya}点`;
+const formatExpectedScore = (expected: ExpectedScore, t: ReturnType<typeof createTranslator>): string => {
+  if (expected.type === 'ron') return t('score.points', { points: expected.ron });
+  if (expected.type === 'tsumo-oya') return t('quiz.tsumoAll', { points: expected.perPerson });
+  return t('quiz.tsumoSplit', { ko: expected.ko, oya: expected.oya });
 };
 
 const isSameExpectedScore = (a: ExpectedScore, b: ExpectedScore): boolean => {
@@ -99,12 +110,9 @@ const ALL_TILES: Tile[] = [
   ...TILES.souzu,
   ...TILES.jihai
 ];
-const WIND_LABEL: Record<string, string> = {
-  ton: '東',
-  nan: '南',
-  sha: '西',
-  pei: '北'
-};
+const WINDS = ['ton', 'nan', 'sha', 'pei'] as const;
+const isWind = (wind: string): wind is typeof WINDS[number] =>
+  (WINDS as readonly string[]).includes(wind);
 const BALANCE_WINDOW = 10;
 const MAX_HAND_TRIES = 140;
 const MAX_QUESTION_TRIES = 180;
@@ -112,27 +120,16 @@ const MAX_PAIR_TRIES = 40;
 
 const pickOne = <T,>(list: readonly T[]): T => list[Math.floor(Math.random() * list.length)];
 
-const getDoraFromIndicator = (tile: Tile): Tile => {
-  if (tile.length === 2) {
-    const num = Number(tile[0]);
-    const suit = tile[1];
-    const next = num === 9 ? 1 : num + 1;
-    return `${next}${suit}` as Tile;
-  }
-  const honorOrder: Tile[] = ['東', '南', '西', '北', '白', '發', '中'];
-  const index = honorOrder.indexOf(tile);
-  return honorOrder[(index + 1) % honorOrder.length];
-};
-
 const buildRandomExtras = (): {
   isRiichi: boolean;
   doraIndicators: Tile[];
   doraTiles: Tile[];
 } => {
   const isRiichi = Math.random() < 0.35;
-  const indicatorCount = Math.random() < 0.4 ? 0 : Math.random() < 0.7 ? 1 : 2;
+  // カンのない手なので表示牌は1枚まで
+  const indicatorCount = Math.random() < 0.4 ? 0 : 1;
   const doraIndicators: Tile[] = Array.from({ length: indicatorCount }, () => pickOne(ALL_TILES));
-  const doraTiles = doraIndicators.map(getDoraFromIndicator);
+  const doraTiles = doraIndicators.map(tile => getDoraFromIndicator(tile));
   return { isRiichi, doraIndicators, doraTiles };
 };
 
@@ -438,7 +435,7 @@ const buildRiichiCandidate = (): CandidateQuestion | null => {
       isOya: Math.random() < 0.5,
       doraTiles: extras.doraTiles
     }),
-    label: 'リーチ',
+    theme: 'riichi',
     requiredYaku: ['リーチ'],
     doraIndicators: extras.doraIndicators
   };
@@ -457,7 +454,7 @@ const buildPinfuCandidate = (): CandidateQuestion | null => {
       isRiichi: extras.isRiichi,
       doraTiles: extras.doraTiles
     }),
-    label: '平和',
+    theme: 'pinfu',
     requiredYaku: ['平和'],
     doraIndicators: extras.doraIndicators
   };
@@ -476,7 +473,7 @@ const buildTanyaoCandidate = (): CandidateQuestion | null => {
       isRiichi: extras.isRiichi,
       doraTiles: extras.doraTiles
     }),
-    label: '断么九',
+    theme: 'tanyao',
     requiredYaku: ['断么九'],
     doraIndicators: extras.doraIndicators
   };
@@ -495,7 +492,7 @@ const buildYakuhaiCandidate = (): CandidateQuestion | null => {
       isRiichi: extras.isRiichi,
       doraTiles: extras.doraTiles
     }),
-    label: '役牌',
+    theme: 'yakuhai',
     requiredYaku: ['白', '發', '中', '場風 東', '自風 東', '場風・自風 東'],
     doraIndicators: extras.doraIndicators
   };
@@ -514,7 +511,7 @@ const buildSanshokuCandidate = (): CandidateQuestion | null => {
       isRiichi: extras.isRiichi,
       doraTiles: extras.doraTiles
     }),
-    label: '三色同順',
+    theme: 'sanshoku',
     requiredYaku: ['三色同順'],
     doraIndicators: extras.doraIndicators
   };
@@ -534,7 +531,7 @@ const buildSurpriseCandidate = (): CandidateQuestion | null => {
         isRiichi: extras.isRiichi,
         doraTiles: extras.doraTiles
       }),
-      label: '意外性枠',
+      theme: 'surprise',
       requiredYaku: ['一気通貫'],
       doraIndicators: extras.doraIndicators
     };
@@ -550,7 +547,7 @@ const buildSurpriseCandidate = (): CandidateQuestion | null => {
       isRiichi: extras.isRiichi,
       doraTiles: extras.doraTiles
     }),
-    label: '意外性枠',
+    theme: 'surprise',
     requiredYaku: ['混一色'],
     doraIndicators: extras.doraIndicators
   };
@@ -565,33 +562,32 @@ const CANDIDATE_BUILDERS = [
   buildSurpriseCandidate
 ];
 
-const generateQuestion = (history: boolean[]): QuizQuestion | null => {
+const generateQuestion = (history: boolean[], rules: RuleSet): QuizQuestion | null => {
   for (let attempt = 0; attempt < MAX_QUESTION_TRIES; attempt += 1) {
     const builder = pickOne(CANDIDATE_BUILDERS);
     const candidate = builder();
     if (!candidate) continue;
     const hand = removeOneTile(candidate.tiles, candidate.winningTile);
     if (!hand) continue;
-    const calcResult = calculateScore(hand, candidate.winningTile, candidate.options);
+    const calcResult = calculateScore(hand, candidate.winningTile, candidate.options, rules);
     if ('error' in calcResult) continue;
     const hasRequired = candidate.requiredYaku.some(required =>
       calcResult.yaku.some(yaku => yaku.name === required)
     );
     if (!hasRequired) continue;
-    const expected = parseExpectedScore(calcResult.score);
+    if (!calcResult.scoreBreakdown) continue;
+    const expected = toExpectedScore(calcResult.scoreBreakdown.payment);
     if (!expected) continue;
-    const expectedText = formatExpectedScore(expected);
     const shouldBeCorrect = chooseCorrectness(history);
     const presented = shouldBeCorrect ? expected : makeIncorrectScore(expected);
-    const presentedText = formatExpectedScore(presented);
     return {
       id: `q-${Date.now()}-${Math.floor(Math.random() * 10000)}`,
-      label: `自動生成（${candidate.label}）`,
+      theme: candidate.theme,
       hand,
       winningTile: candidate.winningTile,
       options: candidate.options,
-      presentedText,
-      expectedText,
+      presented,
+      expected,
       isCorrect: shouldBeCorrect,
       doraIndicators: candidate.doraIndicators,
       han: calcResult.han,
@@ -602,21 +598,27 @@ const generateQuestion = (history: boolean[]): QuizQuestion | null => {
 };
 
 export default function ScoreQuizPage() {
+  const [locale, setLocale] = useLocale();
+  const t = createTranslator(locale);
+  const [presetId, setPresetId] = useState<RulePresetId>(RULE_PRESETS[0].id);
   const [history, setHistory] = useState<boolean[]>([]);
-  const [question, setQuestion] = useState<QuizQuestion | null>(() => generateQuestion([]));
+  const [question, setQuestion] = useState<QuizQuestion | null>(() => generateQuestion([], RULE_PRESETS[0].rules));
   const [judgeResult, setJudgeResult] = useState<{
     ok: boolean;
-    expectedText: string;
+    expected: ExpectedScore;
     choice: 'ok' | 'ng';
     isCorrect: boolean;
   } | null>(null);
 
+  const formatWind = (wind: string) =>
+    isWind(wind) ? t(`wind.${wind}`) : wind;
+
   const handleJudge = (choice: 'ok' | 'ng') => {
     if (!question) return;
     const ok = choice === 'ok' ? question.isCorrect : !question.isCorrect;
     setJudgeResult({
       ok,
-      expectedText: question.expectedText,
+      expected: question.expected,
       choice,
       isCorrect: question.isCorrect
     });
@@ -628,23 +630,53 @@ export default function ScoreQuizPage() {
       const nextHistory = question
         ? [...prev, question.isCorrect].slice(-BALANCE_WINDOW)
         : prev;
-      setQuestion(generateQuestion(nextHistory));
+      setQuestion(generateQuestion(nextHistory, getRulePreset(presetId).rules));
       return nextHistory;
     });
   };
 
+  const handlePresetChange = (id: RulePresetId) => {
+    setPresetId(id);
+    setJudgeResult(null);
+    setQuestion(generateQuestion(history, getRulePreset(id).rules));
+  };
+
+  const conditionRows = [
+    { label: t('common.winType'), value: question ? t(question.options.isTsumo ? 'common.tsumo' : 'common.ron') : '-' },
+    { label: t('common.oya'), value: question ? t(question.options.isOya ? 'common.dealer' : 'common.nonDealer') : '-' },
+    { label: t('common.bakaze'), value: question ? formatWind(question.options.bakaze) : '-' },
+    { label: t('common.jikaze'), value: question ? formatWind(question.options.jikaze) : '-' },
+    { label: t('common.riichi'), value: question ? t(question.options.isRiichi ? 'common.yes' : 'common.no') : '-' }
+  ];
+
   return (
     <div className="container">
-      <h1>🀄 点数○×ゲーム</h1>
+      <h1>{t('quiz.title')}</h1>
       <div className="controls" style={{ justifyContent: 'center' }}>
-        <Link className="btn btn-secondary" href="/">点数計算に戻る</Link>
+        <Link className="btn btn-secondary" href="/">{t('quiz.back')}</Link>
+        <select
+          value={presetId}
+          onChange={(e) => handlePresetChange(e.target.value as RulePresetId)}
+          aria-label={t('common.rulePreset')}
+        >
+          {RULE_PRESETS.map(preset => (
+            <option key={preset.id} value={preset.id}>
+              {t('quiz.presetOption', { name: localizeName(preset, locale) })}
+            </option>
+          ))}
+        </select>
+        <LocaleSelect locale={locale} onChange={setLocale} />
       </div>
 
       <div className="section compact">
-        <div className="section-title">問題</div>
-        <div className="info-text">{question?.label ?? '問題生成に失敗しました。'}</div>
+        <div className="section-title">{t('quiz.question')}</div>
+        <div className="info-text">
+          {question
+            ? t('quiz.questionLabel', { label: t(`quiz.theme.${question.theme}`) })
+            : t('quiz.generateFailed')}
+        </div>
         <div className="hand-display">
-          <div className="hand-title">手牌</div>
+          <div className="hand-title">{t('common.hand')}</div>
           <div className="hand-tiles">
             {question ? sortHand(question.hand).map((tile, index) => (
               <div key={`${tile}-${index}`} className="hand-tile">
@@ -660,17 +692,15 @@ export default function ScoreQuizPage() {
         </div>
         <div className="hand-display" style={{ display: 'flex', gap: '16px', alignItems: 'flex-start' }}>
           <div style={{ flex: 1 }}>
-            <div className="hand-title">条件</div>
+            <div className="hand-title">{t('common.conditions')}</div>
             <div className="history-option-grid" style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: '6px' }}>
-              <div>和了方法: {question ? (question.options.isTsumo ? 'ツモ' : 'ロン') : '-'}</div>
-              <div>親番: {question ? (question.options.isOya ? '親' : '子') : '-'}</div>
-              <div>場風: {question ? (WIND_LABEL[question.options.bakaze] ?? question.options.bakaze) : '-'}</div>
-              <div>自風: {question ? (WIND_LABEL[question.options.jikaze] ?? question.options.jikaze) : '-'}</div>
-              <div>リーチ: {question ? (question.options.isRiichi ? 'あり' : 'なし') : '-'}</div>
+              {conditionRows.map(row => (
+                <div key={row.label}>{t('common.labelValue', row)}</div>
+              ))}
             </div>
           </div>
           <div style={{ minWidth: '160px' }}>
-            <div className="hand-title">ドラ表示牌</div>
+            <div className="hand-title">{t('quiz.doraIndicators')}</div>
             {question && question.doraIndicators.length > 0 ? (
               <div className="hand-tiles" style={{ justifyContent: 'flex-end' }}>
                 {question.doraIndicators.map((tile, index) => (
@@ -680,37 +710,37 @@ export default function ScoreQuizPage() {
                 ))}
               </div>
             ) : (
-              <div className="info-text">なし</div>
+              <div className="info-text">{t('common.none')}</div>
             )}
           </div>
         </div>
         <div className="hand-display">
-          <div className="hand-title">候補点数</div>
-          {question?.presentedText ? (
-            <div className="info-text">{question.presentedText}</div>
+          <div className="hand-title">{t('quiz.presented')}</div>
+          {question ? (
+            <div className="info-text">{formatExpectedScore(question.presented, t)}</div>
           ) : (
-            <div className="info-text">問題生成に失敗しました。</div>
+            <div className="info-text">{t('quiz.generateFailed')}</div>
           )}
         </div>
       </div>
 
       <div className="section compact">
-        <div className="section-title">解答</div>
+        <div className="section-title">{t('quiz.answer')}</div>
         <div className="controls" style={{ marginTop: '12px' }}>
-          <button className="btn btn-primary" onClick={() => handleJudge('ok')}>○ 正しい</button>
-          <button className="btn btn-danger" onClick={() => handleJudge('ng')}>× 間違い</button>
-          <button className="btn btn-secondary" onClick={handleNext}>次の問題</button>
+          <button className="btn btn-primary" onClick={() => handleJudge('ok')}>{t('quiz.choiceOk')}</button>
+          <button className="btn btn-danger" onClick={() => handleJudge('ng')}>{t('quiz.choiceNg')}</button>
+          <button className="btn btn-secondary" onClick={handleNext}>{t('quiz.next')}</button>
         </div>
         {judgeResult && (
           <div className="info-text" style={{ marginTop: '10px' }}>
-            <div>{judgeResult.ok ? '○ 正解！' : '× 不正解'}</div>
-            <div>あなたの回答: {judgeResult.choice === 'ok' ? '○' : '×'}</div>
-            <div>候補は{judgeResult.isCorrect ? '正しい' : '誤り'}でした。</div>
-            {question && <div>翻数: {question.han}翻 / 符: {question.fu}符</div>}
+            <div>{t(judgeResult.ok ? 'quiz.right' : 'quiz.wrong')}</div>
+            <div>{t('quiz.yourAnswer', { choice: judgeResult.choice === 'ok' ? '○' : '×' })}</div>
+            <div>{t(judgeResult.isCorrect ? 'quiz.presentedWasCorrect' : 'quiz.presentedWasWrong')}</div>
+            {question && <div>{t('common.hanFuDetail', { han: question.han, fu: question.fu })}</div>}
             {judgeResult.ok && judgeResult.choice === 'ng' && (
-              <div>正解: {judgeResult.expectedText}</div>
+              <div>{t('quiz.expected', { score: formatExpectedScore(judgeResult.expected, t) })}</div>
             )}
-            {!judgeResult.ok && <div>正解: {judgeResult.expectedText}</div>}
+            {!judgeResult.ok && <div>{t('quiz.expected', { score: formatExpectedScore(judgeResult.expected, t) })}</div>}
           </div>
         )}
       </div>
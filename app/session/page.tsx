@@ -0,0 +1,647 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  DEFAULT_RULE_SET,
+  getPaoYakuIds,
+  getPaoYakumanCount,
+  getYakuDefinitions,
+  type CalculationResult,
+  type PaoYakuId,
+  type RonClaim,
+  type RuleSet
+} from '@/lib/mahjong';
+import {
+  applyMultiRon,
+  applyRyuukyoku,
+  applyWin,
+  calculateStandings,
+  createSession,
+  declareRiichi,
+  getSeatWind,
+  isSessionRuleSet,
+  SESSION_SEATS,
+  type SessionLength,
+  type SessionRecord,
+  type SessionState
+} from '@/lib/session';
+import { createTranslator, localizeName } from '@/lib/i18n';
+import LocaleSelect, { useLocale } from '@/app/components/LocaleSelect';
+
+// 点数計算の画面と同じ保存先（ルールと計算履歴を読み込む）
+const RULES_KEY = 'mahjong-rules';
+const HISTORY_KEY = 'mahjong-history';
+const SESSION_KEY = 'mahjong-session';
+
+const SESSION_LENGTHS: SessionLength[] = ['hanchan', 'tonpuusen'];
+
+const YAKUMAN_OPTIONS = [0, 1, 2, 3];
+
+const SEATS = Array.from({ length: SESSION_SEATS }, (_, seat) => seat);
+
+type CalculatorHistoryEntry = {
+  id: string;
+  timestamp: number;
+  options: { isTsumo: boolean };
+  result: CalculationResult;
+};
+
+type Translate = ReturnType<typeof createTranslator>;
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+// 最終成績は千点単位で小数第1位まで表示する（例: +45.3）
+const formatStandingScore = (score: number) => (score > 0 ? `+${score.toFixed(1)}` : score.toFixed(1));
+
+const formatHandValue = (t: Translate, han: number, fu: number, yakumanCount: number) => {
+  if (yakumanCount === 0) return t('common.hanFu', { han, fu });
+  if (yakumanCount === 1) return t('limit.yakuman');
+  return yakumanCount === 2 ? t('limit.doubleYakuman') : t('limit.multipleYakuman', { count: yakumanCount });
+};
+
+const logClientError = (message: string, error: unknown) => {
+  if (process.env.NODE_ENV !== 'production') {
+    console.error(message, error);
+  }
+};
+
+export default function SessionPage() {
+  const [locale, setLocale] = useLocale();
+  const t = createTranslator(locale);
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULE_SET);
+  const [session, setSession] = useState<SessionState | null>(null);
+  const [past, setPast] = useState<SessionState[]>([]);
+  const [calculatorHistory, setCalculatorHistory] = useState<CalculatorHistoryEntry[]>([]);
+  const [length, setLength] = useState<SessionLength>('hanchan');
+  const [names, setNames] = useState<string[]>(SEATS.map(() => ''));
+  const [winner, setWinner] = useState<number>(0);
+  const [isTsumo, setIsTsumo] = useState<boolean>(false);
+  const [discarder, setDiscarder] = useState<number>(1);
+  const [han, setHan] = useState<number>(1);
+  const [fu, setFu] = useState<number>(30);
+  const [yakumanCount, setYakumanCount] = useState<number>(0);
+  const [extraWins, setExtraWins] = useState<RonClaim[]>([]);
+  const [pao, setPao] = useState<number | null>(null);
+  const [paoYaku, setPaoYaku] = useState<PaoYakuId | null>(null);
+  // 計算履歴から入力した場合は、その和了で責任払いの対象になる役満だけを選べる（null は手入力）
+  const [historyPaoYaku, setHistoryPaoYaku] = useState<PaoYakuId[] | null>(null);
+  const [tenpai, setTenpai] = useState<boolean[]>(SEATS.map(() => false));
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    try {
+      const storedRules = localStorage.getItem(RULES_KEY);
+      if (storedRules) {
+        const parsed: Partial<RuleSet> = JSON.parse(storedRules);
+        setRules({ ...DEFAULT_RULE_SET, ...parsed });
+      }
+      const storedHistory = localStorage.getItem(HISTORY_KEY);
+      if (storedHistory) {
+        setCalculatorHistory(JSON.parse(storedHistory));
+      }
+      const storedSession = localStorage.getItem(SESSION_KEY);
+      if (storedSession) {
+        setSession(JSON.parse(storedSession));
+      }
+    } catch (e) {
+      logClientError('Failed to load session from localStorage', e);
+    }
+  }, []);
+
+  const updateSession = (next: SessionState | null, options?: { keepPast?: boolean }) => {
+    if (session && next && !options?.keepPast) {
+      setPast(prev => [...prev, session]);
+    }
+    setSession(next);
+    setError('');
+    try {
+      if (next) {
+        localStorage.setItem(SESSION_KEY, JSON.stringify(next));
+      } else {
+        localStorage.removeItem(SESSION_KEY);
+      }
+    } catch (e) {
+      logClientError('Failed to save session to localStorage', e);
+    }
+  };
+
+  const getName = (seat: number) =>
+    session?.names[seat] || t('session.playerName', { number: seat + 1 });
+
+  const handleStart = () => {
+    if (!isSessionRuleSet(rules)) {
+      setError(t('session.error.fourPlayerRules'));
+      return;
+    }
+    setPast([]);
+    updateSession(createSession(names.map(name => name.trim()), length, rules), { keepPast: true });
+  };
+
+  const handleReset = () => {
+    setPast([]);
+    updateSession(null);
+  };
+
+  const handleUndo = () => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+    setPast(prev => prev.slice(0, -1));
+    updateSession(previous, { keepPast: true });
+  };
+
+  const handleRiichi = (seat: number) => {
+    if (!session) return;
+    const next = declareRiichi(session, seat, locale);
+    if ('error' in next) {
+      setError(next.error);
+      return;
+    }
+    updateSession(next);
+  };
+
+  // 追加の和了者は和了者・放銃者と重ならないようにする
+  const changeDiscarder = (seat: number) => {
+    setDiscarder(seat);
+    setExtraWins(prev => prev.filter(claim => claim.seat !== seat));
+  };
+
+  // 放銃者は和了者以外から選ぶ
+  const changeWinner = (seat: number) => {
+    setWinner(seat);
+    setExtraWins(prev => prev.filter(claim => claim.seat !== seat));
+    if (pao === seat) setPao(null);
+    if (discarder === seat) {
+      changeDiscarder((seat + 1) % SESSION_SEATS);
+    }
+  };
+
+  // ダブロン・トリロンの追加の和了者（和了者・放銃者・追加済みの人以外から選ぶ）
+  const getAvailableExtraSeats = (current?: number) =>
+    SEATS.filter(seat =>
+      seat === current || (seat !== winner && seat !== discarder && !extraWins.some(claim => claim.seat === seat))
+    );
+
+  const clearPao = () => {
+    setPao(null);
+    setPaoYaku(null);
+  };
+
+  const addExtraWin = () => {
+    const [seat] = getAvailableExtraSeats();
+    if (seat === undefined) return;
+    // 責任払いはダブロンと組み合わせない
+    clearPao();
+    setExtraWins(prev => [...prev, { seat, han: 1, fu: 30, yakumanCount: 0 }]);
+  };
+
+  const updateExtraWin = (index: number, patch: Partial<RonClaim>) => {
+    setExtraWins(prev => prev.map((claim, i) => (i === index ? { ...claim, ...patch } : claim)));
+  };
+
+  // 責任払いは大三元・大四喜など責任払いの役満を含む和了だけ
+  const paoYakuOptions = (historyPaoYaku ?? getPaoYakuIds(rules))
+    .filter(id => getPaoYakumanCount(id, rules) <= yakumanCount);
+
+  const changeYakumanCount = (count: number, historyYaku: PaoYakuId[] | null = null) => {
+    setYakumanCount(count);
+    setHistoryPaoYaku(historyYaku);
+    clearPao();
+  };
+
+  const changePaoYaku = (id: PaoYakuId | null) => {
+    setPaoYaku(id);
+    if (id === null) setPao(null);
+  };
+
+  const handleApplyWin = () => {
+    if (!session) return;
+    const next = !isTsumo && extraWins.length > 0
+      ? applyMultiRon(session, discarder, [{ seat: winner, han, fu, yakumanCount }, ...extraWins], rules, locale)
+      : applyWin(session, {
+        winner,
+        discarder,
+        isTsumo,
+        han,
+        fu,
+        yakumanCount,
+        pao: paoYaku === null ? undefined : pao ?? undefined,
+        paoYakumanCount: paoYaku === null ? undefined : getPaoYakumanCount(paoYaku, rules)
+      }, rules, locale);
+    if ('error' in next) {
+      setError(next.error);
+      return;
+    }
+    setExtraWins([]);
+    clearPao();
+    updateSession(next);
+  };
+
+  const handleApplyRyuukyoku = () => {
+    if (!session) return;
+    const next = applyRyuukyoku(session, tenpai, locale);
+    if ('error' in next) {
+      setError(next.error);
+      return;
+    }
+    setTenpai(SEATS.map(() => false));
+    updateSession(next);
+  };
+
+  // 計算履歴の翻数・符・和了方法を入力欄に写す（親かどうかは座席から決める）
+  const handleHistorySelect = (id: string) => {
+    const entry = calculatorHistory.find(item => item.id === id);
+    if (!entry) return;
+    setHan(entry.result.han);
+    setFu(entry.result.fu);
+    setIsTsumo(entry.options.isTsumo);
+    // 数え役満は倍数が1でも責任払いの対象にしない
+    changeYakumanCount(entry.result.scoreBreakdown?.payment.yakumanMultiplier ?? 0, entry.result.pao?.yaku ?? []);
+  };
+
+  const formatRecord = (record: SessionRecord) => {
+    if (record.type === 'draw') {
+      const tenpaiNames = SEATS.filter(seat => record.tenpai[seat]).map(getName);
+      return tenpaiNames.length === 0
+        ? t('session.recordDrawNoten')
+        : t('session.recordDraw', { names: tenpaiNames.join(t('common.listSeparator')) });
+    }
+    if (record.type === 'multiRon') {
+      const wins = record.wins.map(claim => t('session.recordMultiRonWin', {
+        name: getName(claim.seat),
+        value: formatHandValue(t, claim.han, claim.fu, claim.yakumanCount)
+      }));
+      return t('session.recordMultiRon', { wins: wins.join(t('common.listSeparator')), discarder: getName(record.discarder) });
+    }
+    const params = {
+      name: getName(record.winner),
+      type: t(record.isTsumo ? 'common.tsumo' : 'common.ron'),
+      value: formatHandValue(t, record.han, record.fu, record.yakumanCount)
+    };
+    const text = record.discarder === undefined
+      ? t('session.recordWin', params)
+      : t('session.recordRon', { ...params, discarder: getName(record.discarder) });
+    return record.pao === undefined ? text : t('session.recordPao', { record: text, name: getName(record.pao) });
+  };
+
+  return (
+    <div className="container">
+      <h1>{t('session.title')}</h1>
+      <div className="controls" style={{ justifyContent: 'center' }}>
+        <Link className="btn btn-secondary" href="/">{t('session.back')}</Link>
+        <LocaleSelect locale={locale} onChange={setLocale} />
+      </div>
+
+      {!session && (
+        <div className="section compact">
+          <div className="section-title">{t('session.setup')}</div>
+          <div className="options">
+            <div className="option-group">
+              <div className="option-title">{t('session.length')}</div>
+              <div className="checkbox-group">
+                {SESSION_LENGTHS.map(item => (
+                  <label key={item} className="checkbox-label">
+                    <input
+                      type="radio"
+                      name="session-length"
+                      checked={length === item}
+                      onChange={() => setLength(item)}
+                    />
+                    {t(`session.length.${item}`)}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="option-group">
+              <div className="option-title">{t('session.players')}</div>
+              <div className="checkbox-group">
+                {SEATS.map(seat => (
+                  <input
+                    key={seat}
+                    type="text"
+                    value={names[seat]}
+                    placeholder={t('session.playerName', { number: seat + 1 })}
+                    aria-label={t('session.playerName', { number: seat + 1 })}
+                    onChange={(e) => setNames(prev => prev.map((name, index) => (index === seat ? e.target.value : name)))}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="info-text">
+            {isSessionRuleSet(rules)
+              ? t('session.startingPoints', { points: rules.startingPoints })
+              : t('session.error.fourPlayerRules')}
+          </div>
+          <div className="controls">
+            <button type="button" className="btn btn-primary" onClick={handleStart}>{t('session.start')}</button>
+          </div>
+        </div>
+      )}
+
+      {session && (
+        <>
+          <div className="section compact">
+            <div className="section-title">
+              {session.isFinished
+                ? t('session.finished')
+                : t('session.round', { round: t(`wind.${session.round}`), kyoku: session.kyoku, honba: session.honba })}
+            </div>
+            <div className="info-text" style={{ marginTop: 0, marginBottom: '10px' }}>
+              {t('session.kyotaku', { count: session.kyotaku })}
+            </div>
+            <div className="session-seats">
+              {SEATS.map(seat => (
+                <div key={seat} className={`session-seat${seat === session.dealer ? ' session-seat--dealer' : ''}`}>
+                  <div className="option-title" style={{ marginBottom: 0 }}>
+                    {t(`wind.${getSeatWind(session, seat)}`)} {getName(seat)}
+                  </div>
+                  <div className="session-score">{session.scores[seat]}</div>
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={() => handleRiichi(seat)}
+                    disabled={session.isFinished || session.riichi[seat]}
+                  >
+                    {session.riichi[seat] ? t('session.riichiDone') : t('session.riichi')}
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="controls">
+              <button type="button" className="btn btn-secondary" onClick={handleUndo} disabled={past.length === 0}>
+                {t('session.undo')}
+              </button>
+              <button type="button" className="btn btn-danger" onClick={handleReset}>{t('session.reset')}</button>
+            </div>
+          </div>
+
+          {session.isFinished && (
+            <div className="section compact">
+              <div className="section-title">{t('session.standings')}</div>
+              <div className="yaku-list" style={{ marginTop: 0 }}>
+                {calculateStandings(session.scores, session.kyotaku, rules).map(standing => (
+                  <div key={standing.seat} className="yaku-item">
+                    <span>{t('session.rank', { rank: standing.rank })} {getName(standing.seat)} ({standing.points})</span>
+                    <span className={standing.score > 0 ? 'session-delta--plus' : standing.score < 0 ? 'session-delta--minus' : undefined}>
+                      {formatStandingScore(standing.score)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="info-text">
+                {t('session.standingsHint', { small: rules.uma[1], large: rules.uma[0], returnPoints: rules.returnPoints })}
+              </div>
+            </div>
+          )}
+
+          {!session.isFinished && (
+            <div className="section compact">
+              <div className="section-title">{t('session.win')}</div>
+              <div className="options">
+                <div className="option-group">
+                  <div className="option-title">{t('session.winner')}</div>
+                  <select value={winner} onChange={(e) => changeWinner(Number(e.target.value))} aria-label={t('session.winner')}>
+                    {SEATS.map(seat => (
+                      <option key={seat} value={seat}>{getName(seat)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('common.winType')}</div>
+                  <div className="checkbox-group">
+                    <label className="checkbox-label">
+                      <input type="radio" name="session-win-type" checked={isTsumo} onChange={() => setIsTsumo(true)} />
+                      {t('common.tsumo')}
+                    </label>
+                    <label className="checkbox-label">
+                      <input type="radio" name="session-win-type" checked={!isTsumo} onChange={() => setIsTsumo(false)} />
+                      {t('common.ron')}
+                    </label>
+                  </div>
+                </div>
+                {!isTsumo && (
+                  <div className="option-group">
+                    <div className="option-title">{t('session.discarder')}</div>
+                    <select value={discarder} onChange={(e) => changeDiscarder(Number(e.target.value))} aria-label={t('session.discarder')}>
+                      {SEATS.filter(seat => seat !== winner).map(seat => (
+                        <option key={seat} value={seat}>{getName(seat)}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div className="option-group">
+                  <div className="option-title">{t('session.han')} / {t('session.fu')}</div>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <input
+                      type="number"
+                      min={1}
+                      value={han}
+                      onChange={(e) => setHan(Number(e.target.value))}
+                      aria-label={t('session.han')}
+                      disabled={yakumanCount > 0}
+                      style={{ width: '70px' }}
+                    />
+                    <input
+                      type="number"
+                      min={20}
+                      step={10}
+                      value={fu}
+                      onChange={(e) => setFu(Number(e.target.value))}
+                      aria-label={t('session.fu')}
+                      disabled={yakumanCount > 0}
+                      style={{ width: '70px' }}
+                    />
+                  </div>
+                </div>
+                <div className="option-group">
+                  <div className="option-title">{t('session.yakuman')}</div>
+                  <select value={yakumanCount} onChange={(e) => changeYakumanCount(Number(e.target.value))} aria-label={t('session.yakuman')}>
+                    {YAKUMAN_OPTIONS.map(count => (
+                      <option key={count} value={count}>
+                        {count === 0 ? t('common.none') : formatHandValue(t, 0, 0, count)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {/* 責任払いはダブロンと組み合わせない */}
+                {paoYakuOptions.length > 0 && (isTsumo || extraWins.length === 0) && (
+                  <div className="option-group">
+                    <div className="option-title">{t('session.pao')}</div>
+                    <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                      <select
+                        value={paoYaku ?? ''}
+                        onChange={(e) => changePaoYaku(e.target.value === '' ? null : e.target.value as PaoYakuId)}
+                        aria-label={t('session.paoYakuman')}
+                      >
+                        <option value="">{t('common.none')}</option>
+                        {paoYakuOptions.map(id => {
+                          const definition = getYakuDefinitions().find(item => item.id === id);
+                          return <option key={id} value={id}>{definition ? localizeName(definition, locale) : id}</option>;
+                        })}
+                      </select>
+                      <select
+                        value={pao ?? ''}
+                        onChange={(e) => setPao(e.target.value === '' ? null : Number(e.target.value))}
+                        aria-label={t('session.pao')}
+                        disabled={paoYaku === null}
+                      >
+                        <option value="">-</option>
+                        {SEATS.filter(seat => seat !== winner).map(seat => (
+                          <option key={seat} value={seat}>{getName(seat)}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="info-text">{t('session.paoHint')}</div>
+                  </div>
+                )}
+                {!isTsumo && (
+                  <div className="option-group">
+                    <div className="option-title">{t('session.extraWinners')}</div>
+                    {extraWins.map((claim, index) => (
+                      <div key={index} style={{ display: 'flex', gap: '8px', marginBottom: '8px', flexWrap: 'wrap' }}>
+                        <select
+                          value={claim.seat}
+                          onChange={(e) => updateExtraWin(index, { seat: Number(e.target.value) })}
+                          aria-label={t('session.winner')}
+                        >
+                          {getAvailableExtraSeats(claim.seat).map(seat => (
+                            <option key={seat} value={seat}>{getName(seat)}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min={1}
+                          value={claim.han}
+                          onChange={(e) => updateExtraWin(index, { han: Number(e.target.value) })}
+                          aria-label={t('session.han')}
+                          disabled={(claim.yakumanCount ?? 0) > 0}
+                          style={{ width: '70px' }}
+                        />
+                        <input
+                          type="number"
+                          min={20}
+                          step={10}
+                          value={claim.fu}
+                          onChange={(e) => updateExtraWin(index, { fu: Number(e.target.value) })}
+                          aria-label={t('session.fu')}
+                          disabled={(claim.yakumanCount ?? 0) > 0}
+                          style={{ width: '70px' }}
+                        />
+                        <select
+                          value={claim.yakumanCount ?? 0}
+                          onChange={(e) => updateExtraWin(index, { yakumanCount: Number(e.target.value) })}
+                          aria-label={t('session.yakuman')}
+                        >
+                          {YAKUMAN_OPTIONS.map(count => (
+                            <option key={count} value={count}>
+                              {count === 0 ? t('common.none') : formatHandValue(t, 0, 0, count)}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          className="btn btn-secondary"
+                          onClick={() => setExtraWins(prev => prev.filter((_, i) => i !== index))}
+                        >
+                          {t('session.removeWinner')}
+                        </button>
+                      </div>
+                    ))}
+                    <button
+                      type="button"
+                      className="btn btn-secondary"
+                      onClick={addExtraWin}
+                      disabled={getAvailableExtraSeats().length === 0}
+                    >
+                      {t('session.addWinner')}
+                    </button>
+                    <div className="info-text">{t(`session.multiRonHint.${rules.multiRon}`)}</div>
+                  </div>
+                )}
+                <div className="option-group">
+                  <div className="option-title">{t('session.fromHistory')}</div>
+                  {calculatorHistory.length === 0 ? (
+                    <div className="info-text" style={{ marginTop: 0 }}>{t('session.historyEmpty')}</div>
+                  ) : (
+                    <select value="" onChange={(e) => handleHistorySelect(e.target.value)} aria-label={t('session.fromHistory')}>
+                      <option value="" disabled>-</option>
+                      {calculatorHistory.map(entry => (
+                        <option key={entry.id} value={entry.id}>
+                          {t('session.historyOption', { han: entry.result.han, fu: entry.result.fu, score: entry.result.score })}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+              <button type="button" className="btn btn-primary" onClick={handleApplyWin} style={{ width: '100%' }}>
+                {t('session.apply')}
+              </button>
+            </div>
+          )}
+
+          {!session.isFinished && (
+            <div className="section compact">
+              <div className="section-title">{t('session.draw')}</div>
+              <div className="checkbox-group" style={{ flexDirection: 'row', flexWrap: 'wrap', gap: '16px' }}>
+                {SEATS.map(seat => (
+                  <label key={seat} className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={tenpai[seat]}
+                      onChange={(e) => setTenpai(prev => prev.map((value, index) => (index === seat ? e.target.checked : value)))}
+                    />
+                    {getName(seat)} {t('session.tenpai')}
+                  </label>
+                ))}
+              </div>
+              <div className="info-text">{t('session.drawHint')}</div>
+              <div className="controls">
+                <button type="button" className="btn btn-primary" onClick={handleApplyRyuukyoku}>
+                  {t('session.applyDraw')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div className="section compact">
+            <div className="section-title">{t('session.records')}</div>
+            {session.records.length === 0 ? (
+              <div className="info-text">{t('session.recordsEmpty')}</div>
+            ) : (
+              <div className="yaku-list" style={{ marginTop: 0 }}>
+                {[...session.records].reverse().map((record, index) => (
+                  <div key={session.records.length - index} className="yaku-item" style={{ flexWrap: 'wrap', gap: '8px' }}>
+                    <span>
+                      {t('session.round', { round: t(`wind.${record.round}`), kyoku: record.kyoku, honba: record.honba })}
+                      {' '}
+                      {formatRecord(record)}
+                    </span>
+                    <span>
+                      {record.deltas.map((delta, seat) => (
+                        <span
+                          key={seat}
+                          className={delta > 0 ? 'session-delta--plus' : delta < 0 ? 'session-delta--minus' : undefined}
+                          style={{ marginLeft: '8px' }}
+                        >
+                          {getName(seat)} {formatDelta(delta)}
+                        </span>
+                      ))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {error && (
+        <div className="error-message show">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
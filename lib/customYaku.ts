@@ -0,0 +1,308 @@
+import { DEFAULT_LOCALE, translate, type Locale, type MessageParams } from './i18n';
+import { getYakuDefinitions, type HandForm, type Tile, type YakuContext, type YakuDefinition } from './mahjong';
+
+/**
+ * 牌の条件
+ * - 分類: terminal（老頭牌）/ honor（字牌）/ dragon（三元牌）/ wind（風牌）/ simple（中張牌）/ terminalOrHonor（么九牌）
+ * - 牌そのもの: '1m' や '中' など
+ */
+export type CustomTileMatcher =
+  | 'terminal'
+  | 'honor'
+  | 'dragon'
+  | 'wind'
+  | 'simple'
+  | 'terminalOrHonor'
+  | Tile;
+
+/**
+ * 面子の条件（指定した項目をすべて満たす面子に一致）
+ * - numbers: 面子の数字の並び（'123' や '777'）
+ * - suit: m / p / s / z（字牌）
+ */
+export interface CustomGroupMatcher {
+  type?: 'shuntsu' | 'koutsu';
+  tile?: CustomTileMatcher;
+  numbers?: string;
+  suit?: 'm' | 'p' | 's' | 'z';
+}
+
+export type CustomYakuCondition =
+  | { all: CustomYakuCondition[] }
+  | { any: CustomYakuCondition[] }
+  | { not: CustomYakuCondition }
+  | { every: CustomGroupMatcher }
+  | { has: CustomGroupMatcher; count?: number }
+  | { inAllSuits: CustomGroupMatcher }
+  | { pair: CustomTileMatcher }
+  | { form: HandForm }
+  | { menzen: boolean }
+  | { tsumo: boolean };
+
+/**
+ * JSONで記述するカスタム役
+ */
+export interface CustomYakuSpec {
+  id: string;
+  name: string;
+  nameEn?: string;
+  han: number;
+  openHan?: number;
+  yakuman?: boolean;
+  menzenOnly?: boolean;
+  supersedes?: string[];
+  when: CustomYakuCondition;
+}
+
+const SUITS = ['m', 'p', 's'] as const;
+const DRAGONS: Tile[] = ['白', '發', '中'];
+const WINDS: Tile[] = ['東', '南', '西', '北'];
+const TILE_CLASSES = ['terminal', 'honor', 'dragon', 'wind', 'simple', 'terminalOrHonor'];
+const TILE_PATTERN = /^([1-9][mps]|[東南西北白發中])$/;
+const CONDITION_KEYS = ['all', 'any', 'not', 'every', 'has', 'inAllSuits', 'pair', 'form', 'menzen', 'tsumo'];
+
+const isHonor = (tile: Tile) => tile.length === 1;
+const isTerminal = (tile: Tile) => !isHonor(tile) && (tile[0] === '1' || tile[0] === '9');
+const getSuit = (tile: Tile) => (isHonor(tile) ? 'z' : tile[1]);
+
+function matchTile(tile: Tile, matcher: CustomTileMatcher): boolean {
+  switch (matcher) {
+    case 'terminal':
+      return isTerminal(tile);
+    case 'honor':
+      return isHonor(tile);
+    case 'dragon':
+      return DRAGONS.includes(tile);
+    case 'wind':
+      return WINDS.includes(tile);
+    case 'simple':
+      return !isHonor(tile) && !isTerminal(tile);
+    case 'terminalOrHonor':
+      return isHonor(tile) || isTerminal(tile);
+    default:
+      return tile === matcher;
+  }
+}
+
+function matchGroup(group: Tile[], matcher: CustomGroupMatcher): boolean {
+  const isKoutsu = group.every(tile => tile === group[0]);
+  if (matcher.type === 'koutsu' && !isKoutsu) return false;
+  if (matcher.type === 'shuntsu' && isKoutsu) return false;
+  const { tile, suit, numbers } = matcher;
+  if (tile && !group.every(item => matchTile(item, tile))) return false;
+  if (suit && getSuit(group[0]) !== suit) return false;
+  if (numbers) {
+    const groupNumbers = group.slice(0, 3).map(item => (isHonor(item) ? '' : item[0])).join('');
+    if (groupNumbers !== numbers) return false;
+  }
+  return true;
+}
+
+function evaluateCondition(condition: CustomYakuCondition, context: YakuContext): boolean {
+  const mentsu = context.pattern?.mentsu ?? [];
+  if ('all' in condition) return condition.all.every(item => evaluateCondition(item, context));
+  if ('any' in condition) return condition.any.some(item => evaluateCondition(item, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, context);
+  if ('every' in condition) {
+    return context.pattern !== null && mentsu.every(group => matchGroup(group, condition.every));
+  }
+  if ('has' in condition) {
+    return mentsu.filter(group => matchGroup(group, condition.has)).length >= (condition.count ?? 1);
+  }
+  if ('inAllSuits' in condition) {
+    return SUITS.every(suit => mentsu.some(group => matchGroup(group, { ...condition.inAllSuits, suit })));
+  }
+  if ('pair' in condition) {
+    const pair = context.interpretation?.pair;
+    return Boolean(pair) && matchTile(pair as Tile, condition.pair);
+  }
+  if ('form' in condition) return context.interpretation?.form === condition.form;
+  if ('menzen' in condition) return context.isMenzen === condition.menzen;
+  return context.options.isTsumo === condition.tsumo;
+}
+
+type CustomYakuErrorCode =
+  | 'json'
+  | 'list'
+  | 'spec'
+  | 'string'
+  | 'stringList'
+  | 'boolean'
+  | 'positiveInteger'
+  | 'openHan'
+  | 'yakumanHan'
+  | 'reservedId'
+  | 'duplicateId'
+  | 'condition'
+  | 'conditionKey'
+  | 'conditionList'
+  | 'group'
+  | 'groupType'
+  | 'numbers'
+  | 'suit'
+  | 'tile'
+  | 'form';
+
+const customYakuError = (locale: Locale, code: CustomYakuErrorCode, params?: MessageParams) =>
+  translate(locale, `customYaku.error.${code}`, params);
+
+function validateTileMatcher(matcher: unknown, path: string, locale: Locale): string | null {
+  if (typeof matcher !== 'string' || (!TILE_CLASSES.includes(matcher) && !TILE_PATTERN.test(matcher))) {
+    return customYakuError(locale, 'tile', { path, value: String(matcher) });
+  }
+  return null;
+}
+
+function validateGroupMatcher(matcher: unknown, path: string, locale: Locale): string | null {
+  if (typeof matcher !== 'object' || matcher === null) {
+    return customYakuError(locale, 'group', { path });
+  }
+  const { type, tile, numbers, suit } = matcher as Record<string, unknown>;
+  if (type !== undefined && type !== 'shuntsu' && type !== 'koutsu') {
+    return customYakuError(locale, 'groupType', { path: `${path}.type` });
+  }
+  if (tile !== undefined) {
+    const error = validateTileMatcher(tile, `${path}.tile`, locale);
+    if (error) return error;
+  }
+  if (numbers !== undefined && (typeof numbers !== 'string' || !/^[1-9]{3}$/.test(numbers))) {
+    return customYakuError(locale, 'numbers', { path: `${path}.numbers` });
+  }
+  if (suit !== undefined && !['m', 'p', 's', 'z'].includes(String(suit))) {
+    return customYakuError(locale, 'suit', { path: `${path}.suit` });
+  }
+  return null;
+}
+
+function validateCondition(condition: unknown, path: string, locale: Locale): string | null {
+  if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) {
+    return customYakuError(locale, 'condition', { path });
+  }
+  const record = condition as Record<string, unknown>;
+  const key = CONDITION_KEYS.find(item => item in record);
+  if (!key) {
+    return customYakuError(locale, 'conditionKey', { path, keys: CONDITION_KEYS.join(' / ') });
+  }
+  const value = record[key];
+  switch (key) {
+    case 'all':
+    case 'any':
+      if (!Array.isArray(value) || value.length === 0) {
+        return customYakuError(locale, 'conditionList', { path: `${path}.${key}` });
+      }
+      for (let i = 0; i < value.length; i++) {
+        const error = validateCondition(value[i], `${path}.${key}[${i}]`, locale);
+        if (error) return error;
+      }
+      return null;
+    case 'not':
+      return validateCondition(value, `${path}.not`, locale);
+    case 'every':
+    case 'has':
+    case 'inAllSuits':
+      if (key === 'has' && record.count !== undefined && (!Number.isInteger(record.count) || Number(record.count) < 1)) {
+        return customYakuError(locale, 'positiveInteger', { path: `${path}.count` });
+      }
+      return validateGroupMatcher(value, `${path}.${key}`, locale);
+    case 'pair':
+      return validateTileMatcher(value, `${path}.pair`, locale);
+    case 'form':
+      return ['standard', 'chiitoitsu', 'kokushi'].includes(String(value))
+        ? null
+        : customYakuError(locale, 'form', { path: `${path}.form` });
+    default:
+      return typeof value === 'boolean' ? null : customYakuError(locale, 'boolean', { path: `${path}.${key}` });
+  }
+}
+
+function validateSpec(spec: unknown, path: string, locale: Locale): string | null {
+  if (typeof spec !== 'object' || spec === null) {
+    return customYakuError(locale, 'spec', { path });
+  }
+  const { id, name, nameEn, han, openHan, yakuman, menzenOnly, supersedes, when } = spec as Record<string, unknown>;
+  if (typeof id !== 'string' || !id) return customYakuError(locale, 'string', { path: `${path}.id` });
+  if (getYakuDefinitions().some(definition => definition.id === id)) {
+    return customYakuError(locale, 'reservedId', { path: `${path}.id`, id });
+  }
+  if (typeof name !== 'string' || !name) return customYakuError(locale, 'string', { path: `${path}.name` });
+  if (nameEn !== undefined && (typeof nameEn !== 'string' || !nameEn)) {
+    return customYakuError(locale, 'string', { path: `${path}.nameEn` });
+  }
+  if (!Number.isInteger(han) || Number(han) < 1) return customYakuError(locale, 'positiveInteger', { path: `${path}.han` });
+  if (openHan !== undefined && (!Number.isInteger(openHan) || Number(openHan) < 1)) {
+    return customYakuError(locale, 'openHan', { path: `${path}.openHan` });
+  }
+  for (const [key, value] of Object.entries({ yakuman, menzenOnly })) {
+    if (value !== undefined && typeof value !== 'boolean') {
+      return customYakuError(locale, 'boolean', { path: `${path}.${key}` });
+    }
+  }
+  // 役満は yakuman: true で指定する（翻数だけで役満にはしない）
+  const yakumanHanKey = Object.entries({ han, openHan }).find(([, value]) => Number(value) >= 13)?.[0];
+  if (!yakuman && yakumanHanKey) {
+    return customYakuError(locale, 'yakumanHan', { path: `${path}.${yakumanHanKey}` });
+  }
+  if (
+    supersedes !== undefined &&
+    (!Array.isArray(supersedes) || supersedes.some(item => typeof item !== 'string' || !item))
+  ) {
+    return customYakuError(locale, 'stringList', { path: `${path}.supersedes` });
+  }
+  return validateCondition(when, `${path}.when`, locale);
+}
+
+/**
+ * JSON文字列からカスタム役を読み込む（配列、または { "yaku": [...] } 形式）
+ */
+export function parseCustomYakuJson(
+  json: string,
+  locale: Locale = DEFAULT_LOCALE
+): CustomYakuSpec[] | { error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { error: customYakuError(locale, 'json') };
+  }
+
+  const list = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { yaku?: unknown } | null)?.yaku;
+  if (!Array.isArray(list)) {
+    return { error: customYakuError(locale, 'list') };
+  }
+
+  const ids = new Set<string>();
+  for (let i = 0; i < list.length; i++) {
+    const error = validateSpec(list[i], `yaku[${i}]`, locale);
+    if (error) return { error };
+    const { id } = list[i] as CustomYakuSpec;
+    if (ids.has(id)) return { error: customYakuError(locale, 'duplicateId', { path: `yaku[${i}].id`, id }) };
+    ids.add(id);
+  }
+  return list as CustomYakuSpec[];
+}
+
+const compiledCache = new WeakMap<CustomYakuSpec, YakuDefinition>();
+
+/**
+ * カスタム役を役の定義に変換する（面子の分解はそれぞれの和了解釈を用いる）
+ */
+export function compileCustomYaku(spec: CustomYakuSpec): YakuDefinition {
+  const cached = compiledCache.get(spec);
+  if (cached) return cached;
+
+  const definition: YakuDefinition = {
+    id: spec.id,
+    name: spec.name,
+    nameEn: spec.nameEn ?? spec.name,
+    han: spec.han,
+    openHan: spec.openHan,
+    yakuman: spec.yakuman,
+    menzenOnly: spec.menzenOnly,
+    supersedes: spec.supersedes,
+    detect: context => evaluateCondition(spec.when, context)
+  };
+  compiledCache.set(spec, definition);
+  return definition;
+}
@@ -0,0 +1,903 @@
+/**
+ * 表示言語（役名・エラー・点数表示・画面の文言）
+ */
+export type Locale = 'ja' | 'en';
+
+export const DEFAULT_LOCALE: Locale = 'ja';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'ja', label: '日本語' },
+  { id: 'en', label: 'English' }
+];
+
+export const LOCALE_KEY = 'mahjong-locale';
+
+export type MessageParams = Record<string, string | number>;
+
+// 文言は {name} の形で値を埋め込む
+const JA_MESSAGES = {
+  // ========== 点数計算 ==========
+  'dora.dora': 'ドラ{count}',
+  'dora.ura': '裏ドラ{count}',
+  'dora.aka': '赤ドラ{count}',
+  'dora.nuki': '抜きドラ{count}',
+  'fu.chiitoitsu': '七対子（固定）',
+  'fu.pinfuTsumo': '平和ツモ（固定）',
+  'fu.base': '副底',
+  'fu.tsumo': 'ツモ',
+  'fu.menzenRon': '門前ロン',
+  'fu.renpuuPair': '連風牌雀頭 {tile}',
+  'fu.yakuhaiPair': '役牌雀頭 {tile}',
+  'fu.ankou': '暗刻 {tile}',
+  'fu.minkou': '明刻 {tile}',
+  'fu.minkan': '明槓 {tile}',
+  'fu.ankan': '暗槓 {tile}',
+  'fu.penchan': '辺張待ち',
+  'fu.kanchan': '嵌張待ち',
+  'fu.tanki': '単騎待ち',
+  'fu.roundUp': '切り上げ',
+  'fu.openMinimum': '鳴き手の最低符',
+  'limit.mangan': '満貫',
+  'limit.haneman': '跳満',
+  'limit.baiman': '倍満',
+  'limit.sanbaiman': '三倍満',
+  'limit.yakuman': '役満',
+  'limit.doubleYakuman': 'ダブル役満',
+  'limit.tripleYakuman': 'トリプル役満',
+  'limit.multipleYakuman': '{count}倍役満',
+  'score.points': '{points}点',
+  'score.tsumoAll': '{points}点オール（合計{total}点）',
+  'score.tsumoSplit': '子: {ko}点、親: {oya}点（合計{total}点）',
+  'score.withKyotaku': '{payment} + 供託{kyotaku}点 = 合計{total}点',
+  'meld.tileCount': '{count}枚の牌を選択してください',
+  'meld.chiiSequence': 'チーは同一種の連続した3枚で選択してください',
+  'meld.ponSameTiles': 'ポンは同一牌3枚で選択してください',
+  'meld.kanSameTiles': 'カンは同一牌4枚で選択してください',
+  'meld.chiiFromKamicha': 'チーは上家からのみ鳴けます',
+  'meld.calledTileMissing': '鳴いた牌が面子に含まれていません',
+  'agari.tooManyMelds': '鳴きは4回までです',
+  'agari.handSize': '手牌は{count}枚必要です（鳴き{melds}回）',
+  'agari.missingWinningTile': '和了牌を選択してください',
+  'agari.tileLimit': '同じ牌は4枚までです（{tiles}）',
+  'agari.tooManyDoraIndicators': 'ドラ表示牌はカン{kans}回で{limit}枚までです',
+  'agari.tenhouNotDealer': '天和は親のみ成立します',
+  'agari.chiihouDealer': '地和は子のみ成立します',
+  'agari.sanmaTile': '三人麻雀では使わない牌があります: {tiles}',
+  'agari.sanmaChii': '三人麻雀ではチーできません',
+  'agari.nukidoraWithoutSanma': '抜きドラは三人麻雀のみ数えます',
+  'agari.notWinningHand': '和了形ではありません',
+  'agari.noYaku': '役がありません',
+  'agari.redFiveLimit': '{tile}はルールで{limit}枚までのため、超えた分は数えません',
+  'agari.riichiWithOpenMeld': '鳴いているためリーチは無効です',
+  'agari.ippatsuWithoutRiichi': '一発はリーチ時のみ有効です',
+  'agari.uraDoraWithoutRiichi': '裏ドラはリーチ時のみ有効です',
+  'agari.haiteiOnRon': '海底摸月はツモ和了のみ有効です',
+  'agari.houteiOnTsumo': '河底撈魚はロン和了のみ有効です',
+  'agari.rinshanOnRon': '嶺上開花はツモ和了のみ有効です',
+  'agari.rinshanWithoutKan': '嶺上開花にはカンが必要です',
+  'agari.chankanOnTsumo': '槍槓はロン和了のみ有効です',
+  'agari.oyaJikazeMismatch': '親番と自風（親は東）が一致していません',
+
+  // ========== 中国麻雀 ==========
+  'mcr.fan': '{fan}番',
+  'mcr.tooManyFlowers': '花牌は{max}枚までです',
+  'mcr.belowMinimum': '{fan}番のため和了できません（花牌を除いて{min}番以上が必要です）',
+
+  // ========== 複数人のロン ==========
+  'multiRon.error.noWinners': '和了者を1人以上指定してください',
+  'multiRon.error.invalidSeat': '座席の指定が正しくありません',
+  'multiRon.error.discarderWins': '放銃者は和了できません',
+  'multiRon.error.duplicateWinner': '同じ和了者が重複しています',
+
+  // ========== カスタム役 ==========
+  'customYaku.error.json': 'JSONの形式が正しくありません',
+  'customYaku.error.list': '役の配列、または yaku プロパティに役の配列を指定してください',
+  'customYaku.error.spec': '{path}: 役はオブジェクトで指定してください',
+  'customYaku.error.string': '{path}: 文字列を指定してください',
+  'customYaku.error.stringList': '{path}: 文字列の配列を指定してください',
+  'customYaku.error.boolean': '{path}: true または false を指定してください',
+  'customYaku.error.positiveInteger': '{path}: 1以上の整数を指定してください',
+  'customYaku.error.openHan': '{path}: 1以上の整数を指定してください（門前限定は menzenOnly を指定）',
+  'customYaku.error.yakumanHan': '{path}: 役満は yakuman: true を指定し、han に倍数を指定してください',
+  'customYaku.error.reservedId': '{path}: {id} は組み込みの役のIDのため使用できません',
+  'customYaku.error.duplicateId': '{path}: {id} が重複しています',
+  'customYaku.error.condition': '{path}: 条件はオブジェクトで指定してください',
+  'customYaku.error.conditionKey': '{path}: {keys} のいずれかの条件を指定してください',
+  'customYaku.error.conditionList': '{path}: 条件の配列を指定してください',
+  'customYaku.error.group': '{path}: 面子の条件はオブジェクトで指定してください',
+  'customYaku.error.groupType': '{path}: shuntsu または koutsu を指定してください',
+  'customYaku.error.numbers': "{path}: '123' のような3桁の数字を指定してください",
+  'customYaku.error.suit': '{path}: m / p / s / z のいずれかを指定してください',
+  'customYaku.error.tile': '{path}: 牌の条件 "{value}" は使用できません',
+  'customYaku.error.form': '{path}: standard / chiitoitsu / kokushi のいずれかを指定してください',
+
+  // ========== 牌姿の表記 ==========
+  'notation.error.missingDigits': '「{char}」の前に数字がありません',
+  'notation.error.missingSuit': '「{digits}」の後に m / p / s / z がありません',
+  'notation.error.invalidTile': '「{text}」は牌として読み取れません',
+  'notation.error.invalidChar': '「{char}」は使用できない文字です',
+  'notation.error.invalidMeld': '鳴き「{text}」は面子になっていません',
+  'notation.error.invalidSource': '「{text}」は鳴いた相手として読み取れません（k / t / s または 上家 / 対面 / 下家）',
+  'notation.error.unmatchedBracket': '「{char}」の対応する括弧がありません',
+  'notation.error.winningTile': '和了牌は1枚だけ指定してください',
+
+  // ========== 共通の表示 ==========
+  'common.language': '言語',
+  'common.yes': 'あり',
+  'common.no': 'なし',
+  'common.none': 'なし',
+  'common.notSet': '未設定',
+  'common.notSelected': '未選択',
+  'common.han': '{han}翻',
+  'common.hanUnit': '翻',
+  'common.fu': '{fu}符',
+  'common.hanFu': '{han}翻{fu}符',
+  'common.hanFuDetail': '翻数: {han}翻 / 符: {fu}符',
+  'common.tiles': '{count}枚',
+  'common.yakuWithHan': '{name}({han}翻)',
+  'common.listSeparator': '、 ',
+  'common.labelValue': '{label}: {value}',
+  'common.tsumo': 'ツモ',
+  'common.ron': 'ロン',
+  'common.dealer': '親',
+  'common.nonDealer': '子',
+  'common.hand': '手牌',
+  'common.winningTile': '和了牌',
+  'common.conditions': '条件',
+  'common.result': '結果',
+  'common.winType': '和了方法',
+  'common.bakaze': '場風',
+  'common.jikaze': '自風',
+  'common.oya': '親番',
+  'common.riichi': 'リーチ',
+  'common.rulePreset': 'ルールプリセット',
+  'wind.ton': '東',
+  'wind.nan': '南',
+  'wind.sha': '西',
+  'wind.pei': '北',
+  'meldSource.kamicha': '上家',
+  'meldSource.toimen': '対面',
+  'meldSource.shimocha': '下家',
+  'meldType.chii': 'チー',
+  'meldType.pon': 'ポン',
+  'meldType.minkan': '明カン',
+  'meldType.kakan': '加カン',
+  'meldType.ankan': '暗カン',
+  'wait.ryanmen': '両面',
+  'wait.shanpon': 'シャンポン',
+  'wait.penchan': '辺張',
+  'wait.kanchan': '嵌張',
+  'wait.tanki': '単騎',
+  'handForm.standard': '通常形',
+  'handForm.chiitoitsu': '七対子形',
+  'handForm.kokushi': '国士無双形',
+
+  // ========== 点数計算画面 ==========
+  'app.title': '🀄 麻雀点数計算機',
+  'app.toQuiz': '点数○×ゲームへ',
+  'app.toSession': '対局記録へ',
+  'app.tiles.title': '牌を選択',
+  'app.tiles.manzu': '萬子（マンズ）',
+  'app.tiles.pinzu': '筒子（ピンズ）',
+  'app.tiles.souzu': '索子（ソーズ）',
+  'app.tiles.jihai': '字牌',
+  'app.tiles.unavailable': '（選択不可）',
+  'app.tiles.redBadge': '赤',
+  'app.mode.hand': '手牌に追加',
+  'app.mode.meld': '鳴きに追加',
+  'app.mode.dora': '表示ドラ',
+  'app.mode.ura': '裏ドラ',
+  'app.mode.handHint': '※ 牌をクリックすると手牌に追加されます。',
+  'app.mode.meldHint': '※ 牌をクリックすると鳴き入力に追加されます。',
+  'app.mode.doraHint': '※ 牌をクリックすると表示ドラに追加されます。',
+  'app.mode.uraHint': '※ 牌をクリックすると裏ドラに追加されます（リーチ時のみ）。',
+  'app.notation.title': '牌姿を貼り付け',
+  'app.notation.placeholder': '例: 234m055p11z [789s] +5p ドラ 3p',
+  'app.notation.label': '牌姿の表記',
+  'app.notation.apply': '反映',
+  'app.notation.hint': '※ MPSZ表記（0は赤五）と日本語表記（一萬・①・1索・東 など）に対応。[ ] は鳴き、< > は加槓、( ) は暗槓（鳴いた相手は @k / @t / @s）、+ は和了牌、「ドラ」の後は表示牌です。',
+  'app.notation.tooManyMelds': '鳴きは4つまで指定できます',
+  'app.notation.handTooLong': '手牌は{max}枚までです（{count}枚あります）',
+  'app.notation.tooManyCopies': '{tile}が5枚以上あります',
+  'app.notation.tooManyDora': '表示ドラは4枚まで指定できます',
+  'app.error.tileLimit': '同じ牌は4枚まで選択できます',
+  'app.error.uraDoraWithoutRiichi': '裏ドラはリーチ時のみ設定できます',
+  'app.error.doraLimit': '各ドラは最大4枚まで設定できます',
+  'app.error.redFiveLimit': '{tile}は{count}枚まで選択できます',
+  'app.error.customYaku': 'カスタム役を読み込めませんでした: {error}',
+  'app.hand.title': '現在の手牌',
+  'app.hand.sortHint': '※ 手牌は自動的にソートされます。',
+  'app.hand.winningHint': '※ 和了した牌を1枚選択してください。',
+  'app.hand.melds': '鳴き（副露）',
+  'app.hand.meldCountUnit': '回',
+  'app.hand.removeHint': '※ クリックして削除できます。',
+  'app.meld.title': '鳴きを追加',
+  'app.meld.option.chii': 'チー（順子）',
+  'app.meld.option.pon': 'ポン（刻子）',
+  'app.meld.option.minkan': '明カン（槓子）',
+  'app.meld.option.kakan': '加カン（ポンに追加）',
+  'app.meld.option.ankan': '暗カン（槓子）',
+  'app.meld.source': '（{source}）',
+  'app.meld.from': '鳴いた相手',
+  'app.meld.fromOption': '{source}から',
+  'app.meld.calledTile': '鳴いた牌',
+  'app.meld.calledTileOption': '{index}枚目 {tile}を鳴いた',
+  'app.meld.selectHint': '※ 牌選択は上部の牌テーブルから行います。',
+  'app.meld.confirm': '鳴きを確定',
+  'app.meld.clear': '入力をクリア',
+  'app.meld.countHint': '※ チー・ポンは3枚、カンは4枚選択してください。',
+  'app.clearAll': 'すべてクリア',
+  'app.options.title': '和了条件',
+  'app.options.dealer': '親（東家）',
+  'app.options.dealerHint': '※ 点数計算のみに利用されます。',
+  'app.options.other': 'その他',
+  'app.options.doubleRiichi': 'ダブルリーチ',
+  'app.options.ippatsu': '一発',
+  'app.options.menzenHint': '門前は鳴き状態から自動判定されます。',
+  'app.options.special': '特殊和了条件',
+  'app.options.haitei': '海底摸月',
+  'app.options.houtei': '河底撈魚',
+  'app.options.rinshan': '嶺上開花',
+  'app.options.chankan': '槍槓',
+  'app.options.nagashiMangan': '流し満貫',
+  'app.options.yakuman': '役満（特殊条件）',
+  'app.options.tenhou': '天和（親の配牌時和了）',
+  'app.options.chiihou': '地和（子の第一ツモ和了）',
+  'app.options.localYaku': 'ローカル役の条件',
+  'app.options.renhou': '人和（子の第一ツモ前のロン和了）',
+  'app.options.openRiichi': 'オープン立直',
+  'app.options.tsubameGaeshi': '燕返し（リーチ宣言牌でロン）',
+  'app.options.firstDraw': '第一ツモ（十三不塔）',
+  'app.options.dealerWinStreak': '親の連続和了',
+  'app.options.sticks': '供託・本場',
+  'app.options.kyotaku': '供託',
+  'app.options.honba': '本場',
+  'app.options.nukidora': '抜きドラ（北）',
+  'app.options.dora': 'ドラ設定',
+  'app.options.uraDora': '裏ドラ（リーチ時のみ）',
+  'app.options.uraDoraHint': 'リーチ時のみ有効です',
+  'app.rules.title': 'ルール設定',
+  'app.rules.preset': 'プリセット',
+  'app.rules.custom': 'カスタム',
+  'app.rules.customHint': '個別に設定を変更しています',
+  'app.rules.players': '対局人数',
+  'app.rules.players.4': '四人麻雀',
+  'app.rules.players.3': '三人麻雀',
+  'app.rules.sanmaTsumo.tsumoLoss': 'ツモ損',
+  'app.rules.sanmaTsumo.northBisection': '北家折半',
+  'app.rules.multiRon': '複数人のロン',
+  'app.rules.multiRon.all': 'ダブロン・トリロンあり',
+  'app.rules.multiRon.atamahane': '頭ハネ（1人だけ和了）',
+  'app.rules.paoSuukantsu': '四槓子の責任払い',
+  'app.mcr.mode': '計算方式',
+  'app.mcr.mode.riichi': '日本麻雀',
+  'app.mcr.mode.mcr': '中国麻雀（国標）',
+  'app.mcr.hint': '花牌を除いて8番以上で和了できます。鳴き・和了牌の入力は日本麻雀と共通です。',
+  'app.mcr.prevalentWind': '圏風',
+  'app.mcr.seatWind': '門風',
+  'app.mcr.lastTileDraw': '妙手回春（最後の牌でツモ）',
+  'app.mcr.lastTileClaim': '海底撈月（最後の捨て牌でロン）',
+  'app.mcr.replacementTile': '槓上開花',
+  'app.mcr.robbingKong': '搶槓和',
+  'app.mcr.lastTile': '和絶張（残り1枚の牌で和了）',
+  'app.mcr.flowers': '花牌',
+  'app.mcr.fan': '番数',
+  'app.mcr.payment': '支払い',
+  'app.mcr.paymentRon': '放銃者 {discarder}点・他家 {others}点ずつ',
+  'app.mcr.paymentTsumo': '3人から{others}点ずつ',
+  'app.mcr.total': '受け取り',
+  'app.mcr.fans': '成立番種',
+  'app.mcr.fanCount': '{name} ×{count}',
+  'app.rules.scoring': '役・点数',
+  'app.rules.kuitan': '喰いタン',
+  'app.rules.kiriageMangan': '切り上げ満貫',
+  'app.rules.kazoeYakuman': '数え役満',
+  'app.rules.doubleYakuman': 'ダブル役満',
+  'app.rules.multipleYakuman': '役満の複合',
+  'app.rules.renpuuFu': '連風牌の雀頭',
+  'app.rules.localYaku': 'ローカル役',
+  'app.rules.localYakuHan': '{name}の翻数',
+  'app.rules.customYaku': 'カスタム役（JSON）',
+  'app.rules.customYakuFile': 'カスタム役のJSONファイル',
+  'app.rules.customYakuItem': '{name}（{han}）',
+  'app.rules.customYakuRemove': '解除',
+  'app.rules.honbaAndRed': '本場・赤ドラ',
+  'app.rules.honbaValue': '1本場あたりの点数',
+  'app.rules.honbaValueOption': '1本場 {points}点',
+  'app.rules.redFives': '赤五の枚数',
+  'app.rules.redFivesOption': '赤五 {label}',
+  'app.rules.redFives.none': 'なし',
+  'app.rules.redFives.three': '3枚（各色1枚）',
+  'app.rules.redFives.four': '4枚（5pのみ2枚）',
+  'app.rules.standings': '順位点（対局記録の最終成績）',
+  'app.rules.uma': 'ウマ',
+  'app.rules.umaOption': 'ウマ {small}-{large}',
+  'app.rules.points': '持ち点・返し点',
+  'app.rules.pointsOption': '{starting}点持ち{returnPoints}点返し',
+  'app.calculate': '点数を計算する',
+  'app.info.title': '情報パネル',
+  'app.info.yakuList': '役一覧',
+  'app.info.melds': '鳴き: {melds}',
+  'app.info.waits': '待ち',
+  'app.info.waitRemaining': '{wait} / 残り{count}枚',
+  'app.info.menzen': '門前',
+  'app.info.haitei': '海底',
+  'app.info.houtei': '河底',
+  'app.info.rinshan': '嶺上',
+  'app.result.han': '翻数（ハン）',
+  'app.result.fu': '符（フ）',
+  'app.result.score': '点数',
+  'app.result.limit': '区分',
+  'app.result.interpretation': '採用した解釈',
+  'app.result.interpretationValue': '{form}・{wait}待ち',
+  'app.result.pao': '責任払い（包）',
+  'app.result.paoValue': '{yaku}（{from}）: ツモは包の人が{points}点、ロンは放銃者と{half}点ずつ',
+  'app.result.base': '基本点',
+  'app.result.yaku': '成立役',
+  'app.result.fuBreakdown': '符の内訳',
+  'app.result.total': '合計',
+  'app.result.empty': 'まだ計算結果がありません。',
+  'app.yakuList.menzenOnly': '{han}翻（門前限定）',
+  'app.yakuList.openHan': '{han}翻（鳴き{openHan}翻）',
+  'app.history.title': '計算履歴',
+  'app.history.empty': 'まだ履歴がありません。',
+  'app.history.handTab': '手牌情報',
+  'app.history.meta': '{time} / {han}翻 {fu}符',
+  'app.history.show': '詳細を表示',
+  'app.history.hide': '詳細を閉じる',
+
+  // ========== 点数○×ゲーム ==========
+  'quiz.title': '🀄 点数○×ゲーム',
+  'quiz.back': '点数計算に戻る',
+  'quiz.presetOption': '{name}ルール',
+  'quiz.question': '問題',
+  'quiz.generateFailed': '問題生成に失敗しました。',
+  'quiz.questionLabel': '自動生成（{label}）',
+  'quiz.theme.riichi': 'リーチ',
+  'quiz.theme.pinfu': '平和',
+  'quiz.theme.tanyao': '断么九',
+  'quiz.theme.yakuhai': '役牌',
+  'quiz.theme.sanshoku': '三色同順',
+  'quiz.theme.surprise': '意外性枠',
+  'quiz.doraIndicators': 'ドラ表示牌',
+  'quiz.presented': '候補点数',
+  'quiz.answer': '解答',
+  'quiz.choiceOk': '○ 正しい',
+  'quiz.choiceNg': '× 間違い',
+  'quiz.next': '次の問題',
+  'quiz.right': '○ 正解！',
+  'quiz.wrong': '× 不正解',
+  'quiz.yourAnswer': 'あなたの回答: {choice}',
+  'quiz.presentedWasCorrect': '候補は正しいでした。',
+  'quiz.presentedWasWrong': '候補は誤りでした。',
+  'quiz.expected': '正解: {score}',
+  'quiz.tsumoAll': '{points}点オール',
+  'quiz.tsumoSplit': '子: {ko}点 / 親: {oya}点',
+
+  // ========== 対局記録 ==========
+  'session.title': '🀄 対局記録',
+  'session.back': '点数計算に戻る',
+  'session.setup': '対局の設定',
+  'session.length': '対局の長さ',
+  'session.length.tonpuusen': '東風戦',
+  'session.length.hanchan': '半荘戦',
+  'session.players': 'プレイヤー（起家から順に）',
+  'session.playerName': 'プレイヤー{number}',
+  'session.startingPoints': '持ち点は{points}点です（点数計算のルール設定を使います）',
+  'session.start': '対局開始',
+  'session.reset': '対局をやめる',
+  'session.undo': '1局戻す',
+  'session.round': '{round}{kyoku}局 {honba}本場',
+  'session.kyotaku': '供託 {count}本',
+  'session.finished': '対局終了',
+  'session.dealer': '親',
+  'session.riichi': 'リーチ',
+  'session.riichiDone': 'リーチ済',
+  'session.win': '和了の入力',
+  'session.winner': '和了者',
+  'session.discarder': '放銃者',
+  'session.han': '翻数',
+  'session.fu': '符',
+  'session.yakuman': '役満',
+  'session.fromHistory': '計算履歴から入力',
+  'session.extraWinners': '同じ牌でロンした人（ダブロン・トリロン）',
+  'session.addWinner': '和了者を追加',
+  'session.removeWinner': '削除',
+  'session.pao': '責任払い（包）',
+  'session.paoYakuman': '責任払いの役満',
+  'session.paoHint': '責任払いになる役満と、その最後の副露をさせた人を選びます。ツモは全額、ロンは放銃者と半分ずつ払い、複合した残りの役満は通常どおり払います。',
+  'session.multiRonHint.all': '全員が和了します。本場と供託は放銃者の下家に近い人が受け取ります。',
+  'session.multiRonHint.atamahane': '頭ハネのルールのため、放銃者の下家に近い1人だけが和了します。',
+  'session.historyOption': '{han}翻{fu}符 {score}',
+  'session.historyEmpty': '点数計算の履歴がありません',
+  'session.apply': '点数を反映',
+  'session.records': '記録',
+  'session.recordsEmpty': 'まだ記録がありません',
+  'session.recordWin': '{name}の{type}（{value}）',
+  'session.recordRon': '{name}の{type}（{value}・{discarder}から）',
+  'session.recordMultiRon': '{wins}のロン（{discarder}から）',
+  'session.recordMultiRonWin': '{name}（{value}）',
+  'session.recordPao': '{record} 責任払い: {name}',
+  'session.draw': '流局（荒牌平局）',
+  'session.drawHint': '聴牌した人にチェックを入れます。不聴の人が合計3000点を払い、リーチ棒は供託として残ります。',
+  'session.tenpai': '聴牌',
+  'session.applyDraw': '流局を反映',
+  'session.recordDraw': '流局（聴牌: {names}）',
+  'session.recordDrawNoten': '流局（全員不聴）',
+  'session.standings': '最終成績',
+  'session.standingsHint': 'ウマ{small}-{large}・{returnPoints}点返し（点数計算のルール設定を使います）。残った供託は1位が受け取ります。',
+  'session.rank': '{rank}位',
+  'session.error.finished': '対局は終了しています',
+  'session.error.invalidSeat': '座席の指定が正しくありません',
+  'session.error.missingDiscarder': 'ロンの場合は和了者以外の放銃者を選んでください',
+  'session.error.invalidHanFu': '翻数は1以上、符は20以上で入力してください',
+  'session.error.invalidWinners': '和了者は放銃者以外から重複しないように選んでください',
+  'session.error.invalidPao': '責任払いは役満の和了で、和了者以外の人を選んでください',
+  'session.error.fourPlayerRules': '対局記録は四人麻雀のルールで使えます（点数計算の画面で対局人数を4人にしてください）',
+  'session.error.alreadyRiichi': 'この局ではすでにリーチしています',
+  'session.error.riichiPoints': '持ち点が1000点未満のためリーチできません',
+  'session.error.riichiNoten': 'リーチした人は聴牌にしてください'
+};
+
+export type MessageKey = keyof typeof JA_MESSAGES;
+
+const EN_MESSAGES: Record<MessageKey, string> = {
+  // ========== 点数計算 ==========
+  'dora.dora': 'Dora {count}',
+  'dora.ura': 'Ura Dora {count}',
+  'dora.aka': 'Aka Dora {count}',
+  'dora.nuki': 'Kita {count}',
+  'fu.chiitoitsu': 'Chiitoitsu (fixed)',
+  'fu.pinfuTsumo': 'Pinfu tsumo (fixed)',
+  'fu.base': 'Base fu',
+  'fu.tsumo': 'Tsumo',
+  'fu.menzenRon': 'Closed ron',
+  'fu.renpuuPair': 'Double wind pair {tile}',
+  'fu.yakuhaiPair': 'Value pair {tile}',
+  'fu.ankou': 'Closed triplet {tile}',
+  'fu.minkou': 'Open triplet {tile}',
+  'fu.minkan': 'Open kan {tile}',
+  'fu.ankan': 'Closed kan {tile}',
+  'fu.penchan': 'Edge wait',
+  'fu.kanchan': 'Closed wait',
+  'fu.tanki': 'Single wait',
+  'fu.roundUp': 'Rounding up',
+  'fu.openMinimum': 'Open hand minimum',
+  'limit.mangan': 'Mangan',
+  'limit.haneman': 'Haneman',
+  'limit.baiman': 'Baiman',
+  'limit.sanbaiman': 'Sanbaiman',
+  'limit.yakuman': 'Yakuman',
+  'limit.doubleYakuman': 'Double Yakuman',
+  'limit.tripleYakuman': 'Triple Yakuman',
+  'limit.multipleYakuman': '{count}x Yakuman',
+  'score.points': '{points} pts',
+  'score.tsumoAll': '{points} all ({total} pts total)',
+  'score.tsumoSplit': 'Non-dealers: {ko}, dealer: {oya} ({total} pts total)',
+  'score.withKyotaku': '{payment} + {kyotaku} pts deposits = {total} pts total',
+  'meld.tileCount': 'Select {count} tiles',
+  'meld.chiiSequence': 'A chii must be 3 consecutive tiles of one suit',
+  'meld.ponSameTiles': 'A pon must be 3 identical tiles',
+  'meld.kanSameTiles': 'A kan must be 4 identical tiles',
+  'meld.chiiFromKamicha': 'Chii can only be called from the left player',
+  'meld.calledTileMissing': 'The called tile is not part of the meld',
+  'agari.tooManyMelds': 'A hand can have at most 4 melds',
+  'agari.handSize': 'The hand needs {count} tiles ({melds} melds)',
+  'agari.missingWinningTile': 'Select the winning tile',
+  'agari.tileLimit': 'Only 4 copies of a tile exist ({tiles})',
+  'agari.tooManyDoraIndicators': 'With {kans} kan, at most {limit} dora indicators are allowed',
+  'agari.tenhouNotDealer': 'Tenhou is only possible for the dealer',
+  'agari.chiihouDealer': 'Chiihou is only possible for a non-dealer',
+  'agari.sanmaTile': 'Tiles not used in three-player mahjong: {tiles}',
+  'agari.sanmaChii': 'Chii is not allowed in three-player mahjong',
+  'agari.nukidoraWithoutSanma': 'Kita (north) dora only counts in three-player mahjong',
+  'agari.notWinningHand': 'This is not a winning hand',
+  'agari.noYaku': 'The hand has no yaku',
+  'agari.redFiveLimit': 'The rules allow only {limit} {tile}; extra copies are not counted',
+  'agari.riichiWithOpenMeld': 'Riichi is ignored because the hand is open',
+  'agari.ippatsuWithoutRiichi': 'Ippatsu only counts with riichi',
+  'agari.uraDoraWithoutRiichi': 'Ura dora only count with riichi',
+  'agari.haiteiOnRon': 'Haitei only counts on tsumo',
+  'agari.houteiOnTsumo': 'Houtei only counts on ron',
+  'agari.rinshanOnRon': 'Rinshan kaihou only counts on tsumo',
+  'agari.rinshanWithoutKan': 'Rinshan kaihou requires a kan',
+  'agari.chankanOnTsumo': 'Chankan only counts on ron',
+  'agari.oyaJikazeMismatch': 'Dealer and seat wind do not match (the dealer is East)',
+
+  // ========== Chinese Official (MCR) ==========
+  'mcr.fan': '{fan} fan',
+  'mcr.tooManyFlowers': 'At most {max} flower tiles are allowed',
+  'mcr.belowMinimum': 'The hand has only {fan} fan ({min} fan are required, not counting flowers)',
+
+  // ========== Multiple ron ==========
+  'multiRon.error.noWinners': 'Specify at least one winner',
+  'multiRon.error.invalidSeat': 'Invalid seat',
+  'multiRon.error.discarderWins': 'The discarder cannot win on their own discard',
+  'multiRon.error.duplicateWinner': 'The same winner is listed more than once',
+
+  // ========== Custom yaku ==========
+  'customYaku.error.json': 'The JSON is malformed',
+  'customYaku.error.list': 'Provide an array of yaku, or an object with a yaku array',
+  'customYaku.error.spec': '{path}: each yaku must be an object',
+  'customYaku.error.string': '{path}: specify a string',
+  'customYaku.error.stringList': '{path}: specify an array of strings',
+  'customYaku.error.boolean': '{path}: specify true or false',
+  'customYaku.error.positiveInteger': '{path}: specify an integer of 1 or more',
+  'customYaku.error.openHan': '{path}: specify an integer of 1 or more (use menzenOnly for closed-only yaku)',
+  'customYaku.error.yakumanHan': '{path}: set yakuman: true for a yakuman and give its multiple in han',
+  'customYaku.error.reservedId': '{path}: {id} is a built-in yaku id and cannot be used',
+  'customYaku.error.duplicateId': '{path}: {id} is used more than once',
+  'customYaku.error.condition': '{path}: each condition must be an object',
+  'customYaku.error.conditionKey': '{path}: specify one of {keys}',
+  'customYaku.error.conditionList': '{path}: specify an array of conditions',
+  'customYaku.error.group': '{path}: the meld condition must be an object',
+  'customYaku.error.groupType': '{path}: specify shuntsu or koutsu',
+  'customYaku.error.numbers': "{path}: specify three digits such as '123'",
+  'customYaku.error.suit': '{path}: specify one of m / p / s / z',
+  'customYaku.error.tile': '{path}: the tile condition "{value}" is not supported',
+  'customYaku.error.form': '{path}: specify one of standard / chiitoitsu / kokushi',
+
+  // ========== Hand notation ==========
+  'notation.error.missingDigits': 'No digits before "{char}"',
+  'notation.error.missingSuit': 'No m / p / s / z after "{digits}"',
+  'notation.error.invalidTile': '"{text}" is not a valid tile',
+  'notation.error.invalidChar': '"{char}" cannot be used',
+  'notation.error.invalidMeld': 'The meld "{text}" is not a valid set',
+  'notation.error.invalidSource': '"{text}" is not a valid meld source (use k / t / s)',
+  'notation.error.unmatchedBracket': '"{char}" has no matching bracket',
+  'notation.error.winningTile': 'Specify exactly one winning tile',
+
+  // ========== 共通の表示 ==========
+  'common.language': 'Language',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.none': 'None',
+  'common.notSet': 'Not set',
+  'common.notSelected': 'Not selected',
+  'common.han': '{han} han',
+  'common.hanUnit': 'han',
+  'common.fu': '{fu} fu',
+  'common.hanFu': '{han} han {fu} fu',
+  'common.hanFuDetail': 'Han: {han} / Fu: {fu}',
+  'common.tiles': '{count} tiles',
+  'common.yakuWithHan': '{name} ({han} han)',
+  'common.listSeparator': ', ',
+  'common.labelValue': '{label}: {value}',
+  'common.tsumo': 'Tsumo',
+  'common.ron': 'Ron',
+  'common.dealer': 'Dealer',
+  'common.nonDealer': 'Non-dealer',
+  'common.hand': 'Hand',
+  'common.winningTile': 'Winning tile',
+  'common.conditions': 'Conditions',
+  'common.result': 'Result',
+  'common.winType': 'Win',
+  'common.bakaze': 'Round wind',
+  'common.jikaze': 'Seat wind',
+  'common.oya': 'Dealer',
+  'common.riichi': 'Riichi',
+  'common.rulePreset': 'Rule preset',
+  'wind.ton': 'East',
+  'wind.nan': 'South',
+  'wind.sha': 'West',
+  'wind.pei': 'North',
+  'meldSource.kamicha': 'Left',
+  'meldSource.toimen': 'Across',
+  'meldSource.shimocha': 'Right',
+  'meldType.chii': 'Chii',
+  'meldType.pon': 'Pon',
+  'meldType.minkan': 'Open kan',
+  'meldType.kakan': 'Added kan',
+  'meldType.ankan': 'Closed kan',
+  'wait.ryanmen': 'Ryanmen',
+  'wait.shanpon': 'Shanpon',
+  'wait.penchan': 'Penchan',
+  'wait.kanchan': 'Kanchan',
+  'wait.tanki': 'Tanki',
+  'handForm.standard': 'Standard',
+  'handForm.chiitoitsu': 'Seven pairs',
+  'handForm.kokushi': 'Thirteen orphans',
+
+  // ========== 点数計算画面 ==========
+  'app.title': '🀄 Mahjong Score Calculator',
+  'app.toQuiz': 'Score quiz',
+  'app.toSession': 'Session scorekeeper',
+  'app.tiles.title': 'Select tiles',
+  'app.tiles.manzu': 'Characters (manzu)',
+  'app.tiles.pinzu': 'Circles (pinzu)',
+  'app.tiles.souzu': 'Bamboo (souzu)',
+  'app.tiles.jihai': 'Honors',
+  'app.tiles.unavailable': ' (unavailable)',
+  'app.tiles.redBadge': 'R',
+  'app.mode.hand': 'Add to hand',
+  'app.mode.meld': 'Add to meld',
+  'app.mode.dora': 'Dora indicators',
+  'app.mode.ura': 'Ura dora',
+  'app.mode.handHint': '* Click a tile to add it to the hand.',
+  'app.mode.meldHint': '* Click a tile to add it to the meld input.',
+  'app.mode.doraHint': '* Click a tile to add it as a dora indicator.',
+  'app.mode.uraHint': '* Click a tile to add it as an ura dora indicator (riichi only).',
+  'app.notation.title': 'Paste a hand',
+  'app.notation.placeholder': 'e.g. 234m055p11z [789s] +5p dora 3p',
+  'app.notation.label': 'Hand notation',
+  'app.notation.apply': 'Apply',
+  'app.notation.hint': '* Accepts MPSZ notation (0 is a red five) and Japanese tile names. [ ] is a called meld, < > an added kan, ( ) a closed kan (mark the source with @k / @t / @s), + the winning tile, and tiles after "dora" are indicators.',
+  'app.notation.tooManyMelds': 'Up to 4 melds can be specified',
+  'app.notation.handTooLong': 'The hand can have at most {max} tiles ({count} given)',
+  'app.notation.tooManyCopies': 'There are 5 or more {tile}',
+  'app.notation.tooManyDora': 'Up to 4 dora indicators can be specified',
+  'app.error.tileLimit': 'You can select up to 4 of the same tile',
+  'app.error.uraDoraWithoutRiichi': 'Ura dora can only be set with riichi',
+  'app.error.doraLimit': 'Up to 4 indicators can be set for each kind of dora',
+  'app.error.redFiveLimit': 'You can select up to {count} {tile}',
+  'app.error.customYaku': 'Could not load the custom yaku: {error}',
+  'app.hand.title': 'Current hand',
+  'app.hand.sortHint': '* The hand is sorted automatically.',
+  'app.hand.winningHint': '* Select the tile you won on.',
+  'app.hand.melds': 'Melds',
+  'app.hand.meldCountUnit': '',
+  'app.hand.removeHint': '* Click to remove.',
+  'app.meld.title': 'Add a meld',
+  'app.meld.option.chii': 'Chii (sequence)',
+  'app.meld.option.pon': 'Pon (triplet)',
+  'app.meld.option.minkan': 'Open kan (quad)',
+  'app.meld.option.kakan': 'Added kan (onto a pon)',
+  'app.meld.option.ankan': 'Closed kan (quad)',
+  'app.meld.source': ' ({source})',
+  'app.meld.from': 'Called from',
+  'app.meld.fromOption': 'From {source}',
+  'app.meld.calledTile': 'Called tile',
+  'app.meld.calledTileOption': 'Called tile {index}: {tile}',
+  'app.meld.selectHint': '* Select tiles from the tile table above.',
+  'app.meld.confirm': 'Add meld',
+  'app.meld.clear': 'Clear input',
+  'app.meld.countHint': '* Select 3 tiles for chii/pon and 4 for kan.',
+  'app.clearAll': 'Clear all',
+  'app.options.title': 'Winning conditions',
+  'app.options.dealer': 'Dealer (East)',
+  'app.options.dealerHint': '* Only used for the score calculation.',
+  'app.options.other': 'Other',
+  'app.options.doubleRiichi': 'Double riichi',
+  'app.options.ippatsu': 'Ippatsu',
+  'app.options.menzenHint': 'Closed hand is determined from the melds.',
+  'app.options.special': 'Special wins',
+  'app.options.haitei': 'Haitei raoyue',
+  'app.options.houtei': 'Houtei raoyui',
+  'app.options.rinshan': 'Rinshan kaihou',
+  'app.options.chankan': 'Chankan',
+  'app.options.nagashiMangan': 'Nagashi mangan',
+  'app.options.yakuman': 'Yakuman (special conditions)',
+  'app.options.tenhou': 'Tenhou (dealer wins on the initial deal)',
+  'app.options.chiihou': 'Chiihou (non-dealer wins on the first draw)',
+  'app.options.localYaku': 'Local yaku conditions',
+  'app.options.renhou': 'Renhou (non-dealer ron before the first draw)',
+  'app.options.openRiichi': 'Open riichi',
+  'app.options.tsubameGaeshi': 'Tsubame gaeshi (ron on the riichi declaration tile)',
+  'app.options.firstDraw': 'First draw (shiisan puutaa)',
+  'app.options.dealerWinStreak': 'Dealer win streak',
+  'app.options.sticks': 'Deposits / honba',
+  'app.options.kyotaku': 'Deposits',
+  'app.options.honba': 'Honba',
+  'app.options.nukidora': 'Kita (north)',
+  'app.options.dora': 'Dora',
+  'app.options.uraDora': 'Ura dora (riichi only)',
+  'app.options.uraDoraHint': 'Only counts with riichi',
+  'app.rules.title': 'Rules',
+  'app.rules.preset': 'Preset',
+  'app.rules.custom': 'Custom',
+  'app.rules.customHint': 'Settings have been changed individually',
+  'app.rules.players': 'Players',
+  'app.rules.players.4': 'Four-player',
+  'app.rules.players.3': 'Three-player (sanma)',
+  'app.rules.sanmaTsumo.tsumoLoss': 'Tsumo loss',
+  'app.rules.sanmaTsumo.northBisection': 'Split the north payment',
+  'app.rules.multiRon': 'Multiple ron',
+  'app.rules.multiRon.all': 'Double / triple ron',
+  'app.rules.multiRon.atamahane': 'Head bump (one winner only)',
+  'app.rules.paoSuukantsu': 'Pao on suukantsu',
+  'app.mcr.mode': 'Scoring',
+  'app.mcr.mode.riichi': 'Riichi',
+  'app.mcr.mode.mcr': 'Chinese Official (MCR)',
+  'app.mcr.hint': 'A hand needs 8 fan, not counting flowers. Melds and the winning tile are entered the same way as in riichi.',
+  'app.mcr.prevalentWind': 'Prevalent wind',
+  'app.mcr.seatWind': 'Seat wind',
+  'app.mcr.lastTileDraw': 'Last Tile Draw',
+  'app.mcr.lastTileClaim': 'Last Tile Claim',
+  'app.mcr.replacementTile': 'Out with Replacement Tile',
+  'app.mcr.robbingKong': 'Robbing the Kong',
+  'app.mcr.lastTile': 'Last Tile (fourth copy)',
+  'app.mcr.flowers': 'Flowers',
+  'app.mcr.fan': 'Fan',
+  'app.mcr.payment': 'Payment',
+  'app.mcr.paymentRon': 'Discarder {discarder} pts, others {others} pts each',
+  'app.mcr.paymentTsumo': '{others} pts from each player',
+  'app.mcr.total': 'Received',
+  'app.mcr.fans': 'Fans',
+  'app.mcr.fanCount': '{name} ×{count}',
+  'app.rules.scoring': 'Yaku and scoring',
+  'app.rules.kuitan': 'Kuitan (open tanyao)',
+  'app.rules.kiriageMangan': 'Kiriage mangan',
+  'app.rules.kazoeYakuman': 'Kazoe yakuman',
+  'app.rules.doubleYakuman': 'Double yakuman',
+  'app.rules.multipleYakuman': 'Combined yakuman',
+  'app.rules.renpuuFu': 'Double wind pair',
+  'app.rules.localYaku': 'Local yaku',
+  'app.rules.localYakuHan': 'Han for {name}',
+  'app.rules.customYaku': 'Custom yaku (JSON)',
+  'app.rules.customYakuFile': 'Custom yaku JSON file',
+  'app.rules.customYakuItem': '{name} ({han})',
+  'app.rules.customYakuRemove': 'Remove',
+  'app.rules.honbaAndRed': 'Honba / red fives',
+  'app.rules.honbaValue': 'Points per honba',
+  'app.rules.honbaValueOption': '{points} pts per honba',
+  'app.rules.redFives': 'Number of red fives',
+  'app.rules.redFivesOption': 'Red fives: {label}',
+  'app.rules.redFives.none': 'None',
+  'app.rules.redFives.three': '3 (one per suit)',
+  'app.rules.redFives.four': '4 (two in pinzu)',
+  'app.rules.standings': 'Placement (session final standings)',
+  'app.rules.uma': 'Uma',
+  'app.rules.umaOption': 'Uma {small}-{large}',
+  'app.rules.points': 'Starting / return points',
+  'app.rules.pointsOption': '{starting} start / {returnPoints} return',
+  'app.calculate': 'Calculate score',
+  'app.info.title': 'Info',
+  'app.info.yakuList': 'Yaku list',
+  'app.info.melds': 'Melds: {melds}',
+  'app.info.waits': 'Waits',
+  'app.info.waitRemaining': '{wait} / {count} left',
+  'app.info.menzen': 'Closed',
+  'app.info.haitei': 'Haitei',
+  'app.info.houtei': 'Houtei',
+  'app.info.rinshan': 'Rinshan',
+  'app.result.han': 'Han',
+  'app.result.fu': 'Fu',
+  'app.result.score': 'Score',
+  'app.result.limit': 'Limit',
+  'app.result.interpretation': 'Interpretation',
+  'app.result.interpretationValue': '{form}, {wait} wait',
+  'app.result.pao': 'Pao',
+  'app.result.paoValue': '{yaku} ({from}): the responsible player pays {points} on tsumo, or {half} each with the discarder on ron',
+  'app.result.base': 'Base payment',
+  'app.result.yaku': 'Yaku',
+  'app.result.fuBreakdown': 'Fu breakdown',
+  'app.result.total': 'Total',
+  'app.result.empty': 'No result yet.',
+  'app.yakuList.menzenOnly': '{han} han (closed only)',
+  'app.yakuList.openHan': '{han} han ({openHan} han open)',
+  'app.history.title': 'History',
+  'app.history.empty': 'No history yet.',
+  'app.history.handTab': 'Hand',
+  'app.history.meta': '{time} / {han} han {fu} fu',
+  'app.history.show': 'Show details',
+  'app.history.hide': 'Hide details',
+
+  // ========== 点数○×ゲーム ==========
+  'quiz.title': '🀄 Score Quiz',
+  'quiz.back': 'Back to the calculator',
+  'quiz.presetOption': '{name} rules',
+  'quiz.question': 'Question',
+  'quiz.generateFailed': 'Could not generate a question.',
+  'quiz.questionLabel': 'Auto-generated ({label})',
+  'quiz.theme.riichi': 'Riichi',
+  'quiz.theme.pinfu': 'Pinfu',
+  'quiz.theme.tanyao': 'Tanyao',
+  'quiz.theme.yakuhai': 'Yakuhai',
+  'quiz.theme.sanshoku': 'Sanshoku Doujun',
+  'quiz.theme.surprise': 'Wildcard',
+  'quiz.doraIndicators': 'Dora indicators',
+  'quiz.presented': 'Proposed score',
+  'quiz.answer': 'Answer',
+  'quiz.choiceOk': '○ Correct',
+  'quiz.choiceNg': '× Wrong',
+  'quiz.next': 'Next question',
+  'quiz.right': '○ Right!',
+  'quiz.wrong': '× Incorrect',
+  'quiz.yourAnswer': 'Your answer: {choice}',
+  'quiz.presentedWasCorrect': 'The proposed score was correct.',
+  'quiz.presentedWasWrong': 'The proposed score was wrong.',
+  'quiz.expected': 'Answer: {score}',
+  'quiz.tsumoAll': '{points} all',
+  'quiz.tsumoSplit': 'Non-dealers: {ko} / dealer: {oya}',
+
+  // ========== Session scorekeeper ==========
+  'session.title': '🀄 Session Scorekeeper',
+  'session.back': 'Back to the calculator',
+  'session.setup': 'New session',
+  'session.length': 'Length',
+  'session.length.tonpuusen': 'East only (tonpuusen)',
+  'session.length.hanchan': 'East-South (hanchan)',
+  'session.players': 'Players (starting with the first dealer)',
+  'session.playerName': 'Player {number}',
+  'session.startingPoints': 'Each player starts with {points} points (from the calculator rule settings)',
+  'session.start': 'Start',
+  'session.reset': 'End session',
+  'session.undo': 'Undo last hand',
+  'session.round': '{round} {kyoku}, {honba} honba',
+  'session.kyotaku': 'Riichi sticks: {count}',
+  'session.finished': 'Session finished',
+  'session.dealer': 'Dealer',
+  'session.riichi': 'Riichi',
+  'session.riichiDone': 'In riichi',
+  'session.win': 'Record a win',
+  'session.winner': 'Winner',
+  'session.discarder': 'Discarder',
+  'session.han': 'Han',
+  'session.fu': 'Fu',
+  'session.yakuman': 'Yakuman',
+  'session.fromHistory': 'Use a calculator result',
+  'session.extraWinners': 'Other players winning on the same tile (double / triple ron)',
+  'session.addWinner': 'Add winner',
+  'session.removeWinner': 'Remove',
+  'session.pao': 'Responsibility payment (pao)',
+  'session.paoYakuman': 'Yakuman under pao',
+  'session.paoHint': 'Choose the yakuman under pao and the player who fed its final meld. They pay the full tsumo, or half of a ron with the discarder; any other yakuman in the hand is paid normally.',
+  'session.multiRonHint.all': 'Every winner is paid. Honba and riichi sticks go to the winner nearest in turn after the discarder.',
+  'session.multiRonHint.atamahane': 'Head bump: only the winner nearest in turn after the discarder wins.',
+  'session.historyOption': '{han} han {fu} fu {score}',
+  'session.historyEmpty': 'No calculator history yet',
+  'session.apply': 'Apply',
+  'session.records': 'Hands',
+  'session.recordsEmpty': 'No hands recorded yet',
+  'session.recordWin': '{name} {type} ({value})',
+  'session.recordRon': '{name} {type} ({value}, from {discarder})',
+  'session.recordMultiRon': 'Ron by {wins} (from {discarder})',
+  'session.recordMultiRonWin': '{name} ({value})',
+  'session.recordPao': '{record}, paid by {name} (pao)',
+  'session.draw': 'Exhaustive draw',
+  'session.drawHint': 'Check the players who are tenpai. Noten players pay 3000 points in total and riichi sticks stay on the table.',
+  'session.tenpai': 'Tenpai',
+  'session.applyDraw': 'Apply draw',
+  'session.recordDraw': 'Draw (tenpai: {names})',
+  'session.recordDrawNoten': 'Draw (all noten)',
+  'session.standings': 'Final standings',
+  'session.standingsHint': 'Uma {small}-{large}, {returnPoints} return (from the calculator rule settings). Leftover riichi sticks go to first place.',
+  'session.rank': '#{rank}',
+  'session.error.finished': 'The session has finished',
+  'session.error.invalidSeat': 'Invalid seat',
+  'session.error.missingDiscarder': 'For ron, choose a discarder other than the winner',
+  'session.error.invalidHanFu': 'Enter at least 1 han and 20 fu',
+  'session.error.invalidWinners': 'Choose winners other than the discarder, each only once',
+  'session.error.invalidPao': 'Responsibility payment needs a yakuman and a player other than the winner',
+  'session.error.fourPlayerRules': 'Session records need four-player rules (set the player count to 4 in the calculator)',
+  'session.error.alreadyRiichi': 'This player has already declared riichi this hand',
+  'session.error.riichiPoints': 'Riichi needs at least 1000 points',
+  'session.error.riichiNoten': 'Players in riichi must be tenpai'
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  ja: JA_MESSAGES,
+  en: EN_MESSAGES
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/**
+ * 文言を取得し、{name} を params の値で置き換える
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * 言語を固定した translate（画面ごとに t として使う）
+ */
+export function createTranslator(locale: Locale) {
+  return (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+}
+
+/**
+ * name / nameEn を持つ定義（役・ローカル役・プリセットなど）の表示名を選ぶ
+ */
+export function localizeName(item: { name: string; nameEn?: string }, locale: Locale): string {
+  return locale === 'en' && item.nameEn ? item.nameEn : item.name;
+}
+
+/**
+ * description / descriptionEn を持つ定義の説明文を選ぶ
+ */
+export function localizeDescription(item: { description: string; descriptionEn?: string }, locale: Locale): string {
+  return locale === 'en' && item.descriptionEn ? item.descriptionEn : item.description;
+}
@@ -1,17 +1,35 @@
-export type Tile = string;
-
-export type MeldType = 'chii' | 'pon' | 'minkan' | 'ankan';
-
-export interface Meld {
-  type: MeldType;
-  tiles: Tile[];
-}
-
-export interface Yaku {
-  name: string;
-  han: number;
-}
-
+import { compileCustomYaku, type CustomYakuSpec } from './customYaku';
+import { DEFAULT_LOCALE, localizeName, translate, type Locale, type MessageKey, type MessageParams } from './i18n';
+
+export type Tile = string;
+
+/**
+ * 鳴きの種類（minkan は大明槓、kakan はポンに1枚加えた加槓）
+ */
+export type MeldType = 'chii' | 'pon' | 'minkan' | 'kakan' | 'ankan';
+
+/**
+ * 鳴いた相手（上家・対面・下家）
+ */
+export type MeldSource = 'kamicha' | 'toimen' | 'shimocha';
+
+export interface Meld {
+  type: MeldType;
+  tiles: Tile[];
+  // 鳴いた牌と鳴いた相手（暗槓にはない。加槓は元のポンで鳴いた牌）
+  calledTile?: Tile;
+  from?: MeldSource;
+}
+
+export function isKanMeld(meld: Meld): boolean {
+  return meld.type === 'minkan' || meld.type === 'kakan' || meld.type === 'ankan';
+}
+
+export interface Yaku {
+  name: string;
+  han: number;
+}
+
 export interface AgariOptions {
   isTsumo: boolean;
   bakaze: string;
@@ -31,79 +49,407 @@ export interface AgariOptions {
   isNagashiMangan?: boolean;
   doraTiles?: Tile[];
   uraDoraTiles?: Tile[];
-  redDora?: {
+  kyotaku?: number;
+  honba?: number;
+  // ローカル役の成立条件
+  isRenhou?: boolean;
+  isOpenRiichi?: boolean;
+  isTsubameGaeshi?: boolean;
+  isFirstDraw?: boolean;
+  dealerWinStreak?: number;
+  // 三人麻雀で抜いた北の枚数
+  nukidora?: number;
+  // 役名・エラー・点数表示の言語（省略時は日本語）
+  locale?: Locale;
+}
+
+export type LocalYakuId =
+  | 'renhou'
+  | 'daisharin'
+  | 'shiisanPuutaa'
+  | 'paarenchan'
+  | 'ishiNoUeNiMoSannen'
+  | 'tsubameGaeshi'
+  | 'openRiichi'
+  | 'sanrenkou';
+
+export interface LocalYakuSetting {
+  enabled: boolean;
+  han: number;
+}
+
+export interface LocalYakuDefinition {
+  id: LocalYakuId;
+  name: string;
+  nameEn: string;
+  defaultHan: number;
+  description: string;
+  descriptionEn: string;
+}
+
+/**
+ * 三人麻雀のツモの支払い方
+ * - tsumoLoss: ツモ損（北家の支払い分はなくなる）
+ * - northBisection: 北家折半（北家の支払い分を残りの2人で折半する）
+ */
+export type SanmaTsumoRule = 'tsumoLoss' | 'northBisection';
+
+export type MultiRonRule = 'all' | 'atamahane';
+
+/**
+ * 点数計算のルール設定
+ * - players: 4 で四人麻雀、3 で三人麻雀（2m〜8mを抜き、北は抜きドラ）
+ * - sanmaTsumo: 三人麻雀のツモの支払い方
+ * - multiRon: 複数人のロン（all はダブロン・トリロンあり、atamahane は放銃者の下家に近い1人だけ）
+ * - paoSuukantsu: 四槓子を責任払い（包）の対象にする（大三元・大四喜は常に対象）
+ * - honbaValue: 1本場あたりの合計点（ツモ時は1人あたり3分の1を100点単位に切り上げ。三人麻雀のツモでは2人分になる）
+ * - redFives: 色ごとの赤五の枚数（0枚ならその色の赤ドラは数えない）
+ * - startingPoints / returnPoints / uma: 持ち点・返し点・順位ウマ（千点単位、1位から順）
+ * - localYaku: 採用するローカル役と翻数（未設定の役は採用しない）
+ * - customYaku: JSONで定義したカスタム役
+ */
+export interface RuleSet {
+  players: 3 | 4;
+  sanmaTsumo: SanmaTsumoRule;
+  multiRon: MultiRonRule;
+  paoSuukantsu: boolean;
+  kuitan: boolean;
+  kiriageMangan: boolean;
+  kazoeYakuman: boolean;
+  doubleYakuman: boolean;
+  multipleYakuman: boolean;
+  renpuuFu: 2 | 4;
+  honbaValue: number;
+  redFives: {
     man: number;
     pin: number;
     sou: number;
   };
-  kyotaku?: number;
-  honba?: number;
+  startingPoints: number;
+  returnPoints: number;
+  uma: [number, number, number, number];
+  localYaku: Partial<Record<LocalYakuId, LocalYakuSetting>>;
+  customYaku: CustomYakuSpec[];
 }
 
+export const DEFAULT_RULE_SET: RuleSet = {
+  players: 4,
+  sanmaTsumo: 'tsumoLoss',
+  multiRon: 'all',
+  paoSuukantsu: false,
+  kuitan: true,
+  kiriageMangan: false,
+  kazoeYakuman: true,
+  doubleYakuman: true,
+  multipleYakuman: true,
+  renpuuFu: 2,
+  honbaValue: 300,
+  redFives: { man: 1, pin: 1, sou: 1 },
+  startingPoints: 25000,
+  returnPoints: 30000,
+  uma: [20, 10, -10, -20],
+  localYaku: {},
+  customYaku: []
+};
+
 export interface CalculationResult {
   han: number;
   fu: number;
   score: string;
   yaku: Yaku[];
   scoreBreakdown?: ScoreBreakdown;
+  interpretation?: HandInterpretation;
+  fuBreakdown?: FuItem[];
+  pao?: PaoInfo;
+}
+
+export type PaoYakuId = 'daisangen' | 'daisuushii' | 'suukantsu';
+
+/**
+ * 責任払い（包）の対象になる役満。points はその役満分のロンの点数（本場・供託を除く）
+ * from は最後の副露をさせた相手
+ */
+export interface PaoInfo {
+  yaku: PaoYakuId[];
+  yakumanCount: number;
+  points: number;
+  from: MeldSource;
+}
+
+export interface FuItem {
+  label: string;
+  fu: number;
+}
+
+/**
+ * 和了として扱えない入力（noYaku は点数計算の結果として calculateScore が返す）
+ */
+export type AgariErrorCode =
+  | 'handSize'
+  | 'missingWinningTile'
+  | 'tooManyMelds'
+  | 'invalidMeld'
+  | 'tileLimit'
+  | 'tooManyDoraIndicators'
+  | 'tenhouNotDealer'
+  | 'chiihouDealer'
+  | 'sanmaTile'
+  | 'sanmaChii'
+  | 'nukidoraWithoutSanma'
+  | 'notWinningHand'
+  | 'noYaku';
+
+/**
+ * 計算はできるが条件が矛盾している入力（該当する条件は点数に反映されない）
+ */
+export type AgariWarningCode =
+  | 'redFiveLimit'
+  | 'riichiWithOpenMeld'
+  | 'ippatsuWithoutRiichi'
+  | 'uraDoraWithoutRiichi'
+  | 'haiteiOnRon'
+  | 'houteiOnTsumo'
+  | 'rinshanOnRon'
+  | 'rinshanWithoutKan'
+  | 'chankanOnTsumo'
+  | 'oyaJikazeMismatch';
+
+export interface AgariIssue<Code extends string> {
+  code: Code;
+  message: string;
+}
+
+export interface AgariValidation {
+  errors: AgariIssue<AgariErrorCode>[];
+  warnings: AgariIssue<AgariWarningCode>[];
+}
+
+export interface CalculationError {
+  error: string;
+  code: AgariErrorCode;
+}
+
+export type HandForm = 'standard' | 'chiitoitsu' | 'kokushi';
+
+/**
+ * 和了形の解釈（面子構成と待ち形）。mentsu は手牌部分のみで鳴きを含まない
+ * 七対子では mentsu に7つの対子が入り、pair は null になる
+ */
+export interface HandInterpretation {
+  form: HandForm;
+  pair: Tile | null;
+  mentsu: Tile[][];
+  wait: WaitPattern;
+}
+
+export interface ShantenResult {
+  shanten: number;
+  standard: number;
+  chiitoitsu: number | null;
+  kokushi: number | null;
+}
+
+export interface TileAcceptance {
+  tile: Tile;
+  remaining: number;
+}
+
+export interface DiscardCandidate {
+  discard: Tile;
+  shanten: number;
+  acceptance: TileAcceptance[];
+  totalRemaining: number;
+}
+
+export interface TenpaiWait {
+  tile: Tile;
+  waitPattern: WaitPattern;
+  remaining: number;
+  tsumo: CalculationResult | { error: string };
+  ron: CalculationResult | { error: string };
+}
+
+export type LimitName = '満貫' | '跳満' | '倍満' | '三倍満' | '役満';
+
+/**
+ * ツモ和了時の1人あたりの支払額（親ツモの場合 oya は null、ko が全員の支払額）
+ */
+export interface TsumoPayment {
+  oya: number | null;
+  ko: number;
+}
+
+/**
+ * 本場・供託を含まない基本の支払額（players は支払いを計算した人数）
+ */
+export interface BasePayment {
+  players: 3 | 4;
+  isOya: boolean;
+  isTsumo: boolean;
+  limit: LimitName | null;
+  yakumanMultiplier: number;
+  basePoints: number;
+  ron: number | null;
+  tsumo: TsumoPayment | null;
+  total: number;
+}
+
+export interface PaymentShare {
+  payer: 'discarder' | 'oya' | 'ko';
+  points: number;
+}
+
+/**
+ * 本場・供託込みの支払い。shares は支払者ごとの支払額（本場込み）、total は和了者の収入
+ */
+export interface ScorePayment extends BasePayment {
+  honba: number;
+  honbaPoints: number;
+  kyotaku: number;
+  kyotakuPoints: number;
+  shares: PaymentShare[];
 }
 
 export interface ScoreBreakdown {
+  limitText: string | null;
   baseText: string;
   honbaText: string | null;
   kyotakuText: string | null;
   totalText: string;
   totalPoints: number;
+  payment: ScorePayment;
+}
+
+export const TILES = {
+  manzu: ['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m'],
+  pinzu: ['1p', '2p', '3p', '4p', '5p', '6p', '7p', '8p', '9p'],
+  souzu: ['1s', '2s', '3s', '4s', '5s', '6s', '7s', '8s', '9s'],
+  jihai: ['東', '南', '西', '北', '白', '發', '中']
+};
+
+// 三人麻雀は萬子の2〜8を抜く
+export const SANMA_TILES: typeof TILES = {
+  ...TILES,
+  manzu: ['1m', '9m']
+};
+
+/**
+ * ルールで使う牌の種類（三人麻雀は SANMA_TILES）
+ */
+export function getTiles(rules: RuleSet = DEFAULT_RULE_SET): typeof TILES {
+  return rules.players === 3 ? SANMA_TILES : TILES;
+}
+
+export const TILE_DISPLAY: Record<string, string> = {
+  '1m': '一萬', '2m': '二萬', '3m': '三萬', '4m': '四萬', '5m': '五萬',
+  '6m': '六萬', '7m': '七萬', '8m': '八萬', '9m': '九萬',
+  '1p': '①', '2p': '②', '3p': '③', '4p': '④', '5p': '⑤',
+  '6p': '⑥', '7p': '⑦', '8p': '⑧', '9p': '⑨',
+  '1s': '1索', '2s': '2索', '3s': '3索', '4s': '4索', '5s': '5索',
+  '6s': '6索', '7s': '7索', '8s': '8索', '9s': '9索',
+  '東': '東', '南': '南', '西': '西', '北': '北', '白': '白', '發': '發', '中': '中',
+  '0m': '赤五萬', '0p': '赤⑤', '0s': '赤5索'
+};
+
+const TILE_DISPLAY_EN: Record<string, string> = {
+  '東': 'East', '南': 'South', '西': 'West', '北': 'North', '白': 'White', '發': 'Green', '中': 'Red',
+  '0m': 'Red 5m', '0p': 'Red 5p', '0s': 'Red 5s'
+};
+
+/**
+ * 牌の表示名（英語では数牌を '5m' のように表記する）
+ */
+export function formatTileName(tile: Tile, locale: Locale = DEFAULT_LOCALE): string {
+  if (locale === 'en') {
+    return TILE_DISPLAY_EN[tile] ?? tile;
+  }
+  return TILE_DISPLAY[tile] ?? tile;
 }
-
-export const TILES = {
-  manzu: ['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m'],
-  pinzu: ['1p', '2p', '3p', '4p', '5p', '6p', '7p', '8p', '9p'],
-  souzu: ['1s', '2s', '3s', '4s', '5s', '6s', '7s', '8s', '9s'],
-  jihai: ['東', '南', '西', '北', '白', '發', '中']
-};
-
-export const TILE_DISPLAY: Record<string, string> = {
-  '1m': '一萬', '2m': '二萬', '3m': '三萬', '4m': '四萬', '5m': '五萬',
-  '6m': '六萬', '7m': '七萬', '8m': '八萬', '9m': '九萬',
-  '1p': '①', '2p': '②', '3p': '③', '4p': '④', '5p': '⑤',
-  '6p': '⑥', '7p': '⑦', '8p': '⑧', '9p': '⑨',
-  '1s': '1索', '2s': '2索', '3s': '3索', '4s': '4索', '5s': '5索',
-  '6s': '6索', '7s': '7索', '8s': '8索', '9s': '9索',
-  '東': '東', '南': '南', '西': '西', '北': '北', '白': '白', '發': '發', '中': '中'
-};
-
+
+// 赤五は 5 と同じ位置に並べる
 export const TILE_ORDER: Record<string, number> = {
   '1m': 1, '2m': 2, '3m': 3, '4m': 4, '5m': 5, '6m': 6, '7m': 7, '8m': 8, '9m': 9,
   '1p': 11, '2p': 12, '3p': 13, '4p': 14, '5p': 15, '6p': 16, '7p': 17, '8p': 18, '9p': 19,
   '1s': 21, '2s': 22, '3s': 23, '4s': 24, '5s': 25, '6s': 26, '7s': 27, '8s': 28, '9s': 29,
-  '東': 31, '南': 32, '西': 33, '北': 34, '白': 35, '發': 36, '中': 37
+  '東': 31, '南': 32, '西': 33, '北': 34, '白': 35, '發': 36, '中': 37,
+  '0m': 5, '0p': 15, '0s': 25
 };
 
+/**
+ * 赤五（0m / 0p / 0s）と通常の五の対応
+ */
+const RED_FIVE_MAP: Record<string, Tile> = { '0m': '5m', '0p': '5p', '0s': '5s' };
+
+export const RED_FIVE_TILES: Tile[] = Object.keys(RED_FIVE_MAP);
+
+export function isRedFive(tile: Tile): boolean {
+  return tile in RED_FIVE_MAP;
+}
+
+/**
+ * 赤五を通常の五として扱う（役・符・ドラの判定用）
+ */
+export function normalizeTile(tile: Tile): Tile {
+  return RED_FIVE_MAP[tile] ?? tile;
+}
+
+const normalizeTiles = (tiles: Tile[]): Tile[] => tiles.map(normalizeTile);
+
+const normalizeMelds = (melds?: Meld[]): Meld[] | undefined =>
+  melds?.map(meld => ({ ...meld, tiles: normalizeTiles(meld.tiles) }));
+
+const SUIT_KEYS: Record<string, 'manzu' | 'pinzu' | 'souzu'> = { m: 'manzu', p: 'pinzu', s: 'souzu' };
+
+// ドラは風牌・三元牌それぞれの中で循環する
+const HONOR_CYCLES: Tile[][] = [['東', '南', '西', '北'], ['白', '發', '中']];
+
+/**
+ * ドラ表示牌からドラを求める（三人麻雀では 1m の次を 9m とする）
+ */
+export function getDoraFromIndicator(indicator: Tile, rules: RuleSet = DEFAULT_RULE_SET): Tile {
+  const tile = normalizeTile(indicator);
+  const cycle = HONOR_CYCLES.find(honors => honors.includes(tile));
+  if (cycle) {
+    return cycle[(cycle.indexOf(tile) + 1) % cycle.length];
+  }
+  const suitKey = SUIT_KEYS[tile[1]];
+  const suitTiles = suitKey ? getTiles(rules)[suitKey] : [];
+  const index = suitTiles.indexOf(tile);
+  return index === -1 ? tile : suitTiles[(index + 1) % suitTiles.length];
+}
+
+const YAOCHUHAI: Tile[] = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'];
+
 const BAKAZE_MAP: Record<string, string> = { ton: '東', nan: '南', sha: '西', pei: '北' };
 const JIKAZE_MAP: Record<string, string> = { ton: '東', nan: '南', sha: '西', pei: '北' };
 
-type HandMeldType = 'shuntsu' | 'koutsu' | 'kantsu';
+export type HandMeldType = 'shuntsu' | 'koutsu' | 'kantsu';
 
-interface HandMeld {
+export interface HandMeld {
   type: HandMeldType;
   tiles: Tile[];
 }
 
-interface HandShape {
+/**
+ * 雀頭1つと残りを面子に分解した形（鳴いた面子は含まない）
+ */
+export interface HandShape {
   pair: Tile;
   melds: HandMeld[];
 }
 
-interface MentsuPattern {
+/**
+ * 雀頭と面子（鳴いた面子を含む）に分解した手の形
+ */
+export interface MentsuPattern {
   jantou: Tile;
   mentsu: Tile[][];
 }
-
-export function sortHand(tiles: Tile[]): Tile[] {
-  return [...tiles].sort((a, b) => TILE_ORDER[a] - TILE_ORDER[b]);
-}
-
+
+export function sortHand(tiles: Tile[]): Tile[] {
+  return [...tiles].sort((a, b) => TILE_ORDER[a] - TILE_ORDER[b] || Number(isRedFive(a)) - Number(isRedFive(b)));
+}
+
 function parseTile(tile: Tile): [number | null, string | null] {
   if (tile.length === 2) {
     const num = parseInt(tile[0]);
@@ -199,7 +545,10 @@ function serializeHandShape(shape: HandShape): string {
   return `${shape.pair}|${meldKey}`;
 }
 
-function buildHandShapes(hand: Tile[]): HandShape[] {
+/**
+ * 手牌を雀頭と面子に分解する形をすべて列挙する（赤五は呼び出し側で通常の五にしておく）
+ */
+export function buildHandShapes(hand: Tile[]): HandShape[] {
   const counts = countTiles(hand);
   const shapes: HandShape[] = [];
   const seen = new Set<string>();
@@ -222,23 +571,99 @@ function buildHandShapes(hand: Tile[]): HandShape[] {
   return shapes;
 }
 
-function getMentsuPatterns(hand: Tile[]): MentsuPattern[] {
-  return buildHandShapes(hand).map(shape => ({
-    jantou: shape.pair,
-    mentsu: shape.melds.map(meld => [...meld.tiles])
-  }));
+function classifyGroupWait(group: Tile[], winningTile: Tile): WaitPattern {
+  if (!isShuntsu(group)) {
+    return 'shanpon';
+  }
+
+  const sorted = sortHand(group);
+  if (winningTile === sorted[1]) {
+    return 'kanchan';
+  }
+
+  const [firstNum] = parseTile(sorted[0]);
+  const [thirdNum] = parseTile(sorted[2]);
+  if (winningTile === sorted[0]) {
+    return thirdNum === 9 ? 'penchan' : 'ryanmen';
+  }
+  return firstNum === 1 ? 'penchan' : 'ryanmen';
+}
+
+function serializeInterpretation(interpretation: HandInterpretation): string {
+  const mentsuKey = interpretation.mentsu
+    .map(group => sortHand(group).join(','))
+    .sort()
+    .join('|');
+  return `${interpretation.form}|${interpretation.pair ?? ''}|${mentsuKey}|${interpretation.wait}`;
 }
 
-function getCompleteMentsuPatterns(hand: Tile[], melds?: Meld[]): MentsuPattern[] {
-  const openMelds = melds?.map(meld => [...meld.tiles]) ?? [];
-  if (openMelds.length === 0) {
-    return getMentsuPatterns(hand);
+/**
+ * 和了形（14枚、鳴きは含まない）の解釈をすべて列挙する
+ * 同じ面子構成でも和了牌をどの面子・雀頭に当てるかで待ち形が変わるため、それぞれを別の解釈として扱う
+ */
+export function getHandInterpretations(hand: Tile[], winningTile: Tile, melds?: Meld[]): HandInterpretation[] {
+  hand = normalizeTiles(hand);
+  winningTile = normalizeTile(winningTile);
+  melds = normalizeMelds(melds);
+  const meldCount = melds?.length || 0;
+  const interpretations: HandInterpretation[] = [];
+  const seen = new Set<string>();
+
+  const addInterpretation = (interpretation: HandInterpretation) => {
+    const key = serializeInterpretation(interpretation);
+    if (!seen.has(key)) {
+      seen.add(key);
+      interpretations.push(interpretation);
+    }
+  };
+
+  buildHandShapes(hand).forEach(shape => {
+    if (shape.melds.length + meldCount !== 4) return;
+    const mentsu = shape.melds.map(meld => [...meld.tiles]);
+
+    if (shape.pair === winningTile) {
+      addInterpretation({ form: 'standard', pair: shape.pair, mentsu, wait: 'tanki' });
+    }
+
+    mentsu.forEach(group => {
+      if (!group.includes(winningTile)) return;
+      addInterpretation({ form: 'standard', pair: shape.pair, mentsu, wait: classifyGroupWait(group, winningTile) });
+    });
+  });
+
+  if (meldCount === 0) {
+    const counts = countTiles(hand);
+    const pairTiles = Object.keys(counts).filter(tile => counts[tile] === 2);
+    if (pairTiles.length === 7) {
+      addInterpretation({
+        form: 'chiitoitsu',
+        pair: null,
+        mentsu: sortHand(pairTiles).map(tile => [tile, tile]),
+        wait: 'tanki'
+      });
+    }
+  }
+
+  if (isKokushi(hand, melds)) {
+    const counts = countTiles(hand);
+    const duplicate = YAOCHUHAI.find(tile => counts[tile] === 2) ?? null;
+    addInterpretation({ form: 'kokushi', pair: duplicate, mentsu: [], wait: 'tanki' });
   }
 
-  return getMentsuPatterns(hand).map(pattern => ({
-    jantou: pattern.jantou,
-    mentsu: [...pattern.mentsu, ...openMelds]
-  }));
+  return interpretations;
+}
+
+/**
+ * 通常形の解釈を鳴きを含めた面子構成に変換する（七対子・国士無双は null）
+ */
+function toMentsuPattern(interpretation: HandInterpretation | null, melds?: Meld[]): MentsuPattern | null {
+  if (!interpretation || interpretation.form !== 'standard' || !interpretation.pair) {
+    return null;
+  }
+  return {
+    jantou: interpretation.pair,
+    mentsu: [...interpretation.mentsu, ...(melds?.map(meld => [...meld.tiles]) ?? [])]
+  };
 }
 
 function getAllTiles(hand: Tile[], melds?: Meld[]): Tile[] {
@@ -254,26 +679,18 @@ function countTargetTiles(counts: Record<string, number>, targets?: Tile[]): num
   return targets.reduce((sum, tile) => sum + (counts[tile] || 0), 0);
 }
 
-function countRedDora(counts: Record<string, number>, redOptions?: { man: number; pin: number; sou: number }): number {
-  if (!redOptions) {
-    return 0;
-  }
-  let total = 0;
-  if (redOptions.man) {
-    total += Math.min(redOptions.man, counts['5m'] || 0);
-  }
-  if (redOptions.pin) {
-    total += Math.min(redOptions.pin, counts['5p'] || 0);
-  }
-  if (redOptions.sou) {
-    total += Math.min(redOptions.sou, counts['5s'] || 0);
-  }
-  return total;
+/**
+ * 赤五の枚数を数える（ルールで定めた枚数を超える分は数えない）
+ */
+function countRedDora(counts: Record<string, number>, rules: RuleSet): number {
+  return Math.min(counts['0m'] || 0, rules.redFives.man)
+    + Math.min(counts['0p'] || 0, rules.redFives.pin)
+    + Math.min(counts['0s'] || 0, rules.redFives.sou);
 }
 
 function countKanSets(melds?: Meld[]): number {
   if (!melds) return 0;
-  return melds.filter(meld => meld.type === 'minkan' || meld.type === 'ankan').length;
+  return melds.filter(isKanMeld).length;
 }
 
 function isSanKantsu(melds?: Meld[]): boolean {
@@ -284,25 +701,34 @@ function isSuukantsu(melds?: Meld[]): boolean {
   return countKanSets(melds) >= 4;
 }
 
-function buildDoraYaku(allTiles: Tile[], options: AgariOptions): Yaku[] {
-  const counts = countTiles(allTiles);
+function buildDoraYaku(allTiles: Tile[], options: AgariOptions, rules: RuleSet): Yaku[] {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const counts = countTiles(normalizeTiles(allTiles));
   const bonus: Yaku[] = [];
 
-  const doraCount = countTargetTiles(counts, options.doraTiles);
+  // 抜いた北もドラ・裏ドラの対象として数える
+  const nukidora = rules.players === 3 ? normalizeCount(options.nukidora) : 0;
+  const countNukidora = (targets?: Tile[]) => nukidora * (targets ?? []).filter(tile => tile === '北').length;
+
+  const doraCount = countTargetTiles(counts, options.doraTiles) + countNukidora(options.doraTiles);
   if (doraCount > 0) {
-    bonus.push({ name: `ドラ${doraCount}`, han: doraCount });
+    bonus.push({ name: translate(locale, 'dora.dora', { count: doraCount }), han: doraCount });
   }
 
   if (options.isRiichi) {
-    const uraCount = countTargetTiles(counts, options.uraDoraTiles);
+    const uraCount = countTargetTiles(counts, options.uraDoraTiles) + countNukidora(options.uraDoraTiles);
     if (uraCount > 0) {
-      bonus.push({ name: `裏ドラ${uraCount}`, han: uraCount });
+      bonus.push({ name: translate(locale, 'dora.ura', { count: uraCount }), han: uraCount });
     }
   }
 
-  const redCount = countRedDora(counts, options.redDora);
+  const redCount = countRedDora(countTiles(allTiles), rules);
   if (redCount > 0) {
-    bonus.push({ name: `赤ドラ${redCount}`, han: redCount });
+    bonus.push({ name: translate(locale, 'dora.aka', { count: redCount }), han: redCount });
+  }
+
+  if (nukidora > 0) {
+    bonus.push({ name: translate(locale, 'dora.nuki', { count: nukidora }), han: nukidora });
   }
 
   return bonus;
@@ -340,233 +766,356 @@ function isShuntsu(tiles: Tile[]): boolean {
   return num2 === num1 + 1 && num3 === num2 + 1;
 }
 
-function isRyanmenWait(
-  hand: Tile[],
-  winningTile: Tile,
-  targetPattern?: MentsuPattern
-): boolean {
-  const patterns = targetPattern ? [targetPattern] : getMentsuPatterns(hand);
-  return patterns.some(pattern => isRyanmenWaitForPattern(pattern, winningTile));
+function checkMentsu(tiles: Record<string, number>, count: number): boolean {
+  if (count === 0) {
+    return Object.values(tiles).every(c => c === 0);
+  }
+
+  // 刻子チェック
+  for (let tile in tiles) {
+    if (tiles[tile] >= 3) {
+      const remaining = {...tiles};
+      remaining[tile] -= 3;
+      if (checkMentsu(remaining, count - 1)) {
+        return true;
+      }
+    }
+  }
+
+  // 順子チェック
+  for (let tile in tiles) {
+    if (tiles[tile] > 0) {
+      const [num, suit] = parseTile(tile);
+      if (num && num <= 7) {
+        const tile2 = `${num + 1}${suit}`;
+        const tile3 = `${num + 2}${suit}`;
+        if (tiles[tile2] > 0 && tiles[tile3] > 0) {
+          const remaining = {...tiles};
+          remaining[tile]--;
+          remaining[tile2]--;
+          remaining[tile3]--;
+          if (checkMentsu(remaining, count - 1)) {
+            return true;
+          }
+        }
+      }
+    }
+  }
+
+  return false;
 }
 
-function isRyanmenWaitForPattern(pattern: MentsuPattern, winningTile: Tile): boolean {
-  if (pattern.jantou === winningTile) return false;
+function checkNormalWinningHand(tileCounts: Record<string, number>, requiredMentsu: number = 4): boolean {
+  // 雀頭を選択
+  for (let tile in tileCounts) {
+    if (tileCounts[tile] >= 2) {
+      const remaining = {...tileCounts};
+      remaining[tile] -= 2;
+      if (checkMentsu(remaining, requiredMentsu)) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+export function isWinningHand(hand: Tile[], melds?: Meld[]): boolean {
+  const tileCounts: Record<string, number> = {};
+  normalizeTiles(hand).forEach(tile => {
+    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+  });
 
-  const targetMentsuList = pattern.mentsu.filter(mentsu => mentsu.includes(winningTile));
-  if (targetMentsuList.length === 0) return false;
+  const meldCount = melds?.length || 0;
+  const hasMelds = meldCount > 0;
 
-  return targetMentsuList.some(mentsu => {
-    if (mentsu.length !== 3) return false;
-    if (!isShuntsu(mentsu)) return false;
+  // 七対子チェック（鳴きがある場合は不可）
+  if (!hasMelds) {
+    const pairs = Object.values(tileCounts).filter(count => count === 2);
+    if (pairs.length === 7) return true;
+  }
 
-    const sorted = sortHand(mentsu);
-    const isLowest = winningTile === sorted[0];
-    const isHighest = winningTile === sorted[2];
+  // 国士無双チェック（鳴きがある場合は不可）
+  if (!hasMelds) {
+    const yaochuhai = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'];
+    const hasAllYaochuhai = yaochuhai.every(tile => tileCounts[tile] >= 1);
+    if (hasAllYaochuhai) return true;
+  }
 
-    if (!isLowest && !isHighest) return false;
+  // 通常の和了形チェック（鳴きの数に応じて必要な面子数を減らす）
+  const requiredMentsu = 4 - meldCount;
+  return checkNormalWinningHand(tileCounts, requiredMentsu);
+}
 
-    const [firstNum] = parseTile(sorted[0]);
-    const [thirdNum] = parseTile(sorted[2]);
+// ========== 向聴数計算 ==========
 
-    if (firstNum === null || thirdNum === null) return false;
+const ORDER_SIZE = 38;
 
-    if ((isHighest && firstNum === 1) || (isLowest && thirdNum === 9)) {
-      return false;
+function countByOrder(tiles: Tile[]): number[] {
+  const counts = new Array<number>(ORDER_SIZE).fill(0);
+  tiles.forEach(tile => {
+    const order = TILE_ORDER[tile];
+    if (order !== undefined) {
+      counts[order]++;
     }
+  });
+  return counts;
+}
 
-    return true;
+/**
+ * 面子・搭子・雀頭の組み合わせを全探索して通常形の向聴数の最小値を求める
+ * TILE_ORDER の値をインデックスとして扱う（スート間の空き番号により順子が色を跨がない）
+ */
+function searchStandardShanten(
+  counts: number[],
+  start: number,
+  mentsu: number,
+  taatsu: number,
+  hasPair: boolean
+): number {
+  let index = start;
+  while (index < ORDER_SIZE && counts[index] === 0) index++;
+
+  if (index >= ORDER_SIZE) {
+    const usableTaatsu = Math.min(taatsu, 4 - mentsu);
+    return 8 - mentsu * 2 - usableTaatsu - (hasPair ? 1 : 0);
+  }
+
+  let best = Infinity;
+  const isSuited = index < 30;
+
+  // 刻子
+  if (counts[index] >= 3) {
+    counts[index] -= 3;
+    best = Math.min(best, searchStandardShanten(counts, index, mentsu + 1, taatsu, hasPair));
+    counts[index] += 3;
+  }
+
+  // 順子
+  if (isSuited && counts[index + 1] > 0 && counts[index + 2] > 0) {
+    counts[index]--;
+    counts[index + 1]--;
+    counts[index + 2]--;
+    best = Math.min(best, searchStandardShanten(counts, index, mentsu + 1, taatsu, hasPair));
+    counts[index]++;
+    counts[index + 1]++;
+    counts[index + 2]++;
+  }
+
+  if (mentsu + taatsu < 4 || !hasPair) {
+    if (counts[index] >= 2) {
+      counts[index] -= 2;
+      // 雀頭
+      if (!hasPair) {
+        best = Math.min(best, searchStandardShanten(counts, index, mentsu, taatsu, true));
+      }
+      // 対子（搭子）
+      best = Math.min(best, searchStandardShanten(counts, index, mentsu, taatsu + 1, hasPair));
+      counts[index] += 2;
+    }
+
+    // 両面・辺張
+    if (isSuited && counts[index + 1] > 0) {
+      counts[index]--;
+      counts[index + 1]--;
+      best = Math.min(best, searchStandardShanten(counts, index, mentsu, taatsu + 1, hasPair));
+      counts[index]++;
+      counts[index + 1]++;
+    }
+
+    // 嵌張
+    if (isSuited && counts[index + 2] > 0) {
+      counts[index]--;
+      counts[index + 2]--;
+      best = Math.min(best, searchStandardShanten(counts, index, mentsu, taatsu + 1, hasPair));
+      counts[index]++;
+      counts[index + 2]++;
+    }
+  }
+
+  // 孤立牌として外す
+  counts[index]--;
+  best = Math.min(best, searchStandardShanten(counts, index, mentsu, taatsu, hasPair));
+  counts[index]++;
+
+  return best;
+}
+
+function calculateStandardShanten(hand: Tile[], meldCount: number): number {
+  return searchStandardShanten(countByOrder(hand), 0, meldCount, 0, false);
+}
+
+function calculateChiitoitsuShanten(hand: Tile[]): number {
+  const counts = countTiles(hand);
+  const kinds = Object.keys(counts).length;
+  const pairs = Object.values(counts).filter(count => count >= 2).length;
+  return 6 - pairs + Math.max(0, 7 - kinds);
+}
+
+function calculateKokushiShanten(hand: Tile[]): number {
+  const counts = countTiles(hand);
+  const kinds = YAOCHUHAI.filter(tile => (counts[tile] || 0) > 0);
+  const hasPair = kinds.some(tile => counts[tile] >= 2);
+  return 13 - kinds.length - (hasPair ? 1 : 0);
+}
+
+/**
+ * 向聴数を計算する（13枚・14枚どちらにも対応）
+ * -1 は和了形、0 は聴牌を表す。七対子・国士無双は鳴きがある場合 null になる
+ */
+export function calculateShanten(hand: Tile[], melds?: Meld[]): ShantenResult {
+  hand = normalizeTiles(hand);
+  const meldCount = melds?.length || 0;
+  const standard = calculateStandardShanten(hand, meldCount);
+
+  if (meldCount > 0) {
+    return { shanten: standard, standard, chiitoitsu: null, kokushi: null };
+  }
+
+  const chiitoitsu = calculateChiitoitsuShanten(hand);
+  const kokushi = calculateKokushiShanten(hand);
+  return {
+    shanten: Math.min(standard, chiitoitsu, kokushi),
+    standard,
+    chiitoitsu,
+    kokushi
+  };
+}
+
+const ALL_TILE_KINDS: Tile[] = [...TILES.manzu, ...TILES.pinzu, ...TILES.souzu, ...TILES.jihai];
+
+/**
+ * 見えている枚数を差し引いた残り枚数を求める（手牌・鳴き・ドラ表示牌）
+ */
+function countUnseenTiles(visibleTiles: Tile[]): Record<string, number> {
+  const visible = countTiles(normalizeTiles(visibleTiles));
+  const unseen: Record<string, number> = {};
+  ALL_TILE_KINDS.forEach(tile => {
+    unseen[tile] = Math.max(0, 4 - (visible[tile] || 0));
   });
+  return unseen;
 }
-
-function checkMentsu(tiles: Record<string, number>, count: number): boolean {
-  if (count === 0) {
-    return Object.values(tiles).every(c => c === 0);
-  }
-
-  // 刻子チェック
-  for (let tile in tiles) {
-    if (tiles[tile] >= 3) {
-      const remaining = {...tiles};
-      remaining[tile] -= 3;
-      if (checkMentsu(remaining, count - 1)) {
-        return true;
-      }
-    }
-  }
-
-  // 順子チェック
-  for (let tile in tiles) {
-    if (tiles[tile] > 0) {
-      const [num, suit] = parseTile(tile);
-      if (num && num <= 7) {
-        const tile2 = `${num + 1}${suit}`;
-        const tile3 = `${num + 2}${suit}`;
-        if (tiles[tile2] > 0 && tiles[tile3] > 0) {
-          const remaining = {...tiles};
-          remaining[tile]--;
-          remaining[tile2]--;
-          remaining[tile3]--;
-          if (checkMentsu(remaining, count - 1)) {
-            return true;
-          }
-        }
-      }
-    }
-  }
-
-  return false;
-}
-
-function checkNormalWinningHand(tileCounts: Record<string, number>, requiredMentsu: number = 4): boolean {
-  // 雀頭を選択
-  for (let tile in tileCounts) {
-    if (tileCounts[tile] >= 2) {
-      const remaining = {...tileCounts};
-      remaining[tile] -= 2;
-      if (checkMentsu(remaining, requiredMentsu)) {
-        return true;
-      }
-    }
-  }
-  return false;
-}
-
-export function isWinningHand(hand: Tile[], melds?: Meld[]): boolean {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  const meldCount = melds?.length || 0;
-  const hasMelds = meldCount > 0;
-
-  // 七対子チェック（鳴きがある場合は不可）
-  if (!hasMelds) {
-    const pairs = Object.values(tileCounts).filter(count => count === 2);
-    if (pairs.length === 7) return true;
-  }
-
-  // 国士無双チェック（鳴きがある場合は不可）
-  if (!hasMelds) {
-    const yaochuhai = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'];
-    const hasAllYaochuhai = yaochuhai.every(tile => tileCounts[tile] >= 1);
-    if (hasAllYaochuhai) return true;
-  }
-
-  // 通常の和了形チェック（鳴きの数に応じて必要な面子数を減らす）
-  const requiredMentsu = 4 - meldCount;
-  return checkNormalWinningHand(tileCounts, requiredMentsu);
-}
-
-function isTanyao(hand: Tile[], melds?: Meld[]): boolean {
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  return allTiles.every(tile => {
-    if (tile.length === 2) {
-      const num = parseInt(tile[0]);
-      return num >= 2 && num <= 8;
-    }
-    return false;
-  });
-}
-
-function isPinfu(
+
+/**
+ * 14枚の手牌に対して、打牌候補ごとの向聴数と有効牌（受け入れ）を求める
+ * 有効牌はルールの対局人数で使う牌から選ぶ（三人麻雀では二萬〜八萬を除く）
+ * 結果は向聴数の小さい順、同じ向聴数なら受け入れ枚数の多い順に並ぶ
+ */
+export function analyzeDiscards(
   hand: Tile[],
-  winningTile: Tile,
+  melds?: Meld[],
+  doraIndicators?: Tile[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): DiscardCandidate[] {
+  const unseen = countUnseenTiles([...getAllTiles(hand, melds), ...(doraIndicators ?? [])]);
+  const tileKinds = Object.values(getTiles(rules)).flat();
+  const candidates: DiscardCandidate[] = [];
+
+  sortHand(Array.from(new Set(hand))).forEach(discard => {
+    const index = hand.indexOf(discard);
+    const remainingHand = [...hand.slice(0, index), ...hand.slice(index + 1)];
+    const shanten = calculateShanten(remainingHand, melds).shanten;
+
+    const acceptance = tileKinds
+      .filter(tile => calculateShanten([...remainingHand, tile], melds).shanten < shanten)
+      .map(tile => ({ tile, remaining: unseen[tile] }));
+
+    candidates.push({
+      discard,
+      shanten,
+      acceptance,
+      totalRemaining: acceptance.reduce((sum, item) => sum + item.remaining, 0)
+    });
+  });
+
+  return candidates.sort((a, b) => a.shanten - b.shanten || b.totalRemaining - a.totalRemaining);
+}
+
+function isTanyao(hand: Tile[], melds?: Meld[]): boolean {
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  return allTiles.every(tile => {
+    if (tile.length === 2) {
+      const num = parseInt(tile[0]);
+      return num >= 2 && num <= 8;
+    }
+    return false;
+  });
+}
+
+function isPinfu(
+  pattern: MentsuPattern | null,
+  wait: WaitPattern | undefined,
   isMenzen: boolean,
   bakaze?: string,
   jikaze?: string
 ): boolean {
-  if (!isMenzen) return false;
+  if (!isMenzen || !pattern) return false;
 
-  const patterns = getMentsuPatterns(hand);
-  if (patterns.length === 0) {
+  const hasOnlyShuntsu = pattern.mentsu.every(mentsu => isShuntsu(mentsu));
+  if (!hasOnlyShuntsu) {
     return false;
   }
 
-  return patterns.some(pattern => {
-    const hasOnlyShuntsu = pattern.mentsu.every(mentsu => isShuntsu(mentsu));
-    if (!hasOnlyShuntsu) {
-      return false;
-    }
-
-    if (isYakuhai(pattern.jantou, bakaze, jikaze)) {
-      return false;
-    }
+  if (isYakuhai(pattern.jantou, bakaze, jikaze)) {
+    return false;
+  }
 
-    return isRyanmenWait(hand, winningTile, pattern);
-  });
+  return wait === 'ryanmen';
 }
 
-function isRyanpeikou(hand: Tile[], isMenzen: boolean): boolean {
-  if (!isMenzen) return false;
-  const patterns = getMentsuPatterns(hand);
-  return patterns.some(pattern => {
-    if (!pattern.mentsu.every(mentsu => isShuntsu(mentsu))) {
-      return false;
-    }
-    const counts: Record<string, number> = {};
-    pattern.mentsu.forEach(mentsu => {
+function countIdenticalShuntsuPairs(pattern: MentsuPattern): number {
+  const counts: Record<string, number> = {};
+  pattern.mentsu
+    .filter(mentsu => isShuntsu(mentsu))
+    .forEach(mentsu => {
       const key = sortHand(mentsu).join(',');
       counts[key] = (counts[key] || 0) + 1;
     });
-    let pairCount = 0;
-    Object.values(counts).forEach(count => {
-      pairCount += Math.floor(count / 2);
-    });
-    return pairCount >= 2;
+  let pairCount = 0;
+  Object.values(counts).forEach(count => {
+    pairCount += Math.floor(count / 2);
   });
+  return pairCount;
 }
 
-function isIipeikou(hand: Tile[], isMenzen: boolean): boolean {
-  if (!isMenzen) return false;
-  const patterns = getMentsuPatterns(hand);
-  return patterns.some(pattern => {
-    const counts: Record<string, number> = {};
-    pattern.mentsu
-      .filter(mentsu => isShuntsu(mentsu))
-      .forEach(mentsu => {
-        const key = sortHand(mentsu).join(',');
-        counts[key] = (counts[key] || 0) + 1;
-      });
-    return Object.values(counts).some(count => count >= 2);
-  });
+function isRyanpeikou(pattern: MentsuPattern | null, isMenzen: boolean): boolean {
+  if (!isMenzen || !pattern) return false;
+  return countIdenticalShuntsuPairs(pattern) >= 2;
+}
+
+function isIipeikou(pattern: MentsuPattern | null, isMenzen: boolean): boolean {
+  if (!isMenzen || !pattern) return false;
+  return countIdenticalShuntsuPairs(pattern) >= 1;
 }
 
-function isIttsuu(hand: Tile[], melds?: Meld[]): boolean {
-  const tiles = getAllTiles(hand, melds);
+function isIttsuu(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  const sequences = new Set(
+    pattern.mentsu.filter(mentsu => isShuntsu(mentsu)).map(mentsu => sortHand(mentsu)[0])
+  );
   const suits: Array<'m' | 'p' | 's'> = ['m', 'p', 's'];
-  return suits.some(suit => {
-    for (let num = 1; num <= 9; num++) {
-      if (!tiles.some(tile => tile === `${num}${suit}`)) {
-        return false;
-      }
-    }
-    return true;
-  });
+  return suits.some(suit => [1, 4, 7].every(num => sequences.has(`${num}${suit}`)));
 }
 
-function isSanshokuDoujun(hand: Tile[], melds?: Meld[]): boolean {
-  const patterns = getCompleteMentsuPatterns(hand, melds);
-  return patterns.some(pattern => {
-    const map: Record<string, Set<string>> = {};
-    pattern.mentsu.forEach(mentsu => {
-      if (mentsu.length === 3 && isShuntsu(mentsu)) {
-        const sorted = sortHand(mentsu);
-        const [, suit] = parseTile(sorted[0]);
-        if (!suit) {
-          return;
-        }
-        const numbers = sorted.map(tile => tile[0]).join('');
-        if (!map[numbers]) {
-          map[numbers] = new Set();
-        }
-        map[numbers].add(suit);
+function isSanshokuDoujun(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  const map: Record<string, Set<string>> = {};
+  pattern.mentsu.forEach(mentsu => {
+    if (mentsu.length === 3 && isShuntsu(mentsu)) {
+      const sorted = sortHand(mentsu);
+      const [, suit] = parseTile(sorted[0]);
+      if (!suit) {
+        return;
       }
-    });
-    return Object.values(map).some(suits => suits.size === 3);
+      const numbers = sorted.map(tile => tile[0]).join('');
+      if (!map[numbers]) {
+        map[numbers] = new Set();
+      }
+      map[numbers].add(suit);
+    }
   });
+  return Object.values(map).some(suits => suits.size === 3);
 }
 
 function isTerminalSequence(tiles: Tile[]): boolean {
@@ -583,164 +1132,107 @@ function getGroupType(tileGroup: Tile[]): 'shuntsu' | 'koutsu' {
   return 'koutsu';
 }
 
-function isChanta(hand: Tile[], melds?: Meld[]): boolean {
-  const patterns = getCompleteMentsuPatterns(hand, melds);
-  return patterns.some(pattern => {
-    if (!isTerminalOrHonor(pattern.jantou)) {
-      return false;
-    }
+function isChanta(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  if (!isTerminalOrHonor(pattern.jantou)) {
+    return false;
+  }
 
-    let hasHonor = isHonorTile(pattern.jantou);
+  let hasHonor = isHonorTile(pattern.jantou);
 
-    for (const mentsu of pattern.mentsu) {
-      const type = getGroupType(mentsu);
-      if (type === 'shuntsu') {
-        if (!isTerminalSequence(mentsu)) {
-          return false;
-        }
-      } else {
-        if (!mentsu.every(tile => tile === mentsu[0])) {
-          return false;
-        }
-        if (!isTerminalOrHonor(mentsu[0])) {
-          return false;
-        }
+  for (const mentsu of pattern.mentsu) {
+    const type = getGroupType(mentsu);
+    if (type === 'shuntsu') {
+      if (!isTerminalSequence(mentsu)) {
+        return false;
       }
-
-      if (mentsu.some(tile => isHonorTile(tile))) {
-        hasHonor = true;
+    } else {
+      if (!mentsu.every(tile => tile === mentsu[0])) {
+        return false;
+      }
+      if (!isTerminalOrHonor(mentsu[0])) {
+        return false;
       }
     }
 
-    return hasHonor;
-  });
+    if (mentsu.some(tile => isHonorTile(tile))) {
+      hasHonor = true;
+    }
+  }
+
+  return hasHonor;
 }
 
-function isJunchan(hand: Tile[], melds?: Meld[]): boolean {
-  const patterns = getCompleteMentsuPatterns(hand, melds);
-  return patterns.some(pattern => {
-    if (!isTerminal(pattern.jantou)) {
-      return false;
-    }
+function isJunchan(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  if (!isTerminal(pattern.jantou)) {
+    return false;
+  }
 
-    for (const mentsu of pattern.mentsu) {
-      const type = getGroupType(mentsu);
-      if (type === 'shuntsu') {
-        if (!isTerminalSequence(mentsu)) {
-          return false;
-        }
-        if (mentsu.some(tile => isHonorTile(tile))) {
-          return false;
-        }
-      } else {
-        if (!mentsu.every(tile => tile === mentsu[0])) {
-          return false;
-        }
-        if (!isTerminal(mentsu[0]) || isHonorTile(mentsu[0])) {
-          return false;
-        }
+  for (const mentsu of pattern.mentsu) {
+    const type = getGroupType(mentsu);
+    if (type === 'shuntsu') {
+      if (!isTerminalSequence(mentsu)) {
+        return false;
+      }
+      if (mentsu.some(tile => isHonorTile(tile))) {
+        return false;
+      }
+    } else {
+      if (!mentsu.every(tile => tile === mentsu[0])) {
+        return false;
+      }
+      if (!isTerminal(mentsu[0]) || isHonorTile(mentsu[0])) {
+        return false;
       }
     }
+  }
 
-    return true;
-  });
+  return true;
 }
 
-function isSanshokuDoukou(hand: Tile[], melds?: Meld[]): boolean {
-  const allTiles = getAllTiles(hand, melds);
-  const counts = countTiles(allTiles);
+function isSanshokuDoukou(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  const triplets = new Set(
+    pattern.mentsu.filter(mentsu => getGroupType(mentsu) === 'koutsu').map(mentsu => mentsu[0])
+  );
   for (let i = 1; i <= 9; i++) {
-    const man = `${i}m`;
-    const pin = `${i}p`;
-    const sou = `${i}s`;
-    if ((counts[man] || 0) >= 3 && (counts[pin] || 0) >= 3 && (counts[sou] || 0) >= 3) {
+    if (triplets.has(`${i}m`) && triplets.has(`${i}p`) && triplets.has(`${i}s`)) {
       return true;
     }
   }
   return false;
 }
-
-function detectYakuhai(hand: Tile[], bakaze: string, jikaze: string, melds?: Meld[]): Yaku[] {
-  const yaku: Yaku[] = [];
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // 鳴きの牌も含める
-  melds?.forEach(meld => {
-    meld.tiles.forEach(tile => {
-      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-    });
-  });
-
-  // 三元牌
-  if (tileCounts['白'] >= 3) yaku.push({ name: '白', han: 1 });
-  if (tileCounts['發'] >= 3) yaku.push({ name: '發', han: 1 });
-  if (tileCounts['中'] >= 3) yaku.push({ name: '中', han: 1 });
-
-  // 場風と自風
-  const bakazeMap: Record<string, string> = { ton: '東', nan: '南', sha: '西', pei: '北' };
-  const jikazeMap: Record<string, string> = { ton: '東', nan: '南', sha: '西', pei: '北' };
-  const bakazeTile = bakazeMap[bakaze];
-  const jikazeTile = jikazeMap[jikaze];
-
-  // 場風と自風が同じ場合は2翻
-  if (bakazeTile === jikazeTile && tileCounts[bakazeTile] >= 3) {
-    yaku.push({ name: `場風・自風 ${bakazeTile}`, han: 2 });
-  } else {
-    // 別々の場合は個別に判定
-    if (tileCounts[bakazeTile] >= 3) {
-      yaku.push({ name: `場風 ${bakazeTile}`, han: 1 });
-    }
-    if (tileCounts[jikazeTile] >= 3) {
-      yaku.push({ name: `自風 ${jikazeTile}`, han: 1 });
-    }
-  }
-
-  return yaku;
-}
-
-function isToitoihou(hand: Tile[], melds?: Meld[]): boolean {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  let koutsu = 0;
-  for (let tile in tileCounts) {
-    if (tileCounts[tile] >= 3) koutsu++;
-  }
-
-  // 鳴きの刻子もカウント
-  melds?.forEach(meld => {
-    if (meld.type === 'pon' || meld.type === 'minkan' || meld.type === 'ankan') {
-      koutsu++;
-    }
-  });
-
-  return koutsu >= 4;
-}
-
+
+function isToitoihou(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  return pattern.mentsu.every(mentsu => getGroupType(mentsu) === 'koutsu');
+}
+
+/**
+ * ロンでシャンポン待ちの刻子が完成した場合、その刻子は明刻扱い
+ */
+function isConcealedTriplet(
+  group: Tile[],
+  interpretation: HandInterpretation,
+  winningTile: Tile,
+  isTsumo: boolean
+): boolean {
+  if (isTsumo) return true;
+  return !(interpretation.wait === 'shanpon' && group[0] === winningTile);
+}
+
 function countAnkou(
-  hand: Tile[],
+  interpretation: HandInterpretation | null,
   winningTile: Tile,
   isTsumo: boolean,
   melds?: Meld[]
 ): number {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
+  if (!interpretation || interpretation.form !== 'standard') return 0;
 
-  let ankou = 0;
-  for (let tile in tileCounts) {
-    if (tileCounts[tile] >= 3) ankou++;
-  }
-
-  if (!isTsumo && tileCounts[winningTile] === 3) {
-    ankou -= 1;
-  }
+  let ankou = interpretation.mentsu.filter(group =>
+    getGroupType(group) === 'koutsu' && isConcealedTriplet(group, interpretation, winningTile, isTsumo)
+  ).length;
 
   if (melds) {
     ankou += melds.filter(meld => meld.type === 'ankan').length;
@@ -748,84 +1240,84 @@ function countAnkou(
 
   return Math.min(ankou, 3);
 }
-
-function isHonroutou(hand: Tile[], melds?: Meld[]): boolean {
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  return allTiles.every(tile => {
-    if (tile.length === 1) return true;
-    if (tile.length === 2) {
-      const num = parseInt(tile[0]);
-      return num === 1 || num === 9;
-    }
-    return false;
-  });
-}
-
-function isShouSangen(tileCounts: Record<string, number>): boolean {
-  let sangenCount = 0;
-  let sangenPair = 0;
-  ['白', '發', '中'].forEach(tile => {
-    if (tileCounts[tile] >= 3) sangenCount++;
-    if (tileCounts[tile] === 2) sangenPair++;
-  });
-  return sangenCount === 2 && sangenPair === 1;
-}
-
-function isHonitsu(hand: Tile[], melds?: Meld[]): boolean {
-  const suits = new Set<string>();
-  let hasJihai = false;
-
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  allTiles.forEach(tile => {
-    if (tile.length === 2) {
-      suits.add(tile[1]);
-    } else {
-      hasJihai = true;
-    }
-  });
-
-  return suits.size === 1 && hasJihai;
-}
-
-function isChinitsu(hand: Tile[], melds?: Meld[]): boolean {
-  const suits = new Set<string>();
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  allTiles.forEach(tile => {
-    if (tile.length === 2) {
-      suits.add(tile[1]);
-    }
-  });
-  return suits.size === 1 && allTiles.every(tile => tile.length === 2);
-}
-
-// ========== 役満検出関数 ==========
-
-/**
- * 国士無双（Kokushi Musou）- 13翻
- * 13種類のヤオチュー牌（1,9,字牌）がすべて1枚ずつ+いずれか1枚がダブり
- */
+
+function isHonroutou(hand: Tile[], melds?: Meld[]): boolean {
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  return allTiles.every(tile => {
+    if (tile.length === 1) return true;
+    if (tile.length === 2) {
+      const num = parseInt(tile[0]);
+      return num === 1 || num === 9;
+    }
+    return false;
+  });
+}
+
+function isShouSangen(tileCounts: Record<string, number>): boolean {
+  let sangenCount = 0;
+  let sangenPair = 0;
+  ['白', '發', '中'].forEach(tile => {
+    if (tileCounts[tile] >= 3) sangenCount++;
+    if (tileCounts[tile] === 2) sangenPair++;
+  });
+  return sangenCount === 2 && sangenPair === 1;
+}
+
+function isHonitsu(hand: Tile[], melds?: Meld[]): boolean {
+  const suits = new Set<string>();
+  let hasJihai = false;
+
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  allTiles.forEach(tile => {
+    if (tile.length === 2) {
+      suits.add(tile[1]);
+    } else {
+      hasJihai = true;
+    }
+  });
+
+  return suits.size === 1 && hasJihai;
+}
+
+function isChinitsu(hand: Tile[], melds?: Meld[]): boolean {
+  const suits = new Set<string>();
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  allTiles.forEach(tile => {
+    if (tile.length === 2) {
+      suits.add(tile[1]);
+    }
+  });
+  return suits.size === 1 && allTiles.every(tile => tile.length === 2);
+}
+
+// ========== 役満検出関数 ==========
+
+/**
+ * 国士無双（Kokushi Musou）- 13翻
+ * 13種類のヤオチュー牌（1,9,字牌）がすべて1枚ずつ+いずれか1枚がダブり
+ */
 function isKokushi(hand: Tile[], melds?: Meld[]): boolean {
   // 鳴きがある場合は不可
   if (melds && melds.length > 0) return false;
-
-  const yaochuhai = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'];
-  const tileCounts: Record<string, number> = {};
-
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // すべてのヤオチュー牌が1枚以上あることを確認
-  const hasAllYaochuhai = yaochuhai.every(tile => tileCounts[tile] >= 1);
-  if (!hasAllYaochuhai) return false;
-
-  // ヤオチュー牌以外がないことを確認
+
+  const yaochuhai = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'];
+  const tileCounts: Record<string, number> = {};
+
+  hand.forEach(tile => {
+    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+  });
+
+  // すべてのヤオチュー牌が1枚以上あることを確認
+  const hasAllYaochuhai = yaochuhai.every(tile => tileCounts[tile] >= 1);
+  if (!hasAllYaochuhai) return false;
+
+  // ヤオチュー牌以外がないことを確認
   const hasOnlyYaochuhai = Object.keys(tileCounts).every(tile => yaochuhai.includes(tile));
   return hasOnlyYaochuhai;
 }
@@ -836,135 +1328,133 @@ function isKokushiThirteenWait(hand: Tile[], winningTile: Tile): boolean {
   const duplicateTiles = yaochuhai.filter(tile => (tileCounts[tile] || 0) === 2);
   return duplicateTiles.length === 1 && duplicateTiles[0] === winningTile;
 }
-
-/**
- * 四暗刻（Suu Ankou）- 13翻
- * 4つの暗刻（門前で作った刻子）+ 雀頭
- */
-function isSuuankou(hand: Tile[], winningTile: Tile, isTsumo: boolean, melds?: Meld[]): boolean {
-  // 鳴きがある場合は不可
-  if (melds && melds.length > 0) return false;
-
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // ロンの場合は和了牌を含む刻子はカウントしない（四暗刻単騎のみ可）
-  if (!isTsumo && tileCounts[winningTile] === 3) {
-    return false;
-  }
-
-  // 刻子の数をカウント
-  const koutsuCount = Object.values(tileCounts).filter(count => count >= 3).length;
-  return koutsuCount === 4;
-}
-
-/**
- * 大三元（Daisangen）- 13翻
- * 白、發、中の3種類すべてが刻子
- */
-function isDaisangen(hand: Tile[], melds?: Meld[]): boolean {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // 鳴きの牌も含める
-  melds?.forEach(meld => {
-    meld.tiles.forEach(tile => {
-      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-    });
-  });
-
-  return tileCounts['白'] >= 3 && tileCounts['發'] >= 3 && tileCounts['中'] >= 3;
-}
-
-/**
- * 字一色（Tsuuiisou）- 13翻
- * 字牌のみで構成
- */
-function isTsuuiisou(hand: Tile[], melds?: Meld[]): boolean {
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  return allTiles.every(tile => tile.length === 1);
-}
-
-/**
- * 緑一色（Ryuuiisou）- 13翻
- * 2,3,4,6,8索と發のみで構成
- */
-function isRyuuiisou(hand: Tile[], melds?: Meld[]): boolean {
-  const greenTiles = ['2s', '3s', '4s', '6s', '8s', '發'];
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  return allTiles.every(tile => greenTiles.includes(tile));
-}
-
-/**
- * 清老頭（Chinroutou）- 13翻
- * 1と9のみで構成
- */
-function isChinroutou(hand: Tile[], melds?: Meld[]): boolean {
-  const allTiles = [...hand];
-  melds?.forEach(meld => allTiles.push(...meld.tiles));
-
-  return allTiles.every(tile => {
-    if (tile.length === 2) {
-      const num = parseInt(tile[0]);
-      return num === 1 || num === 9;
-    }
-    return false;
-  });
-}
-
-/**
- * 九蓮宝燈（Chuuren Poutou）- 13翻
- * 門前で1つの色、1112345678999の形+同色の任意の1枚
- */
+
+/**
+ * 四暗刻（Suu Ankou）- 13翻
+ * 4つの暗刻（門前で作った刻子）+ 雀頭
+ */
+function isSuuankou(
+  interpretation: HandInterpretation | null,
+  winningTile: Tile,
+  isTsumo: boolean,
+  melds?: Meld[]
+): boolean {
+  if (!interpretation || interpretation.form !== 'standard') return false;
+
+  // 暗槓以外の鳴きがある場合は不可
+  if (melds && melds.some(meld => meld.type !== 'ankan')) return false;
+
+  // ロンの場合は和了牌を含む刻子はカウントしない（四暗刻単騎のみ可）
+  return interpretation.mentsu.every(group =>
+    getGroupType(group) === 'koutsu' && isConcealedTriplet(group, interpretation, winningTile, isTsumo)
+  );
+}
+
+/**
+ * 大三元（Daisangen）- 13翻
+ * 白、發、中の3種類すべてが刻子
+ */
+function isDaisangen(hand: Tile[], melds?: Meld[]): boolean {
+  const tileCounts: Record<string, number> = {};
+  hand.forEach(tile => {
+    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+  });
+
+  // 鳴きの牌も含める
+  melds?.forEach(meld => {
+    meld.tiles.forEach(tile => {
+      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+    });
+  });
+
+  return tileCounts['白'] >= 3 && tileCounts['發'] >= 3 && tileCounts['中'] >= 3;
+}
+
+/**
+ * 字一色（Tsuuiisou）- 13翻
+ * 字牌のみで構成
+ */
+function isTsuuiisou(hand: Tile[], melds?: Meld[]): boolean {
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  return allTiles.every(tile => tile.length === 1);
+}
+
+/**
+ * 緑一色（Ryuuiisou）- 13翻
+ * 2,3,4,6,8索と發のみで構成
+ */
+function isRyuuiisou(hand: Tile[], melds?: Meld[]): boolean {
+  const greenTiles = ['2s', '3s', '4s', '6s', '8s', '發'];
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  return allTiles.every(tile => greenTiles.includes(tile));
+}
+
+/**
+ * 清老頭（Chinroutou）- 13翻
+ * 1と9のみで構成
+ */
+function isChinroutou(hand: Tile[], melds?: Meld[]): boolean {
+  const allTiles = [...hand];
+  melds?.forEach(meld => allTiles.push(...meld.tiles));
+
+  return allTiles.every(tile => {
+    if (tile.length === 2) {
+      const num = parseInt(tile[0]);
+      return num === 1 || num === 9;
+    }
+    return false;
+  });
+}
+
+/**
+ * 九蓮宝燈（Chuuren Poutou）- 13翻
+ * 門前で1つの色、1112345678999の形+同色の任意の1枚
+ */
 function isChuurenPoutou(hand: Tile[], melds?: Meld[]): boolean {
   // 鳴きがある場合は不可
   if (melds && melds.length > 0) return false;
-
-  // 清一色であることを確認
-  if (!isChinitsu(hand, melds)) return false;
-
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // 使用されている色を取得
-  const suit = hand[0][1];
-
-  // 1112345678999の形をチェック
-  const expectedPattern: Record<string, number> = {
-    [`1${suit}`]: 3,
-    [`2${suit}`]: 1,
-    [`3${suit}`]: 1,
-    [`4${suit}`]: 1,
-    [`5${suit}`]: 1,
-    [`6${suit}`]: 1,
-    [`7${suit}`]: 1,
-    [`8${suit}`]: 1,
-    [`9${suit}`]: 3
-  };
-
-  // 1つの牌だけが+1枚になっているかチェック
-  let extraCount = 0;
-  for (let i = 1; i <= 9; i++) {
-    const tile = `${i}${suit}`;
-    const expected = expectedPattern[tile];
-    const actual = tileCounts[tile] || 0;
-
-    if (actual < expected) return false;
-    if (actual > expected) {
-      extraCount += actual - expected;
-    }
-  }
-
+
+  // 清一色であることを確認
+  if (!isChinitsu(hand, melds)) return false;
+
+  const tileCounts: Record<string, number> = {};
+  hand.forEach(tile => {
+    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+  });
+
+  // 使用されている色を取得
+  const suit = hand[0][1];
+
+  // 1112345678999の形をチェック
+  const expectedPattern: Record<string, number> = {
+    [`1${suit}`]: 3,
+    [`2${suit}`]: 1,
+    [`3${suit}`]: 1,
+    [`4${suit}`]: 1,
+    [`5${suit}`]: 1,
+    [`6${suit}`]: 1,
+    [`7${suit}`]: 1,
+    [`8${suit}`]: 1,
+    [`9${suit}`]: 3
+  };
+
+  // 1つの牌だけが+1枚になっているかチェック
+  let extraCount = 0;
+  for (let i = 1; i <= 9; i++) {
+    const tile = `${i}${suit}`;
+    const expected = expectedPattern[tile];
+    const actual = tileCounts[tile] || 0;
+
+    if (actual < expected) return false;
+    if (actual > expected) {
+      extraCount += actual - expected;
+    }
+  }
+
   return extraCount === 1;
 }
 
@@ -984,665 +1474,1519 @@ function isPureChuuren(hand: Tile[], winningTile: Tile, melds?: Meld[]): boolean
   }
   return true;
 }
-
-/**
- * 小四喜（Shousuushii）- 13翻
- * 4種の風牌のうち3つが刻子、1つが雀頭
- */
-function isShousuushii(hand: Tile[], melds?: Meld[]): boolean {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // 鳴きの牌も含める
-  melds?.forEach(meld => {
-    meld.tiles.forEach(tile => {
-      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-    });
-  });
-
-  const winds = ['東', '南', '西', '北'];
-  let koutsuCount = 0;
-  let pairCount = 0;
-
-  winds.forEach(wind => {
-    if (tileCounts[wind] >= 3) koutsuCount++;
-    if (tileCounts[wind] === 2) pairCount++;
-  });
-
-  return koutsuCount === 3 && pairCount === 1;
-}
-
-/**
- * 大四喜（Daisuushii）- 26翻（ダブル役満）
- * 4種の風牌すべてが刻子
- */
-function isDaisuushii(hand: Tile[], melds?: Meld[]): boolean {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  // 鳴きの牌も含める
-  melds?.forEach(meld => {
-    meld.tiles.forEach(tile => {
-      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-    });
-  });
-
-  const winds = ['東', '南', '西', '北'];
-  return winds.every(wind => tileCounts[wind] >= 3);
-}
-
-export function detectYaku(hand: Tile[], winningTile: Tile, options: AgariOptions): Yaku[] {
-  const yaku: Yaku[] = [];
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  const melds = options.melds || [];
-  const hasAnyMelds = melds.length > 0;
-  const hasOpenMelds = melds.some(meld => meld.type !== 'ankan');
-  const isMenzenHand = options.isMenzen && !hasOpenMelds;
-
-  // ========== 役満チェック（優先） ==========
-
-  // 天和（親の配牌時和了）- 13翻
-  if (options.isTenhou) {
-    yaku.push({ name: '天和', han: 13 });
-    return yaku;
-  }
-
-  // 地和（子の第一ツモ和了）- 13翻
-  if (options.isChiihou) {
-    yaku.push({ name: '地和', han: 13 });
-    return yaku;
-  }
-
-  // 大四喜（ダブル役満）- 26翻
-  if (isDaisuushii(hand, melds)) {
-    yaku.push({ name: '大四喜', han: 26 });
-    return yaku;
-  }
-
-  // 四槓子（ダブル役満）
-  if (isSuukantsu(melds)) {
-    yaku.push({ name: '四槓子', han: 26 });
-    return yaku;
-  }
-
-  // 国士無双 - 13翻
-  if (isKokushi(hand, melds)) {
-    if (isKokushiThirteenWait(hand, winningTile)) {
-      yaku.push({ name: '国士無双十三面待ち', han: 26 });
-    } else {
-      yaku.push({ name: '国士無双', han: 13 });
-    }
-    return yaku;
-  }
 
-  // 四暗刻 - 13翻
-  if (isSuuankou(hand, winningTile, options.isTsumo, melds)) {
-    if (detectWaitPattern(hand, winningTile) === 'tanki') {
-      yaku.push({ name: '四暗刻単騎', han: 26 });
-    } else {
-      yaku.push({ name: '四暗刻', han: 13 });
-    }
-    return yaku;
-  }
-
-  // 大三元 - 13翻
-  if (isDaisangen(hand, melds)) {
-    yaku.push({ name: '大三元', han: 13 });
-    return yaku;
-  }
-
-  // 字一色 - 13翻
-  if (isTsuuiisou(hand, melds)) {
-    yaku.push({ name: '字一色', han: 13 });
-    return yaku;
-  }
-
-  // 緑一色 - 13翻
-  if (isRyuuiisou(hand, melds)) {
-    yaku.push({ name: '緑一色', han: 13 });
-    return yaku;
-  }
-
-  // 清老頭 - 13翻
-  if (isChinroutou(hand, melds)) {
-    yaku.push({ name: '清老頭', han: 13 });
-    return yaku;
-  }
-
-  // 九蓮宝燈 - 13翻
-  if (isChuurenPoutou(hand, melds)) {
-    if (isPureChuuren(hand, winningTile, melds)) {
-      yaku.push({ name: '純正九蓮宝燈', han: 26 });
-    } else {
-      yaku.push({ name: '九蓮宝燈', han: 13 });
+/**
+ * 小四喜（Shousuushii）- 13翻
+ * 4種の風牌のうち3つが刻子、1つが雀頭
+ */
+function isShousuushii(hand: Tile[], melds?: Meld[]): boolean {
+  const tileCounts: Record<string, number> = {};
+  hand.forEach(tile => {
+    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+  });
+
+  // 鳴きの牌も含める
+  melds?.forEach(meld => {
+    meld.tiles.forEach(tile => {
+      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+    });
+  });
+
+  const winds = ['東', '南', '西', '北'];
+  let koutsuCount = 0;
+  let pairCount = 0;
+
+  winds.forEach(wind => {
+    if (tileCounts[wind] >= 3) koutsuCount++;
+    if (tileCounts[wind] === 2) pairCount++;
+  });
+
+  return koutsuCount === 3 && pairCount === 1;
+}
+
+/**
+ * 大四喜（Daisuushii）- 26翻（ダブル役満）
+ * 4種の風牌すべてが刻子
+ */
+function isDaisuushii(hand: Tile[], melds?: Meld[]): boolean {
+  const tileCounts: Record<string, number> = {};
+  hand.forEach(tile => {
+    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+  });
+
+  // 鳴きの牌も含める
+  melds?.forEach(meld => {
+    meld.tiles.forEach(tile => {
+      tileCounts[tile] = (tileCounts[tile] || 0) + 1;
+    });
+  });
+
+  const winds = ['東', '南', '西', '北'];
+  return winds.every(wind => tileCounts[wind] >= 3);
+}
+
+// ========== 役の定義 ==========
+
+/**
+ * 役の判定に渡す和了の情報（hand は和了牌を含む門前部分）
+ */
+export interface YakuContext {
+  hand: Tile[];
+  winningTile: Tile;
+  options: AgariOptions;
+  rules: RuleSet;
+  melds: Meld[];
+  isMenzen: boolean;
+  interpretation: HandInterpretation | null;
+  pattern: MentsuPattern | null;
+}
+
+/**
+ * 役の定義
+ * - han: 門前時の翻数（役満は倍数。2 はダブル役満）
+ * - openHan: 鳴いた場合の翻数（省略時は han のまま）
+ * - supersedes: 成立したときに打ち消す下位役の id
+ * - nameEn: 英語表示での役名（ローマ字）
+ * - label: 表示名が和了内容によって変わる場合（役牌の風など）。name は表示言語の役名
+ */
+export interface YakuDefinition {
+  id: string;
+  name: string;
+  nameEn: string;
+  han: number;
+  openHan?: number;
+  yakuman?: boolean;
+  menzenOnly?: boolean;
+  supersedes?: string[];
+  label?: (context: YakuContext, name: string) => string;
+  detect: (context: YakuContext) => boolean;
+}
+
+const countAllTiles = (context: YakuContext) => countTiles(getAllTiles(context.hand, context.melds));
+
+const getWindTiles = (context: YakuContext) => ({
+  bakazeTile: BAKAZE_MAP[context.options.bakaze],
+  jikazeTile: JIKAZE_MAP[context.options.jikaze]
+});
+
+// 風の役は役名の後に牌を付ける（場風 東 など）
+const withWindTile = (context: YakuContext, name: string, tile: Tile) =>
+  `${name} ${formatTileName(tile, context.options.locale)}`;
+
+const YAKU_REGISTRY: YakuDefinition[] = [
+  // ========== 役満 ==========
+  { id: 'tenhou', name: '天和', nameEn: 'Tenhou', han: 1, yakuman: true, detect: ({ options }) => Boolean(options.isTenhou) },
+  { id: 'chiihou', name: '地和', nameEn: 'Chiihou', han: 1, yakuman: true, detect: ({ options }) => Boolean(options.isChiihou) },
+  {
+    id: 'daisuushii',
+    name: '大四喜',
+    nameEn: 'Daisuushii',
+    han: 2,
+    yakuman: true,
+    detect: ({ hand, melds }) => isDaisuushii(hand, melds)
+  },
+  {
+    id: 'suukantsu',
+    name: '四槓子',
+    nameEn: 'Suukantsu',
+    han: 2,
+    yakuman: true,
+    detect: ({ melds }) => isSuukantsu(melds)
+  },
+  {
+    id: 'kokushiJuusanmen',
+    name: '国士無双十三面待ち',
+    nameEn: 'Kokushi Musou Juusanmen Machi',
+    han: 2,
+    yakuman: true,
+    supersedes: ['kokushi'],
+    detect: ({ hand, winningTile, interpretation }) =>
+      interpretation?.form === 'kokushi' && isKokushiThirteenWait(hand, winningTile)
+  },
+  {
+    id: 'kokushi',
+    name: '国士無双',
+    nameEn: 'Kokushi Musou',
+    han: 1,
+    yakuman: true,
+    detect: ({ interpretation }) => interpretation?.form === 'kokushi'
+  },
+  {
+    id: 'suuankouTanki',
+    name: '四暗刻単騎',
+    nameEn: 'Suuankou Tanki',
+    han: 2,
+    yakuman: true,
+    supersedes: ['suuankou'],
+    detect: ({ interpretation, winningTile, options, melds }) =>
+      interpretation?.wait === 'tanki' && isSuuankou(interpretation, winningTile, options.isTsumo, melds)
+  },
+  {
+    id: 'suuankou',
+    name: '四暗刻',
+    nameEn: 'Suuankou',
+    han: 1,
+    yakuman: true,
+    detect: ({ interpretation, winningTile, options, melds }) =>
+      isSuuankou(interpretation, winningTile, options.isTsumo, melds)
+  },
+  { id: 'daisangen', name: '大三元', nameEn: 'Daisangen', han: 1, yakuman: true, detect: ({ hand, melds }) => isDaisangen(hand, melds) },
+  { id: 'tsuuiisou', name: '字一色', nameEn: 'Tsuuiisou', han: 1, yakuman: true, detect: ({ hand, melds }) => isTsuuiisou(hand, melds) },
+  { id: 'ryuuiisou', name: '緑一色', nameEn: 'Ryuuiisou', han: 1, yakuman: true, detect: ({ hand, melds }) => isRyuuiisou(hand, melds) },
+  { id: 'chinroutou', name: '清老頭', nameEn: 'Chinroutou', han: 1, yakuman: true, detect: ({ hand, melds }) => isChinroutou(hand, melds) },
+  {
+    id: 'junseiChuuren',
+    name: '純正九蓮宝燈',
+    nameEn: 'Junsei Chuuren Poutou',
+    han: 2,
+    yakuman: true,
+    supersedes: ['chuuren'],
+    detect: ({ hand, winningTile, melds }) => isChuurenPoutou(hand, melds) && isPureChuuren(hand, winningTile, melds)
+  },
+  { id: 'chuuren', name: '九蓮宝燈', nameEn: 'Chuuren Poutou', han: 1, yakuman: true, detect: ({ hand, melds }) => isChuurenPoutou(hand, melds) },
+  { id: 'shousuushii', name: '小四喜', nameEn: 'Shousuushii', han: 1, yakuman: true, detect: ({ hand, melds }) => isShousuushii(hand, melds) },
+
+  // ========== 通常役 ==========
+  {
+    id: 'doubleRiichi',
+    name: 'ダブルリーチ',
+    nameEn: 'Double Riichi',
+    han: 2,
+    menzenOnly: true,
+    supersedes: ['riichi'],
+    detect: ({ options }) => Boolean(options.isDoubleRiichi)
+  },
+  { id: 'riichi', name: 'リーチ', nameEn: 'Riichi', han: 1, menzenOnly: true, detect: ({ options }) => options.isRiichi },
+  {
+    id: 'ippatsu',
+    name: '一発',
+    nameEn: 'Ippatsu',
+    han: 1,
+    menzenOnly: true,
+    detect: ({ options }) => options.isIppatsu && (options.isRiichi || Boolean(options.isDoubleRiichi))
+  },
+  { id: 'menzenTsumo', name: '門前清自摸和', nameEn: 'Menzen Tsumo', han: 1, menzenOnly: true, detect: ({ options }) => options.isTsumo },
+  { id: 'haitei', name: '海底摸月', nameEn: 'Haitei Raoyue', han: 1, detect: ({ options }) => Boolean(options.isHaitei) && options.isTsumo },
+  { id: 'houtei', name: '河底撈魚', nameEn: 'Houtei Raoyui', han: 1, detect: ({ options }) => Boolean(options.isHoutei) && !options.isTsumo },
+  { id: 'rinshan', name: '嶺上開花', nameEn: 'Rinshan Kaihou', han: 1, detect: ({ options }) => Boolean(options.isRinshan) && options.isTsumo },
+  { id: 'chankan', name: '槍槓', nameEn: 'Chankan', han: 1, detect: ({ options }) => Boolean(options.isChankan) && !options.isTsumo },
+  { id: 'nagashiMangan', name: '流し満貫', nameEn: 'Nagashi Mangan', han: 5, detect: ({ options }) => Boolean(options.isNagashiMangan) },
+  {
+    id: 'tanyao',
+    name: '断么九',
+    nameEn: 'Tanyao',
+    han: 1,
+    // 喰いタンなしのルールでは門前のみ
+    detect: ({ hand, melds, isMenzen, rules }) => isTanyao(hand, melds) && (isMenzen || rules.kuitan)
+  },
+  {
+    id: 'pinfu',
+    name: '平和',
+    nameEn: 'Pinfu',
+    han: 1,
+    menzenOnly: true,
+    detect: ({ pattern, interpretation, isMenzen, options }) =>
+      isPinfu(pattern, interpretation?.wait, isMenzen, options.bakaze, options.jikaze)
+  },
+  {
+    id: 'ryanpeikou',
+    name: '二盃口',
+    nameEn: 'Ryanpeikou',
+    han: 3,
+    menzenOnly: true,
+    supersedes: ['iipeikou'],
+    detect: ({ pattern, isMenzen }) => isRyanpeikou(pattern, isMenzen)
+  },
+  { id: 'iipeikou', name: '一盃口', nameEn: 'Iipeikou', han: 1, menzenOnly: true, detect: ({ pattern, isMenzen }) => isIipeikou(pattern, isMenzen) },
+  { id: 'ittsuu', name: '一気通貫', nameEn: 'Ittsuu', han: 2, openHan: 1, detect: ({ pattern }) => isIttsuu(pattern) },
+  { id: 'sanshokuDoujun', name: '三色同順', nameEn: 'Sanshoku Doujun', han: 2, openHan: 1, detect: ({ pattern }) => isSanshokuDoujun(pattern) },
+  { id: 'haku', name: '白', nameEn: 'Haku', han: 1, detect: context => countAllTiles(context)['白'] >= 3 },
+  { id: 'hatsu', name: '發', nameEn: 'Hatsu', han: 1, detect: context => countAllTiles(context)['發'] >= 3 },
+  { id: 'chun', name: '中', nameEn: 'Chun', han: 1, detect: context => countAllTiles(context)['中'] >= 3 },
+  {
+    id: 'doubleWind',
+    name: '場風・自風',
+    nameEn: 'Double Wind',
+    han: 2,
+    supersedes: ['bakaze', 'jikaze'],
+    label: (context, name) => withWindTile(context, name, getWindTiles(context).bakazeTile),
+    detect: context => {
+      const { bakazeTile, jikazeTile } = getWindTiles(context);
+      return bakazeTile === jikazeTile && countAllTiles(context)[bakazeTile] >= 3;
     }
-    return yaku;
-  }
-
-  // 小四喜 - 13翻
-  if (isShousuushii(hand, melds)) {
-    yaku.push({ name: '小四喜', han: 13 });
-    return yaku;
-  }
-
-  // ========== 通常役のチェック ==========
-
-  // リーチ（門前のみ）
-  let riichiApplied = false;
-  if (options.isDoubleRiichi && isMenzenHand) {
-    yaku.push({ name: 'ダブルリーチ', han: 2 });
-    riichiApplied = true;
-  } else if (options.isRiichi && isMenzenHand) {
-    yaku.push({ name: 'リーチ', han: 1 });
-    riichiApplied = true;
-  }
-  if (options.isIppatsu && riichiApplied) {
-    yaku.push({ name: '一発', han: 1 });
+  },
+  {
+    id: 'bakaze',
+    name: '場風',
+    nameEn: 'Bakaze',
+    han: 1,
+    label: (context, name) => withWindTile(context, name, getWindTiles(context).bakazeTile),
+    detect: context => countAllTiles(context)[getWindTiles(context).bakazeTile] >= 3
+  },
+  {
+    id: 'jikaze',
+    name: '自風',
+    nameEn: 'Jikaze',
+    han: 1,
+    label: (context, name) => withWindTile(context, name, getWindTiles(context).jikazeTile),
+    detect: context => countAllTiles(context)[getWindTiles(context).jikazeTile] >= 3
+  },
+  { id: 'chiitoitsu', name: '七対子', nameEn: 'Chiitoitsu', han: 2, menzenOnly: true, detect: ({ interpretation }) => interpretation?.form === 'chiitoitsu' },
+  { id: 'toitoi', name: '対々和', nameEn: 'Toitoi', han: 2, detect: ({ pattern }) => isToitoihou(pattern) },
+  {
+    id: 'sanankou',
+    name: '三暗刻',
+    nameEn: 'San Ankou',
+    han: 2,
+    detect: ({ interpretation, winningTile, options, melds }) =>
+      countAnkou(interpretation, winningTile, options.isTsumo, melds) === 3
+  },
+  { id: 'sankantsu', name: '三槓子', nameEn: 'Sankantsu', han: 2, detect: ({ melds }) => isSanKantsu(melds) },
+  { id: 'sanshokuDoukou', name: '三色同刻', nameEn: 'Sanshoku Doukou', han: 2, detect: ({ pattern }) => isSanshokuDoukou(pattern) },
+  { id: 'honroutou', name: '混老頭', nameEn: 'Honroutou', han: 2, detect: ({ hand, melds }) => isHonroutou(hand, melds) },
+  { id: 'shousangen', name: '小三元', nameEn: 'Shousangen', han: 2, detect: context => isShouSangen(countAllTiles(context)) },
+  {
+    id: 'junchan',
+    name: '純全帯么九',
+    nameEn: 'Junchan',
+    han: 3,
+    openHan: 2,
+    supersedes: ['chanta'],
+    detect: ({ pattern }) => isJunchan(pattern)
+  },
+  { id: 'chanta', name: '混全帯么九', nameEn: 'Chanta', han: 2, openHan: 1, detect: ({ pattern }) => isChanta(pattern) },
+  { id: 'honitsu', name: '混一色', nameEn: 'Honitsu', han: 3, openHan: 2, detect: ({ hand, melds }) => isHonitsu(hand, melds) },
+  {
+    id: 'chinitsu',
+    name: '清一色',
+    nameEn: 'Chinitsu',
+    han: 6,
+    openHan: 5,
+    supersedes: ['honitsu'],
+    detect: ({ hand, melds }) => isChinitsu(hand, melds)
   }
+];
 
-  // ツモ（門前のみ）
-  if (options.isTsumo && isMenzenHand) {
-    yaku.push({ name: '門前清自摸和', han: 1 });
-  }
+/**
+ * 登録されている役の一覧（表示用）
+ */
+export function getYakuDefinitions(): readonly YakuDefinition[] {
+  return YAKU_REGISTRY;
+}
 
-  if (options.isHaitei && options.isTsumo) {
-    yaku.push({ name: '海底摸月', han: 1 });
+/**
+ * 役を追加登録する（id が重複する場合はエラー）
+ */
+export function registerYaku(definition: YakuDefinition): void {
+  if (YAKU_REGISTRY.some(item => item.id === definition.id)) {
+    throw new Error(`役 ${definition.id} は既に登録されています`);
   }
+  YAKU_REGISTRY.push(definition);
+}
 
-  if (options.isHoutei && !options.isTsumo) {
-    yaku.push({ name: '河底撈魚', han: 1 });
+/**
+ * 定義と和了状況から翻数を求める（鳴きなら openHan、役満は13翻単位）
+ */
+function getDefinitionHan(definition: YakuDefinition, context: YakuContext): number {
+  if (definition.yakuman) {
+    const multiplier = context.rules.doubleYakuman ? definition.han : Math.min(definition.han, 1);
+    return multiplier * 13;
   }
+  return context.isMenzen ? definition.han : (definition.openHan ?? definition.han);
+}
 
-  if (options.isRinshan && options.isTsumo) {
-    yaku.push({ name: '嶺上開花', han: 1 });
-  }
+/**
+ * 成立する役の定義を返す（上位役に打ち消される役は除く）
+ */
+function matchYakuDefinitions(definitions: readonly YakuDefinition[], context: YakuContext): YakuDefinition[] {
+  const matched = definitions.filter(definition =>
+    (!definition.menzenOnly || context.isMenzen) && definition.detect(context)
+  );
+  const superseded = new Set(matched.flatMap(definition => definition.supersedes ?? []));
+  return matched.filter(definition => !superseded.has(definition.id));
+}
 
-  if (options.isChankan && !options.isTsumo) {
-    yaku.push({ name: '槍槓', han: 1 });
-  }
+const toYaku = (definition: YakuDefinition, context: YakuContext): Yaku => {
+  const name = localizeName(definition, context.options.locale ?? DEFAULT_LOCALE);
+  return {
+    name: definition.label ? definition.label(context, name) : name,
+    han: getDefinitionHan(definition, context)
+  };
+};
 
-  if (options.isNagashiMangan) {
-    yaku.push({ name: '流し満貫', han: 5 });
-  }
-
-  // 断么九（タンヤオ）
-  if (isTanyao(hand, melds)) {
-    yaku.push({ name: '断么九', han: 1 });
-  }
-
-  // 平和（ピンフ）- 門前のみ
-  if (isMenzenHand && isPinfu(hand, winningTile, isMenzenHand, options.bakaze, options.jikaze)) {
-    yaku.push({ name: '平和', han: 1 });
+// ========== ローカル役 ==========
+
+export const LOCAL_YAKU_DEFINITIONS: LocalYakuDefinition[] = [
+  {
+    id: 'renhou',
+    name: '人和',
+    nameEn: 'Renhou',
+    defaultHan: 13,
+    description: '子が第一ツモ前にロン和了',
+    descriptionEn: 'Non-dealer ron before their first draw'
+  },
+  {
+    id: 'daisharin',
+    name: '大車輪',
+    nameEn: 'Daisharin',
+    defaultHan: 13,
+    description: '2p〜8pの七対子',
+    descriptionEn: 'Seven pairs of 2p to 8p'
+  },
+  {
+    id: 'shiisanPuutaa',
+    name: '十三不塔',
+    nameEn: 'Shiisan Puutaa',
+    defaultHan: 13,
+    description: '第一ツモで面子・搭子がなく対子が1つだけ',
+    descriptionEn: 'First draw with no sets or partial sets and exactly one pair'
+  },
+  {
+    id: 'paarenchan',
+    name: '八連荘',
+    nameEn: 'Paarenchan',
+    defaultHan: 13,
+    description: '親の8連続和了',
+    descriptionEn: 'Eighth consecutive win as dealer'
+  },
+  {
+    id: 'ishiNoUeNiMoSannen',
+    name: '石の上にも三年',
+    nameEn: 'Ishi no Ue ni mo Sannen',
+    defaultHan: 13,
+    description: 'ダブルリーチで海底・河底和了',
+    descriptionEn: 'Double riichi won on the last tile'
+  },
+  {
+    id: 'tsubameGaeshi',
+    name: '燕返し',
+    nameEn: 'Tsubame Gaeshi',
+    defaultHan: 1,
+    description: 'リーチ宣言牌でロン和了',
+    descriptionEn: 'Ron on the riichi declaration tile'
+  },
+  {
+    id: 'openRiichi',
+    name: 'オープン立直',
+    nameEn: 'Open Riichi',
+    defaultHan: 1,
+    description: '手牌を公開してリーチ（リーチに加算）',
+    descriptionEn: 'Riichi with the hand revealed (added to riichi)'
+  },
+  {
+    id: 'sanrenkou',
+    name: '三連刻',
+    nameEn: 'Sanrenkou',
+    defaultHan: 2,
+    description: '同じ色で数字が連続する3つの刻子',
+    descriptionEn: 'Three consecutive triplets in one suit'
   }
+];
+
+const LOCAL_YAKU_PREDICATES: Record<LocalYakuId, (context: YakuContext) => boolean> = {
+  renhou: ({ options, isMenzen }) => Boolean(options.isRenhou) && !options.isOya && !options.isTsumo && isMenzen,
+  daisharin: ({ hand, isMenzen }) => isMenzen && isDaisharin(hand),
+  shiisanPuutaa: ({ hand, options, melds }) =>
+    Boolean(options.isFirstDraw) && options.isTsumo && melds.length === 0 && isShiisanPuutaaShape(hand),
+  paarenchan: ({ options }) => options.isOya && (options.dealerWinStreak ?? 0) >= 8,
+  ishiNoUeNiMoSannen: ({ options, isMenzen }) =>
+    isMenzen && Boolean(options.isDoubleRiichi)
+    && ((Boolean(options.isHaitei) && options.isTsumo) || (Boolean(options.isHoutei) && !options.isTsumo)),
+  tsubameGaeshi: ({ options }) => Boolean(options.isTsubameGaeshi) && !options.isTsumo,
+  openRiichi: ({ options, isMenzen }) =>
+    isMenzen && Boolean(options.isOpenRiichi) && (options.isRiichi || Boolean(options.isDoubleRiichi)),
+  sanrenkou: ({ pattern }) => isSanrenkou(pattern)
+};
 
-  // 二盃口（門前のみ）
-  if (isMenzenHand && isRyanpeikou(hand, isMenzenHand)) {
-    yaku.push({ name: '二盃口', han: 3 });
-  } else if (isMenzenHand && isIipeikou(hand, isMenzenHand)) {
-    yaku.push({ name: '一盃口', han: 1 });
-  }
+function isDaisharin(hand: Tile[]): boolean {
+  if (hand.length !== 14) return false;
+  const counts = countTiles(hand);
+  return [2, 3, 4, 5, 6, 7, 8].every(num => counts[`${num}p`] === 2);
+}
 
-  // 一気通貫
-  if (isIttsuu(hand, melds)) {
-    yaku.push({ name: '一気通貫', han: hasOpenMelds ? 1 : 2 });
+/**
+ * 十三不塔の形か（対子1つのみで、ほかに刻子・順子・搭子になる組み合わせがない）
+ */
+function isShiisanPuutaaShape(hand: Tile[]): boolean {
+  if (hand.length !== 14) return false;
+  const counts = countTiles(hand);
+  const values = Object.values(counts);
+  if (values.some(count => count > 2) || values.filter(count => count === 2).length !== 1) {
+    return false;
   }
+  const suitedKinds = Object.keys(counts).filter(tile => !isHonorTile(tile));
+  return suitedKinds.every(tile => {
+    const [num, suit] = parseTile(tile);
+    if (num === null || suit === null) return true;
+    return !counts[`${num + 1}${suit}`] && !counts[`${num + 2}${suit}`];
+  });
+}
 
-  // 三色同順
-  if (isSanshokuDoujun(hand, melds)) {
-    yaku.push({ name: '三色同順', han: hasOpenMelds ? 1 : 2 });
-  }
+function isSanrenkou(pattern: MentsuPattern | null): boolean {
+  if (!pattern) return false;
+  const triplets = new Set(
+    pattern.mentsu
+      .filter(mentsu => getGroupType(mentsu) === 'koutsu' && !isHonorTile(mentsu[0]))
+      .map(mentsu => mentsu[0])
+  );
+  return [...triplets].some(tile => {
+    const [num, suit] = parseTile(tile);
+    return num !== null && triplets.has(`${num + 1}${suit}`) && triplets.has(`${num + 2}${suit}`);
+  });
+}
 
-  // 役牌
-  const yakuhai = detectYakuhai(hand, options.bakaze, options.jikaze, melds);
-  yaku.push(...yakuhai);
-
-  // 七対子（鳴きがある場合は不可）
-  if (!hasAnyMelds) {
-    const pairs = Object.values(tileCounts).filter(count => count === 2);
-    if (pairs.length === 7) {
-      yaku.push({ name: '七対子', han: 2 });
+/**
+ * 採用しているローカル役のうち成立するものを返す
+ */
+function detectLocalYaku(context: YakuContext): YakuMatch[] {
+  return LOCAL_YAKU_DEFINITIONS.flatMap(definition => {
+    const setting = context.rules.localYaku[definition.id];
+    if (!setting?.enabled || !LOCAL_YAKU_PREDICATES[definition.id](context)) {
+      return [];
     }
-  }
-
-  // 対々和
-  if (isToitoihou(hand, melds)) {
-    yaku.push({ name: '対々和', han: 2 });
-  }
-
-  // 三暗刻
-  const ankou = countAnkou(hand, winningTile, options.isTsumo, melds);
-  if (ankou === 3) {
-    yaku.push({ name: '三暗刻', han: 2 });
-  }
+    return [{
+      id: definition.id,
+      yaku: { name: localizeName(definition, context.options.locale ?? DEFAULT_LOCALE), han: setting.han },
+      yakuman: setting.han >= 13
+    }];
+  });
+}
 
-  if (isSanKantsu(melds)) {
-    yaku.push({ name: '三槓子', han: 2 });
-  }
+/**
+ * 通常の和了形ではないが、ローカル役（十三不塔）で和了となるか
+ */
+function isIrregularLocalAgari(fullHand: Tile[], options: AgariOptions, rules: RuleSet): boolean {
+  return Boolean(rules.localYaku.shiisanPuutaa?.enabled) && LOCAL_YAKU_PREDICATES.shiisanPuutaa({
+    hand: fullHand,
+    winningTile: fullHand[fullHand.length - 1],
+    options,
+    rules,
+    melds: options.melds || [],
+    isMenzen: options.isMenzen,
+    interpretation: null,
+    pattern: null
+  });
+}
 
-  if (isSanshokuDoukou(hand, melds)) {
-    yaku.push({ name: '三色同刻', han: 2 });
-  }
+/**
+ * 成立した役と定義の id（表示名は言語や役名で変わるため、役の特定には id を使う）
+ * yakuman は役満として数えるか（役の定義の yakuman、ローカル役は13翻以上）
+ */
+interface YakuMatch {
+  id: string;
+  yaku: Yaku;
+  yakuman: boolean;
+}
+
+const toYakuList = (matches: YakuMatch[]) => matches.map(match => match.yaku);
 
-  // 混老頭
-  if (isHonroutou(hand, melds)) {
-    yaku.push({ name: '混老頭', han: 2 });
+function matchInterpretationYaku(
+  hand: Tile[],
+  winningTile: Tile,
+  options: AgariOptions,
+  rules: RuleSet,
+  interpretation: HandInterpretation | null
+): YakuMatch[] {
+  const melds = options.melds || [];
+  const hasOpenMelds = melds.some(meld => meld.type !== 'ankan');
+  const context: YakuContext = {
+    hand,
+    winningTile,
+    options,
+    rules,
+    melds,
+    isMenzen: options.isMenzen && !hasOpenMelds,
+    interpretation,
+    pattern: toMentsuPattern(interpretation, melds)
+  };
+
+  const definitions = rules.customYaku.length > 0
+    ? [...YAKU_REGISTRY, ...rules.customYaku.map(compileCustomYaku)]
+    : YAKU_REGISTRY;
+  const matched = matchYakuDefinitions(definitions, context);
+  // ローカル役は13翻以上なら役満として扱う
+  const localYaku = detectLocalYaku(context);
+
+  // 役満が成立する場合は役満のみ（複合した場合は合算）
+  const toMatch = (definition: YakuDefinition): YakuMatch => ({
+    id: definition.id,
+    yaku: toYaku(definition, context),
+    yakuman: Boolean(definition.yakuman)
+  });
+  const yakuman = [
+    ...localYaku.filter(match => match.yakuman),
+    ...matched.filter(definition => definition.yakuman).map(toMatch)
+  ];
+  if (yakuman.length > 0) {
+    // 複合なしのルールでは最も高い役満のみ採用する
+    return rules.multipleYakuman
+      ? yakuman
+      : [yakuman.reduce((best, match) => (match.yaku.han > best.yaku.han ? match : best))];
   }
 
-  // 小三元
-  if (isShouSangen(tileCounts)) {
-    yaku.push({ name: '小三元', han: 2 });
+  return [
+    ...matched.map(toMatch),
+    ...localYaku.filter(match => !match.yakuman)
+  ];
+}
+
+function detectInterpretationYaku(
+  hand: Tile[],
+  winningTile: Tile,
+  options: AgariOptions,
+  rules: RuleSet,
+  interpretation: HandInterpretation | null
+): Yaku[] {
+  return toYakuList(matchInterpretationYaku(hand, winningTile, options, rules, interpretation));
+}
+
+const sumHan = (yaku: Yaku[]) => yaku.reduce((sum, item) => sum + item.han, 0);
+
+/**
+ * 役を判定する。解釈を指定しない場合は翻数が最も高くなる解釈の役を返す
+ */
+export function detectYaku(
+  hand: Tile[],
+  winningTile: Tile,
+  options: AgariOptions,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  interpretation?: HandInterpretation
+): Yaku[] {
+  hand = normalizeTiles(hand);
+  winningTile = normalizeTile(winningTile);
+  options = { ...options, melds: normalizeMelds(options.melds) };
+  if (interpretation) {
+    return detectInterpretationYaku(hand, winningTile, options, rules, interpretation);
   }
 
-  // 純全帯么九
-  if (isJunchan(hand, melds)) {
-    yaku.push({ name: '純全帯么九', han: hasOpenMelds ? 2 : 3 });
+  const interpretations = getHandInterpretations(hand, winningTile, options.melds);
+  if (interpretations.length === 0) {
+    return detectInterpretationYaku(hand, winningTile, options, rules, null);
   }
-  // 混全帯么九
-  else if (isChanta(hand, melds)) {
-    yaku.push({ name: '混全帯么九', han: hasOpenMelds ? 1 : 2 });
+
+  return interpretations
+    .map(candidate => detectInterpretationYaku(hand, winningTile, options, rules, candidate))
+    .reduce((best, yaku) => (sumHan(yaku) > sumHan(best) ? yaku : best));
+}
+
+export type WaitPattern = 'ryanmen' | 'shanpon' | 'penchan' | 'kanchan' | 'tanki';
+
+const WAIT_PRIORITY: WaitPattern[] = ['ryanmen', 'tanki', 'kanchan', 'penchan', 'shanpon'];
+
+/**
+ * 待ち形を検出する（複数の解釈がある場合は両面を優先）
+ */
+function detectWaitPattern(hand: Tile[], winningTile: Tile, melds?: Meld[]): WaitPattern {
+  const waits = new Set(
+    getHandInterpretations(hand, winningTile, melds)
+      .filter(interpretation => interpretation.form === 'standard')
+      .map(interpretation => interpretation.wait)
+  );
+  return WAIT_PRIORITY.find(wait => waits.has(wait)) ?? 'tanki';
+}
+
+const FU_WAIT_MESSAGE: Partial<Record<WaitPattern, MessageKey>> = {
+  penchan: 'fu.penchan',
+  kanchan: 'fu.kanchan',
+  tanki: 'fu.tanki'
+};
+
+// 符の内訳の牌は日本語では '5m' や '東' のまま表示する
+const formatFuTile = (tile: Tile, locale: Locale) => (locale === 'en' ? formatTileName(tile, locale) : tile);
+
+/**
+ * 符の内訳を求める（合計が最終的な符になる）
+ */
+function buildFuBreakdown(
+  interpretation: HandInterpretation,
+  winningTile: Tile,
+  isTsumo: boolean,
+  isMenzen: boolean,
+  bakaze: string | undefined,
+  jikaze: string | undefined,
+  melds: Meld[] | undefined,
+  rules: RuleSet,
+  locale: Locale = DEFAULT_LOCALE
+): FuItem[] {
+  const t = (key: MessageKey, tile?: Tile) => translate(locale, key, tile ? { tile: formatFuTile(tile, locale) } : {});
+  const hasOpenMelds = Boolean(melds?.some(meld => meld.type !== 'ankan'));
+
+  // 七対子は25符固定
+  if (interpretation.form === 'chiitoitsu') {
+    return [{ label: t('fu.chiitoitsu'), fu: 25 }];
   }
 
-  // 混一色（鳴きがある場合は2翻）
-  if (isHonitsu(hand, melds)) {
-    yaku.push({ name: '混一色', han: hasOpenMelds ? 2 : 3 });
+  // 平和ツモは20符固定
+  const pattern = toMentsuPattern(interpretation, melds);
+  if (isTsumo && isMenzen && isPinfu(pattern, interpretation.wait, isMenzen, bakaze, jikaze)) {
+    return [{ label: t('fu.pinfuTsumo'), fu: 20 }];
   }
 
-  // 清一色（鳴きがある場合は5翻）
-  if (isChinitsu(hand, melds)) {
-    yaku.push({ name: '清一色', han: hasOpenMelds ? 5 : 6 });
+  const items: FuItem[] = [{ label: t('fu.base'), fu: 20 }];
+
+  // ツモ符
+  if (isTsumo) items.push({ label: t('fu.tsumo'), fu: 2 });
+
+  // 門前ロン符（鳴きがない場合のみ）
+  if (!isTsumo && isMenzen) items.push({ label: t('fu.menzenRon'), fu: 10 });
+
+  // 雀頭符（役牌雀頭、連風牌はルールにより2符または4符）
+  const pair = interpretation.pair;
+  if (pair && isYakuhai(pair, bakaze, jikaze)) {
+    const isRenpuu = Boolean(bakaze && jikaze && BAKAZE_MAP[bakaze] === pair && JIKAZE_MAP[jikaze] === pair);
+    items.push(isRenpuu
+      ? { label: t('fu.renpuuPair', pair), fu: rules.renpuuFu }
+      : { label: t('fu.yakuhaiPair', pair), fu: 2 });
   }
-
-  return yaku;
-}
-
-type WaitPattern = 'ryanmen' | 'shanpon' | 'penchan' | 'kanchan' | 'tanki';
-
-/**
- * 待ち形を検出する
- */
-function detectWaitPattern(hand: Tile[], winningTile: Tile): WaitPattern {
-  const patterns = getMentsuPatterns(hand);
-  let hasRyanmen = false;
-  let hasKanchan = false;
-  let hasPenchan = false;
-  let hasTanki = false;
-  let hasShanpon = false;
 
-  patterns.forEach(pattern => {
-    if (pattern.jantou === winningTile) {
-      hasTanki = true;
-      return;
+  // 刻子符（手牌の中の刻子）
+  interpretation.mentsu.forEach(group => {
+    if (getGroupType(group) !== 'koutsu') return;
+    const isYaochuhai = isTerminalOrHonor(group[0]);
+    const isConcealed = isConcealedTriplet(group, interpretation, winningTile, isTsumo);
+    const baseFu = isYaochuhai ? 4 : 2;
+    items.push({
+      label: t(isConcealed ? 'fu.ankou' : 'fu.minkou', group[0]),
+      fu: isConcealed ? baseFu * 2 : baseFu
+    });
+  });
+
+  // 鳴きの符
+  melds?.forEach(meld => {
+    const tile = meld.tiles[0];
+    const isYaochuhai = tile.length === 1 || tile[0] === '1' || tile[0] === '9';
+
+    if (meld.type === 'pon') {
+      // 明刻
+      items.push({ label: t('fu.minkou', tile), fu: isYaochuhai ? 4 : 2 });
+    } else if (meld.type === 'minkan' || meld.type === 'kakan') {
+      // 明槓（大明槓・加槓）
+      items.push({ label: t('fu.minkan', tile), fu: isYaochuhai ? 16 : 8 });
+    } else if (meld.type === 'ankan') {
+      // 暗槓
+      items.push({ label: t('fu.ankan', tile), fu: isYaochuhai ? 32 : 16 });
     }
+    // chiiは符なし
+  });
 
-    pattern.mentsu.forEach(mentsu => {
-      if (!mentsu.includes(winningTile)) return;
-      if (mentsu.length === 3 && mentsu.every(tile => tile === winningTile)) {
-        hasShanpon = true;
-        return;
-      }
-      if (!isShuntsu(mentsu)) return;
+  // 待ち形符
+  const waitMessage = FU_WAIT_MESSAGE[interpretation.wait];
+  if (waitMessage) {
+    items.push({ label: t(waitMessage), fu: 2 });
+  }
 
-      const sorted = sortHand(mentsu);
-      if (winningTile === sorted[1]) {
-        hasKanchan = true;
-        return;
-      }
+  // 符の繰り上げ（10符単位）
+  const rawFu = items.reduce((sum, item) => sum + item.fu, 0);
+  const roundedFu = Math.ceil(rawFu / 10) * 10;
+  if (roundedFu > rawFu) {
+    items.push({ label: t('fu.roundUp'), fu: roundedFu - rawFu });
+  }
 
-      const [firstNum] = parseTile(sorted[0]);
-      const [thirdNum] = parseTile(sorted[2]);
-      if (firstNum === null || thirdNum === null) return;
+  // 鳴きがある場合は最低30符
+  if (hasOpenMelds && roundedFu < 30) {
+    items.push({ label: t('fu.openMinimum'), fu: 30 - roundedFu });
+  }
 
-      if (winningTile === sorted[0]) {
-        if (thirdNum === 9) {
-          hasPenchan = true;
-        } else {
-          hasRyanmen = true;
-        }
-        return;
-      }
+  return items;
+}
 
-      if (winningTile === sorted[2]) {
-        if (firstNum === 1) {
-          hasPenchan = true;
-        } else {
-          hasRyanmen = true;
-        }
-      }
-    });
-  });
+function calculateInterpretationFu(
+  interpretation: HandInterpretation,
+  winningTile: Tile,
+  isTsumo: boolean,
+  isMenzen: boolean,
+  bakaze: string | undefined,
+  jikaze: string | undefined,
+  melds: Meld[] | undefined,
+  rules: RuleSet
+): number {
+  return buildFuBreakdown(interpretation, winningTile, isTsumo, isMenzen, bakaze, jikaze, melds, rules)
+    .reduce((sum, item) => sum + item.fu, 0);
+}
 
-  if (hasRyanmen) return 'ryanmen';
-  if (hasTanki) return 'tanki';
-  if (hasKanchan) return 'kanchan';
-  if (hasPenchan) return 'penchan';
-  if (hasShanpon) return 'shanpon';
-  return 'tanki';
-}
-
-/**
- * 暗刻を検出する（和了牌を考慮）
- */
-function getConcealedTriplets(hand: Tile[], winningTile: Tile, isTsumo: boolean): Set<string> {
-  const tileCounts: Record<string, number> = {};
-  const handWithoutWinning = hand.filter(t => t !== winningTile);
-
-  // 和了牌を除いた手牌をカウント
-  handWithoutWinning.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
-
-  const concealedTriplets = new Set<string>();
-
-  for (let tile in tileCounts) {
-    // ツモの場合、すべての3枚以上の組は暗刻
-    if (isTsumo && tileCounts[tile] >= 3) {
-      concealedTriplets.add(tile);
-    }
-    // ロンの場合、和了牌を含まない3枚の組のみ暗刻
-    else if (!isTsumo) {
-      if (tile === winningTile) {
-        // 和了牌が4枚ある場合は暗槓
-        if (tileCounts[tile] === 3) {
-          concealedTriplets.add(tile);
-        }
-        // 和了牌が含まれる刻子は明刻扱い（暗刻に含めない）
-      } else if (tileCounts[tile] >= 3) {
-        concealedTriplets.add(tile);
-      }
-    }
-  }
-
-  return concealedTriplets;
-}
-
+/**
+ * 符を計算する。解釈を指定しない場合は符が最も高くなる解釈を採用する
+ */
 export function calculateFu(
   hand: Tile[],
   winningTile: Tile,
   isTsumo: boolean,
   isMenzen: boolean,
-  bakaze?: string,
-  jikaze?: string,
-  melds?: Meld[]
+  bakaze?: string,
+  jikaze?: string,
+  melds?: Meld[],
+  rules: RuleSet = DEFAULT_RULE_SET,
+  interpretation?: HandInterpretation
 ): number {
-  const tileCounts: Record<string, number> = {};
-  hand.forEach(tile => {
-    tileCounts[tile] = (tileCounts[tile] || 0) + 1;
-  });
+  hand = normalizeTiles(hand);
+  winningTile = normalizeTile(winningTile);
+  melds = normalizeMelds(melds);
+  const candidates = interpretation ? [interpretation] : getHandInterpretations(hand, winningTile, melds);
+  if (candidates.length === 0) {
+    return 0;
+  }
+  return Math.max(
+    ...candidates.map(candidate =>
+      calculateInterpretationFu(candidate, winningTile, isTsumo, isMenzen, bakaze, jikaze, melds, rules)
+    )
+  );
+}
 
-  const hasOpenMelds = Boolean(melds?.some(meld => meld.type !== 'ankan'));
-
-  // 七対子は25符固定
-  const pairs = Object.values(tileCounts).filter(count => count === 2);
-  if (pairs.length === 7) {
-    return 25;
-  }
-
-  // 平和ツモは20符固定
-  if (isTsumo && isMenzen && isPinfu(hand, winningTile, isMenzen, bakaze, jikaze)) {
-    return 20;
-  }
-
-  let fu = 20; // 基本符
-
-  // ツモ符
-  if (isTsumo) fu += 2;
-
-  // 門前ロン符（鳴きがない場合のみ）
-  if (!isTsumo && isMenzen) fu += 10;
-
-  // 雀頭符（役牌雀頭）
-  const bakazeMap: Record<string, string> = { ton: '東', nan: '南', sha: '西', pei: '北' };
-  const jikazeMap: Record<string, string> = { ton: '東', nan: '南', sha: '西', pei: '北' };
-  const bakazeTile = bakaze ? bakazeMap[bakaze] : null;
-  const jikazeTile = jikaze ? jikazeMap[jikaze] : null;
-
-  for (let tile in tileCounts) {
-    if (tileCounts[tile] === 2) {
-      // 三元牌
-      if (tile === '白' || tile === '發' || tile === '中') {
-        fu += 2;
-      }
-      // 場風
-      else if (bakazeTile && tile === bakazeTile) {
-        fu += 2;
-      }
-      // 自風
-      else if (jikazeTile && tile === jikazeTile) {
-        fu += 2;
-      }
-    }
-  }
-
-  // 刻子符（手牌の中の刻子）
-  const concealedTriplets = getConcealedTriplets(hand, winningTile, isTsumo);
-
-  for (let tile in tileCounts) {
-    if (tileCounts[tile] >= 3) {
-      const isYaochuhai = tile.length === 1 || tile[0] === '1' || tile[0] === '9';
-      const isConcealed = concealedTriplets.has(tile);
-
-      // 槓子の場合
-      if (tileCounts[tile] === 4) {
-        if (isYaochuhai) {
-          fu += isConcealed ? 32 : 16;
-        } else {
-          fu += isConcealed ? 16 : 8;
-        }
-      }
-      // 刻子の場合
-      else {
-        if (isYaochuhai) {
-          fu += isConcealed ? 8 : 4;
-        } else {
-          fu += isConcealed ? 4 : 2;
-        }
-      }
-    }
-  }
-
-  // 鳴きの符
-  melds?.forEach(meld => {
-    const tile = meld.tiles[0];
-    const isYaochuhai = tile.length === 1 || tile[0] === '1' || tile[0] === '9';
-
-    if (meld.type === 'pon') {
-      // 明刻
-      fu += isYaochuhai ? 4 : 2;
-    } else if (meld.type === 'minkan') {
-      // 明槓
-      fu += isYaochuhai ? 16 : 8;
-    } else if (meld.type === 'ankan') {
-      // 暗槓
-      fu += isYaochuhai ? 32 : 16;
-    }
-    // chiiは符なし
-  });
-
-  // 待ち形符
-  const waitPattern = detectWaitPattern(hand, winningTile);
-  if (waitPattern === 'penchan' || waitPattern === 'kanchan' || waitPattern === 'tanki') {
-    fu += 2;
-  }
-
-  // 符の繰り上げ（10符単位）
-  fu = Math.ceil(fu / 10) * 10;
-
-  // 鳴きがある場合は最低30符
-  if (hasOpenMelds && fu < 30) {
-    fu = 30;
-  }
-
-  return fu;
-}
-
-export function calculateFinalScore(han: number, fu: number, isOya: boolean, isTsumo: boolean): string {
-  return getBaseScoreDetails(han, fu, isOya, isTsumo).baseText;
+export function calculateFinalScore(
+  han: number,
+  fu: number,
+  isOya: boolean,
+  isTsumo: boolean,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  return formatBasePaymentText(getBaseScoreDetails(han, fu, isOya, isTsumo, rules), locale);
 }
 
 const normalizeCount = (value?: number) => Math.max(0, Math.floor(value ?? 0));
 
-const getBaseScoreDetails = (han: number, fu: number, isOya: boolean, isTsumo: boolean) => {
-  let baseScore: number;
+const roundUpToHundred = (value: number) => Math.ceil(value / 100) * 100;
+
+// ツモの本場は1人あたり3分の1（割り切れない場合は100点単位に切り上げ）
+const getTsumoHonbaPerPayer = (honbaPoints: number) => roundUpToHundred(honbaPoints / 3);
+
+/**
+ * yakumanCount は成立した役満の倍数（ダブル役満は2）。0 の場合は翻数から判定する
+ */
+const getLimitName = (han: number, fu: number, rules: RuleSet, yakumanCount: number): LimitName | null => {
+  if (yakumanCount > 0) return '役満';
+  if (han >= 13) return rules.kazoeYakuman ? '役満' : '三倍満';
+  if (han >= 11) return '三倍満';
+  if (han >= 8) return '倍満';
+  if (han >= 6) return '跳満';
+  if (han >= 5 || fu * Math.pow(2, 2 + han) >= 2000) return '満貫';
+  // 切り上げ満貫（4翻30符・3翻60符）
+  if (rules.kiriageMangan && ((han === 4 && fu === 30) || (han === 3 && fu === 60))) return '満貫';
+  return null;
+};
+
+const LIMIT_BASE_POINTS: Record<LimitName, number> = {
+  '満貫': 2000,
+  '跳満': 3000,
+  '倍満': 4000,
+  '三倍満': 6000,
+  '役満': 8000
+};
+
+const getBaseScoreDetails = (
+  han: number,
+  fu: number,
+  isOya: boolean,
+  isTsumo: boolean,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  yakumanCount = 0
+): BasePayment => {
+  const limit = getLimitName(han, fu, rules, yakumanCount);
+  // 満貫以上は固定（役満は倍数をかける）、それ以外は符×2^(翻+2)
+  const yakumanMultiplier = limit === '役満' ? Math.max(1, yakumanCount) : 0;
+  const basePoints = limit
+    ? LIMIT_BASE_POINTS[limit] * Math.max(1, yakumanMultiplier)
+    : fu * Math.pow(2, 2 + han);
+
+  const { players } = rules;
+  const header = { players, isOya, isTsumo, limit, yakumanMultiplier, basePoints };
 
-  // 満貫以上
-  if (han >= 5) {
-    if (han <= 5) baseScore = 2000; // 満貫
-    else if (han <= 7) baseScore = 3000; // 跳満
-    else if (han <= 10) baseScore = 4000; // 倍満
-    else if (han <= 12) baseScore = 6000; // 三倍満
-    else baseScore = 8000; // 役満
+  if (isTsumo) {
+    // 北家折半では、いない北家の支払い分（子は基本点、親は基本点×2）を残りの2人に半分ずつ加える
+    const bisection = players === 3 && rules.sanmaTsumo === 'northBisection';
+    const tsumo: TsumoPayment = isOya
+      ? { oya: null, ko: roundUpToHundred(basePoints * (bisection ? 3 : 2)) }
+      : {
+        oya: roundUpToHundred(basePoints * (bisection ? 2.5 : 2)),
+        ko: roundUpToHundred(basePoints * (bisection ? 1.5 : 1))
+      };
+    const koPayers = (isOya ? players : players - 1) - 1;
+    const total = (tsumo.oya ?? 0) + tsumo.ko * koPayers;
+    return { ...header, ron: null, tsumo, total };
+  }
+
+  const ron = roundUpToHundred(basePoints * (isOya ? 6 : 4));
+  return { ...header, ron, tsumo: null, total: ron };
+};
+
+/**
+ * 基本点・本場・供託から支払者ごとの支払額を組み立てる
+ */
+const buildScorePayment = (base: BasePayment, honba: number, kyotaku: number, rules: RuleSet): ScorePayment => {
+  const honbaPoints = honba * rules.honbaValue;
+  const kyotakuPoints = kyotaku * 1000;
+  const shares: PaymentShare[] = [];
+
+  if (base.tsumo) {
+    const perPayerHonba = getTsumoHonbaPerPayer(honbaPoints);
+    if (base.tsumo.oya !== null) {
+      shares.push({ payer: 'oya', points: base.tsumo.oya + perPayerHonba });
+    }
+    const koPayers = (base.isOya ? base.players : base.players - 1) - 1;
+    for (let i = 0; i < koPayers; i++) {
+      shares.push({ payer: 'ko', points: base.tsumo.ko + perPayerHonba });
+    }
   } else {
-    // 通常計算
-    baseScore = fu * Math.pow(2, 2 + han);
+    shares.push({ payer: 'discarder', points: (base.ron ?? 0) + honbaPoints });
   }
 
-  if (isOya) {
-    if (isTsumo) {
-      const perPerson = Math.ceil(baseScore * 2 / 100) * 100;
-      return {
-        baseText: `${perPerson}点オール（合計${perPerson * 3}点）`,
-        baseTotal: perPerson * 3,
-        perPerson
-      };
+  return {
+    ...base,
+    honba,
+    honbaPoints,
+    kyotaku,
+    kyotakuPoints,
+    shares,
+    total: shares.reduce((sum, share) => sum + share.points, 0) + kyotakuPoints
+  };
+};
+
+/**
+ * 座席（0〜3。三人麻雀は0〜2）ごとの点数移動を求める。ロンの場合は discarder が必要
+ */
+export function calculateSeatDeltas(
+  payment: ScorePayment,
+  seats: { winner: number; dealer: number; discarder?: number }
+): number[] {
+  const deltas: number[] = Array(payment.players).fill(0);
+  deltas[seats.winner] += payment.total;
+
+  if (!payment.isTsumo) {
+    if (seats.discarder !== undefined) {
+      deltas[seats.discarder] -= payment.shares[0]?.points ?? 0;
     }
-    const ron = Math.ceil(baseScore * 6 / 100) * 100;
-    return { baseText: `${ron}点`, baseTotal: ron, ron };
+    return deltas;
   }
 
-  if (isTsumo) {
-    const ko = Math.ceil(baseScore / 100) * 100;
-    const oya = Math.ceil(baseScore * 2 / 100) * 100;
-    return {
-      baseText: `子: ${ko}点、親: ${oya}点（合計${ko * 2 + oya}点）`,
-      baseTotal: ko * 2 + oya,
-      ko,
-      oya
-    };
+  const oyaShare = payment.shares.find(share => share.payer === 'oya');
+  const koShare = payment.shares.find(share => share.payer === 'ko');
+  for (let seat = 0; seat < payment.players; seat++) {
+    if (seat === seats.winner) continue;
+    const share = seat === seats.dealer && oyaShare ? oyaShare : koShare;
+    deltas[seat] -= share?.points ?? 0;
+  }
+  return deltas;
+}
+
+// ========== 流局の精算 ==========
+
+// 不聴罰符の合計
+export const NOTEN_BAPPU = 3000;
+
+/**
+ * 流局の精算結果。deltas は座席ごとの不聴罰符、honba は次局の本場（供託は場に残る）
+ */
+export interface RyuukyokuSettlement {
+  deltas: number[];
+  isRenchan: boolean;
+  honba: number;
+}
+
+/**
+ * 荒牌平局の精算。tenpai は座席ごとの聴牌（三人麻雀は3席）
+ * 不聴者が合計3000点を払い、聴牌者で分ける（全員聴牌・全員不聴は移動なし）
+ * 親が聴牌なら連荘。本場は親の聴牌・不聴によらず1本積む
+ */
+export function settleRyuukyoku(tenpai: boolean[], dealer: number, honba = 0): RyuukyokuSettlement {
+  const tenpaiCount = tenpai.filter(Boolean).length;
+  const notenCount = tenpai.length - tenpaiCount;
+  const deltas = tenpai.map(isTenpai => {
+    if (tenpaiCount === 0 || notenCount === 0) return 0;
+    return isTenpai ? NOTEN_BAPPU / tenpaiCount : -NOTEN_BAPPU / notenCount;
+  });
+
+  return {
+    deltas,
+    isRenchan: Boolean(tenpai[dealer]),
+    honba: normalizeCount(honba) + 1
+  };
+}
+
+// ========== 複数人のロン ==========
+
+/**
+ * 同じ打牌へのロン1人分。yakumanCount は役満の倍数（0 なら翻数・符から計算）
+ */
+export interface RonClaim {
+  seat: number;
+  han: number;
+  fu: number;
+  yakumanCount?: number;
+}
+
+/**
+ * 複数人のロンの精算結果。winners は和了が認められた座席（放銃者から近い順）
+ */
+export interface MultiRonSettlement {
+  winners: number[];
+  deltas: number[];
+  payments: ScorePayment[];
+}
+
+export type MultiRonErrorCode = 'noWinners' | 'invalidSeat' | 'discarderWins' | 'duplicateWinner';
+
+export interface MultiRonError {
+  error: string;
+  code: MultiRonErrorCode;
+}
+
+/**
+ * ダブロン・トリロン（頭ハネ）の精算
+ * - 放銃者の下家から順に近い和了者を先頭とし、本場と供託はその1人だけが受け取る
+ * - rules.multiRon が atamahane なら先頭の1人だけが和了する
+ * - 和了者がいない・座席が範囲外・放銃者の和了・同じ座席の重複はエラー
+ */
+export function settleMultiRon(
+  claims: RonClaim[],
+  seats: { dealer: number; discarder: number },
+  honba?: number,
+  kyotaku?: number,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  locale: Locale = DEFAULT_LOCALE
+): MultiRonSettlement | MultiRonError {
+  const { players } = rules;
+  const isSeat = (seat: number) => Number.isInteger(seat) && seat >= 0 && seat < players;
+  const claimSeats = claims.map(claim => claim.seat);
+  const errorCode: MultiRonErrorCode | null = claims.length === 0
+    ? 'noWinners'
+    : !isSeat(seats.discarder) || !claimSeats.every(isSeat)
+      ? 'invalidSeat'
+      : claimSeats.includes(seats.discarder)
+        ? 'discarderWins'
+        : new Set(claimSeats).size !== claimSeats.length
+          ? 'duplicateWinner'
+          : null;
+  if (errorCode) {
+    return { error: translate(locale, `multiRon.error.${errorCode}`), code: errorCode };
+  }
+
+  const distance = (seat: number) => (seat - seats.discarder + players) % players;
+  const ordered = [...claims].sort((a, b) => distance(a.seat) - distance(b.seat));
+  const accepted = rules.multiRon === 'atamahane' ? ordered.slice(0, 1) : ordered;
+
+  const deltas: number[] = Array(players).fill(0);
+  const payments = accepted.map((claim, index) => {
+    const payment = buildScorePayment(
+      getBaseScoreDetails(claim.han, claim.fu, claim.seat === seats.dealer, false, rules, normalizeCount(claim.yakumanCount)),
+      index === 0 ? normalizeCount(honba) : 0,
+      index === 0 ? normalizeCount(kyotaku) : 0,
+      rules
+    );
+    calculateSeatDeltas(payment, { winner: claim.seat, dealer: seats.dealer, discarder: seats.discarder })
+      .forEach((delta, seat) => { deltas[seat] += delta; });
+    return payment;
+  });
+
+  return { winners: accepted.map(claim => claim.seat), deltas, payments };
+}
+
+// ========== 責任払い（包） ==========
+
+const PAO_YAKU_IDS: PaoYakuId[] = ['daisangen', 'daisuushii', 'suukantsu'];
+
+// 責任払いになる副露。大三元・大四喜は三元牌・風牌のポンか大明槓（加槓は元のポン）、四槓子は大明槓
+const PAO_SET_TILES: Record<Exclude<PaoYakuId, 'suukantsu'>, Tile[]> = {
+  daisangen: ['白', '發', '中'],
+  daisuushii: ['東', '南', '西', '北']
+};
+const PAO_CALLED_TYPES: MeldType[] = ['pon', 'minkan', 'kakan'];
+const KAN_TYPES: MeldType[] = ['minkan', 'kakan', 'ankan'];
+
+/**
+ * ルールで責任払いの対象になる役満（四槓子は rules.paoSuukantsu のときだけ）
+ */
+export function getPaoYakuIds(rules: RuleSet = DEFAULT_RULE_SET): PaoYakuId[] {
+  return PAO_YAKU_IDS.filter(id => id !== 'suukantsu' || rules.paoSuukantsu);
+}
+
+/**
+ * 責任払いの役満の倍数（大四喜・四槓子はダブル役満のルールで2）
+ */
+export function getPaoYakumanCount(id: PaoYakuId, rules: RuleSet = DEFAULT_RULE_SET): number {
+  const definition = YAKU_REGISTRY.find(item => item.id === id);
+  return rules.doubleYakuman ? (definition?.han ?? 1) : 1;
+}
+
+/**
+ * 責任払いの役満を確定させた副露（入力順で最後の面子）を探す
+ * - 大三元・大四喜: 三元牌・風牌の面子がすべて他家から鳴いたもの（ポン・明槓・加槓）であること
+ * - 四槓子: 4つ目の槓子が大明槓であること
+ */
+function findPaoMeld(id: PaoYakuId, melds: Meld[]): Meld | undefined {
+  if (id === 'suukantsu') {
+    const kans = melds.filter(meld => KAN_TYPES.includes(meld.type));
+    const last = kans[kans.length - 1];
+    return kans.length === 4 && last.type === 'minkan' && last.from ? last : undefined;
+  }
+  const tiles = PAO_SET_TILES[id];
+  const sets = melds.filter(meld => meld.type !== 'chii' && tiles.includes(meld.tiles[0]));
+  const called = sets.length === tiles.length && sets.every(meld => PAO_CALLED_TYPES.includes(meld.type) && meld.from);
+  return called ? sets[sets.length - 1] : undefined;
+}
+
+/**
+ * 成立した役満から責任払いの対象を探す（四槓子は rules.paoSuukantsu のときだけ）
+ * 最後の面子を他家から鳴いて役満が確定した場合だけ対象にし、その副露をさせた相手を責任者とする
+ */
+function detectPao(matches: YakuMatch[], melds: Meld[], isOya: boolean, rules: RuleSet): PaoInfo | undefined {
+  const candidates = getPaoYakuIds(rules)
+    .map(id => ({ id, match: matches.find(match => match.id === id && match.yakuman), meld: findPaoMeld(id, melds) }))
+    .filter(({ match, meld }) => match !== undefined && meld !== undefined);
+  // 複数の役満で責任者が異なる場合は、後から鳴いた副露の責任者の分だけを対象にする
+  const lastMeld = [...melds].reverse().find(meld => candidates.some(candidate => candidate.meld === meld));
+  if (!lastMeld?.from) return undefined;
+  const matched = candidates.filter(({ meld }) => meld?.from === lastMeld.from);
+
+  const yakumanCount = matched.reduce((sum, { match }) => sum + Math.floor((match?.yaku.han ?? 0) / 13), 0);
+  return {
+    yaku: matched.map(({ id }) => id),
+    yakumanCount,
+    points: getBaseScoreDetails(0, 0, isOya, false, rules, yakumanCount).total,
+    from: lastMeld.from
+  };
+}
+
+/**
+ * 責任払いのある和了の座席ごとの点数移動。responsible は最後の副露をさせた人
+ * - 責任払いの役満分は、ツモなら責任者が全額、ロンなら放銃者と責任者が半分ずつ払う
+ * - 複合した残りの役満分は通常どおりに払う
+ * - 本場はツモなら責任者（通常のツモで全員が払う分）、ロンなら放銃者が払う。供託は和了者が受け取る
+ */
+export function calculatePaoSeatDeltas(
+  payment: ScorePayment,
+  paoYakumanCount: number,
+  seats: { winner: number; dealer: number; discarder?: number; responsible: number },
+  rules: RuleSet = DEFAULT_RULE_SET
+): number[] {
+  const paoCount = Math.min(normalizeCount(paoYakumanCount), payment.yakumanMultiplier);
+  if (paoCount === 0 || seats.responsible === seats.winner) {
+    return calculateSeatDeltas(payment, seats);
+  }
+
+  const restCount = payment.yakumanMultiplier - paoCount;
+  const deltas = restCount > 0
+    ? calculateSeatDeltas(
+      buildScorePayment(getBaseScoreDetails(0, 0, payment.isOya, payment.isTsumo, rules, restCount), 0, 0, rules),
+      seats
+    )
+    : Array<number>(payment.players).fill(0);
+
+  const paoPoints = getBaseScoreDetails(0, 0, payment.isOya, false, rules, paoCount).total;
+  // 本場は通常のツモと同じく支払者1人あたり3分の1（三人麻雀では2人分）を責任者がまとめて払う
+  const honbaPoints = payment.isTsumo ? getTsumoHonbaPerPayer(payment.honbaPoints) * (payment.players - 1) : payment.honbaPoints;
+  const honbaPayer = payment.isTsumo ? seats.responsible : seats.discarder;
+  deltas[seats.winner] += paoPoints + honbaPoints + payment.kyotakuPoints;
+  if (honbaPayer !== undefined) deltas[honbaPayer] -= honbaPoints;
+  if (payment.isTsumo || seats.discarder === undefined || seats.discarder === seats.responsible) {
+    deltas[seats.responsible] -= paoPoints;
+  } else {
+    deltas[seats.discarder] -= paoPoints / 2;
+    deltas[seats.responsible] -= paoPoints / 2;
   }
+  return deltas;
+}
+
+// ========== 点数表示（テキスト整形） ==========
+
+const formatTsumoText = (tsumo: TsumoPayment, total: number, locale: Locale): string =>
+  tsumo.oya === null
+    ? translate(locale, 'score.tsumoAll', { points: tsumo.ko, total })
+    : translate(locale, 'score.tsumoSplit', { ko: tsumo.ko, oya: tsumo.oya, total });
 
-  const ron = Math.ceil(baseScore * 4 / 100) * 100;
-  return { baseText: `${ron}点`, baseTotal: ron, ron };
+const LIMIT_MESSAGE: Record<LimitName, MessageKey> = {
+  '満貫': 'limit.mangan',
+  '跳満': 'limit.haneman',
+  '倍満': 'limit.baiman',
+  '三倍満': 'limit.sanbaiman',
+  '役満': 'limit.yakuman'
 };
 
+const YAKUMAN_MULTIPLE_MESSAGE: Record<number, MessageKey> = {
+  1: 'limit.yakuman',
+  2: 'limit.doubleYakuman',
+  3: 'limit.tripleYakuman'
+};
+
+/**
+ * 満貫以上の区分名を返す（役満は倍数に応じて「ダブル役満」「トリプル役満」など）
+ */
+export function formatLimitText(payment: BasePayment, locale: Locale = DEFAULT_LOCALE): string | null {
+  if (!payment.limit) {
+    return null;
+  }
+  if (payment.limit !== '役満') {
+    return translate(locale, LIMIT_MESSAGE[payment.limit]);
+  }
+  const key = YAKUMAN_MULTIPLE_MESSAGE[payment.yakumanMultiplier] ?? 'limit.multipleYakuman';
+  return translate(locale, key, { count: payment.yakumanMultiplier });
+}
+
+export function formatBasePaymentText(payment: BasePayment, locale: Locale = DEFAULT_LOCALE): string {
+  if (payment.tsumo) {
+    return formatTsumoText(payment.tsumo, payment.total, locale);
+  }
+  return translate(locale, 'score.points', { points: payment.ron ?? 0 });
+}
+
+export function formatTotalPaymentText(payment: ScorePayment, locale: Locale = DEFAULT_LOCALE): string {
+  let paymentText: string;
+  if (payment.tsumo) {
+    const perPayerHonba = payment.honbaPoints / 3;
+    const tsumo: TsumoPayment = {
+      oya: payment.tsumo.oya === null ? null : payment.tsumo.oya + perPayerHonba,
+      ko: payment.tsumo.ko + perPayerHonba
+    };
+    paymentText = formatTsumoText(tsumo, payment.total - payment.kyotakuPoints, locale);
+  } else {
+    paymentText = translate(locale, 'score.points', { points: (payment.ron ?? 0) + payment.honbaPoints });
+  }
+
+  return payment.kyotakuPoints > 0
+    ? translate(locale, 'score.withKyotaku', { payment: paymentText, kyotaku: payment.kyotakuPoints, total: payment.total })
+    : paymentText;
+}
+
 export const calculateFinalScoreWithBonus = (
   han: number,
   fu: number,
   isOya: boolean,
   isTsumo: boolean,
   honba?: number,
-  kyotaku?: number
+  kyotaku?: number,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  yakumanCount = 0,
+  locale: Locale = DEFAULT_LOCALE
 ): ScoreBreakdown => {
   const normalizedHonba = normalizeCount(honba);
   const normalizedKyotaku = normalizeCount(kyotaku);
-  const honbaPoints = normalizedHonba * 300;
-  const kyotakuPoints = normalizedKyotaku * 1000;
-  const baseDetails = getBaseScoreDetails(han, fu, isOya, isTsumo);
-  const totalPoints = baseDetails.baseTotal + honbaPoints + kyotakuPoints;
-
-  let totalText: string;
-  if (isOya) {
-    if (isTsumo) {
-      const perPerson = baseDetails.perPerson ?? 0;
-      const perPersonTotal = perPerson + normalizedHonba * 100;
-      const totalPayment = perPersonTotal * 3;
-      totalText = kyotakuPoints > 0
-        ? `${perPersonTotal}点オール（合計${totalPayment}点） + 供託${kyotakuPoints}点 = 合計${totalPoints}点`
-        : `${perPersonTotal}点オール（合計${totalPayment}点）`;
-    } else {
-      const ron = (baseDetails.ron ?? 0) + honbaPoints;
-      totalText = kyotakuPoints > 0
-        ? `${ron}点 + 供託${kyotakuPoints}点 = 合計${totalPoints}点`
-        : `${ron}点`;
-    }
-  } else if (isTsumo) {
-    const ko = (baseDetails.ko ?? 0) + normalizedHonba * 100;
-    const oya = (baseDetails.oya ?? 0) + normalizedHonba * 100;
-    const totalPayment = ko * 2 + oya;
-    totalText = kyotakuPoints > 0
-      ? `子: ${ko}点、親: ${oya}点（合計${totalPayment}点） + 供託${kyotakuPoints}点 = 合計${totalPoints}点`
-      : `子: ${ko}点、親: ${oya}点（合計${totalPayment}点）`;
-  } else {
-    const ron = (baseDetails.ron ?? 0) + honbaPoints;
-    totalText = kyotakuPoints > 0
-      ? `${ron}点 + 供託${kyotakuPoints}点 = 合計${totalPoints}点`
-      : `${ron}点`;
-  }
+  const payment = buildScorePayment(
+    getBaseScoreDetails(han, fu, isOya, isTsumo, rules, yakumanCount),
+    normalizedHonba,
+    normalizedKyotaku,
+    rules
+  );
 
   const honbaText = normalizedHonba > 0
-    ? (isTsumo ? `${normalizedHonba * 100}点オール（合計${honbaPoints}点）` : `${honbaPoints}点`)
+    ? (isTsumo
+      ? translate(locale, 'score.tsumoAll', {
+        points: payment.honbaPoints / 3,
+        total: (payment.honbaPoints / 3) * payment.shares.length
+      })
+      : translate(locale, 'score.points', { points: payment.honbaPoints }))
     : null;
-  const kyotakuText = normalizedKyotaku > 0 ? `${kyotakuPoints}点` : null;
+  const kyotakuText = normalizedKyotaku > 0 ? translate(locale, 'score.points', { points: payment.kyotakuPoints }) : null;
 
   return {
-    baseText: baseDetails.baseText,
+    limitText: formatLimitText(payment, locale),
+    baseText: formatBasePaymentText(payment, locale),
     honbaText,
     kyotakuText,
-    totalText,
-    totalPoints
+    totalText: formatTotalPaymentText(payment, locale),
+    totalPoints: payment.total,
+    payment
   };
 };
-
+
+// ========== 和了の検証 ==========
+
+const isSequenceTiles = (tiles: Tile[]): boolean => {
+  const parsed = tiles.map(parseTile);
+  if (parsed.some(([num]) => num === null) || new Set(parsed.map(([, suit]) => suit)).size !== 1) return false;
+  const nums = parsed.map(([num]) => num as number).sort((a, b) => a - b);
+  return nums[1] === nums[0] + 1 && nums[2] === nums[1] + 1;
+};
+
+/**
+ * 鳴き1組が面子として正しいかを調べる
+ */
+export function validateMeld(meld: Meld, locale: Locale = DEFAULT_LOCALE): AgariIssue<'invalidMeld'> | null {
+  const invalid = (key: MessageKey, params?: MessageParams): AgariIssue<'invalidMeld'> => ({
+    code: 'invalidMeld',
+    message: translate(locale, key, params)
+  });
+  const requiredTiles = meld.type === 'chii' || meld.type === 'pon' ? 3 : 4;
+  if (meld.tiles.length !== requiredTiles) {
+    return invalid('meld.tileCount', { count: requiredTiles });
+  }
+
+  const tiles = normalizeTiles(meld.tiles);
+  if (meld.type === 'chii' && !isSequenceTiles(tiles)) {
+    return invalid('meld.chiiSequence');
+  }
+  if (meld.type === 'pon' && !tiles.every(tile => tile === tiles[0])) {
+    return invalid('meld.ponSameTiles');
+  }
+  if (isKanMeld(meld) && !tiles.every(tile => tile === tiles[0])) {
+    return invalid('meld.kanSameTiles');
+  }
+  if (meld.type === 'chii' && meld.from && meld.from !== 'kamicha') {
+    return invalid('meld.chiiFromKamicha');
+  }
+  if (meld.calledTile && !meld.tiles.includes(meld.calledTile)) {
+    return invalid('meld.calledTileMissing');
+  }
+  return null;
+}
+
+/**
+ * 手牌・鳴き・和了条件の矛盾を調べる
+ * errors があるときは点数を計算できない。warnings の条件は点数に反映されない
+ */
+export function validateAgari(
+  hand: Tile[],
+  winningTile: Tile | null,
+  options: AgariOptions,
+  rules: RuleSet = DEFAULT_RULE_SET
+): AgariValidation {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const errors: AgariIssue<AgariErrorCode>[] = [];
+  const warnings: AgariIssue<AgariWarningCode>[] = [];
+  const addError = (code: Exclude<AgariErrorCode, 'invalidMeld'>, params?: MessageParams) =>
+    errors.push({ code, message: translate(locale, `agari.${code}`, params) });
+  const addWarning = (code: AgariWarningCode, params?: MessageParams) =>
+    warnings.push({ code, message: translate(locale, `agari.${code}`, params) });
+  const melds = options.melds || [];
+  const expectedHandSize = 13 - getMeldTileContribution(melds);
+
+  if (melds.length > 4) {
+    addError('tooManyMelds');
+  }
+  if (hand.length !== expectedHandSize) {
+    addError('handSize', { count: expectedHandSize, melds: melds.length });
+  }
+  if (!winningTile) {
+    addError('missingWinningTile');
+  }
+  melds.forEach(meld => {
+    const issue = validateMeld(meld, locale);
+    if (issue) errors.push(issue);
+  });
+
+  const allTiles = getAllTiles(winningTile ? [...hand, winningTile] : hand, melds);
+  const nukidora = normalizeCount(options.nukidora);
+  // 抜いた北も4枚の上限に含める
+  const counts = countTiles([...normalizeTiles(allTiles), ...Array<Tile>(nukidora).fill('北')]);
+  const formatTileList = (tiles: Tile[]) =>
+    tiles.map(tile => formatTileName(tile, locale)).join(locale === 'en' ? ', ' : '・');
+  const overLimit = sortHand(Object.keys(counts)).filter(tile => counts[tile] > 4);
+  if (overLimit.length > 0) {
+    addError('tileLimit', { tiles: formatTileList(overLimit) });
+  }
+
+  if (rules.players === 3) {
+    const tileKinds = Object.values(SANMA_TILES).flat();
+    const unusedTiles = sortHand(Object.keys(counts)).filter(tile => !tileKinds.includes(tile));
+    if (unusedTiles.length > 0) {
+      addError('sanmaTile', { tiles: formatTileList(unusedTiles) });
+    }
+    if (melds.some(meld => meld.type === 'chii')) {
+      addError('sanmaChii');
+    }
+  } else if (nukidora > 0) {
+    addError('nukidoraWithoutSanma');
+  }
+
+  const kanCount = countKanSets(melds);
+  const indicatorLimit = 1 + kanCount;
+  if ((options.doraTiles?.length ?? 0) > indicatorLimit || (options.uraDoraTiles?.length ?? 0) > indicatorLimit) {
+    addError('tooManyDoraIndicators', { kans: kanCount, limit: indicatorLimit });
+  }
+  if (options.isTenhou && !options.isOya) {
+    addError('tenhouNotDealer');
+  }
+  if (options.isChiihou && options.isOya) {
+    addError('chiihouDealer');
+  }
+
+  // 形の判定は枚数がそろっているときのみ行う
+  if (errors.length === 0 && winningTile) {
+    const fullHand = normalizeTiles([...hand, winningTile]);
+    const normalizedOptions = { ...options, melds: normalizeMelds(melds) };
+    if (!isWinningHand(fullHand, melds) && !isIrregularLocalAgari(fullHand, normalizedOptions, rules)) {
+      addError('notWinningHand');
+    }
+  }
+
+  const redCounts = countTiles(allTiles);
+  const redLimits: [Tile, number][] = [['0m', rules.redFives.man], ['0p', rules.redFives.pin], ['0s', rules.redFives.sou]];
+  redLimits
+    .filter(([tile, limit]) => (redCounts[tile] || 0) > limit)
+    .forEach(([tile, limit]) => {
+      addWarning('redFiveLimit', { tile: formatTileName(tile, locale), limit });
+    });
+
+  const hasOpenMeld = melds.some(meld => meld.type !== 'ankan');
+  const isRiichi = options.isRiichi || Boolean(options.isDoubleRiichi);
+  if (isRiichi && hasOpenMeld) {
+    addWarning('riichiWithOpenMeld');
+  }
+  if (options.isIppatsu && !isRiichi) {
+    addWarning('ippatsuWithoutRiichi');
+  }
+  if (!isRiichi && (options.uraDoraTiles?.length ?? 0) > 0) {
+    addWarning('uraDoraWithoutRiichi');
+  }
+  if (options.isHaitei && !options.isTsumo) {
+    addWarning('haiteiOnRon');
+  }
+  if (options.isHoutei && options.isTsumo) {
+    addWarning('houteiOnTsumo');
+  }
+  if (options.isRinshan && !options.isTsumo) {
+    addWarning('rinshanOnRon');
+  }
+  if (options.isRinshan && kanCount === 0) {
+    addWarning('rinshanWithoutKan');
+  }
+  if (options.isChankan && options.isTsumo) {
+    addWarning('chankanOnTsumo');
+  }
+  if (options.isOya !== (options.jikaze === 'ton')) {
+    addWarning('oyaJikazeMismatch');
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * 役満の倍数を求める（役満として成立した役の13翻を1倍とし、複合した役満は合算する）
+ */
+function countYakuman(matches: YakuMatch[]): number {
+  return matches
+    .filter(match => match.yakuman)
+    .reduce((sum, match) => sum + Math.floor(match.yaku.han / 13), 0);
+}
+
 export function calculateScore(
   hand: Tile[],
   winningTile: Tile,
-  options: AgariOptions
-): CalculationResult | { error: string } {
+  options: AgariOptions,
+  rules: RuleSet = DEFAULT_RULE_SET
+): CalculationResult | CalculationError {
+  const { errors } = validateAgari(hand, winningTile, options, rules);
+  if (errors.length > 0) {
+    return { error: errors[0].message, code: errors[0].code };
+  }
+
+  // 赤ドラは牌そのものから数え、それ以外の判定では赤五を通常の五として扱う
+  const allTilesForBonus = getAllTiles([...hand, winningTile], options.melds);
+  hand = normalizeTiles(hand);
+  winningTile = normalizeTile(winningTile);
+  options = {
+    ...options,
+    melds: normalizeMelds(options.melds),
+    doraTiles: options.doraTiles && normalizeTiles(options.doraTiles),
+    uraDoraTiles: options.uraDoraTiles && normalizeTiles(options.uraDoraTiles)
+  };
   const melds = options.melds || [];
-  const meldTileCount = getMeldTileContribution(melds);
-  const expectedHandSize = 14 - meldTileCount;
   const hasOpenMelds = melds.some(meld => meld.type !== 'ankan');
   const isMenzenHand = options.isMenzen && !hasOpenMelds;
-
-  if (hand.length !== expectedHandSize - 1) {
-    return { error: `手牌は${expectedHandSize - 1}枚必要です（鳴き${melds.length}回）` };
-  }
-
-  if (!winningTile) {
-    return { error: '和了牌を選択してください' };
-  }
-
-  // 和了形チェック
-  const fullHand = [...hand, winningTile];
-  if (!isWinningHand(fullHand, melds)) {
-    return { error: '和了形ではありません' };
-  }
-
-  // 役の判定
+
+  // 和了形でない場合は十三不塔などのローカル役として扱う（validateAgari で確認済み）
+  const fullHand = [...hand, winningTile];
+  const isIrregular = !isWinningHand(fullHand, melds);
+
   const adjustedOptions: AgariOptions = { ...options, isMenzen: isMenzenHand };
-  const yaku = detectYaku(fullHand, winningTile, adjustedOptions);
+  const doraBonus = buildDoraYaku(allTilesForBonus, adjustedOptions, rules);
+
+  // 解釈ごとに役・符を求め、最も高い点数になる解釈を採用する（高点法）
+  // 十三不塔のように面子の解釈がない和了は解釈なし（符なし）で評価する
+  const candidates: (HandInterpretation | null)[] = isIrregular
+    ? [null]
+    : getHandInterpretations(fullHand, winningTile, melds);
+  let best: {
+    interpretation: HandInterpretation | null;
+    matches: YakuMatch[];
+    yaku: Yaku[];
+    han: number;
+    fu: number;
+    fuBreakdown: FuItem[];
+    baseTotal: number;
+  } | null = null;
+  for (const interpretation of candidates) {
+    const matches = matchInterpretationYaku(fullHand, winningTile, adjustedOptions, rules, interpretation);
+    const yaku = toYakuList(matches);
+    if (yaku.length === 0) continue;
+
+    const han = sumHan(yaku) + sumHan(doraBonus);
+    const fuBreakdown = interpretation
+      ? buildFuBreakdown(
+        interpretation,
+        winningTile,
+        options.isTsumo,
+        isMenzenHand,
+        options.bakaze,
+        options.jikaze,
+        melds,
+        rules,
+        options.locale
+      )
+      : [];
+    const fu = fuBreakdown.reduce((sum, item) => sum + item.fu, 0);
+    const yakumanCount = countYakuman(matches);
+    const baseTotal = getBaseScoreDetails(han, fu, options.isOya, options.isTsumo, rules, yakumanCount).total;
+
+    const isBetter = !best
+      || baseTotal > best.baseTotal
+      || (baseTotal === best.baseTotal && (han > best.han || (han === best.han && fu > best.fu)));
+    if (isBetter) {
+      best = { interpretation, matches, yaku, han, fu, fuBreakdown, baseTotal };
+    }
+  }
 
-  if (yaku.length === 0) {
-    return { error: '役がありません' };
+  if (!best) {
+    return { error: translate(options.locale ?? DEFAULT_LOCALE, 'agari.noYaku'), code: 'noYaku' };
   }
 
-  const allTilesForBonus = getAllTiles(fullHand, melds);
-  const doraBonus = buildDoraYaku(allTilesForBonus, adjustedOptions);
-  yaku.push(...doraBonus);
+  const yaku = [...best.yaku, ...doraBonus];
 
-  // 翻数計算
-  let totalHan = 0;
-  yaku.forEach(y => totalHan += y.han);
-
-  // 符計算
-  const fu = calculateFu(fullHand, winningTile, options.isTsumo, isMenzenHand, options.bakaze, options.jikaze, melds);
-
   // 点数計算
   const scoreBreakdown = calculateFinalScoreWithBonus(
-    totalHan,
-    fu,
+    best.han,
+    best.fu,
     options.isOya,
     options.isTsumo,
     options.honba,
-    options.kyotaku
+    options.kyotaku,
+    rules,
+    countYakuman(best.matches),
+    options.locale
   );
 
-  return { han: totalHan, fu, score: scoreBreakdown.totalText, yaku, scoreBreakdown };
+  return {
+    han: best.han,
+    fu: best.fu,
+    score: scoreBreakdown.totalText,
+    yaku,
+    scoreBreakdown,
+    interpretation: best.interpretation ?? undefined,
+    fuBreakdown: best.fuBreakdown,
+    pao: detectPao(best.matches, melds, options.isOya, rules)
+  };
+}
+
+/**
+ * 13枚の聴牌形から和了牌をすべて列挙し、待ち形・残り枚数・ツモ/ロンそれぞれの点数を求める
+ */
+export function getTenpaiWaits(
+  hand: Tile[],
+  options: AgariOptions,
+  doraIndicators?: Tile[],
+  rules: RuleSet = DEFAULT_RULE_SET
+): TenpaiWait[] {
+  const melds = options.melds || [];
+  const nukidora = Array<Tile>(normalizeCount(options.nukidora)).fill('北');
+  const owned = countTiles(normalizeTiles([...getAllTiles(hand, melds), ...nukidora]));
+  const unseen = countUnseenTiles([...getAllTiles(hand, melds), ...(doraIndicators ?? []), ...nukidora]);
+
+  // 自分の手牌と副露で4枚使っている牌は和了牌にならない
+  return Object.values(getTiles(rules)).flat()
+    .filter(tile => (owned[tile] ?? 0) < 4 && isWinningHand([...hand, tile], melds))
+    .map(tile => ({
+      tile,
+      waitPattern: detectWaitPattern([...hand, tile], tile, melds),
+      remaining: unseen[tile],
+      tsumo: calculateScore(hand, tile, { ...options, isTsumo: true }, rules),
+      ron: calculateScore(hand, tile, { ...options, isTsumo: false }, rules)
+    }));
 }
@@ -0,0 +1,1005 @@
+import {
+  buildHandShapes,
+  formatTileName,
+  normalizeTile,
+  sortHand,
+  TILES,
+  validateMeld,
+  type Meld,
+  type Tile
+} from './mahjong';
+import { DEFAULT_LOCALE, localizeName, translate, type Locale, type MessageParams } from './i18n';
+
+/**
+ * 中国麻雀（国標麻雀・MCR）の点数計算
+ * - 81種の番種と不重複・不拆移・不得相同・一次組合の原則
+ * - 花牌は1枚1番（8番縛りには含めない）
+ * - 手牌・鳴き・和了牌の形式は日本麻雀の計算と共通
+ */
+
+export type McrFanId =
+  // 88番
+  | 'bigFourWinds'
+  | 'bigThreeDragons'
+  | 'allGreen'
+  | 'nineGates'
+  | 'fourKongs'
+  | 'sevenShiftedPairs'
+  | 'thirteenOrphans'
+  // 64番
+  | 'allTerminals'
+  | 'littleFourWinds'
+  | 'littleThreeDragons'
+  | 'allHonors'
+  | 'fourConcealedPungs'
+  | 'pureTerminalChows'
+  // 48番
+  | 'quadrupleChow'
+  | 'fourPureShiftedPungs'
+  // 32番
+  | 'fourPureShiftedChows'
+  | 'threeKongs'
+  | 'allTerminalsAndHonors'
+  // 24番
+  | 'sevenPairs'
+  | 'greaterHonorsAndKnittedTiles'
+  | 'allEvenPungs'
+  | 'fullFlush'
+  | 'pureTripleChow'
+  | 'pureShiftedPungs'
+  | 'upperTiles'
+  | 'middleTiles'
+  | 'lowerTiles'
+  // 16番
+  | 'pureStraight'
+  | 'threeSuitedTerminalChows'
+  | 'pureShiftedChows'
+  | 'allFives'
+  | 'triplePung'
+  | 'threeConcealedPungs'
+  // 12番
+  | 'lesserHonorsAndKnittedTiles'
+  | 'knittedStraight'
+  | 'upperFour'
+  | 'lowerFour'
+  | 'bigThreeWinds'
+  // 8番
+  | 'mixedStraight'
+  | 'reversibleTiles'
+  | 'mixedTripleChow'
+  | 'mixedShiftedPungs'
+  | 'chickenHand'
+  | 'lastTileDraw'
+  | 'lastTileClaim'
+  | 'outWithReplacementTile'
+  | 'robbingTheKong'
+  // 6番
+  | 'allPungs'
+  | 'halfFlush'
+  | 'mixedShiftedChows'
+  | 'allTypes'
+  | 'meldedHand'
+  | 'twoDragonPungs'
+  | 'twoConcealedKongs'
+  // 4番
+  | 'outsideHand'
+  | 'fullyConcealedHand'
+  | 'twoMeldedKongs'
+  | 'lastTile'
+  // 2番
+  | 'dragonPung'
+  | 'prevalentWind'
+  | 'seatWind'
+  | 'concealedHand'
+  | 'allChows'
+  | 'tileHog'
+  | 'doublePung'
+  | 'twoConcealedPungs'
+  | 'concealedKong'
+  | 'allSimples'
+  // 1番
+  | 'pureDoubleChow'
+  | 'mixedDoubleChow'
+  | 'shortStraight'
+  | 'twoTerminalChows'
+  | 'pungOfTerminalsOrHonors'
+  | 'meldedKong'
+  | 'oneVoidedSuit'
+  | 'noHonors'
+  | 'edgeWait'
+  | 'closedWait'
+  | 'singleWait'
+  | 'selfDrawn'
+  | 'flowerTiles';
+
+/**
+ * 番種の定義。excludes は成立したときに数えない番種（不重複の原則）
+ */
+export interface McrFanDefinition {
+  id: McrFanId;
+  name: string;
+  nameEn: string;
+  fan: number;
+  excludes?: McrFanId[];
+}
+
+export const MCR_FAN_DEFINITIONS: McrFanDefinition[] = [
+  {
+    id: 'bigFourWinds',
+    name: '大四喜',
+    nameEn: 'Big Four Winds',
+    fan: 88,
+    excludes: ['bigThreeWinds', 'allPungs', 'prevalentWind', 'seatWind', 'pungOfTerminalsOrHonors']
+  },
+  { id: 'bigThreeDragons', name: '大三元', nameEn: 'Big Three Dragons', fan: 88, excludes: ['dragonPung', 'twoDragonPungs'] },
+  { id: 'allGreen', name: '緑一色', nameEn: 'All Green', fan: 88, excludes: ['halfFlush'] },
+  {
+    id: 'nineGates',
+    name: '九蓮宝燈',
+    nameEn: 'Nine Gates',
+    fan: 88,
+    excludes: ['fullFlush', 'noHonors', 'oneVoidedSuit', 'concealedHand', 'pungOfTerminalsOrHonors']
+  },
+  {
+    id: 'fourKongs',
+    name: '四槓',
+    nameEn: 'Four Kongs',
+    fan: 88,
+    excludes: ['threeKongs', 'allPungs', 'singleWait']
+  },
+  {
+    id: 'sevenShiftedPairs',
+    name: '連七対',
+    nameEn: 'Seven Shifted Pairs',
+    fan: 88,
+    excludes: ['fullFlush', 'noHonors', 'oneVoidedSuit', 'sevenPairs', 'concealedHand', 'fullyConcealedHand', 'singleWait']
+  },
+  {
+    id: 'thirteenOrphans',
+    name: '十三幺',
+    nameEn: 'Thirteen Orphans',
+    fan: 88,
+    excludes: ['allTerminalsAndHonors', 'allTypes', 'concealedHand', 'fullyConcealedHand', 'singleWait']
+  },
+  {
+    id: 'allTerminals',
+    name: '清幺九',
+    nameEn: 'All Terminals',
+    fan: 64,
+    excludes: ['allTerminalsAndHonors', 'allPungs', 'outsideHand', 'pungOfTerminalsOrHonors', 'doublePung', 'noHonors']
+  },
+  { id: 'littleFourWinds', name: '小四喜', nameEn: 'Little Four Winds', fan: 64, excludes: ['bigThreeWinds'] },
+  { id: 'littleThreeDragons', name: '小三元', nameEn: 'Little Three Dragons', fan: 64, excludes: ['dragonPung', 'twoDragonPungs'] },
+  { id: 'allHonors', name: '字一色', nameEn: 'All Honors', fan: 64, excludes: ['allTerminalsAndHonors', 'allPungs', 'outsideHand', 'pungOfTerminalsOrHonors'] },
+  {
+    id: 'fourConcealedPungs',
+    name: '四暗刻',
+    nameEn: 'Four Concealed Pungs',
+    fan: 64,
+    excludes: ['threeConcealedPungs', 'allPungs', 'concealedHand']
+  },
+  {
+    id: 'pureTerminalChows',
+    name: '一色双龍会',
+    nameEn: 'Pure Terminal Chows',
+    fan: 64,
+    excludes: ['fullFlush', 'noHonors', 'oneVoidedSuit', 'allChows', 'pureDoubleChow', 'twoTerminalChows']
+  },
+  {
+    id: 'quadrupleChow',
+    name: '一色四同順',
+    nameEn: 'Quadruple Chow',
+    fan: 48,
+    excludes: ['pureTripleChow', 'pureShiftedPungs', 'pureDoubleChow', 'tileHog']
+  },
+  {
+    id: 'fourPureShiftedPungs',
+    name: '一色四節高',
+    nameEn: 'Four Pure Shifted Pungs',
+    fan: 48,
+    excludes: ['pureShiftedPungs', 'allPungs']
+  },
+  {
+    id: 'fourPureShiftedChows',
+    name: '一色四歩高',
+    nameEn: 'Four Pure Shifted Chows',
+    fan: 32,
+    excludes: ['pureShiftedChows', 'shortStraight', 'twoTerminalChows']
+  },
+  { id: 'threeKongs', name: '三槓', nameEn: 'Three Kongs', fan: 32, excludes: ['twoMeldedKongs', 'twoConcealedKongs'] },
+  {
+    id: 'allTerminalsAndHonors',
+    name: '混幺九',
+    nameEn: 'All Terminals and Honors',
+    fan: 32,
+    excludes: ['allPungs', 'outsideHand', 'pungOfTerminalsOrHonors']
+  },
+  {
+    id: 'sevenPairs',
+    name: '七対',
+    nameEn: 'Seven Pairs',
+    fan: 24,
+    excludes: ['fullyConcealedHand', 'concealedHand', 'singleWait']
+  },
+  {
+    id: 'greaterHonorsAndKnittedTiles',
+    name: '七星不靠',
+    nameEn: 'Greater Honors and Knitted Tiles',
+    fan: 24,
+    excludes: ['lesserHonorsAndKnittedTiles', 'allTypes', 'concealedHand', 'fullyConcealedHand', 'singleWait']
+  },
+  { id: 'allEvenPungs', name: '全双刻', nameEn: 'All Even Pungs', fan: 24, excludes: ['allPungs', 'allSimples', 'noHonors'] },
+  { id: 'fullFlush', name: '清一色', nameEn: 'Full Flush', fan: 24, excludes: ['noHonors', 'oneVoidedSuit'] },
+  { id: 'pureTripleChow', name: '一色三同順', nameEn: 'Pure Triple Chow', fan: 24, excludes: ['pureShiftedPungs', 'pureDoubleChow'] },
+  { id: 'pureShiftedPungs', name: '一色三節高', nameEn: 'Pure Shifted Pungs', fan: 24, excludes: ['pureTripleChow'] },
+  { id: 'upperTiles', name: '全大', nameEn: 'Upper Tiles', fan: 24, excludes: ['upperFour', 'noHonors'] },
+  { id: 'middleTiles', name: '全中', nameEn: 'Middle Tiles', fan: 24, excludes: ['allSimples', 'noHonors'] },
+  { id: 'lowerTiles', name: '全小', nameEn: 'Lower Tiles', fan: 24, excludes: ['lowerFour', 'noHonors'] },
+  { id: 'pureStraight', name: '清龍', nameEn: 'Pure Straight', fan: 16, excludes: ['shortStraight', 'twoTerminalChows'] },
+  {
+    id: 'threeSuitedTerminalChows',
+    name: '三色双龍会',
+    nameEn: 'Three-Suited Terminal Chows',
+    fan: 16,
+    excludes: ['allChows', 'mixedDoubleChow', 'twoTerminalChows', 'noHonors']
+  },
+  { id: 'pureShiftedChows', name: '一色三歩高', nameEn: 'Pure Shifted Chows', fan: 16 },
+  { id: 'allFives', name: '全帯五', nameEn: 'All Fives', fan: 16, excludes: ['allSimples', 'noHonors'] },
+  { id: 'triplePung', name: '三同刻', nameEn: 'Triple Pung', fan: 16, excludes: ['doublePung'] },
+  { id: 'threeConcealedPungs', name: '三暗刻', nameEn: 'Three Concealed Pungs', fan: 16, excludes: ['twoConcealedPungs'] },
+  {
+    id: 'lesserHonorsAndKnittedTiles',
+    name: '全不靠',
+    nameEn: 'Lesser Honors and Knitted Tiles',
+    fan: 12,
+    excludes: ['allTypes', 'concealedHand', 'fullyConcealedHand', 'singleWait']
+  },
+  { id: 'knittedStraight', name: '組合龍', nameEn: 'Knitted Straight', fan: 12 },
+  { id: 'upperFour', name: '大于五', nameEn: 'Upper Four', fan: 12, excludes: ['noHonors'] },
+  { id: 'lowerFour', name: '小于五', nameEn: 'Lower Four', fan: 12, excludes: ['noHonors'] },
+  { id: 'bigThreeWinds', name: '三風刻', nameEn: 'Big Three Winds', fan: 12 },
+  { id: 'mixedStraight', name: '花龍', nameEn: 'Mixed Straight', fan: 8 },
+  { id: 'reversibleTiles', name: '推不倒', nameEn: 'Reversible Tiles', fan: 8, excludes: ['oneVoidedSuit'] },
+  { id: 'mixedTripleChow', name: '三色三同順', nameEn: 'Mixed Triple Chow', fan: 8, excludes: ['mixedDoubleChow'] },
+  { id: 'mixedShiftedPungs', name: '三色三節高', nameEn: 'Mixed Shifted Pungs', fan: 8 },
+  { id: 'chickenHand', name: '無番和', nameEn: 'Chicken Hand', fan: 8 },
+  { id: 'lastTileDraw', name: '妙手回春', nameEn: 'Last Tile Draw', fan: 8, excludes: ['selfDrawn'] },
+  { id: 'lastTileClaim', name: '海底撈月', nameEn: 'Last Tile Claim', fan: 8 },
+  { id: 'outWithReplacementTile', name: '槓上開花', nameEn: 'Out with Replacement Tile', fan: 8, excludes: ['selfDrawn'] },
+  { id: 'robbingTheKong', name: '搶槓和', nameEn: 'Robbing the Kong', fan: 8, excludes: ['lastTile'] },
+  { id: 'allPungs', name: '碰碰和', nameEn: 'All Pungs', fan: 6 },
+  { id: 'halfFlush', name: '混一色', nameEn: 'Half Flush', fan: 6 },
+  { id: 'mixedShiftedChows', name: '三色三歩高', nameEn: 'Mixed Shifted Chows', fan: 6 },
+  { id: 'allTypes', name: '五門斉', nameEn: 'All Types', fan: 6 },
+  { id: 'meldedHand', name: '全求人', nameEn: 'Melded Hand', fan: 6, excludes: ['singleWait'] },
+  { id: 'twoDragonPungs', name: '双箭刻', nameEn: 'Two Dragon Pungs', fan: 6, excludes: ['dragonPung'] },
+  { id: 'twoConcealedKongs', name: '双暗槓', nameEn: 'Two Concealed Kongs', fan: 6, excludes: ['twoConcealedPungs', 'concealedKong'] },
+  { id: 'outsideHand', name: '全帯幺', nameEn: 'Outside Hand', fan: 4 },
+  { id: 'fullyConcealedHand', name: '不求人', nameEn: 'Fully Concealed Hand', fan: 4, excludes: ['concealedHand', 'selfDrawn'] },
+  { id: 'twoMeldedKongs', name: '双明槓', nameEn: 'Two Melded Kongs', fan: 4, excludes: ['meldedKong'] },
+  { id: 'lastTile', name: '和絶張', nameEn: 'Last Tile', fan: 4 },
+  { id: 'dragonPung', name: '箭刻', nameEn: 'Dragon Pung', fan: 2 },
+  { id: 'prevalentWind', name: '圏風刻', nameEn: 'Prevalent Wind', fan: 2 },
+  { id: 'seatWind', name: '門風刻', nameEn: 'Seat Wind', fan: 2 },
+  { id: 'concealedHand', name: '門前清', nameEn: 'Concealed Hand', fan: 2 },
+  { id: 'allChows', name: '平和', nameEn: 'All Chows', fan: 2, excludes: ['noHonors'] },
+  { id: 'tileHog', name: '四帰一', nameEn: 'Tile Hog', fan: 2 },
+  { id: 'doublePung', name: '双同刻', nameEn: 'Double Pung', fan: 2 },
+  { id: 'twoConcealedPungs', name: '双暗刻', nameEn: 'Two Concealed Pungs', fan: 2 },
+  { id: 'concealedKong', name: '暗槓', nameEn: 'Concealed Kong', fan: 2 },
+  { id: 'allSimples', name: '断幺', nameEn: 'All Simples', fan: 2, excludes: ['noHonors'] },
+  { id: 'pureDoubleChow', name: '一般高', nameEn: 'Pure Double Chow', fan: 1 },
+  { id: 'mixedDoubleChow', name: '喜相逢', nameEn: 'Mixed Double Chow', fan: 1 },
+  { id: 'shortStraight', name: '連六', nameEn: 'Short Straight', fan: 1 },
+  { id: 'twoTerminalChows', name: '老少副', nameEn: 'Two Terminal Chows', fan: 1 },
+  { id: 'pungOfTerminalsOrHonors', name: '幺九刻', nameEn: 'Pung of Terminals or Honors', fan: 1 },
+  { id: 'meldedKong', name: '明槓', nameEn: 'Melded Kong', fan: 1 },
+  { id: 'oneVoidedSuit', name: '缺一門', nameEn: 'One Voided Suit', fan: 1 },
+  { id: 'noHonors', name: '無字', nameEn: 'No Honors', fan: 1 },
+  { id: 'edgeWait', name: '辺張', nameEn: 'Edge Wait', fan: 1 },
+  { id: 'closedWait', name: '嵌張', nameEn: 'Closed Wait', fan: 1 },
+  { id: 'singleWait', name: '単調将', nameEn: 'Single Wait', fan: 1 },
+  { id: 'selfDrawn', name: '自摸', nameEn: 'Self-Drawn', fan: 1 },
+  { id: 'flowerTiles', name: '花牌', nameEn: 'Flower Tiles', fan: 1 }
+];
+
+// 和了に必要な番数（花牌を除く）
+export const MCR_MIN_FAN = 8;
+
+export const MCR_MAX_FLOWERS = 8;
+
+/**
+ * 中国麻雀の和了条件
+ * - prevalentWind / seatWind: 圏風・門風（ton / nan / sha / pei）
+ * - isLastTileDraw / isLastTileClaim: 最後の牌でのツモ（妙手回春）・ロン（海底撈月）
+ * - isLastTile: 場に3枚見えている牌での和了（和絶張）
+ */
+export interface McrOptions {
+  isTsumo: boolean;
+  prevalentWind: string;
+  seatWind: string;
+  melds?: Meld[];
+  flowers?: number;
+  isLastTile?: boolean;
+  isLastTileDraw?: boolean;
+  isLastTileClaim?: boolean;
+  isReplacementTile?: boolean;
+  isRobbingKong?: boolean;
+  locale?: Locale;
+}
+
+export interface McrFan {
+  id: McrFanId;
+  name: string;
+  fan: number;
+  count: number;
+}
+
+/**
+ * 支払い。ロンは放銃者が 8 + 番数、他の2人が8点ずつ。ツモは3人が 8 + 番数ずつ
+ */
+export interface McrPayment {
+  discarder: number | null;
+  others: number;
+  total: number;
+}
+
+export interface McrResult {
+  fans: McrFan[];
+  fan: number;
+  payment: McrPayment;
+}
+
+export type McrErrorCode =
+  | 'handSize'
+  | 'missingWinningTile'
+  | 'tooManyMelds'
+  | 'invalidMeld'
+  | 'tileLimit'
+  | 'tooManyFlowers'
+  | 'notWinningHand'
+  | 'belowMinimum';
+
+export interface McrError {
+  error: string;
+  code: McrErrorCode;
+}
+
+type McrSetType = 'chow' | 'pung' | 'kong';
+
+interface McrSet {
+  type: McrSetType;
+  tile: Tile;
+  concealed: boolean;
+}
+
+type McrWait = 'edge' | 'closed' | 'single' | 'other';
+
+type McrForm = 'standard' | 'sevenPairs' | 'thirteenOrphans' | 'honorsAndKnitted' | 'knittedStraight';
+
+/**
+ * 番種を判定する手の解釈（sets は鳴きを含む。組合龍の9枚は sets に含めない）
+ */
+interface McrHand {
+  form: McrForm;
+  sets: McrSet[];
+  pair: Tile | null;
+  wait: McrWait;
+}
+
+const SUITS = ['m', 'p', 's'] as const;
+const WINDS: Tile[] = ['東', '南', '西', '北'];
+const DRAGONS: Tile[] = ['白', '發', '中'];
+const WIND_KEYS: Record<string, Tile> = { ton: '東', nan: '南', sha: '西', pei: '北' };
+const ORPHANS: Tile[] = ['1m', '9m', '1p', '9p', '1s', '9s', ...WINDS, ...DRAGONS];
+const GREEN_TILES: Tile[] = ['2s', '3s', '4s', '6s', '8s', '發'];
+const REVERSIBLE_TILES: Tile[] = ['1p', '2p', '3p', '4p', '5p', '8p', '9p', '2s', '4s', '5s', '6s', '8s', '9s', '白'];
+const ALL_TILE_KINDS: Tile[] = [...TILES.manzu, ...TILES.pinzu, ...TILES.souzu, ...TILES.jihai];
+// 組合龍は147・258・369を別々の色で持つ
+const KNITTED_NUMBERS = [[1, 4, 7], [2, 5, 8], [3, 6, 9]];
+const SUIT_PERMUTATIONS = [['m', 'p', 's'], ['m', 's', 'p'], ['p', 'm', 's'], ['p', 's', 'm'], ['s', 'm', 'p'], ['s', 'p', 'm']];
+
+const isHonor = (tile: Tile) => tile.length === 1;
+const numberOf = (tile: Tile) => (isHonor(tile) ? 0 : Number(tile[0]));
+const suitOf = (tile: Tile) => (isHonor(tile) ? 'z' : tile[1]);
+const isTerminal = (tile: Tile) => !isHonor(tile) && (numberOf(tile) === 1 || numberOf(tile) === 9);
+const isTerminalOrHonor = (tile: Tile) => isHonor(tile) || isTerminal(tile);
+
+const countTiles = (tiles: Tile[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  tiles.forEach(tile => {
+    counts[tile] = (counts[tile] ?? 0) + 1;
+  });
+  return counts;
+};
+
+const getSetTiles = (set: McrSet): Tile[] => {
+  if (set.type !== 'chow') {
+    return Array<Tile>(set.type === 'kong' ? 4 : 3).fill(set.tile);
+  }
+  const start = numberOf(set.tile);
+  return [0, 1, 2].map(offset => `${start + offset}${suitOf(set.tile)}`);
+};
+
+const toMeldSet = (meld: Meld): McrSet => {
+  const tiles = sortHand(meld.tiles.map(normalizeTile));
+  if (meld.type === 'chii') return { type: 'chow', tile: tiles[0], concealed: false };
+  if (meld.type === 'pon') return { type: 'pung', tile: tiles[0], concealed: false };
+  return { type: 'kong', tile: tiles[0], concealed: meld.type === 'ankan' };
+};
+
+// ========== 和了形の列挙 ==========
+
+const getKnittedStraightTiles = (suits: string[]): Tile[] =>
+  KNITTED_NUMBERS.flatMap((numbers, index) => numbers.map(num => `${num}${suits[index]}`));
+
+const removeTiles = (tiles: Tile[], targets: Tile[]): Tile[] | null => {
+  const rest = [...tiles];
+  for (const target of targets) {
+    const index = rest.indexOf(target);
+    if (index === -1) return null;
+    rest.splice(index, 1);
+  }
+  return rest;
+};
+
+const isThirteenOrphans = (tiles: Tile[]) =>
+  tiles.length === 14 && tiles.every(isTerminalOrHonor) && ORPHANS.every(tile => tiles.includes(tile));
+
+// 全不靠: 14枚がすべて異なり、数牌は組合龍の一部、字牌は何でもよい
+const isHonorsAndKnitted = (tiles: Tile[]) => {
+  if (tiles.length !== 14 || new Set(tiles).size !== 14) return false;
+  const numberTiles = tiles.filter(tile => !isHonor(tile));
+  return SUIT_PERMUTATIONS.some(suits => {
+    const knitted = getKnittedStraightTiles(suits);
+    return numberTiles.every(tile => knitted.includes(tile));
+  });
+};
+
+const classifyChowWait = (set: McrSet, winningTile: Tile): McrWait => {
+  const start = numberOf(set.tile);
+  const position = numberOf(winningTile) - start;
+  if (position === 1) return 'closed';
+  if ((position === 2 && start === 1) || (position === 0 && start === 7)) return 'edge';
+  return 'other';
+};
+
+/**
+ * 門前の牌（和了牌を含む）を面子に分解し、和了牌の当て方ごとに解釈を作る
+ */
+function buildStandardHands(closedTiles: Tile[], meldSets: McrSet[], winningTile: Tile, isTsumo: boolean, form: McrForm): McrHand[] {
+  const hands: McrHand[] = [];
+  buildHandShapes(closedTiles).forEach(shape => {
+    if (shape.melds.length + meldSets.length !== (form === 'knittedStraight' ? 1 : 4)) return;
+    const closedSets: McrSet[] = shape.melds.map(meld => ({
+      type: meld.type === 'shuntsu' ? 'chow' : 'pung',
+      tile: meld.tiles[0],
+      concealed: true
+    }));
+
+    if (shape.pair === winningTile) {
+      hands.push({ form, sets: [...closedSets, ...meldSets], pair: shape.pair, wait: 'single' });
+    }
+    closedSets.forEach((set, index) => {
+      if (!getSetTiles(set).includes(winningTile)) return;
+      const sets = [...closedSets];
+      // ロンで完成した刻子は明刻として扱う
+      if (set.type !== 'chow' && !isTsumo) {
+        sets[index] = { ...set, concealed: false };
+      }
+      const wait = set.type === 'chow' ? classifyChowWait(set, winningTile) : 'other';
+      hands.push({ form, sets: [...sets, ...meldSets], pair: shape.pair, wait });
+    });
+  });
+  return hands;
+}
+
+function buildMcrHands(closedTiles: Tile[], melds: Meld[], winningTile: Tile, isTsumo: boolean): McrHand[] {
+  const meldSets = melds.map(toMeldSet);
+  const hands = buildStandardHands(closedTiles, meldSets, winningTile, isTsumo, 'standard');
+
+  if (melds.length === 0) {
+    const counts = countTiles(closedTiles);
+    if (closedTiles.length === 14 && Object.values(counts).every(count => count % 2 === 0)) {
+      hands.push({ form: 'sevenPairs', sets: [], pair: null, wait: 'single' });
+    }
+    if (isThirteenOrphans(closedTiles)) {
+      hands.push({ form: 'thirteenOrphans', sets: [], pair: null, wait: 'other' });
+    }
+    if (isHonorsAndKnitted(closedTiles)) {
+      hands.push({ form: 'honorsAndKnitted', sets: [], pair: null, wait: 'other' });
+    }
+  }
+
+  // 組合龍 + 1面子 + 雀頭（組合龍の中の和了牌には待ちの番種をつけない）
+  if (melds.length <= 1) {
+    SUIT_PERMUTATIONS.forEach(suits => {
+      const rest = removeTiles(closedTiles, getKnittedStraightTiles(suits));
+      if (!rest) return;
+      const restHands = buildStandardHands(rest, meldSets, winningTile, isTsumo, 'knittedStraight');
+      if (restHands.length > 0) {
+        hands.push(...restHands);
+      } else {
+        buildHandShapes(rest).forEach(shape => {
+          if (shape.melds.length + meldSets.length !== 1) return;
+          const sets: McrSet[] = shape.melds.map(meld => ({
+            type: meld.type === 'shuntsu' ? 'chow' : 'pung',
+            tile: meld.tiles[0],
+            concealed: true
+          }));
+          hands.push({ form: 'knittedStraight', sets: [...sets, ...meldSets], pair: shape.pair, wait: 'other' });
+        });
+      }
+    });
+  }
+
+  return hands;
+}
+
+/**
+ * 門前の14枚と鳴きが中国麻雀の和了形（通常形・七対・十三幺・全不靠・組合龍）かを調べる
+ */
+export function isMcrWinningHand(tiles: Tile[], melds: Meld[] = []): boolean {
+  const closedTiles = tiles.map(normalizeTile);
+  return buildMcrHands(closedTiles, melds, closedTiles[closedTiles.length - 1], true).length > 0;
+}
+
+// ========== 番種の判定 ==========
+
+type FanCounts = Partial<Record<McrFanId, number>>;
+
+const CHOW_PAIR_FANS = ['pureDoubleChow', 'mixedDoubleChow', 'shortStraight', 'twoTerminalChows'] as const;
+type ChowPairFan = (typeof CHOW_PAIR_FANS)[number];
+
+const getChowPairFan = (a: McrSet, b: McrSet): ChowPairFan | null => {
+  const [na, nb] = [numberOf(a.tile), numberOf(b.tile)];
+  if (suitOf(a.tile) !== suitOf(b.tile)) {
+    return na === nb ? 'mixedDoubleChow' : null;
+  }
+  if (na === nb) return 'pureDoubleChow';
+  if (Math.abs(na - nb) === 3) return 'shortStraight';
+  if (Math.abs(na - nb) === 6) return 'twoTerminalChows';
+  return null;
+};
+
+const getChowTripleFan = (chows: McrSet[]): McrFanId | null => {
+  const sorted = [...chows].sort((a, b) => numberOf(a.tile) - numberOf(b.tile));
+  const numbers = sorted.map(set => numberOf(set.tile));
+  const suits = new Set(sorted.map(set => suitOf(set.tile)));
+  const steps = [numbers[1] - numbers[0], numbers[2] - numbers[1]];
+  const isStraight = numbers.join('') === '147';
+
+  if (suits.size === 1) {
+    if (steps[0] === 0 && steps[1] === 0) return 'pureTripleChow';
+    if (isStraight) return 'pureStraight';
+    if (steps[0] === steps[1] && (steps[0] === 1 || steps[0] === 2)) return 'pureShiftedChows';
+    return null;
+  }
+  if (suits.size === 3) {
+    if (steps[0] === 0 && steps[1] === 0) return 'mixedTripleChow';
+    if (isStraight) return 'mixedStraight';
+    if (steps[0] === 1 && steps[1] === 1) return 'mixedShiftedChows';
+  }
+  return null;
+};
+
+const getChowQuadrupleFan = (chows: McrSet[], pair: Tile | null): McrFanId | null => {
+  const suits = new Set(chows.map(set => suitOf(set.tile)));
+  const numbers = chows.map(set => numberOf(set.tile)).sort((a, b) => a - b);
+  if (suits.size === 1) {
+    const steps = numbers.slice(1).map((num, index) => num - numbers[index]);
+    if (steps.every(step => step === 0)) return 'quadrupleChow';
+    if (steps.every(step => step === steps[0]) && (steps[0] === 1 || steps[0] === 2)) return 'fourPureShiftedChows';
+    const suit = [...suits][0];
+    if (numbers.join('') === '1177' && pair === `5${suit}`) return 'pureTerminalChows';
+    return null;
+  }
+  // 三色双龍会: 2色の老少副と残りの色の5の雀頭
+  if (suits.size === 2 && pair && !isHonor(pair) && numberOf(pair) === 5 && !suits.has(suitOf(pair))) {
+    const isTerminalPair = [...suits].every(suit => {
+      const suitNumbers = chows.filter(set => suitOf(set.tile) === suit).map(set => numberOf(set.tile)).sort();
+      return suitNumbers.join('') === '17';
+    });
+    if (isTerminalPair) return 'threeSuitedTerminalChows';
+  }
+  return null;
+};
+
+/**
+ * 順子2つの組み合わせの番種を一次組合の原則で数える
+ * 同じ面子は2回までしか組み合わせられず、3つの面子で輪になる組み合わせ（重複）は数えない
+ */
+const countChowPairFans = (chows: McrSet[]): FanCounts => {
+  const edges: { a: number; b: number; fan: ChowPairFan }[] = [];
+  for (let a = 0; a < chows.length; a++) {
+    for (let b = a + 1; b < chows.length; b++) {
+      const fan = getChowPairFan(chows[a], chows[b]);
+      if (fan) edges.push({ a, b, fan });
+    }
+  }
+
+  let best: typeof edges = [];
+  for (let mask = 1; mask < 1 << edges.length; mask++) {
+    const selected = edges.filter((_, index) => mask & (1 << index));
+    if (selected.length <= best.length) continue;
+    const degree = chows.map(() => 0);
+    const root = chows.map((_, index) => index);
+    const find = (index: number): number => (root[index] === index ? index : (root[index] = find(root[index])));
+    const isValid = selected.every(({ a, b }) => {
+      degree[a]++;
+      degree[b]++;
+      const [ra, rb] = [find(a), find(b)];
+      if (ra === rb) return false;
+      root[ra] = rb;
+      return degree[a] <= 2 && degree[b] <= 2;
+    });
+    if (isValid) best = selected;
+  }
+
+  const counts: FanCounts = {};
+  best.forEach(({ fan }) => {
+    counts[fan] = (counts[fan] ?? 0) + 1;
+  });
+  return counts;
+};
+
+/**
+ * 順子の組み合わせの番種（4面子 → 3面子 → 2面子の順に、高い番種を優先する）
+ */
+function countChowFans(chows: McrSet[], pair: Tile | null): FanCounts {
+  if (chows.length === 4) {
+    const quadruple = getChowQuadrupleFan(chows, pair);
+    if (quadruple) return { [quadruple]: 1 };
+  }
+
+  if (chows.length >= 3) {
+    let best: { fan: McrFanId; rest: McrSet | null; others: McrSet[] } | null = null;
+    for (let skip = chows.length === 4 ? 0 : -1; skip < chows.length; skip++) {
+      if (chows.length === 4 && skip === -1) continue;
+      const subset = chows.filter((_, index) => index !== skip);
+      const fan = getChowTripleFan(subset);
+      if (!fan) continue;
+      if (!best || getFanValue(fan) > getFanValue(best.fan)) {
+        best = { fan, rest: skip >= 0 ? chows[skip] : null, others: subset };
+      }
+    }
+    if (best) {
+      const counts: FanCounts = { [best.fan]: 1 };
+      // 残りの順子は3つのうちどれか1つと一度だけ組み合わせられる
+      const rest = best.rest;
+      const extra = rest ? best.others.map(set => getChowPairFan(rest, set)).find(Boolean) : null;
+      if (extra) counts[extra] = 1;
+      return counts;
+    }
+  }
+
+  return countChowPairFans(chows);
+}
+
+const getFanValue = (id: McrFanId) => MCR_FAN_DEFINITIONS.find(definition => definition.id === id)?.fan ?? 0;
+
+/**
+ * 刻子（槓子を含む）の組み合わせの番種
+ */
+function countPungFans(pungs: McrSet[]): FanCounts {
+  const counts: FanCounts = {};
+  const numberPungs = pungs.filter(set => !isHonor(set.tile));
+
+  SUITS.forEach(suit => {
+    const numbers = numberPungs.filter(set => suitOf(set.tile) === suit).map(set => numberOf(set.tile)).sort();
+    const runs = numbers.filter((num, index) => index > 0 && num === numbers[index - 1] + 1).length;
+    if (numbers.length === 4 && runs === 3) counts.fourPureShiftedPungs = 1;
+    else if (runs >= 2) counts.pureShiftedPungs = 1;
+  });
+
+  const suitsByNumber: Record<number, Set<string>> = {};
+  numberPungs.forEach(set => {
+    (suitsByNumber[numberOf(set.tile)] ??= new Set()).add(suitOf(set.tile));
+  });
+  Object.values(suitsByNumber).forEach(suits => {
+    if (suits.size === 3) counts.triplePung = 1;
+    if (suits.size === 2) counts.doublePung = (counts.doublePung ?? 0) + 1;
+  });
+
+  // 三色三節高: 3色で数字が1つずつずれた刻子
+  for (let start = 1; start <= 7; start++) {
+    const hasShift = SUIT_PERMUTATIONS.some(suits =>
+      suits.every((suit, offset) => suitsByNumber[start + offset]?.has(suit))
+    );
+    if (hasShift) counts.mixedShiftedPungs = 1;
+  }
+  return counts;
+}
+
+const isNineGates = (handTiles: Tile[]) => {
+  if (handTiles.length !== 13 || handTiles.some(isHonor)) return false;
+  const suits = new Set(handTiles.map(suitOf));
+  if (suits.size !== 1) return false;
+  const counts = countTiles(handTiles.map(tile => String(numberOf(tile))));
+  return [3, 1, 1, 1, 1, 1, 1, 1, 3].every((count, index) => counts[String(index + 1)] === count);
+};
+
+const isSevenShiftedPairs = (tiles: Tile[]) => {
+  const kinds = sortHand([...new Set(tiles)]);
+  if (kinds.length !== 7 || kinds.some(isHonor) || new Set(kinds.map(suitOf)).size !== 1) return false;
+  return kinds.every((tile, index) => index === 0 || numberOf(tile) === numberOf(kinds[index - 1]) + 1);
+};
+
+const hasKnittedStraight = (tiles: Tile[]) =>
+  SUIT_PERMUTATIONS.some(suits => getKnittedStraightTiles(suits).every(tile => tiles.includes(tile)));
+
+interface McrContext {
+  options: McrOptions;
+  winningTile: Tile;
+  handTiles: Tile[];
+  allTiles: Tile[];
+  melds: Meld[];
+  hasSingleWinningTile: boolean;
+}
+
+/**
+ * 牌の種類だけで決まる番種（一色・断幺・五門斉など）
+ */
+function countTileFans(tiles: Tile[], counts: FanCounts) {
+  const numberTiles = tiles.filter(tile => !isHonor(tile));
+  const suits = new Set(numberTiles.map(suitOf));
+  const hasHonors = numberTiles.length < tiles.length;
+  const numbers = numberTiles.map(numberOf);
+  const within = (min: number, max: number) =>
+    !hasHonors && numbers.every(num => num >= min && num <= max);
+
+  if (suits.size === 1) counts[hasHonors ? 'halfFlush' : 'fullFlush'] = 1;
+  if (suits.size === 0) counts.allHonors = 1;
+  if (suits.size === 2) counts.oneVoidedSuit = 1;
+  if (!hasHonors) counts.noHonors = 1;
+  if (suits.size === 3 && tiles.some(tile => WINDS.includes(tile)) && tiles.some(tile => DRAGONS.includes(tile))) {
+    counts.allTypes = 1;
+  }
+  if (tiles.every(isTerminal)) counts.allTerminals = 1;
+  else if (tiles.every(isTerminalOrHonor) && suits.size > 0 && hasHonors) counts.allTerminalsAndHonors = 1;
+  if (tiles.every(tile => !isTerminalOrHonor(tile))) counts.allSimples = 1;
+  if (tiles.every(tile => GREEN_TILES.includes(tile))) counts.allGreen = 1;
+  if (tiles.every(tile => REVERSIBLE_TILES.includes(tile))) counts.reversibleTiles = 1;
+  if (within(7, 9)) counts.upperTiles = 1;
+  else if (within(6, 9)) counts.upperFour = 1;
+  if (within(4, 6)) counts.middleTiles = 1;
+  if (within(1, 3)) counts.lowerTiles = 1;
+  else if (within(1, 4)) counts.lowerFour = 1;
+}
+
+/**
+ * 面子の構成で決まる番種（刻子・槓子・順子の組み合わせ・全帯幺など）
+ */
+function countSetFans(hand: McrHand, context: McrContext, counts: FanCounts) {
+  const { sets, pair } = hand;
+  const { options } = context;
+  const pungs = sets.filter(set => set.type !== 'chow');
+  const chows = sets.filter(set => set.type === 'chow');
+  const isStandard = hand.form === 'standard';
+
+  // 九蓮宝燈は面子の分け方によらないので、刻子・順子の番種は数えない
+  if (isStandard && context.melds.length === 0 && isNineGates(context.handTiles)) {
+    counts.nineGates = 1;
+    return;
+  }
+
+  if (isStandard && pungs.length === 4) counts.allPungs = 1;
+  if (chows.length === sets.length && pair && !isHonor(pair)) counts.allChows = 1;
+  if (isStandard && pair) {
+    const groups = [...sets.map(getSetTiles), [pair]];
+    if (groups.every(tiles => tiles.some(isTerminalOrHonor))) counts.outsideHand = 1;
+    if (groups.every(tiles => tiles.some(tile => numberOf(tile) === 5))) counts.allFives = 1;
+    if (pungs.length === 4 && groups.every(tiles => !isHonor(tiles[0]) && numberOf(tiles[0]) % 2 === 0)) {
+      counts.allEvenPungs = 1;
+    }
+  }
+
+  const dragonPungs = pungs.filter(set => DRAGONS.includes(set.tile)).length;
+  const windPungs = pungs.filter(set => WINDS.includes(set.tile)).length;
+  const pairIs = (group: Tile[]) => Boolean(pair && group.includes(pair));
+  if (dragonPungs === 3) counts.bigThreeDragons = 1;
+  else if (dragonPungs === 2 && pairIs(DRAGONS)) counts.littleThreeDragons = 1;
+  else if (dragonPungs === 2) counts.twoDragonPungs = 1;
+  else if (dragonPungs === 1) counts.dragonPung = 1;
+  if (windPungs === 4) counts.bigFourWinds = 1;
+  else if (windPungs === 3 && pairIs(WINDS)) counts.littleFourWinds = 1;
+  else if (windPungs === 3) counts.bigThreeWinds = 1;
+
+  const prevalent = WIND_KEYS[options.prevalentWind];
+  const seat = WIND_KEYS[options.seatWind];
+  if (pungs.some(set => set.tile === prevalent)) counts.prevalentWind = 1;
+  if (pungs.some(set => set.tile === seat)) counts.seatWind = 1;
+  // 箭刻・圏風刻・門風刻・風牌の組み合わせに使った刻子は幺九刻にしない
+  const plainOrphanPungs = pungs.filter(set =>
+    isTerminal(set.tile)
+    || (WINDS.includes(set.tile) && windPungs < 3 && set.tile !== prevalent && set.tile !== seat)
+  ).length;
+  if (plainOrphanPungs > 0) counts.pungOfTerminalsOrHonors = plainOrphanPungs;
+
+  const concealedPungs = pungs.filter(set => set.concealed).length;
+  if (concealedPungs === 4) counts.fourConcealedPungs = 1;
+  else if (concealedPungs === 3) counts.threeConcealedPungs = 1;
+  else if (concealedPungs === 2) counts.twoConcealedPungs = 1;
+
+  const kongs = sets.filter(set => set.type === 'kong');
+  const concealedKongs = kongs.filter(set => set.concealed).length;
+  const meldedKongs = kongs.length - concealedKongs;
+  if (kongs.length === 4) counts.fourKongs = 1;
+  else if (kongs.length === 3) counts.threeKongs = 1;
+  else {
+    if (concealedKongs === 2) counts.twoConcealedKongs = 1;
+    else if (concealedKongs === 1) counts.concealedKong = 1;
+    if (meldedKongs === 2) counts.twoMeldedKongs = 1;
+    else if (meldedKongs === 1) counts.meldedKong = 1;
+  }
+
+  Object.assign(counts, countPungFans(pungs), countChowFans(chows, pair));
+
+}
+
+function detectFans(hand: McrHand, context: McrContext): FanCounts {
+  const { options, allTiles } = context;
+  const counts: FanCounts = {};
+  countTileFans(allTiles, counts);
+
+  switch (hand.form) {
+    case 'sevenPairs':
+      counts[isSevenShiftedPairs(allTiles) ? 'sevenShiftedPairs' : 'sevenPairs'] = 1;
+      break;
+    case 'thirteenOrphans':
+      counts.thirteenOrphans = 1;
+      break;
+    case 'honorsAndKnitted':
+      counts[WINDS.concat(DRAGONS).every(tile => allTiles.includes(tile))
+        ? 'greaterHonorsAndKnittedTiles'
+        : 'lesserHonorsAndKnittedTiles'] = 1;
+      if (hasKnittedStraight(allTiles)) counts.knittedStraight = 1;
+      break;
+    case 'knittedStraight':
+      counts.knittedStraight = 1;
+      countSetFans(hand, context, counts);
+      break;
+    default:
+      countSetFans(hand, context, counts);
+  }
+
+  // 四帰一: 槓子にしていない同じ牌4枚
+  const kongTiles = hand.sets.filter(set => set.type === 'kong').map(set => set.tile);
+  const tileCounts = countTiles(allTiles);
+  const hogs = Object.keys(tileCounts).filter(tile => tileCounts[tile] === 4 && !kongTiles.includes(tile)).length;
+  if (hogs > 0) counts.tileHog = hogs;
+
+  const isConcealed = context.melds.every(meld => meld.type === 'ankan');
+  if (isConcealed) {
+    counts[options.isTsumo ? 'fullyConcealedHand' : 'concealedHand'] = 1;
+  }
+  if (context.melds.length === 4 && context.melds.every(meld => meld.type !== 'ankan') && !options.isTsumo) {
+    counts.meldedHand = 1;
+  }
+  if (options.isTsumo) counts.selfDrawn = 1;
+
+  // 待ちの番種は和了牌が1種類だけのときに数える
+  if (context.hasSingleWinningTile) {
+    if (hand.wait === 'edge') counts.edgeWait = 1;
+    if (hand.wait === 'closed') counts.closedWait = 1;
+    if (hand.wait === 'single') counts.singleWait = 1;
+  }
+
+  if (options.isLastTileDraw && options.isTsumo) counts.lastTileDraw = 1;
+  if (options.isLastTileClaim && !options.isTsumo) counts.lastTileClaim = 1;
+  if (options.isReplacementTile && options.isTsumo) counts.outWithReplacementTile = 1;
+  if (options.isRobbingKong && !options.isTsumo) counts.robbingTheKong = 1;
+  if (options.isLastTile) counts.lastTile = 1;
+
+  return applyExclusions(counts);
+}
+
+/**
+ * 成立した番種が含む番種を除く（高い番種から順に見て、除かれた番種の excludes は使わない）
+ */
+function applyExclusions(counts: FanCounts): FanCounts {
+  const excluded = new Set<McrFanId>();
+  MCR_FAN_DEFINITIONS.forEach(definition => {
+    if (!counts[definition.id] || excluded.has(definition.id)) return;
+    definition.excludes?.forEach(target => excluded.add(target));
+  });
+
+  const result: FanCounts = {};
+  (Object.keys(counts) as McrFanId[])
+    .filter(id => !excluded.has(id))
+    .forEach(id => {
+      result[id] = counts[id];
+    });
+  if (Object.keys(result).length === 0) {
+    result.chickenHand = 1;
+  }
+  return result;
+}
+
+const sumFans = (counts: FanCounts) =>
+  (Object.keys(counts) as McrFanId[]).reduce((sum, id) => sum + getFanValue(id) * (counts[id] ?? 0), 0);
+
+// ========== 点数計算 ==========
+
+const getWinningTileKinds = (hand: Tile[], melds: Meld[], usedTiles: Tile[]) => {
+  const used = countTiles(usedTiles);
+  return ALL_TILE_KINDS.filter(tile => (used[tile] ?? 0) < 4 && isMcrWinningHand([...hand, tile], melds));
+};
+
+/**
+ * 中国麻雀の番数と支払いを求める（花牌を除いて8番に満たない場合はエラー）
+ */
+export function calculateMcrScore(hand: Tile[], winningTile: Tile | null, options: McrOptions): McrResult | McrError {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const fail = (code: McrErrorCode, key: Parameters<typeof translate>[1], params?: MessageParams): McrError => ({
+    code,
+    error: translate(locale, key, params)
+  });
+  const melds = options.melds ?? [];
+  const expectedHandSize = 13 - melds.length * 3;
+  const flowers = Math.max(0, Math.floor(options.flowers ?? 0));
+
+  if (melds.length > 4) return fail('tooManyMelds', 'agari.tooManyMelds');
+  if (hand.length !== expectedHandSize) {
+    return fail('handSize', 'agari.handSize', { count: expectedHandSize, melds: melds.length });
+  }
+  if (!winningTile) return fail('missingWinningTile', 'agari.missingWinningTile');
+  for (const meld of melds) {
+    const issue = validateMeld(meld, locale);
+    if (issue) return { code: 'invalidMeld', error: issue.message };
+  }
+  if (flowers > MCR_MAX_FLOWERS) {
+    return fail('tooManyFlowers', 'mcr.tooManyFlowers', { max: MCR_MAX_FLOWERS });
+  }
+
+  const handTiles = hand.map(normalizeTile);
+  const normalizedWinning = normalizeTile(winningTile);
+  const closedTiles = [...handTiles, normalizedWinning];
+  const meldTiles = melds.flatMap(meld => meld.tiles.map(normalizeTile));
+  const allTiles = [...closedTiles, ...meldTiles];
+  const tileCounts = countTiles(allTiles);
+  const overLimit = sortHand(Object.keys(tileCounts)).filter(tile => tileCounts[tile] > 4);
+  if (overLimit.length > 0) {
+    const tiles = overLimit.map(tile => formatTileName(tile, locale)).join(locale === 'en' ? ', ' : '・');
+    return fail('tileLimit', 'agari.tileLimit', { tiles });
+  }
+
+  const hands = buildMcrHands(closedTiles, melds, normalizedWinning, options.isTsumo);
+  if (hands.length === 0) return fail('notWinningHand', 'agari.notWinningHand');
+
+  // 槓子は4枚目を除いた3枚で牌の種類を判定する
+  const context: McrContext = {
+    options,
+    winningTile: normalizedWinning,
+    handTiles,
+    allTiles: [...closedTiles, ...melds.flatMap(meld => meld.tiles.slice(0, 3).map(normalizeTile))],
+    melds,
+    hasSingleWinningTile: getWinningTileKinds(handTiles, melds, [...handTiles, ...meldTiles]).length === 1
+  };
+
+  // 解釈ごとに番種を数え、最も高い番数になる解釈を採用する
+  let best: FanCounts | null = null;
+  for (const mcrHand of hands) {
+    const counts = detectFans(mcrHand, context);
+    if (!best || sumFans(counts) > sumFans(best)) best = counts;
+  }
+  const fanCounts = best ?? {};
+  const handFan = sumFans(fanCounts);
+  if (handFan < MCR_MIN_FAN) {
+    return fail('belowMinimum', 'mcr.belowMinimum', { fan: handFan, min: MCR_MIN_FAN });
+  }
+  if (flowers > 0) fanCounts.flowerTiles = flowers;
+
+  const fans = MCR_FAN_DEFINITIONS
+    .filter(definition => fanCounts[definition.id])
+    .map(definition => {
+      const count = fanCounts[definition.id] ?? 0;
+      return { id: definition.id, name: localizeName(definition, locale), fan: definition.fan * count, count };
+    });
+  const fan = handFan + flowers;
+  const payment: McrPayment = options.isTsumo
+    ? { discarder: null, others: MCR_MIN_FAN + fan, total: (MCR_MIN_FAN + fan) * 3 }
+    : { discarder: MCR_MIN_FAN + fan, others: MCR_MIN_FAN, total: MCR_MIN_FAN * 3 + fan };
+
+  return { fans, fan, payment };
+}
@@ -0,0 +1,361 @@
+import { DEFAULT_LOCALE, translate, type Locale, type MessageParams } from './i18n';
+import { isRedFive, normalizeTile, type Meld, type MeldSource, type MeldType, type Tile } from './mahjong';
+
+/**
+ * 牌姿の表記（MPSZ表記）
+ * - 数牌: 123m456p789s（0 は赤五。牌としても '0m' / '0p' / '0s' になる）
+ * - 字牌: 1z〜7z（東南西北白發中）、または 東南西北白發中 をそのまま記述
+ * - 鳴き: [123m] チー / [555p] ポン / [5555p] 明槓 / <5555p> 加槓 / (5555p)・(555p) 暗槓
+ *   最初に書いた牌が鳴いた牌。@k / @t / @s（上家・対面・下家）で鳴いた相手を指定する（チーは上家）
+ * - 和了牌: 末尾に +5p のように記述
+ * - ドラ表示牌: 「ドラ」「dora:」の後に記述
+ * - 日本語表記（一萬・①・1索・赤五筒 など）も数牌として読み取る
+ */
+export interface HandNotation {
+  tiles: Tile[];
+  melds: Meld[];
+  winningTile: Tile | null;
+  doraIndicators: Tile[];
+}
+
+/**
+ * 読み取りエラー（start / end は入力文字列中の該当箇所）
+ */
+export interface NotationError {
+  error: string;
+  start: number;
+  end: number;
+}
+
+const HONOR_TILES: Tile[] = ['東', '南', '西', '北', '白', '發', '中'];
+
+const HONOR_ALIASES: Record<string, Tile> = {
+  ton: '東',
+  nan: '南',
+  sha: '西',
+  pei: '北',
+  haku: '白',
+  hatsu: '發',
+  chun: '中',
+  '発': '發'
+};
+
+const SUIT_ORDER = ['m', 'p', 's', 'z'];
+
+const SOURCE_MARKERS: Record<string, MeldSource> = {
+  k: 'kamicha',
+  t: 'toimen',
+  s: 'shimocha',
+  '上': 'kamicha',
+  '上家': 'kamicha',
+  '対': 'toimen',
+  '対面': 'toimen',
+  '下': 'shimocha',
+  '下家': 'shimocha'
+};
+
+const KANJI_NUMBERS: Record<string, string> = {
+  '一': '1', '二': '2', '三': '3', '四': '4', '五': '5', '六': '6', '七': '7', '八': '8', '九': '9'
+};
+
+const JAPANESE_SUITS: Record<string, string> = {
+  '萬': 'm', '万': 'm', 'マン': 'm', '筒': 'p', 'ピン': 'p', '索': 's', 'ソウ': 's', 'ソー': 's'
+};
+
+// 全角の英数字・括弧は半角にする（文字数は変わらない）
+const toHalfWidth = (text: string) =>
+  text.replace(/[０-９ａ-ｚＡ-Ｚ［］（）＜＞＋：＠]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+
+const DORA_MARKER = /(ドラ表示牌|ドラ表示|ドラ|dora)\s*[:：]?/i;
+
+type NotationErrorCode =
+  | 'missingDigits'
+  | 'missingSuit'
+  | 'invalidTile'
+  | 'invalidChar'
+  | 'invalidMeld'
+  | 'invalidSource'
+  | 'unmatchedBracket'
+  | 'winningTile';
+
+const notationError = (locale: Locale, code: NotationErrorCode, params?: MessageParams) =>
+  translate(locale, `notation.error.${code}`, params);
+
+/**
+ * 日本語の牌表記（一萬・①・1索・赤五筒 など）をMPSZ表記に置き換える
+ */
+export function normalizeJapaneseNotation(text: string): string {
+  return toHalfWidth(text)
+    .replace(/[①-⑨]/g, char => `${char.charCodeAt(0) - 0x2460 + 1}p`)
+    .replace(/赤\s*(五|5)/g, '0')
+    .replace(/[一二三四五六七八九]/g, char => KANJI_NUMBERS[char])
+    .replace(/([0-9])(萬|万|マン|筒|ピン|索|ソウ|ソー)/g, (_, digit: string, suit: string) => `${digit}${JAPANESE_SUITS[suit]}`);
+}
+
+const isKanjiHonor = (char: string) => HONOR_TILES.includes(char) || char === '発';
+
+const toHonor = (char: string): Tile => HONOR_ALIASES[char] ?? char;
+
+/**
+ * 1枚分の表記を牌に変換する（'5m'、'0p'、'3z'、'東'、'ton' など）
+ */
+export function parseTileCode(value: string): Tile | null {
+  const raw = value.trim();
+  if (!raw) return null;
+  const lower = raw.toLowerCase();
+
+  if (HONOR_ALIASES[lower]) {
+    return HONOR_ALIASES[lower];
+  }
+  if (raw.length === 1 && isKanjiHonor(raw)) {
+    return toHonor(raw);
+  }
+  const parsed = parseTileGroup(lower);
+  return parsed && parsed.length === 1 ? parsed[0] : null;
+}
+
+/**
+ * 数字の並び + 色（'123m' や '11z'）を牌の配列に変換する
+ */
+function parseTileGroup(group: string): Tile[] | null {
+  const match = /^([0-9]+)([mpsz])$/.exec(group);
+  if (!match) return null;
+  const [, digits, suit] = match;
+  const tiles: Tile[] = [];
+  for (const digit of digits) {
+    const num = Number(digit);
+    if (suit === 'z') {
+      if (num < 1 || num > 7) return null;
+      tiles.push(HONOR_TILES[num - 1]);
+    } else {
+      tiles.push(`${num}${suit}`);
+    }
+  }
+  return tiles;
+}
+
+/**
+ * 区切りのない牌の並び（'123m東東東' など）を牌の配列に変換する
+ */
+function parseTileSequence(text: string, locale: Locale): Tile[] | { error: string } {
+  const tiles: Tile[] = [];
+  let pendingDigits = '';
+  for (const char of text) {
+    if (/[0-9]/.test(char)) {
+      pendingDigits += char;
+      continue;
+    }
+    const lower = char.toLowerCase();
+    if (SUIT_ORDER.includes(lower)) {
+      if (!pendingDigits) {
+        return { error: notationError(locale, 'missingDigits', { char }) };
+      }
+      const group = parseTileGroup(`${pendingDigits}${lower}`);
+      if (!group) {
+        return { error: notationError(locale, 'invalidTile', { text: `${pendingDigits}${lower}` }) };
+      }
+      tiles.push(...group);
+      pendingDigits = '';
+      continue;
+    }
+    if (isKanjiHonor(char)) {
+      if (pendingDigits) {
+        return { error: notationError(locale, 'missingSuit', { digits: pendingDigits }) };
+      }
+      tiles.push(toHonor(char));
+      continue;
+    }
+    return { error: notationError(locale, 'invalidChar', { char }) };
+  }
+  if (pendingDigits) {
+    return { error: notationError(locale, 'missingSuit', { digits: pendingDigits }) };
+  }
+  return tiles;
+}
+
+const isSameTile = (tiles: Tile[]) => tiles.every(tile => normalizeTile(tile) === normalizeTile(tiles[0]));
+
+const isSequence = (tiles: Tile[]) => {
+  if (tiles.length !== 3 || tiles.some(tile => tile.length !== 2)) return false;
+  const suit = tiles[0][1];
+  const nums = tiles.map(tile => Number(normalizeTile(tile)[0])).sort((a, b) => a - b);
+  return tiles.every(tile => tile[1] === suit) && nums[1] === nums[0] + 1 && nums[2] === nums[1] + 1;
+};
+
+type MeldBracket = '[' | '(' | '<';
+
+function toMeld(
+  tiles: Tile[],
+  bracket: MeldBracket,
+  from: MeldSource | undefined,
+  source: string,
+  locale: Locale
+): Meld | { error: string } {
+  let type: MeldType | null = null;
+  let meldTiles = tiles;
+  if (bracket === '(') {
+    // 暗槓は (555p) のように3枚で省略して書いてもよい
+    if ((tiles.length === 3 || tiles.length === 4) && isSameTile(tiles) && !from) {
+      type = 'ankan';
+      meldTiles = tiles.length === 3 ? [...tiles, normalizeTile(tiles[0])] : tiles;
+    }
+  } else if (bracket === '<') {
+    if (tiles.length === 4 && isSameTile(tiles)) type = 'kakan';
+  } else if (tiles.length === 3 && isSequence(tiles)) {
+    type = from && from !== 'kamicha' ? null : 'chii';
+  } else if (tiles.length === 3 && isSameTile(tiles)) {
+    type = 'pon';
+  } else if (tiles.length === 4 && isSameTile(tiles)) {
+    type = 'minkan';
+  }
+
+  if (!type) {
+    return { error: notationError(locale, 'invalidMeld', { text: source }) };
+  }
+  if (type === 'ankan') {
+    return { type, tiles: meldTiles };
+  }
+  const meld: Meld = { type, tiles: meldTiles, calledTile: meldTiles[0] };
+  const meldFrom = type === 'chii' ? 'kamicha' : from;
+  return meldFrom ? { ...meld, from: meldFrom } : meld;
+}
+
+const TOKEN_PATTERN = /\[[^\]]*\]|\([^)]*\)|<[^>]*>|\+\s*[^\s[(<+]+|[^\s[(<+]+/g;
+
+const withPosition = (error: { error: string }, start: number, end: number): NotationError => ({
+  error: error.error,
+  start,
+  end
+});
+
+/**
+ * MPSZ表記（日本語表記を含む）の牌姿を手牌・鳴き・和了牌・ドラ表示牌に変換する
+ */
+export function parseHandNotation(text: string, locale: Locale = DEFAULT_LOCALE): HandNotation | NotationError {
+  const result: HandNotation = {
+    tiles: [],
+    melds: [],
+    winningTile: null,
+    doraIndicators: []
+  };
+
+  text = toHalfWidth(text);
+  const doraMatch = DORA_MARKER.exec(text);
+  const handEnd = doraMatch ? doraMatch.index : text.length;
+
+  let cursor = 0;
+  for (const match of text.slice(0, handEnd).matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const skipped = text.slice(cursor, start);
+    if (skipped.trim()) {
+      const offset = cursor + skipped.search(/\S/);
+      return { error: notationError(locale, 'unmatchedBracket', { char: text[offset] }), start: offset, end: offset + 1 };
+    }
+    cursor = end;
+
+    const token = normalizeJapaneseNotation(match[0]);
+    if (token.startsWith('[') || token.startsWith('(') || token.startsWith('<')) {
+      const [body, marker] = token.slice(1, -1).split('@');
+      const from = marker === undefined ? undefined : SOURCE_MARKERS[marker.trim()];
+      if (marker !== undefined && !from) {
+        return { error: notationError(locale, 'invalidSource', { text: marker }), start, end };
+      }
+      const inner = parseTileSequence(body, locale);
+      if ('error' in inner) return withPosition(inner, start, end);
+      const meld = toMeld(inner, token[0] as MeldBracket, from, match[0], locale);
+      if ('error' in meld) return withPosition(meld, start, end);
+      result.melds.push(meld);
+      continue;
+    }
+
+    if (token.startsWith('+')) {
+      const winning = parseTileSequence(token.slice(1).trim(), locale);
+      if ('error' in winning) return withPosition(winning, start, end);
+      if (result.winningTile || winning.length !== 1) {
+        return { error: notationError(locale, 'winningTile'), start, end };
+      }
+      result.winningTile = winning[0];
+      continue;
+    }
+
+    const tiles = parseTileSequence(token, locale);
+    if ('error' in tiles) return withPosition(tiles, start, end);
+    result.tiles.push(...tiles);
+  }
+  const rest = text.slice(cursor, handEnd);
+  if (rest.trim()) {
+    const offset = cursor + rest.search(/\S/);
+    return { error: notationError(locale, 'unmatchedBracket', { char: text[offset] }), start: offset, end: offset + 1 };
+  }
+
+  if (doraMatch) {
+    const doraStart = doraMatch.index + doraMatch[0].length;
+    for (const match of text.slice(doraStart).matchAll(/\S+/g)) {
+      const start = doraStart + (match.index ?? 0);
+      const tiles = parseTileSequence(normalizeJapaneseNotation(match[0]), locale);
+      if ('error' in tiles) return withPosition(tiles, start, start + match[0].length);
+      result.doraIndicators.push(...tiles.map(normalizeTile));
+    }
+  }
+
+  return result;
+}
+
+const toNotationDigit = (tile: Tile): { digit: string; suit: string } => {
+  const honorIndex = HONOR_TILES.indexOf(tile);
+  if (honorIndex !== -1) {
+    return { digit: String(honorIndex + 1), suit: 'z' };
+  }
+  return { digit: isRedFive(tile) ? '0' : tile[0], suit: tile[1] };
+};
+
+/**
+ * 牌の並びを色ごとにまとめた表記にする（'123m406p11z' など）
+ */
+export function formatTiles(tiles: Tile[]): string {
+  let text = '';
+  let pendingSuit = '';
+  tiles.forEach(tile => {
+    const { digit, suit } = toNotationDigit(tile);
+    if (pendingSuit && suit !== pendingSuit) {
+      text += pendingSuit;
+    }
+    text += digit;
+    pendingSuit = suit;
+  });
+  return pendingSuit ? `${text}${pendingSuit}` : text;
+}
+
+const SOURCE_LETTERS: Record<MeldSource, string> = { kamicha: 'k', toimen: 't', shimocha: 's' };
+
+/**
+ * 鳴きを表記にする（鳴いた牌を先頭に書き、チー以外は鳴いた相手を @ の後に付ける）
+ */
+function formatMeld(meld: Meld): string {
+  if (meld.type === 'ankan') {
+    return `(${formatTiles(meld.tiles)})`;
+  }
+  const calledIndex = meld.calledTile ? meld.tiles.indexOf(meld.calledTile) : -1;
+  const tiles = calledIndex > 0
+    ? [meld.tiles[calledIndex], ...meld.tiles.filter((_, index) => index !== calledIndex)]
+    : meld.tiles;
+  const source = meld.from && meld.type !== 'chii' ? `@${SOURCE_LETTERS[meld.from]}` : '';
+  const body = `${formatTiles(tiles)}${source}`;
+  return meld.type === 'kakan' ? `<${body}>` : `[${body}]`;
+}
+
+/**
+ * 手牌・鳴き・和了牌をMPSZ表記にする
+ */
+export function formatHandNotation(hand: Partial<HandNotation> & { tiles: Tile[] }): string {
+  const parts = [formatTiles(hand.tiles)];
+  (hand.melds ?? []).forEach(meld => parts.push(formatMeld(meld)));
+  if (hand.winningTile) {
+    parts.push(`+${formatTiles([hand.winningTile])}`);
+  }
+  if (hand.doraIndicators && hand.doraIndicators.length > 0) {
+    parts.push(`dora:${formatTiles(hand.doraIndicators)}`);
+  }
+  return parts.filter(Boolean).join(' ');
+}
@@ -0,0 +1,98 @@
+import { DEFAULT_RULE_SET, type RuleSet } from './mahjong';
+
+export type RulePresetId = 'tenhou' | 'mleague' | 'wrc' | 'ema';
+
+export interface RulePreset {
+  id: RulePresetId;
+  name: string;
+  nameEn: string;
+  description: string;
+  descriptionEn: string;
+  rules: RuleSet;
+}
+
+export const RULE_PRESETS: RulePreset[] = [
+  {
+    id: 'tenhou',
+    name: '天鳳',
+    nameEn: 'Tenhou',
+    description: '喰いタンあり・赤3枚・ダブル役満なし・25000点持ち30000点返し',
+    descriptionEn: 'Open tanyao, 3 red fives, no double yakuman, 25000 start / 30000 return',
+    rules: {
+      ...DEFAULT_RULE_SET,
+      doubleYakuman: false,
+      renpuuFu: 4
+    }
+  },
+  {
+    id: 'mleague',
+    name: 'Mリーグ',
+    nameEn: 'M.League',
+    description: '喰いタンあり・赤3枚・切り上げ満貫・ダブル役満なし・頭ハネ・ウマ10-30',
+    descriptionEn: 'Open tanyao, 3 red fives, kiriage mangan, no double yakuman, head bump, uma 10-30',
+    rules: {
+      ...DEFAULT_RULE_SET,
+      multiRon: 'atamahane',
+      kiriageMangan: true,
+      doubleYakuman: false,
+      uma: [30, 10, -10, -30]
+    }
+  },
+  {
+    id: 'wrc',
+    name: 'WRC',
+    nameEn: 'WRC',
+    description: '赤なし・ダブル役満なし・頭ハネ・30000点持ち返し・ウマ5-15',
+    descriptionEn: 'No red fives, no double yakuman, head bump, 30000 start and return, uma 5-15',
+    rules: {
+      ...DEFAULT_RULE_SET,
+      multiRon: 'atamahane',
+      doubleYakuman: false,
+      redFives: { man: 0, pin: 0, sou: 0 },
+      startingPoints: 30000,
+      returnPoints: 30000,
+      uma: [15, 5, -5, -15]
+    }
+  },
+  {
+    id: 'ema',
+    name: 'EMA',
+    nameEn: 'EMA',
+    description: '赤なし・数え役満なし・ダブル役満なし・連風牌4符・30000点持ち返し・ウマ5-15',
+    descriptionEn: 'No red fives, no kazoe yakuman, no double yakuman, 4 fu double wind pair, 30000 start and return, uma 5-15',
+    rules: {
+      ...DEFAULT_RULE_SET,
+      kazoeYakuman: false,
+      doubleYakuman: false,
+      renpuuFu: 4,
+      redFives: { man: 0, pin: 0, sou: 0 },
+      startingPoints: 30000,
+      returnPoints: 30000,
+      uma: [15, 5, -5, -15]
+    }
+  }
+];
+
+export const getRulePreset = (id: RulePresetId): RulePreset =>
+  RULE_PRESETS.find(preset => preset.id === id) ?? RULE_PRESETS[0];
+
+/**
+ * プリセットを適用する
+ * 対局人数・三人麻雀のツモの支払い方・ローカル役・カスタム役はプリセットに関係なく選べるため、今の設定のまま残す
+ */
+export const applyRulePreset = (rules: RuleSet, id: RulePresetId): RuleSet => ({
+  ...getRulePreset(id).rules,
+  players: rules.players,
+  sanmaTsumo: rules.sanmaTsumo,
+  localYaku: rules.localYaku,
+  customYaku: rules.customYaku
+});
+
+/**
+ * ルール設定が一致するプリセットを探す（個別に変更している場合は null）
+ * プリセットに関係なく選べる設定（applyRulePreset で残す設定）は比較しない
+ */
+export const findRulePresetId = (rules: RuleSet): RulePresetId | null => {
+  const serialized = JSON.stringify(rules);
+  return RULE_PRESETS.find(preset => JSON.stringify(applyRulePreset(rules, preset.id)) === serialized)?.id ?? null;
+};
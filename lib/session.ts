@@ -0,0 +1,418 @@
+import {
+  calculateFinalScoreWithBonus,
+  calculatePaoSeatDeltas,
+  calculateSeatDeltas,
+  DEFAULT_RULE_SET,
+  settleMultiRon,
+  settleRyuukyoku,
+  type RonClaim,
+  type RuleSet
+} from './mahjong';
+import { DEFAULT_LOCALE, translate, type Locale, type MessageParams } from './i18n';
+
+/**
+ * 四人麻雀の対局記録（半荘・東風戦）
+ * - 座席は0〜3（起家が0、反時計回り）。親は dealer の座席
+ * - 点数移動は calculateFinalScoreWithBonus と calculateSeatDeltas で求める
+ */
+
+export type SessionLength = 'tonpuusen' | 'hanchan';
+
+export type SessionWind = 'ton' | 'nan' | 'sha' | 'pei';
+
+export const SESSION_SEATS = 4;
+
+export const SESSION_WINDS: SessionWind[] = ['ton', 'nan', 'sha', 'pei'];
+
+// 東風戦は東場、半荘は南場まで
+const LAST_ROUND: Record<SessionLength, SessionWind> = {
+  tonpuusen: 'ton',
+  hanchan: 'nan'
+};
+
+/**
+ * 和了の入力。yakumanCount は役満の倍数（0 なら翻数・符から計算）
+ * pao は責任払い（包）の座席、paoYakumanCount はそのうち責任払いになる役満の倍数（省略時は1）
+ */
+export interface SessionWin {
+  winner: number;
+  discarder?: number;
+  isTsumo: boolean;
+  han: number;
+  fu: number;
+  yakumanCount?: number;
+  pao?: number;
+  paoYakumanCount?: number;
+}
+
+/**
+ * 1局の記録。deltas は座席ごとの点数移動（リーチ棒を含む）
+ */
+interface SessionRecordBase {
+  round: SessionWind;
+  kyoku: number;
+  honba: number;
+  deltas: number[];
+}
+
+export interface SessionWinRecord extends SessionRecordBase {
+  type: 'win';
+  winner: number;
+  discarder?: number;
+  isTsumo: boolean;
+  han: number;
+  fu: number;
+  yakumanCount: number;
+  pao?: number;
+}
+
+export interface SessionDrawRecord extends SessionRecordBase {
+  type: 'draw';
+  tenpai: boolean[];
+}
+
+/**
+ * ダブロン・トリロンの記録。wins は和了が認められた人（放銃者から近い順）
+ */
+export interface SessionMultiRonRecord extends SessionRecordBase {
+  type: 'multiRon';
+  discarder: number;
+  wins: Required<RonClaim>[];
+}
+
+export type SessionRecord = SessionWinRecord | SessionDrawRecord | SessionMultiRonRecord;
+
+export interface SessionState {
+  length: SessionLength;
+  names: string[];
+  scores: number[];
+  round: SessionWind;
+  kyoku: number;
+  dealer: number;
+  honba: number;
+  kyotaku: number;
+  riichi: boolean[];
+  records: SessionRecord[];
+  isFinished: boolean;
+}
+
+export type SessionErrorCode =
+  | 'finished'
+  | 'invalidSeat'
+  | 'missingDiscarder'
+  | 'invalidHanFu'
+  | 'invalidWinners'
+  | 'invalidPao'
+  | 'fourPlayerRules'
+  | 'alreadyRiichi'
+  | 'riichiPoints'
+  | 'riichiNoten';
+
+export interface SessionError {
+  error: string;
+  code: SessionErrorCode;
+}
+
+const sessionError = (
+  locale: Locale,
+  code: SessionErrorCode,
+  params?: MessageParams
+): SessionError => ({
+  code,
+  error: translate(locale, `session.error.${code}`, params)
+});
+
+/**
+ * 対局記録で使えるルールか（四人麻雀のみ。三人麻雀のルールでは持ち点や支払いが合わない）
+ */
+export const isSessionRuleSet = (rules: RuleSet) => rules.players === SESSION_SEATS;
+
+const isSeat = (seat: number | undefined): seat is number =>
+  Number.isInteger(seat) && (seat as number) >= 0 && (seat as number) < SESSION_SEATS;
+
+const normalizeYakumanCount = (yakumanCount?: number) => Math.max(0, Math.floor(yakumanCount ?? 0));
+
+// 役満は翻数・符を使わないため、役満以外のときだけ確認する
+const isValidHanFu = (han: number, fu: number, yakumanCount: number) =>
+  yakumanCount > 0 || (Number.isInteger(han) && han >= 1 && Number.isInteger(fu) && fu >= 20);
+
+/**
+ * 対局を始める（持ち点はルールの startingPoints）
+ */
+export function createSession(
+  names: string[],
+  length: SessionLength,
+  rules: RuleSet = DEFAULT_RULE_SET
+): SessionState {
+  return {
+    length,
+    names: Array.from({ length: SESSION_SEATS }, (_, seat) => names[seat] ?? ''),
+    scores: Array<number>(SESSION_SEATS).fill(rules.startingPoints),
+    round: 'ton',
+    kyoku: 1,
+    dealer: 0,
+    honba: 0,
+    kyotaku: 0,
+    riichi: Array<boolean>(SESSION_SEATS).fill(false),
+    records: [],
+    isFinished: false
+  };
+}
+
+/**
+ * 座席の自風（親が東）
+ */
+export function getSeatWind(state: SessionState, seat: number): SessionWind {
+  return SESSION_WINDS[(seat - state.dealer + SESSION_SEATS) % SESSION_SEATS];
+}
+
+/**
+ * リーチ棒（1000点）を供託に出す
+ */
+export function declareRiichi(
+  state: SessionState,
+  seat: number,
+  locale: Locale = DEFAULT_LOCALE
+): SessionState | SessionError {
+  if (state.isFinished) return sessionError(locale, 'finished');
+  if (!isSeat(seat)) return sessionError(locale, 'invalidSeat');
+  if (state.riichi[seat]) return sessionError(locale, 'alreadyRiichi');
+  if (state.scores[seat] < 1000) return sessionError(locale, 'riichiPoints');
+
+  return {
+    ...state,
+    scores: state.scores.map((score, index) => (index === seat ? score - 1000 : score)),
+    kyotaku: state.kyotaku + 1,
+    riichi: state.riichi.map((value, index) => value || index === seat)
+  };
+}
+
+/**
+ * 局を進める。親が続く場合は本場を積み、流れる場合は次の親へ回す
+ * 最終局が終わったとき、または誰かの持ち点がマイナスになったときに終局する
+ */
+const advanceRound = (state: SessionState, isRenchan: boolean, honba: number): SessionState => {
+  const next: SessionState = {
+    ...state,
+    honba,
+    riichi: Array<boolean>(SESSION_SEATS).fill(false)
+  };
+  if (!isRenchan) {
+    const isLastKyoku = state.kyoku === SESSION_SEATS;
+    next.dealer = (state.dealer + 1) % SESSION_SEATS;
+    next.kyoku = isLastKyoku ? 1 : state.kyoku + 1;
+    next.round = isLastKyoku ? SESSION_WINDS[SESSION_WINDS.indexOf(state.round) + 1] : state.round;
+    if (isLastKyoku && state.round === LAST_ROUND[state.length]) {
+      next.isFinished = true;
+    }
+  }
+  if (next.scores.some(score => score < 0)) {
+    next.isFinished = true;
+  }
+  return next;
+};
+
+/**
+ * 和了を記録し、本場・供託を含めた点数移動を反映する
+ * 親の和了は連荘（本場+1）、子の和了は親が流れる（本場は0に戻る）
+ */
+export function applyWin(
+  state: SessionState,
+  win: SessionWin,
+  rules: RuleSet = DEFAULT_RULE_SET,
+  locale: Locale = DEFAULT_LOCALE
+): SessionState | SessionError {
+  if (state.isFinished) return sessionError(locale, 'finished');
+  if (!isSessionRuleSet(rules)) return sessionError(locale, 'fourPlayerRules');
+  if (!isSeat(win.winner)) return sessionError(locale, 'invalidSeat');
+  if (!win.isTsumo && (!isSeat(win.discarder) || win.discarder === win.winner)) {
+    return sessionError(locale, 'missingDiscarder');
+  }
+  const yakumanCount = normalizeYakumanCount(win.yakumanCount);
+  if (!isValidHanFu(win.han, win.fu, yakumanCount)) return sessionError(locale, 'invalidHanFu');
+  if (win.pao !== undefined && (!isSeat(win.pao) || win.pao === win.winner || yakumanCount === 0)) {
+    return sessionError(locale, 'invalidPao');
+  }
+
+  const isOya = win.winner === state.dealer;
+  const { payment } = calculateFinalScoreWithBonus(
+    win.han,
+    win.fu,
+    isOya,
+    win.isTsumo,
+    state.honba,
+    state.kyotaku,
+    rules,
+    yakumanCount,
+    locale
+  );
+  const seats = {
+    winner: win.winner,
+    dealer: state.dealer,
+    discarder: win.isTsumo ? undefined : win.discarder
+  };
+  const deltas = win.pao === undefined
+    ? calculateSeatDeltas(payment, seats)
+    : calculatePaoSeatDeltas(payment, win.paoYakumanCount ?? 1, { ...seats, responsible: win.pao }, rules);
+
+  const record: SessionWinRecord = {
+    type: 'win',
+    round: state.round,
+    kyoku: state.kyoku,
+    honba: state.honba,
+    winner: win.winner,
+    discarder: win.isTsumo ? undefined : win.discarder,
+    isTsumo: win.isTsumo,
+    han: win.han,
+    fu: win.fu,
+    yakumanCount,
+    pao: win.pao,
+    // リーチ棒は宣言時に引いているため、記録には供託分も含める
+    deltas: deltas.map((delta, seat) => delta - (state.riichi[seat] ? 1000 : 0))
+  };
+
+  return advanceRound(
+    {
+      ...state,
+      scores: state.scores.map((score, seat) => score + deltas[seat]),
+      kyotaku: 0,
+      records: [...state.records, record]
+    },
+    isOya,
+    isOya ? state.honba + 1 : 0
+  );
+}
+
+/**
+ * 同じ打牌への複数人のロン（ダブロン・トリロン）を記録する
+ * 本場・供託は放銃者の下家に近い和了者が受け取る。頭ハネのルールではその1人だけが和了する
+ * 和了者に親がいれば連荘（本場+1）、いなければ親が流れる
+ */
+export function applyMultiRon(
+  state: SessionState,
+  discarder: number,
+  claims: RonClaim[],
+  rules: RuleSet = DEFAULT_RULE_SET,
+  locale: Locale = DEFAULT_LOCALE
+): SessionState | SessionError {
+  if (state.isFinished) return sessionError(locale, 'finished');
+  if (!isSessionRuleSet(rules)) return sessionError(locale, 'fourPlayerRules');
+  if (!isSeat(discarder)) return sessionError(locale, 'invalidSeat');
+  const seats = claims.map(claim => claim.seat);
+  if (
+    claims.length === 0 ||
+    claims.length >= SESSION_SEATS ||
+    seats.some(seat => !isSeat(seat) || seat === discarder) ||
+    new Set(seats).size !== seats.length
+  ) {
+    return sessionError(locale, 'invalidWinners');
+  }
+  const normalized = claims.map(claim => ({ ...claim, yakumanCount: normalizeYakumanCount(claim.yakumanCount) }));
+  if (normalized.some(claim => !isValidHanFu(claim.han, claim.fu, claim.yakumanCount))) {
+    return sessionError(locale, 'invalidHanFu');
+  }
+
+  const settlement = settleMultiRon(
+    normalized,
+    { dealer: state.dealer, discarder },
+    state.honba,
+    state.kyotaku,
+    rules,
+    locale
+  );
+  // 座席と和了者は上で確認済み
+  if ('error' in settlement) return sessionError(locale, 'invalidWinners');
+  const wins = settlement.winners.map(seat => normalized.find(claim => claim.seat === seat) as Required<RonClaim>);
+  const isRenchan = settlement.winners.includes(state.dealer);
+
+  const record: SessionMultiRonRecord = {
+    type: 'multiRon',
+    round: state.round,
+    kyoku: state.kyoku,
+    honba: state.honba,
+    discarder,
+    wins,
+    deltas: settlement.deltas.map((delta, seat) => delta - (state.riichi[seat] ? 1000 : 0))
+  };
+
+  return advanceRound(
+    {
+      ...state,
+      scores: state.scores.map((score, seat) => score + settlement.deltas[seat]),
+      kyotaku: 0,
+      records: [...state.records, record]
+    },
+    isRenchan,
+    isRenchan ? state.honba + 1 : 0
+  );
+}
+
+/**
+ * 流局（荒牌平局）を記録する。不聴罰符を精算し、リーチ棒は供託として次局に残す
+ */
+export function applyRyuukyoku(
+  state: SessionState,
+  tenpai: boolean[],
+  locale: Locale = DEFAULT_LOCALE
+): SessionState | SessionError {
+  if (state.isFinished) return sessionError(locale, 'finished');
+  if (tenpai.length !== SESSION_SEATS) return sessionError(locale, 'invalidSeat');
+  if (state.riichi.some((isRiichi, seat) => isRiichi && !tenpai[seat])) {
+    return sessionError(locale, 'riichiNoten');
+  }
+
+  const settlement = settleRyuukyoku(tenpai, state.dealer, state.honba);
+  const record: SessionDrawRecord = {
+    type: 'draw',
+    round: state.round,
+    kyoku: state.kyoku,
+    honba: state.honba,
+    tenpai: [...tenpai],
+    deltas: settlement.deltas.map((delta, seat) => delta - (state.riichi[seat] ? 1000 : 0))
+  };
+
+  return advanceRound(
+    {
+      ...state,
+      scores: state.scores.map((score, seat) => score + settlement.deltas[seat]),
+      records: [...state.records, record]
+    },
+    settlement.isRenchan,
+    settlement.honba
+  );
+}
+
+/**
+ * 終局時の順位と成績。score は千点単位の±（素点 − 返し点 ＋ ウマ、1位はオカを加える）
+ */
+export interface SessionStanding {
+  seat: number;
+  rank: number;
+  points: number;
+  score: number;
+}
+
+/**
+ * 最終成績を計算する
+ * - 同点は起家に近い座席を上位とする
+ * - 残った供託（リーチ棒）は1位が受け取る
+ * - オカは（返し点 − 持ち点）× 人数で、1位が受け取る
+ */
+export function calculateStandings(
+  scores: number[],
+  kyotaku = 0,
+  rules: RuleSet = DEFAULT_RULE_SET
+): SessionStanding[] {
+  const order = scores
+    .map((points, seat) => ({ points, seat }))
+    .sort((a, b) => b.points - a.points || a.seat - b.seat);
+  const oka = (rules.returnPoints - rules.startingPoints) * scores.length;
+
+  return order.map(({ points, seat }, index) => {
+    const finalPoints = index === 0 ? points + kyotaku * 1000 : points;
+    const bonus = index === 0 ? oka : 0;
+    // 百点単位で計算してから千点単位に直す（小数の誤差を出さない）
+    const score = Math.round((finalPoints - rules.returnPoints + bonus) / 100 + (rules.uma[index] ?? 0) * 10) / 10;
+    return { seat, rank: index + 1, points: finalPoints, score };
+  });
+}
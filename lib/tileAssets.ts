@@ -1,4 +1,4 @@
-import type { Tile } from './mahjong';
+import { normalizeTile, type Tile } from './mahjong';
 
 const HONOR_FILE_MAP: Record<string, string> = {
   '東': 'ton',
@@ -12,7 +12,8 @@ const HONOR_FILE_MAP: Record<string, string> = {
 
 export const TILE_IMAGE_BASE_PATH = '/tiles/ac-ibitsu';
 
+// 赤五は専用の画像がないため通常の五の画像を使う
 export const tileToImagePath = (tile: Tile): string => {
-  const fileKey = HONOR_FILE_MAP[tile] ?? tile;
+  const fileKey = HONOR_FILE_MAP[tile] ?? normalizeTile(tile);
   return `${TILE_IMAGE_BASE_PATH}/${fileKey}.png`;
 };
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseCustomYakuJson, type CustomYakuSpec } from '../lib/customYaku';
+import { calculateScore, DEFAULT_RULE_SET, type AgariOptions, type Tile } from '../lib/mahjong';
+
+const baseOptions: AgariOptions = {
+  isTsumo: false,
+  bakaze: 'ton',
+  jikaze: 'nan',
+  isRiichi: true,
+  isIppatsu: false,
+  isMenzen: true,
+  isOya: false,
+};
+
+const loadRules = (json: string) => {
+  const parsed = parseCustomYakuJson(json);
+  if ('error' in parsed) {
+    throw new Error(parsed.error);
+  }
+  return { ...DEFAULT_RULE_SET, customYaku: parsed };
+};
+
+const yakuNames = (hand: Tile[], winningTile: Tile, rules = DEFAULT_RULE_SET) => {
+  const result = calculateScore(hand, winningTile, baseOptions, rules);
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result.yaku.map(y => y.name);
+};
+
+describe('custom yaku', () => {
+  const specs: CustomYakuSpec[] = [
+    { id: 'sanshoku123', name: '三色一二三', han: 1, when: { inAllSuits: { type: 'shuntsu', numbers: '123' } } },
+    { id: 'chunPair', name: '紅一点', han: 1, menzenOnly: true, when: { pair: '中' } },
+    {
+      id: 'terminalTriplets',
+      name: '老頭刻子',
+      han: 2,
+      when: { all: [{ has: { type: 'koutsu', tile: 'terminal' }, count: 2 }, { not: { form: 'chiitoitsu' } }] },
+    },
+  ];
+  const rules = loadRules(JSON.stringify({ yaku: specs }));
+
+  it('matches sequences in all three suits and a dragon pair', () => {
+    const hand: Tile[] = ['1m', '2m', '3m', '1p', '2p', '3p', '1s', '2s', '3s', '5s', '6s', '中', '中'];
+    const names = yakuNames(hand, '7s', rules);
+    expect(names).toEqual(expect.arrayContaining(['三色一二三', '紅一点']));
+    expect(yakuNames(hand, '7s')).not.toContain('三色一二三');
+  });
+
+  it('evaluates conditions against each hand decomposition', () => {
+    const hand: Tile[] = ['1m', '1m', '1m', '9p', '9p', '9p', '2s', '3s', '4s', '6p', '7p', '5m', '5m'];
+    expect(yakuNames(hand, '8p', rules)).toContain('老頭刻子');
+  });
+
+  it('reports invalid definitions with their location', () => {
+    expect(parseCustomYakuJson('{')).toEqual({ error: 'JSONの形式が正しくありません' });
+    const invalid = parseCustomYakuJson(JSON.stringify([{ id: 'x', name: 'X', han: 1, when: { pair: 'dragons' } }]));
+    expect(invalid).toEqual({ error: 'yaku[0].when.pair: 牌の条件 "dragons" は使用できません' });
+  });
+
+  it('rejects built-in ids and mistyped fields', () => {
+    const parse = (spec: object) =>
+      parseCustomYakuJson(JSON.stringify([{ id: 'x', name: 'X', han: 1, when: { menzen: true }, ...spec }]));
+    expect(parse({ id: 'pinfu' })).toEqual({ error: 'yaku[0].id: pinfu は組み込みの役のIDのため使用できません' });
+    expect(parse({ yakuman: 'yes' })).toEqual({ error: 'yaku[0].yakuman: true または false を指定してください' });
+    expect(parse({ menzenOnly: 1 })).toEqual({ error: 'yaku[0].menzenOnly: true または false を指定してください' });
+    expect(parse({ supersedes: 'pinfu' })).toEqual({ error: 'yaku[0].supersedes: 文字列の配列を指定してください' });
+    expect(parse({ nameEn: 5 })).toEqual({ error: 'yaku[0].nameEn: 文字列を指定してください' });
+    expect(parse({ han: 13 })).toEqual({ error: 'yaku[0].han: 役満は yakuman: true を指定し、han に倍数を指定してください' });
+  });
+
+  it('counts yakuman only for definitions flagged as yakuman', () => {
+    const hand: Tile[] = ['1m', '2m', '3m', '4p', '5p', '6p', '7s', '8s', '9s', '東', '東', '南', '南'];
+    const score = (spec: CustomYakuSpec) => {
+      const result = calculateScore(hand, '南', baseOptions, { ...DEFAULT_RULE_SET, kazoeYakuman: false, customYaku: [spec] });
+      if ('error' in result) throw new Error(result.error);
+      return result;
+    };
+    expect(score({ id: 'big', name: '大役', han: 13, when: { menzen: true } }).scoreBreakdown?.payment.limit).toBe('三倍満');
+    expect(score({ id: 'big', name: '大役', han: 1, yakuman: true, when: { menzen: true } }).scoreBreakdown?.payment.limit).toBe('役満');
+  });
+
+  it('localizes error messages', () => {
+    expect(parseCustomYakuJson('{', 'en')).toEqual({ error: 'The JSON is malformed' });
+    const invalid = parseCustomYakuJson(JSON.stringify([{ id: 'x', name: 'X', han: 0, when: { menzen: true } }]), 'en');
+    expect(invalid).toEqual({ error: 'yaku[0].han: specify an integer of 1 or more' });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import { translate } from '../lib/i18n';
+import {
+  calculateScore,
+  formatTileName,
+  validateAgari,
+  validateMeld,
+  type AgariOptions,
+  type Tile,
+} from '../lib/mahjong';
+
+const baseOptions: AgariOptions = {
+  isTsumo: false,
+  bakaze: 'ton',
+  jikaze: 'nan',
+  isRiichi: true,
+  isDoubleRiichi: false,
+  isIppatsu: false,
+  isMenzen: true,
+  isOya: false,
+  doraTiles: [],
+  uraDoraTiles: [],
+  isHaitei: false,
+  isHoutei: false,
+  isRinshan: false,
+  isChankan: false,
+  isNagashiMangan: false,
+};
+
+const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '9s', '9s', '9s', '東', '東', '3s', '4s'];
+
+describe('translate', () => {
+  it('fills placeholders and leaves unknown ones as they are', () => {
+    expect(translate('ja', 'score.points', { points: 8000 })).toBe('8000点');
+    expect(translate('en', 'score.points', { points: 8000 })).toBe('8000 pts');
+    expect(translate('en', 'common.han')).toBe('{han} han');
+  });
+});
+
+describe('localized calculation', () => {
+  it('returns yaku names and score text in English', () => {
+    const result = calculateScore(hand, '5s', { ...baseOptions, locale: 'en' });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.yaku.map(yaku => yaku.name)).toContain('Riichi');
+    expect(result.score).toBe('1300 pts');
+  });
+
+  it('keeps Japanese as the default', () => {
+    const result = calculateScore(hand, '5s', baseOptions);
+    if ('error' in result) throw new Error(result.error);
+    expect(result.yaku.map(yaku => yaku.name)).toContain('リーチ');
+    expect(result.score).toBe('1300点');
+  });
+
+  it('localizes validation and no-yaku errors', () => {
+    const { errors } = validateAgari(['1m', '2m'], null, { ...baseOptions, locale: 'en' });
+    expect(errors.map(issue => issue.message)).toEqual([
+      'The hand needs 13 tiles (0 melds)',
+      'Select the winning tile',
+    ]);
+    const noYaku = calculateScore(hand, '5s', { ...baseOptions, isRiichi: false, locale: 'en' });
+    expect(noYaku).toMatchObject({ code: 'noYaku', error: 'The hand has no yaku' });
+    expect(validateMeld({ type: 'pon', tiles: ['1m', '2m', '3m'] }, 'en')?.message).toBe('A pon must be 3 identical tiles');
+  });
+
+  it('formats tile names per locale', () => {
+    expect(formatTileName('東', 'en')).toBe('East');
+    expect(formatTileName('0p', 'en')).toBe('Red 5p');
+    expect(formatTileName('東')).toBe('東');
+  });
+});
@@ -1,13 +1,31 @@
 import { describe, expect, it } from 'vitest';
 
 import {
+  analyzeDiscards,
   calculateFu,
   calculateFinalScore,
   calculateFinalScoreWithBonus,
   calculateScore,
+  calculatePaoSeatDeltas,
+  calculateSeatDeltas,
+  calculateShanten,
+  DEFAULT_RULE_SET,
   detectYaku,
+  getDoraFromIndicator,
+  getHandInterpretations,
+  getPaoYakuIds,
+  getPaoYakumanCount,
+  getTenpaiWaits,
+  getTiles,
+  getYakuDefinitions,
   isWinningHand,
+  registerYaku,
+  settleMultiRon,
+  settleRyuukyoku,
+  sortHand,
+  validateAgari,
   type AgariOptions,
+  type Meld,
   type Tile,
 } from '../lib/mahjong';
 
@@ -22,7 +40,6 @@ const baseOptions: AgariOptions = {
   isOya: false,
   doraTiles: [],
   uraDoraTiles: [],
-  redDora: { man: 0, pin: 0, sou: 0 },
   isHaitei: false,
   isHoutei: false,
   isRinshan: false,
@@ -166,14 +183,13 @@ describe('mahjong scoring', () => {
 
   it('applies dora bonuses when configured', () => {
     const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '2s', '3s', '4s', '6s', '7s', '8s', '5m'];
-    const winningTile: Tile = '5m';
+    const winningTile: Tile = '0m';
 
     const options: AgariOptions = {
       ...baseOptions,
       isRiichi: true,
       doraTiles: ['5m'],
       uraDoraTiles: ['2s'],
-      redDora: { man: 1, pin: 0, sou: 0 },
     };
 
     const result = calculateScore(hand, winningTile, options);
@@ -261,6 +277,60 @@ describe('calculateScore validations', () => {
   });
 });
 
+describe('validateAgari', () => {
+  const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '9s', '9s', '9s', '東', '東', '3s', '4s'];
+  const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+  it('accepts a consistent hand without issues', () => {
+    expect(validateAgari(hand, '5s', { ...baseOptions, isRiichi: true })).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('reports a fifth copy of a tile and the hand size', () => {
+    const fiveCopies: Tile[] = ['1m', '1m', '1m', '1m', '2m', '3m', '0p', '5p', '5p', '5p', '6p', '7p', '8p'];
+    const result = validateAgari(fiveCopies, '5p', baseOptions);
+    expect(codes(result.errors)).toEqual(['tileLimit']);
+    expect(codes(validateAgari(['1m', '2m'], null, baseOptions).errors)).toEqual(['handSize', 'missingWinningTile']);
+  });
+
+  it('rejects dealer-only and non-dealer-only yakuman for the wrong seat', () => {
+    expect(codes(validateAgari(hand, '5s', { ...baseOptions, isTenhou: true }).errors)).toEqual(['tenhouNotDealer']);
+    const dealer = { ...baseOptions, isOya: true, jikaze: 'ton', isChiihou: true };
+    expect(codes(validateAgari(hand, '5s', dealer).errors)).toEqual(['chiihouDealer']);
+  });
+
+  it('limits dora indicators to one plus the number of kans', () => {
+    const options = { ...baseOptions, isRiichi: true, doraTiles: ['1m', '2m'] };
+    expect(codes(validateAgari(hand, '5s', options).errors)).toEqual(['tooManyDoraIndicators']);
+    expect(calculateScore(hand, '5s', options)).toMatchObject({ code: 'tooManyDoraIndicators' });
+  });
+
+  it('rejects a chii called from someone other than kamicha', () => {
+    const melds = [{ type: 'chii' as const, tiles: ['6s', '7s', '8s'], calledTile: '7s', from: 'toimen' as const }];
+    const open: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '3s', '4s', '6m', '6m'];
+    expect(codes(validateAgari(open, '5s', { ...baseOptions, melds }).errors)).toEqual(['invalidMeld']);
+  });
+
+  it('warns about options that cannot apply to the win', () => {
+    const options = {
+      ...baseOptions,
+      isTsumo: false,
+      isIppatsu: true,
+      isHaitei: true,
+      isRinshan: true,
+      isOya: true,
+      uraDoraTiles: ['1m'],
+    };
+    expect(codes(validateAgari(hand, '5s', options).warnings)).toEqual([
+      'ippatsuWithoutRiichi',
+      'uraDoraWithoutRiichi',
+      'haiteiOnRon',
+      'rinshanOnRon',
+      'rinshanWithoutKan',
+      'oyaJikazeMismatch',
+    ]);
+  });
+});
+
 describe('additional yaku detection', () => {
   it('identifies Sanshoku Doujun', () => {
     const fullHand: Tile[] = ['2m', '3m', '4m', '2p', '3p', '4p', '2s', '3s', '4s', '5m', '6m', '7m', '9p', '9p'];
@@ -296,6 +366,16 @@ describe('additional yaku detection', () => {
     expect(yaku.map(y => y.name)).toContain('三槓子');
   });
 
+  it('detects Shousangen with a called dragon pon', () => {
+    const fullHand: Tile[] = ['發', '發', '發', '中', '中', '1m', '2m', '3m', '4p', '5p', '6p'];
+    const yaku = detectYaku(fullHand, '6p', {
+      ...baseOptions,
+      isMenzen: false,
+      melds: [{ type: 'pon', tiles: ['白', '白', '白'] }],
+    });
+    expect(yaku).toContainEqual({ name: '小三元', han: 2 });
+  });
+
   it('detects Suukantsu yakuman', () => {
     const melds = [
       { type: 'minkan' as const, tiles: ['1m', '1m', '1m', '1m'] },
@@ -330,3 +410,705 @@ describe('additional yaku detection', () => {
     expect(yaku.map(y => y.name)).toContain('純正九蓮宝燈');
   });
 });
+
+describe('calculateShanten', () => {
+  it('returns -1 for a complete hand', () => {
+    const hand: Tile[] = ['1m', '1m', '2m', '3m', '4m', '4p', '5p', '6p', '2s', '3s', '4s', '6s', '7s', '8s'];
+    expect(calculateShanten(hand).shanten).toBe(-1);
+  });
+
+  it('returns 0 for a tenpai hand', () => {
+    const hand: Tile[] = ['1m', '1m', '2m', '3m', '4m', '4p', '5p', '2s', '3s', '4s', '6s', '7s', '8s'];
+    const result = calculateShanten(hand);
+    expect(result.standard).toBe(0);
+    expect(result.shanten).toBe(0);
+  });
+
+  it('reports each form separately', () => {
+    const hand: Tile[] = ['1m', '1m', '4m', '4m', '7p', '7p', '2s', '2s', '5s', '5s', '東', '南', '西'];
+    const result = calculateShanten(hand);
+    expect(result.chiitoitsu).toBe(1);
+    expect(result.standard).toBe(3);
+    expect(result.kokushi).toBe(8);
+    expect(result.shanten).toBe(1);
+  });
+
+  it('calculates kokushi shanten', () => {
+    const hand: Tile[] = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '1m'];
+    expect(calculateShanten(hand).kokushi).toBe(0);
+  });
+
+  it('counts melds as completed sets', () => {
+    const melds = [{ type: 'pon' as const, tiles: ['東', '東', '東'] }];
+    const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '2s', '3s', '9s', '9s'];
+    const result = calculateShanten(hand, melds);
+    expect(result.shanten).toBe(0);
+    expect(result.chiitoitsu).toBeNull();
+    expect(result.kokushi).toBeNull();
+  });
+});
+
+describe('analyzeDiscards', () => {
+  it('lists accepted tiles with unseen counts for each discard', () => {
+    const hand: Tile[] = ['1m', '1m', '2m', '3m', '4m', '4p', '5p', '2s', '3s', '4s', '6s', '7s', '8s', '北'];
+    const candidates = analyzeDiscards(hand, undefined, ['3p']);
+    const best = candidates[0];
+    expect(best.discard).toBe('北');
+    expect(best.shanten).toBe(0);
+    expect(best.acceptance).toEqual([
+      { tile: '3p', remaining: 3 },
+      { tile: '6p', remaining: 4 },
+    ]);
+    expect(best.totalRemaining).toBe(7);
+  });
+
+  it('ranks discards that keep tenpai ahead of the rest', () => {
+    const hand: Tile[] = ['1m', '1m', '2m', '3m', '4m', '4p', '5p', '2s', '3s', '4s', '6s', '7s', '8s', '北'];
+    const candidates = analyzeDiscards(hand);
+    const worse = candidates.find(candidate => candidate.discard === '4p');
+    expect(worse?.shanten).toBe(1);
+    expect(candidates.indexOf(worse!)).toBeGreaterThan(0);
+  });
+
+  it('only accepts tiles used in sanma', () => {
+    const hand: Tile[] = ['1m', '1p', '2p', '3p', '4p', '5p', '6p', '7s', '8s', '9s', '東', '東', '南', '西'];
+    const accepted = (rules = DEFAULT_RULE_SET) =>
+      analyzeDiscards(hand, undefined, undefined, rules)
+        .find(candidate => candidate.discard === '西')
+        ?.acceptance.map(item => item.tile);
+    expect(accepted()).toEqual(expect.arrayContaining(['1m', '2m', '3m', '南']));
+    expect(accepted({ ...DEFAULT_RULE_SET, players: 3 })).toEqual(['1m', '東', '南']);
+  });
+});
+
+describe('getTenpaiWaits', () => {
+  it('enumerates each winning tile with its wait and scores', () => {
+    const hand: Tile[] = ['1m', '1m', '2m', '3m', '4m', '4p', '5p', '2s', '3s', '4s', '6s', '7s', '8s'];
+    const waits = getTenpaiWaits(hand, { ...baseOptions, isRiichi: true }, ['6p']);
+    expect(waits.map(wait => wait.tile)).toEqual(['3p', '6p']);
+    expect(waits.every(wait => wait.waitPattern === 'ryanmen')).toBe(true);
+    expect(waits.map(wait => wait.remaining)).toEqual([4, 3]);
+
+    const ron = waits[0].ron;
+    if ('error' in ron) {
+      throw new Error(ron.error);
+    }
+    expect(ron.yaku.map(y => y.name)).toContain('平和');
+    expect(ron.score).toBe('2000点');
+  });
+
+  it('reports an error when the wait has no yaku', () => {
+    const hand: Tile[] = ['1m', '2m', '3m', '4m', '5m', '6m', '7p', '8p', '9p', '2s', '3s', '4s', '5m'];
+    const waits = getTenpaiWaits(hand, { ...baseOptions });
+    expect(waits.map(wait => wait.tile)).toEqual(['5m']);
+    expect(waits[0].waitPattern).toBe('tanki');
+    expect('error' in waits[0].ron).toBe(true);
+    expect('error' in waits[0].tsumo).toBe(false);
+  });
+
+  it('skips tiles the hand already holds all four copies of', () => {
+    const hand: Tile[] = ['1m', '1m', '1m', '1m', '2m', '3m', '4m', '5p', '6p', '7p', '7s', '8s', '9s'];
+    expect(getTenpaiWaits(hand, { ...baseOptions }).map(wait => wait.tile)).toEqual(['4m']);
+  });
+});
+
+describe('hand interpretations', () => {
+  it('lists every wait the winning tile can complete', () => {
+    const fullHand: Tile[] = ['1m', '2m', '2m', '3m', '3m', '4m', '7p', '8p', '9p', '2s', '3s', '4s', '9s', '9s'];
+    const waits = getHandInterpretations(fullHand, '2m').map(interpretation => interpretation.wait);
+    expect(waits).toEqual(expect.arrayContaining(['kanchan', 'ryanmen']));
+    expect(getHandInterpretations(['1m', '2m'], '2m')).toEqual([]);
+  });
+
+  it('scores ryanpeikou instead of adding chiitoitsu on top', () => {
+    const hand: Tile[] = ['2m', '2m', '3m', '3m', '4m', '4m', '5p', '5p', '6p', '6p', '7p', '7p', '9s'];
+    const result = calculateScore(hand, '9s', { ...baseOptions, isTsumo: false });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    const yakuNames = result.yaku.map(y => y.name);
+    expect(yakuNames).toContain('二盃口');
+    expect(yakuNames).not.toContain('七対子');
+    expect(result.han).toBe(3);
+    expect(result.fu).toBe(40);
+    expect(result.interpretation?.form).toBe('standard');
+  });
+
+  it('chooses sanankou over the iipeikou decomposition', () => {
+    const hand: Tile[] = ['1m', '1m', '1m', '2m', '2m', '2m', '3m', '3m', '3m', '5p', '6p', '7p', '9s'];
+    const result = calculateScore(hand, '9s', { ...baseOptions });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    const yakuNames = result.yaku.map(y => y.name);
+    expect(yakuNames).toContain('三暗刻');
+    expect(yakuNames).not.toContain('一盃口');
+    expect(result.han).toBe(3);
+    expect(result.fu).toBe(40);
+    expect(result.interpretation?.mentsu).toContainEqual(['1m', '1m', '1m']);
+  });
+
+  it('treats a shanpon triplet completed by ron as open', () => {
+    const tiles: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '3s', '4s', '5s', '8s', '8s', '8s', '9p', '9p'];
+    expect(calculateFu(tiles, '8s', false, true)).toBe(40);
+    expect(calculateFu(tiles, '8s', true, true)).toBe(30);
+  });
+});
+
+describe('fu breakdown', () => {
+  it('itemizes a closed ron hand with a yakuhai pair and a concealed triplet', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '9s', '9s', '9s', '東', '東', '3s', '4s'];
+    const result = calculateScore(hand, '5s', { ...baseOptions, isTsumo: false, isRiichi: true });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.fuBreakdown).toEqual([
+      { label: '副底', fu: 20 },
+      { label: '門前ロン', fu: 10 },
+      { label: '役牌雀頭 東', fu: 2 },
+      { label: '暗刻 9s', fu: 8 },
+    ]);
+    expect(result.fu).toBe(40);
+  });
+
+  it('records the fixed fu of pinfu tsumo', () => {
+    const hand: Tile[] = ['1m', '1m', '2m', '3m', '4m', '5p', '6p', '6s', '7s', '8s', '2s', '3s', '4s'];
+    const result = calculateScore(hand, '4p', baseOptions);
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.fuBreakdown).toEqual([{ label: '平和ツモ（固定）', fu: 20 }]);
+  });
+
+  it('scores an added kan like an open kan', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '3s', '4s', '6m', '6m'];
+    const kakan = { type: 'kakan' as const, tiles: ['中', '中', '中', '中'], calledTile: '中', from: 'toimen' as const };
+    const result = calculateScore(hand, '5s', { ...baseOptions, isTsumo: false, isMenzen: false, melds: [kakan] });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.fuBreakdown).toContainEqual({ label: '明槓 中', fu: 16 });
+    expect(result.yaku.map(y => y.name)).toContain('中');
+  });
+
+  it('raises open hands to the 30 fu minimum', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '3s', '4s', '6m', '6m'];
+    const result = calculateScore(hand, '5s', {
+      ...baseOptions,
+      isTsumo: false,
+      isMenzen: false,
+      melds: [{ type: 'chii', tiles: ['6s', '7s', '8s'] }],
+    });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.fuBreakdown).toEqual([
+      { label: '副底', fu: 20 },
+      { label: '鳴き手の最低符', fu: 10 },
+    ]);
+  });
+});
+
+describe('structured payment', () => {
+  it('exposes ron amounts with honba and kyotaku portions', () => {
+    const { payment } = calculateFinalScoreWithBonus(3, 30, false, false, 2, 1);
+    expect(payment.ron).toBe(3900);
+    expect(payment.tsumo).toBeNull();
+    expect(payment.honbaPoints).toBe(600);
+    expect(payment.kyotakuPoints).toBe(1000);
+    expect(payment.shares).toEqual([{ payer: 'discarder', points: 4500 }]);
+    expect(payment.total).toBe(5500);
+    expect(payment.limit).toBeNull();
+  });
+
+  it('splits child tsumo between dealer and non-dealers', () => {
+    const { payment } = calculateFinalScoreWithBonus(6, 30, false, true, 1, 0);
+    expect(payment.limit).toBe('跳満');
+    expect(payment.tsumo).toEqual({ oya: 6000, ko: 3000 });
+    expect(payment.shares).toEqual([
+      { payer: 'oya', points: 6100 },
+      { payer: 'ko', points: 3100 },
+      { payer: 'ko', points: 3100 },
+    ]);
+  });
+
+  it('caps hands at mangan once the base points reach 2000', () => {
+    const { payment, totalText } = calculateFinalScoreWithBonus(4, 40, false, false);
+    expect(payment.limit).toBe('満貫');
+    expect(payment.ron).toBe(8000);
+    expect(totalText).toBe('8000点');
+  });
+
+  it('converts payments into per-seat deltas', () => {
+    const tsumo = calculateFinalScoreWithBonus(5, 30, false, true, 1, 1).payment;
+    expect(calculateSeatDeltas(tsumo, { winner: 1, dealer: 0 })).toEqual([-4100, 9300, -2100, -2100]);
+
+    const ron = calculateFinalScoreWithBonus(3, 30, true, false).payment;
+    expect(calculateSeatDeltas(ron, { winner: 0, dealer: 0, discarder: 3 })).toEqual([5800, 0, 0, -5800]);
+  });
+});
+
+describe('responsibility payment (pao)', () => {
+  it('reports pao only when the yakuman was completed by a called meld', () => {
+    const hand: Tile[] = ['東', '東', '南', '南'];
+    const melds: Meld[] = [
+      { type: 'pon', tiles: ['白', '白', '白'], calledTile: '白', from: 'kamicha' },
+      { type: 'kakan', tiles: ['發', '發', '發', '發'], calledTile: '發', from: 'shimocha' },
+      { type: 'pon', tiles: ['中', '中', '中'], calledTile: '中', from: 'toimen' },
+    ];
+    const result = calculateScore(hand, '南', { ...baseOptions, isMenzen: false, melds });
+    if ('error' in result) throw new Error(result.error);
+    expect(result.pao).toEqual({ yaku: ['daisangen'], yakumanCount: 1, points: 32000, from: 'toimen' });
+
+    const closed = calculateScore(['白', '白', '白', '發', '發', '發', '中', '中', '中', ...hand], '南', baseOptions);
+    if ('error' in closed) throw new Error(closed.error);
+    expect(closed.yaku.map(y => y.name)).toContain('大三元');
+    expect(closed.pao).toBeUndefined();
+
+    const plain = calculateScore(['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m', '2p', '3p', '4p', '5s'], '5s', baseOptions);
+    if ('error' in plain) throw new Error(plain.error);
+    expect(plain.pao).toBeUndefined();
+  });
+
+  it('does not report pao when a dragon set is concealed', () => {
+    const calledMelds: Meld[] = [
+      { type: 'pon', tiles: ['白', '白', '白'], calledTile: '白', from: 'toimen' },
+      { type: 'pon', tiles: ['發', '發', '發'], calledTile: '發', from: 'kamicha' },
+    ];
+    const triplet = calculateScore(['中', '中', '中', '東', '東', '南', '南'], '南', {
+      ...baseOptions,
+      isMenzen: false,
+      melds: calledMelds,
+    });
+    if ('error' in triplet) throw new Error(triplet.error);
+    expect(triplet.yaku.map(y => y.name)).toContain('大三元');
+    expect(triplet.pao).toBeUndefined();
+
+    const ankan = calculateScore(['東', '東', '南', '南'], '南', {
+      ...baseOptions,
+      isMenzen: false,
+      melds: [...calledMelds, { type: 'ankan', tiles: ['中', '中', '中', '中'] }],
+    });
+    if ('error' in ankan) throw new Error(ankan.error);
+    expect(ankan.yaku.map(y => y.name)).toContain('大三元');
+    expect(ankan.pao).toBeUndefined();
+  });
+
+  it('reports suukantsu pao only when the fourth kan is a daiminkan', () => {
+    const rules = { ...DEFAULT_RULE_SET, paoSuukantsu: true };
+    const ankans: Meld[] = (['2m', '4p', '6s'] as Tile[]).map(tile => ({ type: 'ankan', tiles: [tile, tile, tile, tile] }));
+    const minkan: Meld = { type: 'minkan', tiles: ['8m', '8m', '8m', '8m'], calledTile: '8m', from: 'toimen' };
+    const score = (melds: Meld[]) => {
+      const result = calculateScore(['5p'], '5p', { ...baseOptions, isMenzen: false, melds }, rules);
+      if ('error' in result) throw new Error(result.error);
+      return result;
+    };
+
+    const early = score([minkan, ...ankans]);
+    expect(early.yaku.map(y => y.name)).toContain('四槓子');
+    expect(early.pao).toBeUndefined();
+    expect(score([...ankans, minkan]).pao).toMatchObject({ yaku: ['suukantsu'], from: 'toimen' });
+  });
+
+  it('splits the covered yakuman on ron and pays the rest normally', () => {
+    const { payment } = calculateFinalScoreWithBonus(13, 0, false, false, 1, 1, DEFAULT_RULE_SET, 2);
+    const deltas = calculatePaoSeatDeltas(payment, 1, { winner: 1, dealer: 0, discarder: 2, responsible: 3 });
+    // 残りの役満32000点と本場は放銃者、包の32000点は放銃者と責任者で半分ずつ
+    expect(deltas).toEqual([0, 32000 + 32000 + 300 + 1000, -32000 - 16000 - 300, -16000]);
+  });
+
+  it('charges the whole tsumo to the responsible player', () => {
+    const { payment } = calculateFinalScoreWithBonus(13, 0, true, true, 2, 0, DEFAULT_RULE_SET, 1);
+    expect(calculatePaoSeatDeltas(payment, 1, { winner: 0, dealer: 0, responsible: 2 })).toEqual([48600, 0, -48600, 0]);
+    expect(calculatePaoSeatDeltas(payment, 1, { winner: 0, dealer: 0, responsible: 0 }))
+      .toEqual(calculateSeatDeltas(payment, { winner: 0, dealer: 0 }));
+  });
+
+  it('lists the pao yakuman allowed by the rules', () => {
+    expect(getPaoYakuIds()).toEqual(['daisangen', 'daisuushii']);
+    expect(getPaoYakuIds({ ...DEFAULT_RULE_SET, paoSuukantsu: true })).toContain('suukantsu');
+    expect(getPaoYakumanCount('daisuushii')).toBe(2);
+    expect(getPaoYakumanCount('daisuushii', { ...DEFAULT_RULE_SET, doubleYakuman: false })).toBe(1);
+  });
+
+  it('charges the same honba as a normal three-player tsumo', () => {
+    const sanma = { ...DEFAULT_RULE_SET, players: 3 as const };
+    const { payment } = calculateFinalScoreWithBonus(13, 0, true, true, 2, 0, sanma, 1);
+    expect(calculateSeatDeltas(payment, { winner: 0, dealer: 0 })).toEqual([32000 + 400, -16200, -16200]);
+    // 包の役満はロンの点数、本場は2人分（200点×2）
+    expect(calculatePaoSeatDeltas(payment, 1, { winner: 0, dealer: 0, responsible: 1 }, sanma)).toEqual([48400, -48400, 0]);
+  });
+});
+
+describe('settleMultiRon', () => {
+  it('pays every winner and gives honba and riichi sticks to the winner nearest the discarder', () => {
+    const claims = [
+      { seat: 0, han: 3, fu: 30 },
+      { seat: 2, han: 1, fu: 30 },
+    ];
+    const settlement = settleMultiRon(claims, { dealer: 0, discarder: 1 }, 1, 2);
+    if ('error' in settlement) throw new Error(settlement.error);
+    expect(settlement.winners).toEqual([2, 0]);
+    // 下家の座席2が本場300点と供託2000点を受け取る
+    expect(settlement.deltas).toEqual([5800, -(1000 + 300) - 5800, 1000 + 300 + 2000, 0]);
+    expect(settlement.payments.map(payment => payment.honba)).toEqual([1, 0]);
+  });
+
+  it('keeps only the nearest winner under the head bump rule', () => {
+    const rules = { ...DEFAULT_RULE_SET, multiRon: 'atamahane' as const };
+    const settlement = settleMultiRon(
+      [{ seat: 1, han: 1, fu: 30, yakumanCount: 1 }, { seat: 0, han: 2, fu: 30 }],
+      { dealer: 1, discarder: 3 },
+      0,
+      0,
+      rules
+    );
+    if ('error' in settlement) throw new Error(settlement.error);
+    expect(settlement.winners).toEqual([0]);
+    expect(settlement.deltas).toEqual([2000, 0, 0, -2000]);
+  });
+
+  it('rejects duplicate winners and a win by the discarder', () => {
+    const seats = { dealer: 0, discarder: 1 };
+    expect(settleMultiRon([], seats)).toMatchObject({ code: 'noWinners' });
+    expect(settleMultiRon([{ seat: 1, han: 1, fu: 30 }], seats)).toMatchObject({ code: 'discarderWins' });
+    expect(settleMultiRon([{ seat: 2, han: 1, fu: 30 }, { seat: 2, han: 2, fu: 30 }], seats, 0, 0, DEFAULT_RULE_SET, 'en'))
+      .toEqual({ code: 'duplicateWinner', error: 'The same winner is listed more than once' });
+    expect(settleMultiRon([{ seat: 3, han: 1, fu: 30 }], seats, 0, 0, { ...DEFAULT_RULE_SET, players: 3 }))
+      .toMatchObject({ code: 'invalidSeat' });
+  });
+});
+
+describe('settleRyuukyoku', () => {
+  it('splits the 3000-point noten payment between tenpai and noten seats', () => {
+    expect(settleRyuukyoku([true, false, false, false], 0).deltas).toEqual([3000, -1000, -1000, -1000]);
+    expect(settleRyuukyoku([true, true, false, false], 0).deltas).toEqual([1500, 1500, -1500, -1500]);
+    expect(settleRyuukyoku([false, true, true, true], 0).deltas).toEqual([-3000, 1000, 1000, 1000]);
+    expect(settleRyuukyoku([true, true, true, true], 0).deltas).toEqual([0, 0, 0, 0]);
+    expect(settleRyuukyoku([false, false, false, false], 0).deltas).toEqual([0, 0, 0, 0]);
+  });
+
+  it('keeps the dealer only when the dealer is tenpai and always adds a honba', () => {
+    expect(settleRyuukyoku([false, true, false, false], 1, 2)).toMatchObject({ isRenchan: true, honba: 3 });
+    expect(settleRyuukyoku([false, true, false, false], 0, 2)).toMatchObject({ isRenchan: false, honba: 3 });
+  });
+});
+
+describe('rule set', () => {
+  it('drops open tanyao when kuitan is disabled', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '3s', '4s', '6m', '6m'];
+    const options: AgariOptions = {
+      ...baseOptions,
+      isTsumo: false,
+      isMenzen: false,
+      melds: [{ type: 'chii', tiles: ['6s', '7s', '8s'] }],
+    };
+
+    expect('error' in calculateScore(hand, '5s', options)).toBe(false);
+    expect(calculateScore(hand, '5s', options, { ...DEFAULT_RULE_SET, kuitan: false })).toEqual({ error: '役がありません', code: 'noYaku' });
+  });
+
+  it('rounds 4 han 30 fu up to mangan with kiriage', () => {
+    expect(calculateFinalScore(4, 30, false, false)).toBe('7700点');
+    expect(calculateFinalScore(4, 30, false, false, { ...DEFAULT_RULE_SET, kiriageMangan: true })).toBe('8000点');
+  });
+
+  it('caps counted yakuman at sanbaiman without kazoe yakuman', () => {
+    const noKazoe = { ...DEFAULT_RULE_SET, kazoeYakuman: false };
+    expect(calculateFinalScoreWithBonus(13, 30, false, false).totalPoints).toBe(32000);
+    expect(calculateFinalScoreWithBonus(13, 30, false, false, 0, 0, noKazoe).totalPoints).toBe(24000);
+  });
+
+  it('scores double yakuman as a single yakuman when disabled', () => {
+    const hand: Tile[] = ['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'];
+    const double = calculateScore(hand, '中', { ...baseOptions, isTsumo: false });
+    const single = calculateScore(hand, '中', { ...baseOptions, isTsumo: false }, { ...DEFAULT_RULE_SET, doubleYakuman: false });
+
+    if ('error' in double || 'error' in single) {
+      throw new Error('expected a winning hand');
+    }
+
+    expect(double.scoreBreakdown?.totalPoints).toBe(64000);
+    expect(single.scoreBreakdown?.totalPoints).toBe(32000);
+  });
+
+  it('counts a double wind pair as 4 fu when configured', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '9s', '9s', '9s', '東', '東', '3s', '4s'];
+    const options = { ...baseOptions, isTsumo: false, isRiichi: true, jikaze: 'ton' };
+    const result = calculateScore(hand, '5s', options, { ...DEFAULT_RULE_SET, renpuuFu: 4 });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.fuBreakdown).toContainEqual({ label: '連風牌雀頭 東', fu: 4 });
+    expect(result.fu).toBe(50);
+  });
+
+  it('applies the configured honba value', () => {
+    const rules = { ...DEFAULT_RULE_SET, honbaValue: 1500 };
+    expect(calculateFinalScoreWithBonus(3, 30, false, false, 1, 0, rules).totalPoints).toBe(3900 + 1500);
+    const tsumo = calculateFinalScoreWithBonus(3, 30, false, true, 1, 0, rules);
+    expect(tsumo.payment.shares.map(share => share.points)).toEqual([2000 + 500, 1000 + 500, 1000 + 500]);
+  });
+
+  it('rounds the per-payer tsumo honba up to 100 points', () => {
+    const rules = { ...DEFAULT_RULE_SET, honbaValue: 500 };
+    const tsumo = calculateFinalScoreWithBonus(3, 30, false, true, 1, 0, rules);
+    expect(tsumo.payment.shares.map(share => share.points)).toEqual([2000 + 200, 1000 + 200, 1000 + 200]);
+    expect(tsumo.totalPoints).toBe(4000 + 600);
+    const { payment } = calculateFinalScoreWithBonus(13, 0, false, true, 1, 0, rules, 1);
+    expect(calculatePaoSeatDeltas(payment, 1, { winner: 1, dealer: 0, responsible: 2 }, rules)).toEqual([0, 32600, -32600, 0]);
+  });
+});
+
+describe('red fives', () => {
+  it('sorts red fives next to the plain fives', () => {
+    expect(sortHand(['0p', '6p', '5p', '4p', '0m', '1m'])).toEqual(['1m', '0m', '4p', '5p', '0p', '6p']);
+  });
+
+  it('treats red fives as fives for the winning shape', () => {
+    expect(isWinningHand(['1m', '2m', '3m', '4p', '0p', '6p', '7s', '8s', '9s', '東', '東', '東', '0s', '5s'])).toBe(true);
+  });
+
+  it('counts each red tile including those inside melds', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '0p', '6p', '7p', '8s', '8s', '2s', '3s'];
+    const options: AgariOptions = {
+      ...baseOptions,
+      isTsumo: false,
+      isMenzen: false,
+      melds: [{ type: 'pon', tiles: ['0p', '5p', '5p'] }],
+    };
+    const twoRedPins = { ...DEFAULT_RULE_SET, redFives: { man: 1, pin: 2, sou: 1 } };
+    const result = calculateScore(hand, '4s', options, twoRedPins);
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.yaku.map(y => y.name)).toContain('赤ドラ2');
+    expect(result.yaku.map(y => y.name)).toContain('断么九');
+  });
+
+  it('ignores red tiles beyond the configured count', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '0p', '6p', '7p', '9s', '9s', '2s', '3s', '0s', '6s', '7s'];
+    const options = { ...baseOptions, isRiichi: true };
+    const noRed = calculateScore(hand, '4s', options, { ...DEFAULT_RULE_SET, redFives: { man: 0, pin: 0, sou: 0 } });
+
+    if ('error' in noRed) {
+      throw new Error(noRed.error);
+    }
+
+    expect(noRed.yaku.some(y => y.name.startsWith('赤ドラ'))).toBe(false);
+  });
+});
+
+describe('yakuman stacking', () => {
+  it('collects daisangen and tsuuiisou together', () => {
+    const hand: Tile[] = ['白', '白', '白', '發', '發', '發', '中', '中', '中', '東', '東', '南', '南'];
+    const result = calculateScore(hand, '南', { ...baseOptions, isTsumo: false });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.yaku.map(y => y.name)).toEqual(expect.arrayContaining(['大三元', '字一色']));
+    expect(result.scoreBreakdown?.limitText).toBe('ダブル役満');
+    expect(result.scoreBreakdown?.totalPoints).toBe(64000);
+  });
+
+  it('reports a triple yakuman for suuankou tanki with tsuuiisou', () => {
+    const hand: Tile[] = ['東', '東', '東', '南', '南', '南', '白', '白', '白', '發', '發', '發', '中'];
+    const result = calculateScore(hand, '中', { ...baseOptions, isTsumo: false });
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.yaku.map(y => y.name)).toEqual(expect.arrayContaining(['四暗刻単騎', '字一色']));
+    expect(result.scoreBreakdown?.limitText).toBe('トリプル役満');
+    expect(result.scoreBreakdown?.totalPoints).toBe(96000);
+  });
+
+  it('keeps only the highest yakuman when stacking is disabled', () => {
+    const hand: Tile[] = ['東', '東', '東', '南', '南', '南', '白', '白', '白', '發', '發', '發', '中'];
+    const rules = { ...DEFAULT_RULE_SET, multipleYakuman: false };
+    const result = calculateScore(hand, '中', { ...baseOptions, isTsumo: false }, rules);
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.yaku.map(y => y.name)).toEqual(['四暗刻単騎']);
+    expect(result.scoreBreakdown?.limitText).toBe('ダブル役満');
+  });
+});
+
+describe('local yaku', () => {
+  const withLocal = (...ids: Array<'daisharin' | 'shiisanPuutaa' | 'sanrenkou' | 'openRiichi'>) => ({
+    ...DEFAULT_RULE_SET,
+    localYaku: Object.fromEntries(ids.map(id => [id, { enabled: true, han: id === 'sanrenkou' ? 2 : id === 'openRiichi' ? 1 : 13 }])),
+  });
+
+  it('ignores local yaku unless enabled', () => {
+    const hand: Tile[] = ['2p', '2p', '3p', '3p', '4p', '4p', '5p', '5p', '6p', '6p', '7p', '7p', '8p'];
+    const plain = calculateScore(hand, '8p', { ...baseOptions });
+    const local = calculateScore(hand, '8p', { ...baseOptions }, withLocal('daisharin'));
+
+    if ('error' in plain || 'error' in local) {
+      throw new Error('expected a winning hand');
+    }
+
+    expect(plain.yaku.map(y => y.name)).not.toContain('大車輪');
+    expect(local.yaku.map(y => y.name)).toEqual(['大車輪']);
+    expect(local.scoreBreakdown?.limitText).toBe('役満');
+  });
+
+  it('scores shiisan puutaa on the first draw', () => {
+    const hand: Tile[] = ['1m', '4m', '7m', '1p', '5p', '9p', '2s', '6s', '東', '南', '西', '白', '發'];
+    const options = { ...baseOptions, isFirstDraw: true };
+
+    expect(calculateScore(hand, '發', options)).toEqual({ error: '和了形ではありません', code: 'notWinningHand' });
+    const result = calculateScore(hand, '發', options, withLocal('shiisanPuutaa'));
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.yaku.map(y => y.name)).toEqual(['十三不塔']);
+    expect(result.interpretation).toBeUndefined();
+  });
+
+  it('adds sanrenkou and open riichi as regular yaku', () => {
+    const hand: Tile[] = ['3m', '3m', '3m', '4m', '4m', '4m', '5m', '5m', '5m', '7p', '8p', '9p', '1s'];
+    const result = calculateScore(
+      hand,
+      '1s',
+      { ...baseOptions, isTsumo: false, isRiichi: true, isOpenRiichi: true },
+      withLocal('sanrenkou', 'openRiichi')
+    );
+
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+
+    expect(result.yaku).toEqual(expect.arrayContaining([
+      { name: '三連刻', han: 2 },
+      { name: 'オープン立直', han: 1 },
+      { name: 'リーチ', han: 1 },
+    ]));
+  });
+});
+
+describe('yaku registry', () => {
+  it('lists every definition with a unique id and valid supersedes targets', () => {
+    const definitions = getYakuDefinitions();
+    const ids = definitions.map(definition => definition.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    definitions.forEach(definition => {
+      (definition.supersedes ?? []).forEach(target => expect(ids).toContain(target));
+    });
+  });
+
+  it('applies open han reductions and supersedes lower yaku', () => {
+    const fullHand: Tile[] = ['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m', '9m', '9m'];
+    const yaku = detectYaku(fullHand, '9m', {
+      ...baseOptions,
+      isMenzen: false,
+      melds: [{ type: 'pon', tiles: ['2m', '2m', '2m'] }],
+    });
+
+    expect(yaku).toEqual(expect.arrayContaining([
+      { name: '一気通貫', han: 1 },
+      { name: '清一色', han: 5 },
+    ]));
+    expect(yaku.map(y => y.name)).not.toContain('混一色');
+  });
+
+  it('accepts additional definitions through registerYaku', () => {
+    registerYaku({
+      id: 'testNorthTriplet',
+      name: '北の刻子',
+      nameEn: 'North Triplet',
+      han: 1,
+      detect: ({ hand }) => hand.filter(tile => tile === '北').length >= 3,
+    });
+
+    const fullHand: Tile[] = ['2m', '3m', '4m', '5p', '6p', '7p', '2s', '3s', '4s', '北', '北', '北', '9s', '9s'];
+    const yaku = detectYaku(fullHand, '9s', { ...baseOptions, bakaze: 'ton', jikaze: 'nan' });
+    expect(yaku).toContainEqual({ name: '北の刻子', han: 1 });
+    expect(() => registerYaku({ ...getYakuDefinitions()[0] })).toThrow();
+  });
+});
+
+describe('three-player mahjong', () => {
+  const sanma = { ...DEFAULT_RULE_SET, players: 3 as const };
+  const bisection = { ...sanma, sanmaTsumo: 'northBisection' as const };
+  const hand: Tile[] = ['1m', '1m', '1m', '9m', '9m', '9m', '2p', '3p', '4p', '5s', '6s', '7s', '白'];
+
+  it('removes 2m to 8m and wraps the 1m dora indicator to 9m', () => {
+    expect(getTiles(sanma).manzu).toEqual(['1m', '9m']);
+    expect(getTiles().manzu).toHaveLength(9);
+    expect(getDoraFromIndicator('1m', sanma)).toBe('9m');
+    expect(getDoraFromIndicator('9m', sanma)).toBe('1m');
+    expect(getDoraFromIndicator('1m')).toBe('2m');
+    expect(getDoraFromIndicator('0p', sanma)).toBe('6p');
+    expect(getDoraFromIndicator('北')).toBe('東');
+    expect(getDoraFromIndicator('中')).toBe('白');
+  });
+
+  it('drops the missing seat from tsumo payments with tsumo loss', () => {
+    const ko = calculateFinalScoreWithBonus(5, 30, false, true, 1, 0, sanma).payment;
+    expect(ko.tsumo).toEqual({ oya: 4000, ko: 2000 });
+    expect(ko.shares).toEqual([
+      { payer: 'oya', points: 4100 },
+      { payer: 'ko', points: 2100 },
+    ]);
+    const oya = calculateFinalScoreWithBonus(5, 30, true, true, 0, 0, sanma);
+    expect(oya.payment.total).toBe(8000);
+    expect(oya.totalText).toBe('4000点オール（合計8000点）');
+  });
+
+  it('splits the missing north payment between the other seats', () => {
+    const ko = calculateFinalScoreWithBonus(5, 30, false, true, 0, 0, bisection).payment;
+    expect(ko.tsumo).toEqual({ oya: 5000, ko: 3000 });
+    expect(ko.total).toBe(8000);
+    const oya = calculateFinalScoreWithBonus(1, 30, true, true, 0, 0, bisection).payment;
+    expect(oya.tsumo).toEqual({ oya: null, ko: 800 });
+    expect(calculateSeatDeltas(oya, { winner: 0, dealer: 0 })).toEqual([1600, -800, -800]);
+  });
+
+  it('counts kita as dora, including when north is the dora', () => {
+    const options: AgariOptions = { ...baseOptions, isTsumo: false, isRiichi: true, nukidora: 2, doraTiles: ['北'] };
+    const result = calculateScore(hand, '白', options, sanma);
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+    expect(result.yaku).toContainEqual({ name: 'ドラ2', han: 2 });
+    expect(result.yaku).toContainEqual({ name: '抜きドラ2', han: 2 });
+  });
+
+  it('rejects tiles, calls and kita that the mode does not allow', () => {
+    const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+    const withChii: AgariOptions = {
+      ...baseOptions,
+      melds: [{ type: 'chii', tiles: ['2p', '3p', '4p'] }],
+    };
+    expect(codes(validateAgari(['2m', ...hand.slice(1, 10)], '白', withChii, sanma).errors))
+      .toEqual(['sanmaTile', 'sanmaChii']);
+    expect(codes(validateAgari(hand, '白', { ...baseOptions, nukidora: 1 }).errors)).toEqual(['nukidoraWithoutSanma']);
+    expect(codes(validateAgari(hand, '白', { ...baseOptions, nukidora: 5 }, sanma).errors)).toEqual(['tileLimit']);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateMcrScore, isMcrWinningHand, type McrOptions, type McrResult } from '../lib/mcr';
+import type { Tile } from '../lib/mahjong';
+
+const baseOptions: McrOptions = {
+  isTsumo: false,
+  prevalentWind: 'ton',
+  seatWind: 'nan',
+};
+
+const score = (hand: Tile[], winningTile: Tile, options: Partial<McrOptions> = {}): McrResult => {
+  const result = calculateMcrScore(hand, winningTile, { ...baseOptions, ...options });
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
+
+const fanIds = (result: McrResult) => result.fans.map(fan => fan.id).sort();
+
+describe('calculateMcrScore', () => {
+  it('scores a pure straight without counting the chows it contains again', () => {
+    const result = score(['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m', '2p', '3p', '4p', '5s'], '5s');
+    expect(fanIds(result)).toEqual(['allChows', 'concealedHand', 'pureStraight', 'singleWait']);
+    expect(result.fan).toBe(21);
+    expect(result.payment).toEqual({ discarder: 29, others: 8, total: 45 });
+  });
+
+  it('scores seven pairs, thirteen orphans and nine gates as whole-hand fans', () => {
+    const pairs = score(['1m', '1m', '3p', '3p', '5p', '5p', '7s', '7s', '9s', '9s', '東', '東', '中'], '中', { isTsumo: true });
+    expect(fanIds(pairs)).toEqual(['allTypes', 'selfDrawn', 'sevenPairs']);
+    expect(pairs.payment).toEqual({ discarder: null, others: 39, total: 117 });
+
+    const orphans = score(['1m', '9m', '1p', '9p', '1s', '9s', '東', '南', '西', '北', '白', '發', '中'], '中');
+    expect(fanIds(orphans)).toEqual(['thirteenOrphans']);
+    expect(orphans.fan).toBe(88);
+
+    const gates = score(['1m', '1m', '1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m', '9m', '9m'], '5m');
+    expect(fanIds(gates)).toEqual(['nineGates']);
+  });
+
+  it('recognizes knitted hands', () => {
+    const honors = score(['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9s', '南', '西', '白', '發'], '中');
+    expect(fanIds(honors)).toEqual(['knittedStraight', 'lesserHonorsAndKnittedTiles']);
+
+    const straight = score(['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9s', '中', '中', '中', '北'], '北');
+    expect(fanIds(straight)).toEqual(['allTypes', 'concealedHand', 'dragonPung', 'knittedStraight', 'singleWait']);
+  });
+
+  it('counts melded pungs, winds and voided suits', () => {
+    const result = score(['西', '西', '西', '2m', '3m', '4m', '9p'], '9p', {
+      melds: [
+        { type: 'pon', tiles: ['東', '東', '東'] },
+        { type: 'pon', tiles: ['南', '南', '南'] },
+      ],
+    });
+    expect(fanIds(result)).toEqual(['bigThreeWinds', 'oneVoidedSuit', 'prevalentWind', 'seatWind', 'singleWait']);
+    expect(result.fan).toBe(18);
+  });
+
+  it('requires 8 fan before flowers are added', () => {
+    const hand: Tile[] = ['2m', '3m', '4m', '6m', '7m', '8m', '3p', '4p', '5p', '6s', '7s', '9s', '9s'];
+    expect(calculateMcrScore(hand, '8s', { ...baseOptions, flowers: 8 })).toMatchObject({ code: 'belowMinimum' });
+
+    const withFlowers = score(['2m', '3m', '4m', '6m', '7m', '8m', '3p', '4p', '5p', '1s', '1s', '7s', '8s'], '9s', {
+      isLastTile: true,
+      isRobbingKong: true,
+      flowers: 2,
+    });
+    expect(fanIds(withFlowers)).toEqual(['allChows', 'concealedHand', 'flowerTiles', 'robbingTheKong']);
+    expect(withFlowers.fan).toBe(14);
+  });
+
+  it('falls back to chicken hand when no other fan applies', () => {
+    const melds: McrOptions['melds'] = [
+      { type: 'chii', tiles: ['3s', '4s', '5s'] },
+      { type: 'pon', tiles: ['2p', '2p', '2p'] },
+    ];
+    const chicken = score(['2m', '3m', '4m', '6p', '7p', '東', '東'], '8p', { melds, prevalentWind: 'nan', seatWind: 'sha' });
+    expect(fanIds(chicken)).toEqual(['chickenHand']);
+    expect(chicken.payment).toEqual({ discarder: 16, others: 8, total: 32 });
+
+    const lastClaim = score(['2m', '3m', '4m', '6p', '7p', '東', '東'], '8p', {
+      melds,
+      prevalentWind: 'nan',
+      seatWind: 'sha',
+      isLastTileClaim: true,
+    });
+    expect(fanIds(lastClaim)).toEqual(['lastTileClaim']);
+  });
+
+  it('validates the input like the riichi calculator', () => {
+    expect(calculateMcrScore(['1m'], '1m', baseOptions)).toMatchObject({ code: 'handSize' });
+    expect(calculateMcrScore(['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m', '2p', '3p', '4p', '5s'], null, baseOptions))
+      .toMatchObject({ code: 'missingWinningTile' });
+    expect(calculateMcrScore(['1m', '2m', '3m', '4m', '5m', '6m', '7m', '8m', '9m', '2p', '3p', '4p', '5s'], '6s', baseOptions))
+      .toMatchObject({ code: 'notWinningHand' });
+  });
+});
+
+describe('isMcrWinningHand', () => {
+  it('accepts MCR-only forms', () => {
+    expect(isMcrWinningHand(['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9s', '東', '南', '西', '白', '發'])).toBe(true);
+    expect(isMcrWinningHand(['1m', '4m', '7m', '2p', '5p', '8p', '3s', '6s', '9s', '東', '南', '西', '白', '白'])).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Meld } from '../lib/mahjong';
+import { formatHandNotation, parseHandNotation, parseTileCode } from '../lib/notation';
+
+describe('parseHandNotation', () => {
+  it('parses suits, honors and red fives', () => {
+    const parsed = parseHandNotation('123m406p789s11z 東東');
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.tiles).toEqual(['1m', '2m', '3m', '4p', '0p', '6p', '7s', '8s', '9s', '東', '東', '東', '東']);
+  });
+
+  it('reads melds, concealed kan shorthand and the winning tile', () => {
+    const parsed = parseHandNotation('23m 55z [123p] [0555s] (777m) +1m');
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.tiles).toEqual(['2m', '3m', '白', '白']);
+    expect(parsed.melds).toEqual([
+      { type: 'chii', tiles: ['1p', '2p', '3p'], calledTile: '1p', from: 'kamicha' },
+      { type: 'minkan', tiles: ['0s', '5s', '5s', '5s'], calledTile: '0s' },
+      { type: 'ankan', tiles: ['7m', '7m', '7m', '7m'] },
+    ]);
+    expect(parsed.winningTile).toBe('1m');
+  });
+
+  it('reports malformed input with its position', () => {
+    expect(parseHandNotation('123')).toEqual({ error: '「123」の後に m / p / s / z がありません', start: 0, end: 3 });
+    expect(parseHandNotation('11m 8z')).toEqual({ error: '「8z」は牌として読み取れません', start: 4, end: 6 });
+    expect(parseHandNotation('[124m]')).toEqual({ error: '鳴き「[124m]」は面子になっていません', start: 0, end: 6 });
+    expect(parseHandNotation('11m [123m')).toEqual({ error: '「[」の対応する括弧がありません', start: 4, end: 5 });
+    expect(parseHandNotation('[123m@t]')).toEqual({ error: '鳴き「[123m@t]」は面子になっていません', start: 0, end: 8 });
+    expect(parseHandNotation('[555p@x]')).toMatchObject({ start: 0, end: 8 });
+  });
+
+  it('reads added kan, the called tile and the meld source', () => {
+    const parsed = parseHandNotation('11m <5555p@t> [312s] [中中中@下家] (777m)');
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.melds).toEqual([
+      { type: 'kakan', tiles: ['5p', '5p', '5p', '5p'], calledTile: '5p', from: 'toimen' },
+      { type: 'chii', tiles: ['3s', '1s', '2s'], calledTile: '3s', from: 'kamicha' },
+      { type: 'pon', tiles: ['中', '中', '中'], calledTile: '中', from: 'shimocha' },
+      { type: 'ankan', tiles: ['7m', '7m', '7m', '7m'] },
+    ]);
+  });
+
+  it('localizes error messages', () => {
+    expect(parseHandNotation('123', 'en')).toEqual({ error: 'No m / p / s / z after "123"', start: 0, end: 3 });
+    expect(parseHandNotation('[124m]', 'en')).toEqual({ error: 'The meld "[124m]" is not a valid set', start: 0, end: 6 });
+    expect(parseHandNotation('11m +1m2m', 'en')).toMatchObject({ error: 'Specify exactly one winning tile' });
+  });
+
+  it('accepts Japanese tile names and dora indicators', () => {
+    const parsed = parseHandNotation('一萬二萬三萬 ①②③ 7索8索9索 赤五筒 東東東 ［白白白］ ＋5p ドラ：4m 北');
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(parsed.tiles).toEqual(['1m', '2m', '3m', '1p', '2p', '3p', '7s', '8s', '9s', '0p', '東', '東', '東']);
+    expect(parsed.melds).toEqual([{ type: 'pon', tiles: ['白', '白', '白'], calledTile: '白' }]);
+    expect(parsed.winningTile).toBe('5p');
+    expect(parsed.doraIndicators).toEqual(['4m', '北']);
+  });
+});
+
+describe('formatHandNotation', () => {
+  it('round-trips a hand with melds and red fives', () => {
+    const text = '234m05p11z [789s] (5555m) +5p';
+    const parsed = parseHandNotation(text);
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+
+    expect(formatHandNotation(parsed)).toBe(text);
+    expect(formatHandNotation({ tiles: ['1m'], doraIndicators: ['9p'] })).toBe('1m dora:9p');
+  });
+
+  it('keeps meld types, called tiles and sources through a round trip', () => {
+    const melds: Meld[] = [
+      { type: 'kakan', tiles: ['0p', '5p', '5p', '5p'], calledTile: '5p', from: 'shimocha' },
+      { type: 'minkan', tiles: ['9m', '9m', '9m', '9m'], calledTile: '9m', from: 'toimen' },
+      { type: 'chii', tiles: ['1s', '2s', '3s'], calledTile: '2s', from: 'kamicha' },
+      { type: 'ankan', tiles: ['東', '東', '東', '東'] },
+    ];
+    const text = formatHandNotation({ tiles: ['白', '白'], melds });
+    expect(text).toBe('55z <5055p@s> [9999m@t] [213s] (1111z)');
+
+    const parsed = parseHandNotation(text);
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+    expect(parsed.melds.map(({ type, calledTile, from }) => ({ type, calledTile, from })))
+      .toEqual(melds.map(({ type, calledTile, from }) => ({ type, calledTile, from })));
+    expect(formatHandNotation(parsed)).toBe(text);
+  });
+
+  it('parses single tile codes', () => {
+    expect(parseTileCode('0s')).toBe('0s');
+    expect(parseTileCode('chun')).toBe('中');
+    expect(parseTileCode('7z')).toBe('中');
+    expect(parseTileCode('12m')).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+
+import { calculateFinalScore, DEFAULT_RULE_SET } from '../lib/mahjong';
+import { applyRulePreset, findRulePresetId, getRulePreset, RULE_PRESETS } from '../lib/rulePresets';
+
+describe('rule presets', () => {
+  it('identifies each preset from its rule set', () => {
+    RULE_PRESETS.forEach(preset => {
+      expect(findRulePresetId({ ...preset.rules })).toBe(preset.id);
+    });
+    expect(findRulePresetId({ ...getRulePreset('tenhou').rules, kuitan: false })).toBeNull();
+    expect(findRulePresetId({ ...getRulePreset('mleague').rules, players: 3, sanmaTsumo: 'northBisection' })).toBe('mleague');
+  });
+
+  it('keeps local and custom yaku when applying or matching a preset', () => {
+    const rules = {
+      ...DEFAULT_RULE_SET,
+      localYaku: { renhou: { enabled: true, han: 13 } },
+      customYaku: [{ id: 'chunPair', name: '紅一点', han: 1, when: { pair: '中' } }],
+    };
+    const applied = applyRulePreset(rules, 'mleague');
+    expect(applied.kiriageMangan).toBe(true);
+    expect(applied.localYaku).toEqual(rules.localYaku);
+    expect(applied.customYaku).toEqual(rules.customYaku);
+    expect(findRulePresetId(applied)).toBe('mleague');
+  });
+
+  it('applies kiriage mangan only for the M-League preset', () => {
+    expect(calculateFinalScore(4, 30, false, false, getRulePreset('mleague').rules)).toBe('8000点');
+    expect(calculateFinalScore(4, 30, false, false, getRulePreset('tenhou').rules)).toBe('7700点');
+  });
+
+  it('disables red fives for tournament presets', () => {
+    expect(getRulePreset('wrc').rules.redFives).toEqual({ man: 0, pin: 0, sou: 0 });
+    expect(getRulePreset('ema').rules.kazoeYakuman).toBe(false);
+    expect(getRulePreset('ema').rules.uma).not.toEqual(DEFAULT_RULE_SET.uma);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_RULE_SET } from '../lib/mahjong';
+import { applyMultiRon, applyRyuukyoku, applyWin, calculateStandings, createSession, declareRiichi, getSeatWind, type SessionState } from '../lib/session';
+
+const names = ['A', 'B', 'C', 'D'];
+
+const expectState = (result: SessionState | { error: string }): SessionState => {
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
+
+describe('session scorekeeper', () => {
+  it('starts every player with the rule starting points', () => {
+    const session = createSession(names, 'hanchan');
+    expect(session.scores).toEqual([25000, 25000, 25000, 25000]);
+    expect(getSeatWind(session, 0)).toBe('ton');
+    expect(getSeatWind(session, 3)).toBe('pei');
+  });
+
+  it('applies ron payments with riichi sticks and rotates the dealer', () => {
+    let session = createSession(names, 'hanchan');
+    session = expectState(declareRiichi(session, 1));
+    expect(session.scores[1]).toBe(24000);
+
+    session = expectState(applyWin(session, { winner: 1, discarder: 2, isTsumo: false, han: 3, fu: 30 }));
+    expect(session.scores).toEqual([25000, 24000 + 3900 + 1000, 25000 - 3900, 25000]);
+    expect(session.records[0].deltas).toEqual([0, 3900, -3900, 0]);
+    expect(session).toMatchObject({ kyoku: 2, dealer: 1, honba: 0, kyotaku: 0, riichi: [false, false, false, false] });
+    expect(getSeatWind(session, 1)).toBe('ton');
+  });
+
+  it('keeps the dealer and adds honba on a dealer win', () => {
+    let session = createSession(names, 'hanchan');
+    session = expectState(applyWin(session, { winner: 0, isTsumo: true, han: 2, fu: 30 }));
+    expect(session.scores).toEqual([25000 + 3000, 24000, 24000, 24000]);
+    expect(session).toMatchObject({ kyoku: 1, dealer: 0, honba: 1 });
+
+    session = expectState(applyWin(session, { winner: 2, isTsumo: true, han: 1, fu: 30 }));
+    // 1本場は1人100点ずつ上乗せ
+    expect(session.records[1].deltas).toEqual([-600, -400, 1400, -400]);
+    expect(session).toMatchObject({ kyoku: 2, dealer: 1, honba: 0 });
+  });
+
+  it('settles exhaustive draws and carries riichi sticks into the next hand', () => {
+    let session = createSession(names, 'hanchan');
+    session = expectState(declareRiichi(session, 2));
+    expect(applyRyuukyoku(session, [true, false, false, false])).toMatchObject({ code: 'riichiNoten' });
+
+    session = expectState(applyRyuukyoku(session, [false, false, true, false]));
+    expect(session.scores).toEqual([24000, 24000, 24000 + 3000, 24000]);
+    expect(session.records[0]).toMatchObject({ type: 'draw', deltas: [-1000, -1000, 2000, -1000] });
+    // 親が不聴なので親が流れ、本場と供託は残る
+    expect(session).toMatchObject({ kyoku: 2, dealer: 1, honba: 1, kyotaku: 1 });
+
+    session = expectState(applyRyuukyoku(session, [false, true, false, false]));
+    expect(session).toMatchObject({ kyoku: 2, dealer: 1, honba: 2, kyotaku: 1 });
+
+    session = expectState(applyWin(session, { winner: 3, discarder: 0, isTsumo: false, han: 1, fu: 30 }));
+    expect(session.records[2].deltas).toEqual([-1000 - 600, 0, 0, 1000 + 600 + 1000]);
+  });
+
+  it('settles double ron and keeps the dealer when the dealer is among the winners', () => {
+    let session = createSession(names, 'hanchan');
+    session = expectState(declareRiichi(session, 3));
+    session = expectState(applyMultiRon(session, 2, [
+      { seat: 1, han: 2, fu: 30 },
+      { seat: 0, han: 1, fu: 30 },
+    ]));
+    expect(session.records[0]).toMatchObject({ type: 'multiRon', discarder: 2, deltas: [1500 + 1000, 2000, -3500, -1000] });
+    expect(session.scores).toEqual([25000 + 2500, 25000 + 2000, 25000 - 3500, 24000]);
+    expect(session).toMatchObject({ kyoku: 1, dealer: 0, honba: 1, kyotaku: 0 });
+
+    expect(applyMultiRon(session, 2, [{ seat: 2, han: 1, fu: 30 }])).toMatchObject({ code: 'invalidWinners' });
+    expect(applyMultiRon(session, 2, [{ seat: 1, han: 1, fu: 30 }, { seat: 1, han: 1, fu: 30 }]))
+      .toMatchObject({ code: 'invalidWinners' });
+  });
+
+  it('records responsibility payments for yakuman', () => {
+    const session = createSession(names, 'hanchan');
+    expect(applyWin(session, { winner: 1, isTsumo: true, han: 3, fu: 30, pao: 2 })).toMatchObject({ code: 'invalidPao' });
+
+    const next = expectState(applyWin(session, { winner: 1, discarder: 3, isTsumo: false, han: 13, fu: 0, yakumanCount: 1, pao: 2 }));
+    expect(next.records[0]).toMatchObject({ pao: 2, deltas: [0, 32000, -16000, -16000] });
+  });
+
+  it('rejects three-player rules', () => {
+    const session = createSession(names, 'hanchan');
+    const sanma = { ...DEFAULT_RULE_SET, players: 3 as const };
+    expect(applyWin(session, { winner: 1, discarder: 0, isTsumo: false, han: 1, fu: 30 }, sanma))
+      .toMatchObject({ code: 'fourPlayerRules' });
+    expect(applyMultiRon(session, 2, [{ seat: 1, han: 1, fu: 30 }], sanma)).toMatchObject({ code: 'fourPlayerRules' });
+  });
+
+  it('finishes after the last hand or when a player goes below zero', () => {
+    let session = createSession(names, 'tonpuusen');
+    for (let kyoku = 1; kyoku <= 4; kyoku++) {
+      const dealer = session.dealer;
+      session = expectState(applyWin(session, { winner: (dealer + 1) % 4, discarder: (dealer + 2) % 4, isTsumo: false, han: 1, fu: 30 }));
+    }
+    expect(session.isFinished).toBe(true);
+    expect(applyWin(session, { winner: 0, isTsumo: true, han: 1, fu: 30 })).toMatchObject({ code: 'finished' });
+
+    const busted = expectState(applyWin(createSession(names, 'hanchan'), { winner: 1, discarder: 0, isTsumo: false, han: 1, fu: 30, yakumanCount: 2 }));
+    expect(busted.scores[0]).toBe(25000 - 64000);
+    expect(busted.isFinished).toBe(true);
+  });
+
+  it('rejects invalid input', () => {
+    const session = createSession(names, 'hanchan');
+    expect(applyWin(session, { winner: 0, isTsumo: false, han: 1, fu: 30 })).toMatchObject({ code: 'missingDiscarder' });
+    expect(applyWin(session, { winner: 0, discarder: 1, isTsumo: false, han: 0, fu: 30 })).toMatchObject({ code: 'invalidHanFu' });
+    const riichi = expectState(declareRiichi(session, 0));
+    expect(declareRiichi(riichi, 0, 'en')).toMatchObject({
+      code: 'alreadyRiichi',
+      error: 'This player has already declared riichi this hand',
+    });
+  });
+});
+
+describe('calculateStandings', () => {
+  it('adds oka to first place and applies uma by placement', () => {
+    const standings = calculateStandings([45300, 18200, 32100, 4400]);
+    expect(standings.map(({ seat, rank, score }) => ({ seat, rank, score }))).toEqual([
+      { seat: 0, rank: 1, score: 15.3 + 20 + 20 },
+      { seat: 2, rank: 2, score: 2.1 + 10 },
+      { seat: 1, rank: 3, score: -11.8 - 10 },
+      { seat: 3, rank: 4, score: -25.6 - 20 },
+    ]);
+    expect(standings.reduce((sum, standing) => sum + standing.score, 0)).toBeCloseTo(0);
+  });
+
+  it('breaks ties by seat order and gives leftover riichi sticks to first place', () => {
+    const rules = { ...DEFAULT_RULE_SET, startingPoints: 30000, returnPoints: 30000, uma: [15, 5, -5, -15] as [number, number, number, number] };
+    const standings = calculateStandings([28000, 31000, 31000, 28000], 2, rules);
+    expect(standings.map(standing => standing.seat)).toEqual([1, 2, 0, 3]);
+    expect(standings[0]).toMatchObject({ points: 33000, score: 3 + 15 });
+    expect(standings[1]).toMatchObject({ points: 31000, score: 1 + 5 });
+    expect(standings[3].score).toBe(-2 - 15);
+  });
+});